@@ -17,6 +17,16 @@ import NewBooking from "@/pages/new-booking";
 import EmployeeManagement from "@/pages/employee-management";
 import PermissionsMapPage from "@/pages/permissions-map";
 import WorkflowManagementPage from "@/pages/workflow-management";
+import MergeRulesManagementPage from "@/pages/merge-rules-management";
+import ApprovalsPage from "@/pages/approvals";
+import DriverManagementPage from "@/pages/driver-management";
+import DriverRosterPage from "@/pages/driver-roster";
+import MaintenancePage from "@/pages/maintenance";
+import FleetCalendarPage from "@/pages/fleet-calendar";
+import FleetDashboardPage from "@/pages/fleet-dashboard";
+import GeofencesPage from "@/pages/geofences";
+import TripVariancePage from "@/pages/trip-variance";
+import SessionsPage from "@/pages/sessions";
 import { Layout } from "@/components/layout";
 import PerformanceSnapshotPage from "@/pages/performance-snapshot";
 import FuelPricePage from "@/pages/fuel-price-page";
@@ -73,20 +83,30 @@ function Router() {
       <Route path="/" component={() => <ProtectedRoute component={Home} />} />
       <Route path="/new-booking" component={() => <ProtectedRoute component={NewBooking} />} />
       <Route path="/bookings" component={() => <ProtectedRoute component={BookingHistory} />} />
+      <Route path="/approvals" component={() => <ProtectedRoute component={ApprovalsPage} />} />
       <Route path="/vehicle-groups" component={() => <ProtectedRoute component={VehicleGroupManagement} />} />
       <Route path="/vehicle-types" component={() => <ProtectedRoute component={VehicleTypeManagement} />} />
       <Route path="/vehicle-type-management" component={() => <ProtectedRoute component={VehicleTypeManagement} />} />
       <Route path="/vehicle-master" component={() => <ProtectedRoute component={VehicleMasterManagement} />} />
       <Route path="/vehicle-master-management" component={() => <ProtectedRoute component={VehicleMasterManagement} />} />
+      <Route path="/drivers" component={() => <ProtectedRoute component={DriverManagementPage} />} />
+      <Route path="/driver-roster" component={() => <ProtectedRoute component={DriverRosterPage} />} />
+      <Route path="/maintenance" component={() => <ProtectedRoute component={MaintenancePage} />} />
+      <Route path="/fleet-calendar" component={() => <ProtectedRoute component={FleetCalendarPage} />} />
+      <Route path="/fleet-dashboard" component={() => <ProtectedRoute component={FleetDashboardPage} />} />
+      <Route path="/geofences" component={() => <ProtectedRoute component={GeofencesPage} />} />
       <Route path="/user-master" component={() => <ProtectedRoute component={UserMasterPage} />} />
       <Route path="/employees" component={() => <ProtectedRoute component={EmployeeManagement} />} />
       <Route path="/permissions-map" component={() => <ProtectedRoute component={PermissionsMapPage} />} />
       <Route path="/workflows" component={() => <ProtectedRoute component={WorkflowManagementPage} />} />
+      <Route path="/merge-rules" component={() => <ProtectedRoute component={MergeRulesManagementPage} />} />
       <Route path="/performance" component={() => <ProtectedRoute component={PerformanceSnapshotPage} />} />
       <Route path="/fuel-prices" component={() => <ProtectedRoute component={FuelPricePage} />} />
       <Route path="/fuel-management" component={() => <ProtectedRoute component={FuelManagementPage} />} />
       <Route path="/debug" component={() => <ProtectedRoute component={DebugPage} />} />
       <Route path="/bookings-data" component={() => <ProtectedRoute component={BookingsData} />} />
+      <Route path="/reports/trip-variance" component={() => <ProtectedRoute component={TripVariancePage} />} />
+      <Route path="/sessions" component={() => <ProtectedRoute component={SessionsPage} />} />
       <Route path="/booking-diagnostics" component={() => <ProtectedRoute component={BookingDiagnosticsPage} />} />
       <Route path="/booking-debug" component={() => <ProtectedRoute component={BookingDebugPage} />} />
 
@@ -69,7 +69,8 @@ export function AchievementBadge({
           <p className="font-semibold">{achievement.name}</p>
           <p className="text-xs text-gray-300">{achievement.description}</p>
           <p className="text-xs mt-1">
-            Progress: {Math.round(achievement.progress * 100)}%
+            {achievement.scope === "department" ? "Department progress" : "Your progress"}:{" "}
+            {Math.round(achievement.progress * 100)}%
           </p>
         </div>
 
@@ -1,16 +1,53 @@
 import * as React from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { AchievementBadge } from "./achievement-badge";
 import { EmiratesSpinner } from "@/components/ui/emirates-spinner";
-import type { Achievement } from "@shared/schema/achievements";
+import type { Achievement, AchievementUnlock } from "@shared/schema/achievements";
 import { motion } from "framer-motion";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+// Achievements are re-evaluated hourly on the server; check for new unlocks every minute
+const UNLOCK_POLL_MS = 60 * 1000;
 
 export function AchievementsDashboard() {
+  const queryClient = useQueryClient();
+  const [justUnlocked, setJustUnlocked] = React.useState<Set<number>>(new Set());
+
   const { data: achievements, isLoading } = useQuery<Achievement[]>({
     queryKey: ["/api/achievements"],
   });
 
+  const { data: unlocks } = useQuery<AchievementUnlock[]>({
+    queryKey: ["/api/achievements/unlocks"],
+    refetchInterval: UNLOCK_POLL_MS,
+  });
+
+  const markSeenMutation = useMutation({
+    mutationFn: async (ids: number[]) => {
+      const response = await apiRequest("POST", "/api/achievements/unlocks/seen", { ids });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/achievements/unlocks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/achievements"] });
+    },
+  });
+
+  // Announce each unlock once, then celebrate its badge until the page is left
+  React.useEffect(() => {
+    if (!unlocks?.length || markSeenMutation.isPending) return;
+    unlocks.forEach((unlock) => {
+      toast({
+        title: `Achievement unlocked: ${unlock.name}`,
+        description: unlock.description,
+      });
+    });
+    setJustUnlocked((current) => new Set([...Array.from(current), ...unlocks.map((u) => u.achievementId)]));
+    markSeenMutation.mutate(unlocks.map((u) => u.id));
+  }, [unlocks]);
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -64,7 +101,7 @@ export function AchievementsDashboard() {
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: index * 0.1 }}
             >
-              <AchievementBadge achievement={achievement} showAnimation={true} />
+              <AchievementBadge achievement={achievement} showAnimation={justUnlocked.has(achievement.id)} />
             </motion.div>
           ))}
         </div>
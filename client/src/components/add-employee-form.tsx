@@ -10,6 +10,7 @@ import { toast } from "@/hooks/use-toast";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { Department, EmployeeDesignation, EmployeeType, EmployeeRole, HierarchyLevel, Region } from "@shared/schema";
 import { useState } from "react";
+import { getAuthHeaders } from "@/lib/queryClient";
 
 interface AddEmployeeFormProps {
   onSuccess?: () => void;
@@ -71,6 +72,7 @@ export function AddEmployeeForm({ onSuccess, initialData }: AddEmployeeFormProps
       const response = await fetch(initialData ? `/api/employees/${initialData.id}` : '/api/employees', {
         method: initialData ? 'PUT' : 'POST',
         headers: {
+          ...getAuthHeaders(),
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(data),
@@ -0,0 +1,232 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  ApproverDelegation,
+  Employee,
+  InsertApproverDelegation,
+  insertApproverDelegationSchema,
+} from "@shared/schema";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+// Select value for "no delegate"; stored as null so approvals escalate instead
+const NO_DELEGATE = "NONE";
+const DELEGATIONS_QUERY_KEY = ["/api/approval-delegations"];
+
+interface ApproverDelegationFormProps {
+  onSuccess?: () => void;
+}
+
+export function ApproverDelegationForm({ onSuccess }: ApproverDelegationFormProps) {
+  const queryClient = useQueryClient();
+  const form = useForm<InsertApproverDelegation>({
+    resolver: zodResolver(insertApproverDelegationSchema),
+    defaultValues: {
+      delegate_id: null,
+      start_date: new Date(),
+      end_date: new Date(),
+      reason: "",
+      is_active: true,
+    },
+  });
+
+  const { data: approvers } = useQuery<Employee[]>({
+    queryKey: ["/api/employees/approvers"],
+  });
+
+  const { data: delegations } = useQuery<ApproverDelegation[]>({
+    queryKey: DELEGATIONS_QUERY_KEY,
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: InsertApproverDelegation) => {
+      const response = await apiRequest("POST", "/api/approval-delegations", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DELEGATIONS_QUERY_KEY });
+      toast({
+        title: "Success",
+        description: "Out-of-office delegation saved",
+      });
+      form.reset();
+      onSuccess?.();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/approval-delegations/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DELEGATIONS_QUERY_KEY });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activeDelegations = delegations?.filter(
+    (delegation) => delegation.is_active && new Date(delegation.end_date) >= new Date()
+  );
+
+  const delegateName = (id: number | null) =>
+    id ? approvers?.find((employee) => employee.id === id)?.employee_name || `Employee #${id}` : "No delegate (escalate)";
+
+  return (
+    <div className="space-y-6">
+      {activeDelegations && activeDelegations.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Current and upcoming</h3>
+          {activeDelegations.map((delegation) => (
+            <div key={delegation.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+              <div>
+                <div className="font-medium">{delegateName(delegation.delegate_id)}</div>
+                <div className="text-muted-foreground">
+                  {format(new Date(delegation.start_date), "dd MMM yyyy HH:mm")} – {format(new Date(delegation.end_date), "dd MMM yyyy HH:mm")}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                {new Date(delegation.start_date) <= new Date() && <Badge>Active</Badge>}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => cancelMutation.mutate(delegation.id)}
+                  disabled={cancelMutation.isPending}
+                  className="text-red-600"
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="delegate_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Delegate</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === NO_DELEGATE ? null : parseInt(value))}
+                  defaultValue={field.value ? field.value.toString() : NO_DELEGATE}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select delegate" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_DELEGATE}>No delegate (escalate instead)</SelectItem>
+                    {approvers?.map((employee) => (
+                      <SelectItem key={employee.id} value={employee.id.toString()}>
+                        {employee.employee_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="start_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>From</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="datetime-local"
+                      value={field.value ? format(new Date(field.value), "yyyy-MM-dd'T'HH:mm") : ""}
+                      onChange={(e) => field.onChange(new Date(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="end_date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Until</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="datetime-local"
+                      value={field.value ? format(new Date(field.value), "yyyy-MM-dd'T'HH:mm") : ""}
+                      onChange={(e) => field.onChange(new Date(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="reason"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reason</FormLabel>
+                <FormControl>
+                  <Input {...field} value={field.value ?? ""} placeholder="e.g. Annual leave" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button
+            type="submit"
+            className="w-full bg-gradient-to-r from-[#004990] to-[#0066cc]"
+            disabled={mutation.isPending}
+          >
+            {mutation.isPending ? "Saving..." : "Save Delegation"}
+          </Button>
+        </form>
+      </Form>
+    </div>
+  );
+}
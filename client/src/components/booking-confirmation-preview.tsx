@@ -1,13 +1,15 @@
 import React from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { format } from "date-fns";
-import { MapPin, Calendar, Clock, Users, Package, Truck, PlaneTakeoff, User, Phone, Milestone, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { MapPin, Calendar, Clock, Users, Package, Truck, PlaneTakeoff, User, Phone, Milestone, AlertTriangle, CheckCircle2, Receipt } from "lucide-react";
 import { BookingType, Priority } from "@shared/schema";
 import { Location } from "@/components/booking-form";
+import { apiRequest } from "@/lib/queryClient";
 
 interface BookingConfirmationPreviewProps {
   open: boolean;
@@ -19,6 +21,7 @@ interface BookingConfirmationPreviewProps {
     priority: string;
     pickupLocation: Location | null;
     dropoffLocation: Location | null;
+    waypoints?: Location[];
     pickupTime: string;
     dropoffTime: string;
     employeeName: string;
@@ -39,6 +42,17 @@ interface BookingConfirmationPreviewProps {
   isSubmitting: boolean;
 }
 
+type PriceEstimate = {
+  vehicleType: { id: number; name: string; assigned: boolean };
+  distanceKm: number;
+  drivingMinutes: number;
+  idleMinutes: number;
+  items: { code: string; label: string; quantity: number; unit: string; rate: number; amount: number }[];
+  total: number;
+  co2Kg: number;
+  currency: string;
+};
+
 // Function to render priority badge with appropriate styling
 const PriorityBadge = ({ priority }: { priority: string }) => {
   switch (priority) {
@@ -91,6 +105,29 @@ export function BookingConfirmationPreview({
     return null;
   }, [bookingData.pickupLocation, bookingData.dropoffLocation]);
   
+  // Itemised estimate from the server's pricing engine, on the cheapest vehicle type that fits
+  const estimateRequest = bookingData.pickupLocation && bookingData.dropoffLocation ? {
+    booking_type: bookingData.bookingType,
+    pickup_location: bookingData.pickupLocation,
+    dropoff_location: bookingData.dropoffLocation,
+    waypoints: bookingData.waypoints || [],
+    trip_type: bookingData.tripType,
+    with_driver: bookingData.withDriver,
+    num_passengers: bookingData.numPassengers,
+    pickup_time: bookingData.pickupTime || undefined,
+    dropoff_time: bookingData.dropoffTime || undefined
+  } : null;
+
+  const { data: estimate, isLoading: isEstimating, error: estimateError } = useQuery<PriceEstimate>({
+    queryKey: ["/api/pricing/estimate", estimateRequest],
+    queryFn: async () => {
+      const response = await apiRequest("POST", "/api/pricing/estimate", estimateRequest);
+      return response.json();
+    },
+    enabled: open && estimateRequest !== null,
+    retry: false
+  });
+
   // Format timestamps for readable display
   const formattedPickupTime = bookingData.pickupTime ? 
     format(new Date(bookingData.pickupTime), 'PPP p') : 'Not specified';
@@ -208,7 +245,7 @@ export function BookingConfirmationPreview({
                     <Truck className="h-5 w-5 text-primary" />
                     <div>
                       <p className="text-sm font-medium">Estimated Distance</p>
-                      <p className="text-sm">{estimatedDistance} km</p>
+                      <p className="text-sm">{estimate ? estimate.distanceKm.toFixed(1) : estimatedDistance} km</p>
                     </div>
                   </div>
                 )}
@@ -234,6 +271,52 @@ export function BookingConfirmationPreview({
             </CardContent>
           </Card>
           
+          {/* Estimated cost breakdown */}
+          {estimateRequest && (
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-medium flex items-center">
+                    <Receipt className="h-5 w-5 text-primary mr-2" />
+                    Estimated Cost
+                  </h3>
+                  {estimate && (
+                    <Badge variant="outline">{estimate.vehicleType.name}</Badge>
+                  )}
+                </div>
+                {isEstimating ? (
+                  <p className="text-sm text-muted-foreground">Calculating estimate...</p>
+                ) : estimateError || !estimate ? (
+                  <p className="text-sm text-muted-foreground">
+                    The cost could not be estimated. It will be calculated once a vehicle is assigned.
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {estimate.items.map((item) => (
+                      <div key={item.code} className="flex items-start justify-between text-sm">
+                        <div>
+                          <p>{item.label}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {item.quantity} {item.unit} × {item.rate} {estimate.currency}
+                          </p>
+                        </div>
+                        <p>{item.amount.toFixed(2)} {estimate.currency}</p>
+                      </div>
+                    ))}
+                    <Separator />
+                    <div className="flex items-center justify-between text-sm font-medium">
+                      <p>Total</p>
+                      <p>{estimate.total.toFixed(2)} {estimate.currency}</p>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      About {estimate.drivingMinutes} min driving, {estimate.co2Kg} kg CO2. The final cost depends on the vehicle assigned.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Booking type specific details */}
           {bookingData.bookingType === BookingType.PASSENGER && (
             <Card>
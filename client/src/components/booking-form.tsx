@@ -1046,6 +1046,7 @@ export function BookingForm() {
         priority: data.priority,
         pickupLocation: data.pickupLocation,
         dropoffLocation: data.dropoffLocation,
+        waypoints,
         pickupTime: data.pickupTime,
         dropoffTime: data.dropoffTime,
         employeeName: data.employeeName,
@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import type { BookingStatusHistory } from "@shared/schema";
+
+interface BookingTimelineProps {
+  bookingId: number;
+  createdAt: Date | string;
+}
+
+const statusColors: Record<string, string> = {
+  new: "bg-slate-400",
+  pending: "bg-yellow-500",
+  approved: "bg-blue-500",
+  confirmed: "bg-indigo-500",
+  in_progress: "bg-purple-500",
+  completed: "bg-green-500",
+  cancelled: "bg-red-500",
+  rejected: "bg-red-500",
+};
+
+const formatStatus = (status: string) =>
+  status.split("_").map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+export function BookingTimeline({ bookingId, createdAt }: BookingTimelineProps) {
+  const { data: history, isLoading, error } = useQuery<BookingStatusHistory[]>({
+    queryKey: [`/api/bookings/${bookingId}/timeline`],
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading timeline...</p>;
+  }
+
+  if (error) {
+    return <p className="text-sm text-red-500">Unable to load timeline</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      <li className="ml-4">
+        <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${statusColors.new}`} />
+        <p className="text-sm font-medium">Created</p>
+        <p className="text-xs text-muted-foreground">{format(new Date(createdAt), "MMM d, yyyy HH:mm")}</p>
+      </li>
+      {history?.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full ${statusColors[entry.status] || "bg-slate-400"}`} />
+          <p className="text-sm font-medium">
+            {entry.previous_status ? `${formatStatus(entry.previous_status)} → ` : ""}
+            {formatStatus(entry.status)}
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {format(new Date(entry.created_at), "MMM d, yyyy HH:mm")}
+            {entry.changed_by ? ` · by user #${entry.changed_by}` : ""}
+          </p>
+          {entry.reason && <p className="text-xs mt-1">{entry.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -34,6 +34,7 @@ import {
   Search,
   X,
 } from "lucide-react";
+import { getAuthHeaders } from "@/lib/queryClient";
 
 interface DebugEntry {
   timestamp: string;
@@ -141,7 +142,7 @@ function SessionDetails({ sessionId }: { sessionId: string }) {
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['bookingSession', sessionId],
     queryFn: async () => {
-      const response = await fetch(`/api/debug/booking-sessions/${sessionId}`);
+      const response = await fetch(`/api/debug/booking-sessions/${sessionId}`, { headers: getAuthHeaders() });
       if (!response.ok) {
         throw new Error('Failed to fetch session details');
       }
@@ -314,7 +315,7 @@ export function BookingDebugPanel() {
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['bookingSessions'],
     queryFn: async () => {
-      const response = await fetch('/api/debug/booking-sessions');
+      const response = await fetch('/api/debug/booking-sessions', { headers: getAuthHeaders() });
       if (!response.ok) {
         throw new Error('Failed to fetch debug sessions');
       }
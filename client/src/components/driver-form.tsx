@@ -0,0 +1,360 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  Driver,
+  DriverStatus,
+  InsertDriver,
+  insertDriverSchema,
+} from "@shared/schema";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+interface DriverFormProps {
+  onSuccess?: () => void;
+  initialData?: Driver | null;
+}
+
+// Lists are edited as comma-separated text
+const toList = (value: string) => value.split(",").map((item) => item.trim()).filter(Boolean);
+
+export function DriverForm({ onSuccess, initialData }: DriverFormProps) {
+  const queryClient = useQueryClient();
+  const form = useForm<InsertDriver>({
+    resolver: zodResolver(insertDriverSchema),
+    defaultValues: {
+      employee_id: initialData?.employee_id || "",
+      name: initialData?.name || "",
+      license_number: initialData?.license_number || "",
+      license_type: initialData?.license_type || "",
+      license_expiry: initialData ? new Date(initialData.license_expiry) : undefined,
+      phone: initialData?.phone || "",
+      email: initialData?.email || "",
+      status: initialData?.status || DriverStatus.AVAILABLE,
+      current_location: initialData?.current_location || {
+        address: "",
+        coordinates: { lat: 0, lng: 0 },
+      },
+      specializations: initialData?.specializations || [],
+      preferred_vehicle_types: initialData?.preferred_vehicle_types || [],
+      rating: initialData?.rating ?? null,
+      is_active: initialData?.is_active ?? true,
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: InsertDriver) => {
+      const response = await apiRequest(
+        initialData ? "PATCH" : "POST",
+        initialData ? `/api/drivers/${initialData.id}` : "/api/drivers",
+        data
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/drivers"] });
+      toast({
+        title: "Success",
+        description: `Driver ${initialData ? "updated" : "created"} successfully`,
+      });
+      form.reset();
+      onSuccess?.();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="employee_id"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Employee ID</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="Enter employee ID" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="Enter driver name" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="+971..." />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" {...field} placeholder="driver@example.com" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="license_number"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>License Number</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="license_type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>License Type</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="e.g. Light Vehicle" />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="license_expiry"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>License Expiry</FormLabel>
+                <FormControl>
+                  <Input
+                    type="date"
+                    value={field.value ? format(new Date(field.value), "yyyy-MM-dd") : ""}
+                    onChange={(e) => field.onChange(e.target.value ? new Date(e.target.value) : undefined)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select status" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.values(DriverStatus).map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {status}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="current_location.address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current Location</FormLabel>
+              <FormControl>
+                <Input {...field} placeholder="Base or last known address" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="current_location.coordinates.lat"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Latitude</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={field.value}
+                    onChange={(e) => field.onChange(Number(e.target.value))}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="current_location.coordinates.lng"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Longitude</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="any"
+                    value={field.value}
+                    onChange={(e) => field.onChange(Number(e.target.value))}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="specializations"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Specializations</FormLabel>
+                <FormControl>
+                  <Input
+                    defaultValue={(field.value || []).join(", ")}
+                    onChange={(e) => field.onChange(toList(e.target.value))}
+                    placeholder="e.g. Ambulance, Hazardous Materials"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="preferred_vehicle_types"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Preferred Vehicle Types</FormLabel>
+                <FormControl>
+                  <Input
+                    defaultValue={(field.value || []).join(", ")}
+                    onChange={(e) => field.onChange(toList(e.target.value))}
+                    placeholder="Vehicle type codes or names"
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="rating"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Rating (1-5)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="5"
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value === "" ? null : Number(e.target.value))}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="is_active"
+            render={({ field }) => (
+              <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                <FormLabel>Active</FormLabel>
+                <FormControl>
+                  <Switch checked={field.value ?? true} onCheckedChange={field.onChange} />
+                </FormControl>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full bg-gradient-to-r from-[#004990] to-[#0066cc]"
+          disabled={mutation.isPending}
+        >
+          {mutation.isPending
+            ? "Saving..."
+            : initialData
+            ? "Update Driver"
+            : "Create Driver"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
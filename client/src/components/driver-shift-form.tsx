@@ -0,0 +1,300 @@
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import {
+  Driver,
+  DriverShift,
+  DriverShiftStatus,
+  DriverShiftType,
+  InsertDriverShift,
+  insertDriverShiftSchema,
+} from "@shared/schema";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Plus, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+interface DriverShiftFormProps {
+  drivers: Driver[];
+  onSuccess?: () => void;
+  initialData?: DriverShift | null;
+  // Prefills a new shift from the roster cell that was clicked
+  defaults?: { driverId?: number; date?: Date };
+}
+
+const toInputValue = (value?: Date | string | null) =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : "";
+
+const atHour = (date: Date, hour: number) => {
+  const result = new Date(date);
+  result.setHours(hour, 0, 0, 0);
+  return result;
+};
+
+export function DriverShiftForm({ drivers, onSuccess, initialData, defaults }: DriverShiftFormProps) {
+  const queryClient = useQueryClient();
+  const day = defaults?.date || new Date();
+  const form = useForm<InsertDriverShift>({
+    resolver: zodResolver(insertDriverShiftSchema),
+    defaultValues: {
+      driver_id: initialData?.driver_id ?? defaults?.driverId,
+      shift_type: initialData?.shift_type || DriverShiftType.REGULAR,
+      status: initialData?.status || DriverShiftStatus.SCHEDULED,
+      planned_start: initialData ? new Date(initialData.planned_start) : atHour(day, 8),
+      planned_end: initialData ? new Date(initialData.planned_end) : atHour(day, 17),
+      breaks: initialData?.breaks || [],
+      notes: initialData?.notes || "",
+    },
+  });
+
+  const breaks = useFieldArray({ control: form.control, name: "breaks" });
+
+  const mutation = useMutation({
+    mutationFn: async (data: InsertDriverShift) => {
+      const response = await apiRequest(
+        initialData ? "PUT" : "POST",
+        initialData ? `/api/driver-shifts/${initialData.id}` : "/api/driver-shifts",
+        data
+      );
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/driver-shifts"] });
+      toast({
+        title: "Success",
+        description: `Shift ${initialData ? "updated" : "created"} successfully`,
+      });
+      onSuccess?.();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="driver_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Driver</FormLabel>
+              <Select
+                onValueChange={(value) => field.onChange(Number(value))}
+                defaultValue={field.value ? String(field.value) : undefined}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select driver" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {drivers.map((driver) => (
+                    <SelectItem key={driver.id} value={String(driver.id)}>
+                      {driver.name} ({driver.employee_id})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="shift_type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={DriverShiftType.REGULAR}>Regular</SelectItem>
+                    <SelectItem value={DriverShiftType.OVERTIME}>Overtime</SelectItem>
+                    <SelectItem value={DriverShiftType.LEAVE}>Leave</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.values(DriverShiftStatus).map((status) => (
+                      <SelectItem key={status} value={status} className="capitalize">
+                        {status}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="planned_start"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Start</FormLabel>
+                <FormControl>
+                  <Input
+                    type="datetime-local"
+                    value={toInputValue(field.value)}
+                    onChange={(e) => field.onChange(new Date(e.target.value))}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="planned_end"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>End</FormLabel>
+                <FormControl>
+                  <Input
+                    type="datetime-local"
+                    value={toInputValue(field.value)}
+                    onChange={(e) => field.onChange(new Date(e.target.value))}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <FormLabel>Breaks</FormLabel>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                const start = new Date(form.getValues("planned_start"));
+                start.setHours(start.getHours() + 4);
+                const end = new Date(start.getTime() + 30 * 60 * 1000);
+                breaks.append({ start: start.toISOString(), end: end.toISOString() });
+              }}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Break
+            </Button>
+          </div>
+          {breaks.fields.map((item, index) => (
+            <div key={item.id} className="flex items-start gap-2">
+              <FormField
+                control={form.control}
+                name={`breaks.${index}.start`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input
+                        type="datetime-local"
+                        value={toInputValue(field.value)}
+                        onChange={(e) => field.onChange(new Date(e.target.value).toISOString())}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name={`breaks.${index}.end`}
+                render={({ field }) => (
+                  <FormItem className="flex-1">
+                    <FormControl>
+                      <Input
+                        type="datetime-local"
+                        value={toInputValue(field.value)}
+                        onChange={(e) => field.onChange(new Date(e.target.value).toISOString())}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="button" variant="ghost" size="icon" onClick={() => breaks.remove(index)}>
+                <Trash2 className="h-4 w-4 text-red-500" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea {...field} value={field.value || ""} placeholder="Optional" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="w-full bg-gradient-to-r from-[#004990] to-[#0066cc]"
+          disabled={mutation.isPending}
+        >
+          {mutation.isPending
+            ? "Saving..."
+            : initialData
+            ? "Update Shift"
+            : "Create Shift"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
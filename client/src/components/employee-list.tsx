@@ -35,6 +35,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Badge } from "@/components/ui/badge";
+import { getAuthHeaders } from "@/lib/queryClient";
 
 interface Employee {
   id: number;
@@ -66,7 +67,7 @@ export function EmployeeList() {
     queryKey: ['/api/employees'],
     queryFn: async () => {
       try {
-        const response = await fetch('/api/employees');
+        const response = await fetch('/api/employees', { headers: getAuthHeaders() });
         if (!response.ok) {
           const errorData = await response.json();
           throw new Error(errorData.error || 'Failed to fetch employees');
@@ -86,6 +87,7 @@ export function EmployeeList() {
       const response = await fetch(`/api/employees/${employeeId}`, {
         method: 'DELETE',
         headers: {
+          ...getAuthHeaders(),
           'Content-Type': 'application/json',
         },
       });
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { motion, AnimatePresence } from "framer-motion";
 import { Battery, Fuel, MapPin, AlertTriangle } from "lucide-react";
 import { VehicleType } from "@shared/schema";
+import { LiveFleetMap } from "@/components/live-fleet-map";
 
 // Status indicator components with animations
 const StatusIndicator = ({ status }: { status: string }) => {
@@ -108,6 +109,8 @@ export function FleetDashboard() {
         </div>
       </div>
 
+      <LiveFleetMap />
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <AnimatePresence>
           {vehicles?.map((vehicle) => (
@@ -0,0 +1,151 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Geofence, GeofenceCategory, InsertGeofence, insertGeofenceSchema } from "@shared/schema";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+// Shape drawn on the map, or taken from the geofence being edited
+export type GeofenceGeometry = Pick<InsertGeofence, "shape" | "center" | "radius_m" | "polygon">;
+
+interface GeofenceFormProps {
+  geometry: GeofenceGeometry;
+  geofence?: Geofence;
+  onSuccess?: () => void;
+}
+
+export const categoryLabels: Record<string, string> = {
+  [GeofenceCategory.DEPOT]: "Depot",
+  [GeofenceCategory.HOSPITAL]: "Hospital",
+  [GeofenceCategory.SITE]: "Site",
+  [GeofenceCategory.RESTRICTED]: "Restricted Zone",
+};
+
+export function GeofenceForm({ geometry, geofence, onSuccess }: GeofenceFormProps) {
+  const queryClient = useQueryClient();
+  const form = useForm<InsertGeofence>({
+    resolver: zodResolver(insertGeofenceSchema),
+    defaultValues: {
+      ...geometry,
+      name: geofence?.name ?? "",
+      category: geofence?.category ?? GeofenceCategory.SITE,
+      dwell_minutes: geofence?.dwell_minutes ?? 15,
+      location_id: geofence?.location_id ?? null,
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: InsertGeofence) => {
+      const response = geofence
+        ? await apiRequest("PUT", `/api/geofences/${geofence.id}`, data)
+        : await apiRequest("POST", "/api/geofences", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/geofences"] });
+      toast({
+        title: "Success",
+        description: geofence ? "Geofence updated" : "Geofence created",
+      });
+      form.reset();
+      onSuccess?.();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {geometry.shape === "circle"
+            ? `Circle with a ${geometry.radius_m} m radius`
+            : `Polygon with ${geometry.polygon?.length ?? 0} points`}
+        </p>
+
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} placeholder="e.g. Main Depot" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(categoryLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="dwell_minutes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Dwell after (minutes)</FormLabel>
+                <FormControl>
+                  <Input type="number" min="1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full bg-gradient-to-r from-[#004990] to-[#0066cc]"
+          disabled={mutation.isPending}
+        >
+          {mutation.isPending ? "Saving..." : geofence ? "Update Geofence" : "Create Geofence"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -27,9 +27,22 @@ import {
   GitFork,
   Database,
   Droplet, // Import the Droplet icon for fuel management
-  Gauge
+  Gauge,
+  Merge,
+  ClipboardCheck,
+  IdCard,
+  CalendarClock,
+  Hammer,
+  CalendarRange,
+  Radar,
+  Hexagon,
+  Scale,
+  MonitorSmartphone
 } from "lucide-react";
 import { motion } from "framer-motion";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useAuth } from "@/hooks/use-auth";
+import { Permission } from "@shared/schema/permissions";
 
 const AnimatedIcon = ({ children, className = "" }: { children: React.ReactNode; className?: string }) => (
   <motion.div
@@ -46,6 +59,8 @@ export function Layout({ children }: { children: React.ReactNode }) {
   const [isAdminMenuOpen, setIsAdminMenuOpen] = React.useState(false);
   const [isLoading, setIsLoading] = React.useState(false);
   const [location] = useLocation();
+  const { can } = usePermissions();
+  const { logout } = useAuth();
 
   React.useEffect(() => {
     setIsLoading(true);
@@ -97,6 +112,17 @@ export function Layout({ children }: { children: React.ReactNode }) {
                   </Link>
                 </SidebarMenuItem>
                 
+                <SidebarMenuItem>
+                  <Link href="/approvals">
+                    <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold">
+                      <AnimatedIcon className="text-white">
+                        <ClipboardCheck className="w-4 h-4" />
+                      </AnimatedIcon>
+                      <span>Approvals</span>
+                    </SidebarMenuButton>
+                  </Link>
+                </SidebarMenuItem>
+
                 <SidebarMenuItem>
                   <Link href="/bookings-data">
                     <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold">
@@ -108,123 +134,206 @@ export function Layout({ children }: { children: React.ReactNode }) {
                   </Link>
                 </SidebarMenuItem>
 
-                {/* Vehicle Management Section */}
-                <SidebarMenuItem>
-                  <SidebarMenuButton
-                    className="w-full text-white hover:bg-white/10 text-[15px] font-bold"
-                    onClick={() => setIsVehicleMenuOpen(!isVehicleMenuOpen)}
-                  >
-                    <AnimatedIcon className="text-white">
-                      <Car className="w-4 h-4" />
-                    </AnimatedIcon>
-                    <span>Vehicle Management</span>
-                    {isVehicleMenuOpen ? (
-                      <ChevronDown className="w-4 h-4 ml-auto" />
-                    ) : (
-                      <ChevronRight className="w-4 h-4 ml-auto" />
-                    )}
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
+                {can(Permission.REPORTS_VIEW) && (
+                  <SidebarMenuItem>
+                    <Link href="/reports/trip-variance">
+                      <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold">
+                        <AnimatedIcon className="text-white">
+                          <Scale className="w-4 h-4" />
+                        </AnimatedIcon>
+                        <span>Trip Variance</span>
+                      </SidebarMenuButton>
+                    </Link>
+                  </SidebarMenuItem>
+                )}
 
-                {isVehicleMenuOpen && (
+                {/* Vehicle Management Section */}
+                {can(Permission.FLEET_VIEW) && (
                   <>
                     <SidebarMenuItem>
-                      <Link href="/vehicle-groups">
-                        <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
-                          <Package className="w-4 h-4" />
-                          <span>Vehicle Groups</span>
-                        </SidebarMenuButton>
-                      </Link>
-                    </SidebarMenuItem>
-                    <SidebarMenuItem>
-                      <Link href="/vehicle-types">
-                        <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
-                          <Wrench className="w-4 h-4" />
-                          <span>Vehicle Types</span>
-                        </SidebarMenuButton>
-                      </Link>
-                    </SidebarMenuItem>
-                    <SidebarMenuItem>
-                      <Link href="/vehicle-master">
-                        <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
-                          <Database className="w-4 h-4" />
-                          <span>Vehicle Master</span>
-                        </SidebarMenuButton>
-                      </Link>
+                      <SidebarMenuButton
+                        className="w-full text-white hover:bg-white/10 text-[15px] font-bold"
+                        onClick={() => setIsVehicleMenuOpen(!isVehicleMenuOpen)}
+                      >
+                        <AnimatedIcon className="text-white">
+                          <Car className="w-4 h-4" />
+                        </AnimatedIcon>
+                        <span>Vehicle Management</span>
+                        {isVehicleMenuOpen ? (
+                          <ChevronDown className="w-4 h-4 ml-auto" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4 ml-auto" />
+                        )}
+                      </SidebarMenuButton>
                     </SidebarMenuItem>
+
+                    {isVehicleMenuOpen && (
+                      <>
+                        <SidebarMenuItem>
+                          <Link href="/vehicle-groups">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <Package className="w-4 h-4" />
+                              <span>Vehicle Groups</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/vehicle-types">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <Wrench className="w-4 h-4" />
+                              <span>Vehicle Types</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/vehicle-master">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <Database className="w-4 h-4" />
+                              <span>Vehicle Master</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/drivers">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <IdCard className="w-4 h-4" />
+                              <span>Drivers</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/driver-roster">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <CalendarClock className="w-4 h-4" />
+                              <span>Driver Roster</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/maintenance">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <Hammer className="w-4 h-4" />
+                              <span>Maintenance</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/fleet-calendar">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <CalendarRange className="w-4 h-4" />
+                              <span>Fleet Calendar</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/fleet-dashboard">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <Radar className="w-4 h-4" />
+                              <span>Live Fleet</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/geofences">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <Hexagon className="w-4 h-4" />
+                              <span>Geofences</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                      </>
+                    )}
                   </>
                 )}
 
                 {/* Admin Management Section */}
-                <SidebarMenuItem>
-                  <SidebarMenuButton
-                    className="w-full text-white hover:bg-white/10 text-[15px] font-bold"
-                    onClick={() => setIsAdminMenuOpen(!isAdminMenuOpen)}
-                  >
-                    <AnimatedIcon className="text-white">
-                      <Users className="w-4 h-4" />
-                    </AnimatedIcon>
-                    <span>Admin Management</span>
-                    {isAdminMenuOpen ? (
-                      <ChevronDown className="w-4 h-4 ml-auto" />
-                    ) : (
-                      <ChevronRight className="w-4 h-4 ml-auto" />
-                    )}
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
-
-                {isAdminMenuOpen && (
+                {can(Permission.USERS_MANAGE, Permission.EMPLOYEES_MANAGE, Permission.WORKFLOWS_MANAGE, Permission.FUEL_PRICES_MANAGE) && (
                   <>
                     <SidebarMenuItem>
-                      <Link href="/user-master">
-                        <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
-                          <UserCog className="w-4 h-4" />
-                          <span>User Master</span>
-                        </SidebarMenuButton>
-                      </Link>
-                    </SidebarMenuItem>
-                    <SidebarMenuItem>
-                      <Link href="/employees">
-                        <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                      <SidebarMenuButton
+                        className="w-full text-white hover:bg-white/10 text-[15px] font-bold"
+                        onClick={() => setIsAdminMenuOpen(!isAdminMenuOpen)}
+                      >
+                        <AnimatedIcon className="text-white">
                           <Users className="w-4 h-4" />
-                          <span>Employee Management</span>
-                        </SidebarMenuButton>
-                      </Link>
-                    </SidebarMenuItem>
-                    <SidebarMenuItem>
-                      <Link href="/permissions-map">
-                        <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
-                          <Network className="w-4 h-4" />
-                          <span>User Permissions Map</span>
-                        </SidebarMenuButton>
-                      </Link>
-                    </SidebarMenuItem>
-                    <SidebarMenuItem>
-                      <Link href="/workflows">
-                        <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
-                          <GitFork className="w-4 h-4" />
-                          <span>Workflow Management</span>
-                        </SidebarMenuButton>
-                      </Link>
-                    </SidebarMenuItem>
-                    <SidebarMenuItem>
-                      <Link href="/fuel-management">
-                        <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
-                          <Droplet className="w-4 h-4" />
-                          <span>Fuel Management</span>
-                        </SidebarMenuButton>
-                      </Link>
+                        </AnimatedIcon>
+                        <span>Admin Management</span>
+                        {isAdminMenuOpen ? (
+                          <ChevronDown className="w-4 h-4 ml-auto" />
+                        ) : (
+                          <ChevronRight className="w-4 h-4 ml-auto" />
+                        )}
+                      </SidebarMenuButton>
                     </SidebarMenuItem>
+
+                    {isAdminMenuOpen && (
+                      <>
+                        <SidebarMenuItem>
+                          <Link href="/user-master">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <UserCog className="w-4 h-4" />
+                              <span>User Master</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/employees">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <Users className="w-4 h-4" />
+                              <span>Employee Management</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/permissions-map">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <Network className="w-4 h-4" />
+                              <span>User Permissions Map</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/workflows">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <GitFork className="w-4 h-4" />
+                              <span>Workflow Management</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/merge-rules">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <Merge className="w-4 h-4" />
+                              <span>Trip Merge Rules</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                        <SidebarMenuItem>
+                          <Link href="/fuel-management">
+                            <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold pl-8">
+                              <Droplet className="w-4 h-4" />
+                              <span>Fuel Management</span>
+                            </SidebarMenuButton>
+                          </Link>
+                        </SidebarMenuItem>
+                      </>
+                    )}
                   </>
                 )}
 
+                <SidebarMenuItem>
+                  <Link href="/sessions">
+                    <SidebarMenuButton className="w-full text-white hover:bg-white/10 text-[15px] font-bold">
+                      <AnimatedIcon className="text-white">
+                        <MonitorSmartphone className="w-4 h-4" />
+                      </AnimatedIcon>
+                      <span>Active Sessions</span>
+                    </SidebarMenuButton>
+                  </Link>
+                </SidebarMenuItem>
+
                 <div className="mt-auto">
-                  <LogoutButton
-                    onClick={() => {
-                      localStorage.removeItem("token");
-                      window.location.href = "/auth/login";
-                    }}
-                  />
+                  <LogoutButton onClick={logout} />
                 </div>
               </SidebarMenu>
             </SidebarContent>
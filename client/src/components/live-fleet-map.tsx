@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { GoogleMap, InfoWindow, Marker, useJsApiLoader } from "@react-google-maps/api";
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getGoogleMapsApiKey, MAP_CONFIG } from "@/lib/map-config";
+import { toast } from "@/hooks/use-toast";
+import { VehicleStatus } from "@shared/schema";
+
+type LiveVehicle = {
+  vehicleId: number;
+  vehicleNumber: string;
+  name: string;
+  status: string;
+  position: { lat: number; lng: number } | null;
+  speed: number | null;
+  heading: number | null;
+  ignition: boolean | null;
+  recordedAt: string | null;
+  currentBooking: {
+    id: number;
+    reference_no: string | null;
+    status: string;
+    pickup_time: string | null;
+  } | null;
+};
+
+type FleetMessage =
+  | { type: "snapshot"; vehicles: LiveVehicle[] }
+  | { type: "vehicle_update"; vehicle: LiveVehicle }
+  | { type: "geofence_alert"; alert: { eventId: number; geofenceName: string; vehicleCode: string; registrationNumber: string; occurredAt: string } };
+
+const FLEET_QUERY_KEY = ["/api/telematics/fleet"];
+
+// Wait before reopening a dropped socket
+const RECONNECT_DELAY_MS = 5000;
+
+const vehicleStatusColors: Record<string, string> = {
+  [VehicleStatus.AVAILABLE]: "#16a34a",
+  [VehicleStatus.IN_SERVICE]: "#2563eb",
+  [VehicleStatus.MAINTENANCE]: "#f59e0b",
+  [VehicleStatus.OUT_OF_SERVICE]: "#dc2626",
+};
+
+// Keeps the fleet query in sync with the server's socket pushes; returns whether it is connected
+function useFleetSocket(): boolean {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let closed = false;
+
+    const connect = () => {
+      const token = localStorage.getItem("auth_token");
+      if (!token) {
+        return;
+      }
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws/fleet?token=${encodeURIComponent(token)}`);
+
+      socket.onopen = () => setConnected(true);
+      socket.onmessage = (event) => {
+        const message: FleetMessage = JSON.parse(event.data);
+        if (message.type === "snapshot") {
+          queryClient.setQueryData<LiveVehicle[]>(FLEET_QUERY_KEY, message.vehicles);
+        } else if (message.type === "vehicle_update") {
+          queryClient.setQueryData<LiveVehicle[]>(FLEET_QUERY_KEY, (current = []) =>
+            current.some((v) => v.vehicleId === message.vehicle.vehicleId)
+              ? current.map((v) => (v.vehicleId === message.vehicle.vehicleId ? message.vehicle : v))
+              : [...current, message.vehicle]
+          );
+        } else if (message.type === "geofence_alert") {
+          queryClient.invalidateQueries({ queryKey: ["/api/geofences/alerts"] });
+          toast({
+            title: "Restricted zone entered",
+            description: `${message.alert.vehicleCode} (${message.alert.registrationNumber}) entered ${message.alert.geofenceName}`,
+            variant: "destructive",
+          });
+        }
+      };
+      socket.onclose = () => {
+        setConnected(false);
+        if (!closed) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [queryClient]);
+
+  return connected;
+}
+
+// Arrow pointing along the vehicle's heading, or a dot when it has none
+function markerIcon(vehicle: LiveVehicle): google.maps.Symbol {
+  const color = vehicleStatusColors[vehicle.status] || "#6b7280";
+  const moving = vehicle.heading !== null && (vehicle.speed ?? 0) > 0;
+  return {
+    path: moving ? google.maps.SymbolPath.FORWARD_CLOSED_ARROW : google.maps.SymbolPath.CIRCLE,
+    rotation: vehicle.heading ?? 0,
+    scale: moving ? 5 : 7,
+    fillColor: color,
+    fillOpacity: 1,
+    strokeColor: "#ffffff",
+    strokeWeight: 2,
+  };
+}
+
+export function LiveFleetMap() {
+  const connected = useFleetSocket();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const apiKey = getGoogleMapsApiKey();
+
+  const { isLoaded, loadError } = useJsApiLoader({
+    googleMapsApiKey: apiKey,
+    libraries: MAP_CONFIG.libraries as any[],
+  });
+
+  // Seeds the map before the socket's snapshot arrives; the socket keeps it current afterwards
+  const { data: fleet = [] } = useQuery<LiveVehicle[]>({
+    queryKey: FLEET_QUERY_KEY,
+    staleTime: Infinity,
+  });
+
+  const located = fleet.filter((v) => v.position);
+  const selected = located.find((v) => v.vehicleId === selectedId) || null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Live Fleet Map</CardTitle>
+        <div className="flex flex-wrap items-center gap-2">
+          {Object.entries(vehicleStatusColors).map(([status, color]) => (
+            <Badge key={status} variant="outline" className="gap-1">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+              {status}: {fleet.filter((v) => v.status === status).length}
+            </Badge>
+          ))}
+          <Badge variant="outline" className={connected ? "bg-green-500/10" : "bg-yellow-500/10"}>
+            {connected ? "Live" : "Reconnecting..."}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loadError || !apiKey ? (
+          <p className="py-12 text-center text-muted-foreground">Map unavailable: Google Maps could not be loaded</p>
+        ) : !isLoaded ? (
+          <p className="py-12 text-center text-muted-foreground">Loading map...</p>
+        ) : (
+          <GoogleMap
+            mapContainerClassName="h-[480px] w-full rounded-md"
+            center={MAP_CONFIG.defaultCenter}
+            zoom={MAP_CONFIG.defaultZoom}
+            options={MAP_CONFIG.options}
+            onClick={() => setSelectedId(null)}
+          >
+            {located.map((vehicle) => (
+              <Marker
+                key={vehicle.vehicleId}
+                position={vehicle.position!}
+                icon={markerIcon(vehicle)}
+                title={`${vehicle.vehicleNumber} · ${vehicle.status}`}
+                onClick={() => setSelectedId(vehicle.vehicleId)}
+              />
+            ))}
+
+            {selected && (
+              <InfoWindow position={selected.position!} onCloseClick={() => setSelectedId(null)}>
+                <div className="space-y-1 text-sm text-gray-900">
+                  <p className="font-semibold">{selected.vehicleNumber}</p>
+                  <p className="text-xs">{selected.name}</p>
+                  <p>
+                    <span
+                      className="mr-1 inline-block h-2 w-2 rounded-full"
+                      style={{ backgroundColor: vehicleStatusColors[selected.status] || "#6b7280" }}
+                    />
+                    {selected.status}
+                  </p>
+                  {selected.speed !== null && <p>{Math.round(selected.speed)} km/h{selected.ignition === false && " · ignition off"}</p>}
+                  {selected.recordedAt && (
+                    <p className="text-xs text-gray-500">
+                      Updated {formatDistanceToNow(new Date(selected.recordedAt), { addSuffix: true })}
+                    </p>
+                  )}
+                  {selected.currentBooking ? (
+                    <Link href={`/bookings?booking=${selected.currentBooking.id}`} className="block text-[#004990] underline">
+                      {selected.currentBooking.reference_no || `Booking #${selected.currentBooking.id}`} ({selected.currentBooking.status.replace("_", " ")})
+                    </Link>
+                  ) : (
+                    <p className="text-xs text-gray-500">No current booking</p>
+                  )}
+                </div>
+              </InfoWindow>
+            )}
+          </GoogleMap>
+        )}
+        {fleet.length > located.length && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            {fleet.length - located.length} vehicle(s) have no known position
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  InsertMergeRule,
+  MergeRule,
+  Department,
+  Region,
+  insertMergeRuleSchema,
+} from "@shared/schema";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { getAuthHeaders } from "@/lib/queryClient";
+
+// Select value used for "any region/department"; stored as null
+const ANY_SCOPE = "ANY";
+
+interface MergeRuleFormProps {
+  onSuccess?: () => void;
+  initialData?: MergeRule | null;
+}
+
+export function MergeRuleForm({ onSuccess, initialData }: MergeRuleFormProps) {
+  const queryClient = useQueryClient();
+  const form = useForm<InsertMergeRule>({
+    resolver: zodResolver(insertMergeRuleSchema),
+    defaultValues: {
+      rule_name: initialData?.rule_name || "",
+      region: initialData?.region ?? null,
+      department: initialData?.department ?? null,
+      max_pickup_distance_km: initialData ? Number(initialData.max_pickup_distance_km) : 3,
+      max_dropoff_distance_km: initialData ? Number(initialData.max_dropoff_distance_km) : 5,
+      time_window_minutes: initialData?.time_window_minutes ?? 30,
+      max_detour_percent: initialData ? Number(initialData.max_detour_percent) : 25,
+      is_active: initialData?.is_active ?? true,
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: InsertMergeRule) => {
+      const response = await fetch(
+        initialData ? `/api/merge-rules/${initialData.id}` : '/api/merge-rules',
+        {
+          method: initialData ? 'PUT' : 'POST',
+          headers: {
+            ...getAuthHeaders(),
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(data),
+        }
+      );
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || `Failed to ${initialData ? 'update' : 'create'} merge rule`);
+      }
+
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/merge-rules'] });
+      toast({
+        title: "Success",
+        description: `Merge rule ${initialData ? 'updated' : 'created'} successfully`,
+      });
+      form.reset();
+      onSuccess?.();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const onSubmit = (data: InsertMergeRule) => {
+    mutation.mutate(data);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="rule_name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rule Name</FormLabel>
+              <FormControl>
+                <Input {...field} placeholder="Enter rule name" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="region"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Region</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === ANY_SCOPE ? null : value)}
+                  defaultValue={field.value ?? ANY_SCOPE}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select region" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={ANY_SCOPE}>All Regions</SelectItem>
+                    {Object.values(Region).map((region) => (
+                      <SelectItem key={region} value={region}>
+                        {region}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="department"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Department</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === ANY_SCOPE ? null : value)}
+                  defaultValue={field.value ?? ANY_SCOPE}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select department" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={ANY_SCOPE}>All Departments</SelectItem>
+                    {Object.values(Department).map((dept) => (
+                      <SelectItem key={dept} value={dept}>
+                        {dept}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="max_pickup_distance_km"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Max Pickup Distance (km)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.1" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="max_dropoff_distance_km"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Max Dropoff Distance (km)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.1" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="time_window_minutes"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Time Window (minutes)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="1" min="1" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="max_detour_percent"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Max Detour (%)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="1" min="1" max="100" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="is_active"
+          render={({ field }) => (
+            <FormItem className="flex items-center justify-between rounded-lg border p-3">
+              <FormLabel>Active</FormLabel>
+              <FormControl>
+                <Switch checked={field.value ?? true} onCheckedChange={field.onChange} />
+              </FormControl>
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="w-full bg-gradient-to-r from-[#004990] to-[#0066cc]"
+          disabled={mutation.isPending}
+        >
+          {mutation.isPending
+            ? "Saving..."
+            : initialData
+            ? "Update Rule"
+            : "Create Rule"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
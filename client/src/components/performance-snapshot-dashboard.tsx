@@ -24,6 +24,7 @@ import {
   PolarAngleAxis,
   PolarRadiusAxis,
 } from "recharts";
+import { getAuthHeaders } from "@/lib/queryClient";
 
 export function PerformanceSnapshotDashboard() {
   const [selectedPeriod, setSelectedPeriod] = useState("monthly");
@@ -33,7 +34,7 @@ export function PerformanceSnapshotDashboard() {
   const { data: performanceData, isLoading: isPerformanceLoading } = useQuery({
     queryKey: ["/api/performance/snapshot", selectedPeriod],
     queryFn: async () => {
-      const response = await fetch(`/api/performance/snapshot?period=${selectedPeriod}`);
+      const response = await fetch(`/api/performance/snapshot?period=${selectedPeriod}`, { headers: getAuthHeaders() });
       if (!response.ok) {
         throw new Error("Failed to fetch performance data");
       }
@@ -45,12 +45,16 @@ import {
   Workflow
 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Permission, type PermissionName } from "@shared/schema/permissions";
 
 interface NavLink {
   title: string;
   href: string;
   description?: string;
   icon?: React.ReactNode;
+  // Hidden unless the user holds this permission
+  permission?: PermissionName;
 }
 
 const mainNav: NavLink[] = [
@@ -72,11 +76,13 @@ const mainNav: NavLink[] = [
   {
     title: "Employees",
     href: "/employees",
+    permission: Permission.EMPLOYEES_MANAGE,
     icon: <Users className="h-4 w-4" />
   },
   {
     title: "Workflows",
     href: "/workflows",
+    permission: Permission.WORKFLOWS_MANAGE,
     icon: <Workflow className="h-4 w-4" />
   }
 ];
@@ -85,21 +91,25 @@ const bookingLinks: NavLink[] = [
   {
     title: "New Booking",
     href: "/new-booking",
+    permission: Permission.BOOKINGS_CREATE,
     description: "Create a new transportation booking",
   },
   {
     title: "My Bookings",
     href: "/bookings/my",
+    permission: Permission.BOOKINGS_VIEW,
     description: "View your booking history and status",
   },
   {
     title: "All Bookings",
     href: "/bookings",
+    permission: Permission.BOOKINGS_MANAGE,
     description: "Manage all transportation bookings",
   },
   {
     title: "Approvals",
     href: "/bookings/approvals",
+    permission: Permission.BOOKINGS_APPROVE,
     description: "Review pending booking approvals",
   }
 ];
@@ -108,21 +118,25 @@ const fleetLinks: NavLink[] = [
   {
     title: "Vehicle Management",
     href: "/fleet/vehicles",
+    permission: Permission.FLEET_VIEW,
     description: "Manage company vehicles and maintenance",
   },
   {
     title: "Driver Management",
     href: "/fleet/drivers",
+    permission: Permission.FLEET_VIEW,
     description: "Manage driver schedules and assignments",
   },
   {
     title: "Fleet Analytics",
     href: "/fleet/analytics",
+    permission: Permission.REPORTS_VIEW,
     description: "View fleet performance metrics",
   },
   {
     title: "Vehicle Types",
     href: "/fleet/vehicle-types",
+    permission: Permission.FLEET_VIEW,
     description: "Configure vehicle categories and types",
   }
 ];
@@ -131,21 +145,25 @@ const adminLinks: NavLink[] = [
   {
     title: "Employee Management",
     href: "/employees",
+    permission: Permission.EMPLOYEES_MANAGE,
     description: "Manage employees and permissions",
   },
   {
     title: "Workflow Management",
     href: "/workflows",
+    permission: Permission.WORKFLOWS_MANAGE,
     description: "Configure approval flows and processes",
   },
   {
     title: "System Settings",
     href: "/settings",
+    permission: Permission.USERS_MANAGE,
     description: "Configure system-wide settings",
   },
   {
     title: "Diagnostics",
     href: "/debug",
+    permission: Permission.SYSTEM_DEBUG,
     description: "View system health and debugging tools",
   }
 ];
@@ -153,6 +171,9 @@ const adminLinks: NavLink[] = [
 function MobileNav() {
   const [location] = useLocation();
   const { user, logout } = useAuth();
+  const { can } = usePermissions();
+  const visible = (links: NavLink[]) => links.filter((link) => !link.permission || can(link.permission));
+  const visibleAdminLinks = visible(adminLinks);
 
   return (
     <Sheet>
@@ -173,7 +194,7 @@ function MobileNav() {
           <div className="space-y-3">
             <h3 className="text-sm font-medium">Main Navigation</h3>
             <nav className="grid gap-2">
-              {mainNav.map((item, index) => (
+              {visible(mainNav).map((item, index) => (
                 <Link key={index} href={item.href}>
                   <a
                     className={`flex items-center gap-2 px-3 py-2 text-sm rounded-md transition-colors ${
@@ -193,7 +214,7 @@ function MobileNav() {
           <div className="space-y-3">
             <h3 className="text-sm font-medium">Booking Management</h3>
             <nav className="grid gap-2">
-              {bookingLinks.map((item, index) => (
+              {visible(bookingLinks).map((item, index) => (
                 <Link key={index} href={item.href}>
                   <a
                     className={`flex items-center gap-2 px-3 py-2 text-sm rounded-md transition-colors ${
@@ -212,7 +233,7 @@ function MobileNav() {
           <div className="space-y-3">
             <h3 className="text-sm font-medium">Fleet Management</h3>
             <nav className="grid gap-2">
-              {fleetLinks.map((item, index) => (
+              {visible(fleetLinks).map((item, index) => (
                 <Link key={index} href={item.href}>
                   <a
                     className={`flex items-center gap-2 px-3 py-2 text-sm rounded-md transition-colors ${
@@ -228,11 +249,11 @@ function MobileNav() {
             </nav>
           </div>
 
-          {user?.user_type === 'admin' && (
+          {visibleAdminLinks.length > 0 && (
             <div className="space-y-3">
               <h3 className="text-sm font-medium">Administration</h3>
               <nav className="grid gap-2">
-                {adminLinks.map((item, index) => (
+                {visibleAdminLinks.map((item, index) => (
                   <Link key={index} href={item.href}>
                     <a
                       className={`flex items-center gap-2 px-3 py-2 text-sm rounded-md transition-colors ${
@@ -277,6 +298,9 @@ function MobileNav() {
 export function SiteHeader() {
   const { user, logout } = useAuth();
   const [location] = useLocation();
+  const { can } = usePermissions();
+  const visible = (links: NavLink[]) => links.filter((link) => !link.permission || can(link.permission));
+  const visibleAdminLinks = visible(adminLinks);
 
   // Get user's initials for avatar fallback
   const getUserInitials = () => {
@@ -331,7 +355,7 @@ export function SiteHeader() {
               </NavigationMenuTrigger>
               <NavigationMenuContent>
                 <ul className="grid w-[400px] gap-3 p-4 md:w-[500px] md:grid-cols-2">
-                  {bookingLinks.map((link) => (
+                  {visible(bookingLinks).map((link) => (
                     <li key={link.title}>
                       <Link href={link.href}>
                         <NavigationMenuLink
@@ -361,7 +385,7 @@ export function SiteHeader() {
               </NavigationMenuTrigger>
               <NavigationMenuContent>
                 <ul className="grid w-[400px] gap-3 p-4 md:w-[500px] md:grid-cols-2">
-                  {fleetLinks.map((link) => (
+                  {visible(fleetLinks).map((link) => (
                     <li key={link.title}>
                       <Link href={link.href}>
                         <NavigationMenuLink
@@ -383,8 +407,8 @@ export function SiteHeader() {
               </NavigationMenuContent>
             </NavigationMenuItem>
 
-            {/* Admin Menu - Only show for admin users */}
-            {user?.user_type === 'admin' && (
+            {/* Admin Menu - Only show when the user can use at least one admin page */}
+            {visibleAdminLinks.length > 0 && (
               <NavigationMenuItem>
                 <NavigationMenuTrigger>
                   <Cog className="mr-2 h-4 w-4" />
@@ -392,7 +416,7 @@ export function SiteHeader() {
                 </NavigationMenuTrigger>
                 <NavigationMenuContent>
                   <ul className="grid w-[400px] gap-3 p-4 md:w-[500px] md:grid-cols-2">
-                    {adminLinks.map((link) => (
+                    {visibleAdminLinks.map((link) => (
                       <li key={link.title}>
                         <Link href={link.href}>
                           <NavigationMenuLink
@@ -0,0 +1,151 @@
+import * as React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+
+export type TwoFactorChallengeData = {
+  twoFactorRequired: true;
+  challengeToken: string;
+  method: "EMAIL" | "TOTP";
+  backupCodesAvailable: boolean;
+  destination: string | null;
+};
+
+type TwoFactorChallengeProps = {
+  challenge: TwoFactorChallengeData;
+  // Receives the login response once the code is accepted, or the reset token if the password has expired
+  onVerified: (session: { token: string; refreshToken: string; passwordExpired?: boolean; resetToken?: string }) => void;
+  onCancel: () => void;
+};
+
+export function TwoFactorChallenge({ challenge, onVerified, onCancel }: TwoFactorChallengeProps) {
+  const { toast } = useToast();
+  const [code, setCode] = React.useState("");
+  const [useBackupCode, setUseBackupCode] = React.useState(false);
+  const [isVerifying, setIsVerifying] = React.useState(false);
+  const [isResending, setIsResending] = React.useState(false);
+
+  const post = async (url: string, body: unknown) => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok && !data.passwordExpired) {
+      throw new Error(data.error || "Verification failed");
+    }
+    return data;
+  };
+
+  const verify = async (value: string) => {
+    try {
+      setIsVerifying(true);
+      const data = await post("/api/auth/2fa/verify", {
+        challengeToken: challenge.challengeToken,
+        code: value,
+        backupCode: useBackupCode,
+      });
+      onVerified(data);
+    } catch (error: any) {
+      setCode("");
+      toast({
+        title: "Verification Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const resend = async () => {
+    try {
+      setIsResending(true);
+      await post("/api/auth/2fa/send-code", { challengeToken: challenge.challengeToken });
+      toast({ title: "Code sent", description: `A new code was emailed to ${challenge.destination}` });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground text-center">
+        {useBackupCode
+          ? "Enter one of your backup codes"
+          : challenge.method === "TOTP"
+            ? "Enter the 6-digit code from your authenticator app"
+            : `Enter the 6-digit code emailed to ${challenge.destination}`}
+      </p>
+
+      {useBackupCode ? (
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            verify(code);
+          }}
+        >
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="xxxxx-xxxxx"
+            autoComplete="one-time-code"
+          />
+          <Button
+            type="submit"
+            className="w-full bg-gradient-to-r from-[#004990] to-[#0066cc] text-white"
+            disabled={isVerifying || !code}
+          >
+            {isVerifying ? "Verifying..." : "Verify"}
+          </Button>
+        </form>
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={code}
+            onChange={setCode}
+            onComplete={verify}
+            disabled={isVerifying}
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <div className="flex flex-col items-center gap-1">
+        {challenge.method === "EMAIL" && !useBackupCode && (
+          <Button type="button" variant="link" size="sm" onClick={resend} disabled={isResending}>
+            Resend code
+          </Button>
+        )}
+        {challenge.backupCodesAvailable && (
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            onClick={() => {
+              setCode("");
+              setUseBackupCode(!useBackupCode);
+            }}
+          >
+            {useBackupCode ? "Use a verification code" : "Use a backup code"}
+          </Button>
+        )}
+        <Button type="button" variant="link" size="sm" onClick={onCancel}>
+          Back to sign in
+        </Button>
+      </div>
+    </div>
+  );
+}
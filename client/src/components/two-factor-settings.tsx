@@ -0,0 +1,205 @@
+import * as React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { ShieldCheck } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+type TwoFactorStatus = {
+  eligible: boolean;
+  required: boolean;
+  enabled: boolean;
+  method: "EMAIL" | "TOTP" | null;
+  backupCodesRemaining: number;
+  totpSetupPending: boolean;
+};
+
+type TotpSetup = {
+  secret: string;
+  otpauthUrl: string;
+};
+
+const STATUS_KEY = ["/api/auth/2fa/status"];
+
+// Enrollment card for Admin and Management users; renders nothing for everyone else
+export function TwoFactorSettings() {
+  const queryClient = useQueryClient();
+  const [setup, setSetup] = React.useState<TotpSetup | null>(null);
+  const [setupCode, setSetupCode] = React.useState("");
+  const [backupCodes, setBackupCodes] = React.useState<string[] | null>(null);
+  const [password, setPassword] = React.useState("");
+
+  const { data: status } = useQuery<TwoFactorStatus>({
+    queryKey: STATUS_KEY,
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/auth/2fa/status");
+      return response.json();
+    },
+  });
+
+  // Every change that hands out backup codes shows them once and refreshes the status
+  const codesMutation = useMutation({
+    mutationFn: async ({ url, body }: { url: string; body?: unknown }) => {
+      const response = await apiRequest("POST", url, body);
+      return response.json() as Promise<{ backupCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setBackupCodes(data.backupCodes);
+      setSetup(null);
+      setSetupCode("");
+      queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+    },
+    onError: (error: Error) => {
+      setSetupCode("");
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const startTotp = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/auth/2fa/totp/setup");
+      return response.json() as Promise<TotpSetup>;
+    },
+    onSuccess: (data) => setSetup(data),
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const disable = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/2fa/disable", { password });
+    },
+    onSuccess: () => {
+      setPassword("");
+      setBackupCodes(null);
+      queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!status?.eligible) {
+    return null;
+  }
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            Two-Factor Authentication
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            {status.enabled
+              ? status.method === "TOTP"
+                ? "Sign-in asks for a code from your authenticator app"
+                : "Sign-in asks for a code sent to your email"
+              : status.required
+                ? "Your role requires a second factor; codes are emailed until you choose a method"
+                : "Add a second step to sign-in"}
+          </p>
+        </div>
+        <Badge variant={status.enabled ? "default" : "outline"}>
+          {status.enabled ? "Enabled" : "Off"}
+        </Badge>
+      </div>
+
+      {backupCodes && (
+        <div className="rounded-md border p-4 space-y-2">
+          <p className="text-sm font-medium">
+            Backup codes - store them somewhere safe. Each works once and they will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {backupCodes.map((code) => (
+              <span key={code}>{code}</span>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setBackupCodes(null)}>
+            Done
+          </Button>
+        </div>
+      )}
+
+      {setup ? (
+        <div className="rounded-md border p-4 space-y-3">
+          <p className="text-sm">
+            Add this key to your authenticator app, or open the setup link on your phone, then enter the code it shows.
+          </p>
+          <div className="font-mono text-sm break-all bg-muted p-2 rounded">{setup.secret}</div>
+          <a href={setup.otpauthUrl} className="text-sm text-primary underline">
+            Open in authenticator app
+          </a>
+          <InputOTP
+            maxLength={6}
+            value={setupCode}
+            onChange={setSetupCode}
+            onComplete={(code) => codesMutation.mutate({ url: "/api/auth/2fa/totp/confirm", body: { code } })}
+            disabled={codesMutation.isPending}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: 6 }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+          <Button variant="ghost" size="sm" onClick={() => setSetup(null)}>
+            Cancel
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {status.method !== "TOTP" && (
+            <Button onClick={() => startTotp.mutate()} disabled={startTotp.isPending}>
+              Set up authenticator app
+            </Button>
+          )}
+          {status.method !== "EMAIL" && (
+            <Button
+              variant="outline"
+              onClick={() => codesMutation.mutate({ url: "/api/auth/2fa/email/enable" })}
+              disabled={codesMutation.isPending}
+            >
+              Use emailed codes
+            </Button>
+          )}
+          {status.enabled && (
+            <Button
+              variant="outline"
+              onClick={() => codesMutation.mutate({ url: "/api/auth/2fa/backup-codes" })}
+              disabled={codesMutation.isPending}
+            >
+              New backup codes ({status.backupCodesRemaining} left)
+            </Button>
+          )}
+        </div>
+      )}
+
+      {status.enabled && !setup && (
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="two-factor-password">Password</Label>
+            <Input
+              id="two-factor-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+            />
+          </div>
+          <Button variant="destructive" onClick={() => disable.mutate()} disabled={!password || disable.isPending}>
+            Disable
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -735,17 +735,17 @@ const SidebarMenuSubButton = React.forwardRef<
 })
 SidebarMenuSubButton.displayName = "SidebarMenuSubButton"
 
-const LogoutButton = () => {
+const LogoutButton = ({ onClick }: { onClick?: () => void }) => {
   const [, setLocation] = useLocation();
 
   const handleLogout = () => {
-    localStorage.removeItem("token");
+    localStorage.removeItem("auth_token");
     setLocation("/auth/login");
   };
 
   return (
     <SidebarMenuButton
-      onClick={handleLogout}
+      onClick={onClick ?? handleLogout}
       className="text-red-500 hover:text-red-600 mt-auto"
     >
       <LogOut className="w-4 h-4" />
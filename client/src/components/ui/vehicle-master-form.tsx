@@ -23,7 +23,7 @@ import {
 } from "@/lib/vehicle-constants";
 import { useQuery } from "@tanstack/react-query";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getAuthHeaders } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import {
   Form,
@@ -89,7 +89,7 @@ export function VehicleMasterForm({ isOpen, onClose, initialData }: VehicleMaste
   const { data: vehicleTypes, isLoading: isLoadingVehicleTypes } = useQuery<ExtendedVehicleType[]>({
     queryKey: ["/api/vehicle-types"],
     queryFn: async () => {
-      const response = await fetch("/api/vehicle-types");
+      const response = await fetch("/api/vehicle-types", { headers: getAuthHeaders() });
       if (!response.ok) {
         throw new Error("Failed to fetch vehicle types");
       }
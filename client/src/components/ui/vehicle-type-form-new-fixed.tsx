@@ -11,6 +11,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { getAuthHeaders } from "@/lib/queryClient";
 
 // Create a safe version of SelectItem that guarantees the value is not an empty string
 const SelectItem = (props: React.ComponentProps<typeof BaseSelectItem>) => {
@@ -76,12 +77,12 @@ export function VehicleTypeForm({
     async function loadOptions() {
       try {
         // Load vehicle groups
-        const groupsResponse = await fetch('/api/vehicle-groups');
+        const groupsResponse = await fetch('/api/vehicle-groups', { headers: getAuthHeaders() });
         const groupsData = await groupsResponse.json();
         setVehicleGroups(groupsData || []);
         
         // Load masters data (manufacturers, models, etc.)
-        const mastersResponse = await fetch('/api/vehicle-masters');
+        const mastersResponse = await fetch('/api/vehicle-masters', { headers: getAuthHeaders() });
         const mastersData = await mastersResponse.json();
         console.log("Loaded masters data:", mastersData);
         setManufacturers(mastersData?.manufacturers || []);
@@ -111,7 +112,7 @@ export function VehicleTypeForm({
         ]);
         
         // Load fuel types
-        const fuelResponse = await fetch('/api/fuel-types');
+        const fuelResponse = await fetch('/api/fuel-types', { headers: getAuthHeaders() });
         const fuelData = await fuelResponse.json();
         // Filter out any fuel types with empty string values
         const validFuelTypes = (fuelData || []).filter((ft: any) => ft.type && ft.type.trim() !== '');
@@ -120,7 +121,7 @@ export function VehicleTypeForm({
         // Load existing data if we're editing
         if (initialData && isEditing) {
           if (initialData.id) {
-            const response = await fetch(`/api/vehicle-types/${initialData.id}/form-data`);
+            const response = await fetch(`/api/vehicle-types/${initialData.id}/form-data`, { headers: getAuthHeaders() });
             if (response.ok) {
               const data = await response.json();
               console.log("Loaded form data:", data);
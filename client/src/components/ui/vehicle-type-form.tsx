@@ -18,6 +18,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { getAuthHeaders } from "@/lib/queryClient";
 
 interface VehicleTypeFormProps {
   onSubmit: (data: any) => Promise<void>;
@@ -75,7 +76,7 @@ export function VehicleTypeForm({
     async function loadOptions() {
       try {
         // Load vehicle groups
-        const groupsResponse = await fetch('/api/vehicle-groups');
+        const groupsResponse = await fetch('/api/vehicle-groups', { headers: getAuthHeaders() });
         const groupsData = await groupsResponse.json();
         
         // Ensure we have valid vehicle groups with IDs
@@ -85,7 +86,7 @@ export function VehicleTypeForm({
         setVehicleGroups(validGroups);
         
         // Load masters data (manufacturers, models, etc.)
-        const mastersResponse = await fetch('/api/vehicle-masters');
+        const mastersResponse = await fetch('/api/vehicle-masters', { headers: getAuthHeaders() });
         const mastersData = await mastersResponse.json();
         console.log("Loaded masters data:", mastersData);
         
@@ -156,7 +157,7 @@ export function VehicleTypeForm({
         setUnits(extractedUnits.length > 0 ? extractedUnits : defaultUnits);
         
         // Load fuel types
-        const fuelResponse = await fetch('/api/fuel-types');
+        const fuelResponse = await fetch('/api/fuel-types', { headers: getAuthHeaders() });
         const fuelData = await fuelResponse.json();
         
         // Ensure all fuel types have valid values
@@ -171,7 +172,7 @@ export function VehicleTypeForm({
         // Load existing data if we're editing
         if (initialData && isEditing) {
           if (initialData.id) {
-            const response = await fetch(`/api/vehicle-types/${initialData.id}/form-data`);
+            const response = await fetch(`/api/vehicle-types/${initialData.id}/form-data`, { headers: getAuthHeaders() });
             if (response.ok) {
               const data = await response.json();
               console.log("Loaded form data:", data);
@@ -275,7 +276,7 @@ export function VehicleTypeForm({
         // If we don't have data in our local state, fetch it from the server
         console.log(`No local data found for ${value}, fetching from server...`);
         try {
-          const response = await fetch('/api/fuel-prices');
+          const response = await fetch('/api/fuel-prices', { headers: getAuthHeaders() });
           if (response.ok) {
             const prices = await response.json();
             console.log('Fetched fuel prices from server:', prices);
@@ -31,6 +31,7 @@ import {
 import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
 import { Loader2 } from "lucide-react";
+import { passwordSchema } from "@shared/schema";
 
 // Import React hooks properly
 const { useState, useEffect } = React;
@@ -52,7 +53,8 @@ const userFormSchema = z.object({
   first_name: z.string().min(1, "First name is required"),
   last_name: z.string().min(1, "Last name is required"),
   full_name: z.string().min(1, "Full name is required"),
-  password: z.string().min(6, "Password must be at least 6 characters").optional(),
+  // Left empty, the server's default password is used
+  password: passwordSchema.or(z.literal("")).optional(),
   is_active: z.boolean().default(true),
 });
 
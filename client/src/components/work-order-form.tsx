@@ -0,0 +1,185 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { InsertWorkOrder, WorkOrderType, insertWorkOrderSchema } from "@shared/schema";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+export interface WorkOrderVehicleOption {
+  vehicleId: number;
+  vehicleCode: string;
+  registrationNumber: string;
+}
+
+interface WorkOrderFormProps {
+  vehicles: WorkOrderVehicleOption[];
+  defaultVehicleId?: number;
+  onSuccess?: () => void;
+}
+
+export function WorkOrderForm({ vehicles, defaultVehicleId, onSuccess }: WorkOrderFormProps) {
+  const queryClient = useQueryClient();
+  const form = useForm<InsertWorkOrder>({
+    resolver: zodResolver(insertWorkOrderSchema),
+    defaultValues: {
+      vehicle_id: defaultVehicleId,
+      work_order_type: WorkOrderType.PREVENTIVE,
+      description: "",
+      notes: "",
+    },
+  });
+
+  const mutation = useMutation({
+    mutationFn: async (data: InsertWorkOrder) => {
+      const response = await apiRequest("POST", "/api/maintenance/work-orders", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance/work-orders"] });
+      toast({
+        title: "Success",
+        description: "Work order opened",
+      });
+      form.reset();
+      onSuccess?.();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="vehicle_id"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Vehicle</FormLabel>
+              <Select
+                onValueChange={(value) => field.onChange(Number(value))}
+                defaultValue={field.value ? String(field.value) : undefined}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select vehicle" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {vehicles.map((vehicle) => (
+                    <SelectItem key={vehicle.vehicleId} value={String(vehicle.vehicleId)}>
+                      {vehicle.vehicleCode} ({vehicle.registrationNumber})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="work_order_type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={WorkOrderType.PREVENTIVE}>Preventive</SelectItem>
+                    <SelectItem value={WorkOrderType.CORRECTIVE}>Corrective</SelectItem>
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="odometer_reading"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Odometer (km)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value === "" ? undefined : e.target.value)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input {...field} placeholder="e.g. 10,000 km service" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes</FormLabel>
+              <FormControl>
+                <Textarea {...field} value={field.value || ""} placeholder="Optional" />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button
+          type="submit"
+          className="w-full bg-gradient-to-r from-[#004990] to-[#0066cc]"
+          disabled={mutation.isPending}
+        >
+          {mutation.isPending ? "Saving..." : "Open Work Order"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
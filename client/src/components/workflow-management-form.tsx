@@ -6,6 +6,7 @@ import {
   Department,
   Region,
   WorkflowLevels,
+  EscalationTarget,
   insertApprovalWorkflowSchema,
 } from "@shared/schema";
 import {
@@ -27,6 +28,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { toast } from "@/hooks/use-toast";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { getAuthHeaders } from "@/lib/queryClient";
 
 interface WorkflowManagementFormProps {
   onSuccess?: () => void;
@@ -45,6 +47,8 @@ export function WorkflowManagementForm({ onSuccess, initialData }: WorkflowManag
       level_1_approver_id: initialData?.level_1_approver_id || undefined,
       level_2_approver_id: initialData?.level_2_approver_id || undefined,
       levels_required: initialData?.levels_required || WorkflowLevels.LEVEL_1_ONLY,
+      escalation_hours: initialData?.escalation_hours ?? null,
+      escalation_target: initialData?.escalation_target || EscalationTarget.SUPERVISOR,
       is_active: initialData?.is_active ?? true,
     },
   });
@@ -70,7 +74,7 @@ export function WorkflowManagementForm({ onSuccess, initialData }: WorkflowManag
         const url = `/api/employees/approvers${params.toString() ? `?${params.toString()}` : ''}`;
         console.log("Fetching from URL:", url);
         
-        const response = await fetch(url);
+        const response = await fetch(url, { headers: getAuthHeaders() });
         if (!response.ok) {
           throw new Error('Failed to fetch approvers');
         }
@@ -95,6 +99,7 @@ export function WorkflowManagementForm({ onSuccess, initialData }: WorkflowManag
         {
           method: initialData ? 'PUT' : 'POST',
           headers: {
+            ...getAuthHeaders(),
             'Content-Type': 'application/json',
           },
           body: JSON.stringify(data),
@@ -306,6 +311,53 @@ export function WorkflowManagementForm({ onSuccess, initialData }: WorkflowManag
           )}
         </div>
 
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="escalation_hours"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Escalate After (hours)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min="1"
+                    placeholder="No escalation"
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.value === "" ? null : e.target.value)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="escalation_target"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Escalate To</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select escalation target" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.values(EscalationTarget).map((target) => (
+                      <SelectItem key={target} value={target}>
+                        {target}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
         <Button
           type="submit"
           className="w-full bg-gradient-to-r from-[#004990] to-[#0066cc]"
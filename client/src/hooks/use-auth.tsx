@@ -1,13 +1,14 @@
 import { createContext, ReactNode, useContext } from "react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { User } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, clearSession, getAuthHeaders, refreshSession } from "@/lib/queryClient";
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   error: Error | null;
   logout: () => void;
+  logoutEverywhere: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -22,11 +23,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const token = localStorage.getItem("auth_token");
         if (!token) return null;
 
-        const res = await fetch("/api/auth/user", {
-          headers: {
-            Authorization: `Bearer ${token}`,
-          },
+        let res = await fetch("/api/auth/user", {
+          headers: getAuthHeaders(),
         });
+        if (res.status === 401 && await refreshSession()) {
+          res = await fetch("/api/auth/user", {
+            headers: getAuthHeaders(),
+          });
+        }
 
         if (!res.ok) {
           if (res.status === 401) return null;
@@ -40,33 +44,43 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
   
-  const logout = async () => {
+  // Revoke the session on the server first, while the token is still around to identify it.
+  // An expired access token is renewed once so the revocation is not lost to a 401.
+  const endSession = async (endpoint: string) => {
     try {
-      // Clear token from local storage
-      localStorage.removeItem("auth_token");
-      
-      // Invalidate the auth query to trigger a refetch
-      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-      
-      // Optionally send a request to the server to invalidate the session
-      await fetch("/api/auth/logout", { 
+      const send = () => fetch(endpoint, {
         method: "POST",
+        headers: getAuthHeaders(),
         credentials: "include"
       });
+      const res = await send();
+      if (res.status === 401 && await refreshSession()) {
+        await send();
+      }
+    } catch (error) {
+      console.error("Error during logout:", error);
+    } finally {
+      clearSession();
+      
+      // Invalidate the auth query to trigger a refetch
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
       
       // Force redirect to login page
       window.location.href = "/auth/login";
-    } catch (error) {
-      console.error("Error during logout:", error);
     }
   };
 
+  const logout = () => endSession("/api/auth/logout");
+
+  const logoutEverywhere = () => endSession("/api/auth/logout-all");
+
   return (
     <AuthContext.Provider value={{ 
       user: user || null, 
       isLoading, 
       error: error || null,
-      logout
+      logout,
+      logoutEverywhere
     }}>
       {children}
     </AuthContext.Provider>
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import type { PermissionName } from "@shared/schema/permissions";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+
+// The server enforces permissions on every route; this only hides what the user cannot use
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const { data, isLoading } = useQuery<{ permissions: PermissionName[] }>({
+    queryKey: ["/api/auth/permissions", user?.id],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/auth/permissions");
+      return response.json();
+    },
+    enabled: !!user,
+  });
+
+  const permissions = data?.permissions ?? [];
+  const can = (...required: PermissionName[]) => required.some((permission) => permissions.includes(permission));
+
+  return { permissions, can, isLoading };
+}
@@ -39,10 +39,64 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Keep the tokens returned by login or refresh
+export function storeSession(session: { token: string; refreshToken?: string }) {
+  localStorage.setItem('auth_token', session.token);
+  if (session.refreshToken) {
+    localStorage.setItem('refresh_token', session.refreshToken);
+  }
+}
+
+export function clearSession() {
+  localStorage.removeItem('auth_token');
+  localStorage.removeItem('refresh_token');
+}
+
+// Requests that fail together share one refresh, since each refresh token can only be used once
+let refreshInFlight: Promise<boolean> | null = null;
+
+// Renew the short-lived access token with the stored refresh token; false when the session is over
+export function refreshSession(): Promise<boolean> {
+  const refreshToken = localStorage.getItem('refresh_token');
+  if (!refreshToken) {
+    return Promise.resolve(false);
+  }
+  if (!refreshInFlight) {
+    refreshInFlight = fetch('/api/auth/refresh', {
+      method: 'POST',
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    })
+      .then(async (res) => {
+        if (!res.ok) {
+          clearSession();
+          return false;
+        }
+        storeSession(await res.json());
+        return true;
+      })
+      .catch((error) => {
+        console.error('Session refresh failed:', error);
+        return false;
+      })
+      .finally(() => {
+        refreshInFlight = null;
+      });
+  }
+  return refreshInFlight;
+}
+
+// Bearer header for requests made with fetch directly, e.g. multipart uploads
+export function getAuthHeaders(): Record<string, string> {
+  const token = localStorage.getItem('auth_token');
+  return token ? { "Authorization": `Bearer ${token}` } : {};
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  retryOnExpiry: boolean = true,
 ): Promise<Response> {
   // Get token from localStorage
   const token = localStorage.getItem('auth_token');
@@ -150,6 +204,11 @@ export async function apiRequest(
     const endTime = new Date().getTime();
     console.log(`⬇️ API RESPONSE TIME: ${endTime - startTime}ms`);
     console.log(`⬇️ API RESPONSE: ${res.status} ${res.statusText}`);
+
+    // The access token has expired or was revoked; retry once with a refreshed one
+    if (res.status === 401 && token && retryOnExpiry && await refreshSession()) {
+      return apiRequest(method, url, data, false);
+    }
     
     // Clone the response so we can log its content without consuming it
     const clonedRes = res.clone();
@@ -190,16 +249,22 @@ export const getQueryFn: <T>(options: {
       console.warn(`⚠️ No auth token found for request to: ${url}`);
     }
     
-    const headers: Record<string, string> = {
-      "Content-Type": "application/json",
-      ...(token ? { "Authorization": `Bearer ${token}` } : {})
+    const request = () => {
+      const current = localStorage.getItem('auth_token');
+      return fetch(url, {
+        credentials: "include",
+        headers: {
+          "Content-Type": "application/json",
+          ...(current ? { "Authorization": `Bearer ${current}` } : {})
+        }
+      });
     };
 
     try {
-      const res = await fetch(url, {
-        credentials: "include",
-        headers
-      });
+      let res = await request();
+      if (res.status === 401 && token && await refreshSession()) {
+        res = await request();
+      }
 
       if (isBookingsEndpoint) {
         console.log(`📊 Bookings API response status: ${res.status} ${res.statusText}`);
@@ -0,0 +1,378 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { QuickFilterBar, type FilterOption } from "@/components/ui/quick-filter-bar";
+import { CalendarOff, Check, X } from "lucide-react";
+import { ApproverDelegationForm } from "@/components/approver-delegation-form";
+import { ApprovalDecision, BookingType, Priority, type Booking, type Employee } from "@shared/schema";
+import { PageTransition } from "@/components/page-transition";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+type ApprovalInboxItem = Booking & {
+  requester: Pick<Employee, "id" | "employee_id" | "employee_name" | "region" | "department" | "unit">;
+};
+
+type BulkDecisionResult = {
+  bookingId: number;
+  success: boolean;
+  error?: string;
+};
+
+const INBOX_QUERY_KEY = ["/api/booking-approvals/inbox"];
+
+const priorityStyles: Record<string, string> = {
+  [Priority.CRITICAL]: "bg-red-100 text-red-800",
+  [Priority.EMERGENCY]: "bg-red-100 text-red-800",
+  [Priority.HIGH]: "bg-orange-100 text-orange-800",
+  [Priority.MEDIUM]: "bg-yellow-100 text-yellow-800",
+  [Priority.NORMAL]: "bg-green-100 text-green-800",
+};
+
+const filterOptions: FilterOption[] = [
+  {
+    id: "priority",
+    label: "Priority",
+    options: Object.values(Priority).map((value) => ({ value, label: value })),
+  },
+  {
+    id: "bookingType",
+    label: "Booking Type",
+    options: Object.values(BookingType).map((value) => ({
+      value,
+      label: value.charAt(0).toUpperCase() + value.slice(1),
+    })),
+  },
+  {
+    id: "level",
+    label: "Approval Level",
+    options: [
+      { value: "Level 1", label: "Level 1" },
+      { value: "Level 2", label: "Level 2" },
+    ],
+  },
+];
+
+export default function ApprovalsPage() {
+  const queryClient = useQueryClient();
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [searchValue, setSearchValue] = useState("");
+  const [filterValues, setFilterValues] = useState<Record<string, string>>({});
+  const [rejectIds, setRejectIds] = useState<number[] | null>(null);
+  const [rejectReason, setRejectReason] = useState("");
+  const [isDelegationOpen, setIsDelegationOpen] = useState(false);
+
+  const { data: inbox, isLoading } = useQuery<ApprovalInboxItem[]>({
+    queryKey: INBOX_QUERY_KEY,
+  });
+
+  const filteredInbox = useMemo(() => {
+    if (!inbox) return [];
+    const query = searchValue.trim().toLowerCase();
+
+    return inbox.filter((booking) => {
+      const matchesSearch = !query ||
+        booking.requester.employee_name.toLowerCase().includes(query) ||
+        booking.purpose.toLowerCase().includes(query) ||
+        (booking.reference_no || "").toLowerCase().includes(query) ||
+        booking.pickup_location.address.toLowerCase().includes(query) ||
+        booking.dropoff_location.address.toLowerCase().includes(query);
+      const matchesPriority = !filterValues.priority || filterValues.priority === "all" ||
+        booking.priority === filterValues.priority;
+      const matchesType = !filterValues.bookingType || filterValues.bookingType === "all" ||
+        booking.booking_type.toLowerCase() === filterValues.bookingType;
+      const matchesLevel = !filterValues.level || filterValues.level === "all" ||
+        booking.approval_level === filterValues.level;
+      return matchesSearch && matchesPriority && matchesType && matchesLevel;
+    });
+  }, [inbox, searchValue, filterValues]);
+
+  const isFiltering = !!searchValue ||
+    Object.values(filterValues).some((value) => value && value !== "all");
+
+  const decisionMutation = useMutation({
+    mutationFn: async (data: { bookingIds: number[]; decision: string; comments?: string }) => {
+      const response = await apiRequest("POST", "/api/booking-approvals/bulk", data);
+      return response.json() as Promise<BulkDecisionResult[]>;
+    },
+    onSuccess: (results, variables) => {
+      queryClient.invalidateQueries({ queryKey: INBOX_QUERY_KEY });
+      setSelectedIds([]);
+      setRejectIds(null);
+      setRejectReason("");
+
+      const failed = results.filter((result) => !result.success);
+      const action = variables.decision === ApprovalDecision.APPROVED ? "approved" : "rejected";
+      toast({
+        title: failed.length ? "Partially completed" : "Success",
+        description: failed.length
+          ? `${results.length - failed.length} booking(s) ${action}, ${failed.length} failed: ${failed[0].error}`
+          : `${results.length} booking(s) ${action}`,
+        variant: failed.length ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    setSelectedIds((current) =>
+      checked ? [...current, id] : current.filter((selectedId) => selectedId !== id)
+    );
+  };
+
+  const allVisibleSelected = filteredInbox.length > 0 &&
+    filteredInbox.every((booking) => selectedIds.includes(booking.id));
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? filteredInbox.map((booking) => booking.id) : []);
+  };
+
+  const approve = (bookingIds: number[]) => {
+    decisionMutation.mutate({ bookingIds, decision: ApprovalDecision.APPROVED });
+  };
+
+  const confirmReject = () => {
+    if (!rejectIds || !rejectReason.trim()) return;
+    decisionMutation.mutate({
+      bookingIds: rejectIds,
+      decision: ApprovalDecision.REJECTED,
+      comments: rejectReason.trim(),
+    });
+  };
+
+  const handleFilterChange = (filterId: string, value: string) => {
+    setFilterValues((current) => ({ ...current, [filterId]: value }));
+  };
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <PageTransition>
+      <div className="container mx-auto py-6 space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-[#004990] to-[#0066cc]">
+            Pending Approvals
+          </h1>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => setIsDelegationOpen(true)}
+              className="flex items-center gap-2"
+            >
+              <CalendarOff className="h-4 w-4" />
+              Out of Office
+            </Button>
+            <Button
+              onClick={() => approve(selectedIds)}
+              disabled={selectedIds.length === 0 || decisionMutation.isPending}
+              className="flex items-center gap-2 bg-gradient-to-r from-[#004990] to-[#0066cc]"
+            >
+              <Check className="h-4 w-4" />
+              Approve Selected ({selectedIds.length})
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => setRejectIds(selectedIds)}
+              disabled={selectedIds.length === 0 || decisionMutation.isPending}
+              className="flex items-center gap-2 text-red-600"
+            >
+              <X className="h-4 w-4" />
+              Reject Selected
+            </Button>
+          </div>
+        </div>
+
+        <QuickFilterBar
+          searchPlaceholder="Search by requester, purpose, reference or location..."
+          filterOptions={filterOptions}
+          onSearch={setSearchValue}
+          onFilterChange={handleFilterChange}
+          clearFilters={() => {
+            setSearchValue("");
+            setFilterValues({});
+          }}
+          searchValue={searchValue}
+          filterValues={filterValues}
+          isFiltering={isFiltering}
+        />
+
+        <Card className="backdrop-blur-sm bg-white/90 dark:bg-black/50 border border-white/20">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10">
+                  <Checkbox
+                    checked={allVisibleSelected}
+                    onCheckedChange={(checked) => toggleAll(checked === true)}
+                  />
+                </TableHead>
+                <TableHead>Reference</TableHead>
+                <TableHead>Requester</TableHead>
+                <TableHead>Purpose</TableHead>
+                <TableHead>Priority</TableHead>
+                <TableHead>Route</TableHead>
+                <TableHead>Pickup Time</TableHead>
+                <TableHead>Est. Cost</TableHead>
+                <TableHead>Level</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredInbox.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground py-8">
+                    No bookings are waiting for your approval
+                  </TableCell>
+                </TableRow>
+              )}
+              {filteredInbox.map((booking) => (
+                <TableRow key={booking.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedIds.includes(booking.id)}
+                      onCheckedChange={(checked) => toggleSelected(booking.id, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">{booking.reference_no}</TableCell>
+                  <TableCell>
+                    <div>{booking.requester.employee_name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {booking.requester.department} · {booking.requester.unit}
+                    </div>
+                  </TableCell>
+                  <TableCell>{booking.purpose}</TableCell>
+                  <TableCell>
+                    <Badge className={priorityStyles[booking.priority] || "bg-gray-100 text-gray-800"}>
+                      {booking.priority}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="max-w-xs">
+                    <div className="truncate">{booking.pickup_location.address}</div>
+                    <div className="truncate text-xs text-muted-foreground">
+                      → {booking.dropoff_location.address}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {booking.pickup_time ? format(new Date(booking.pickup_time), "dd MMM yyyy HH:mm") : "-"}
+                  </TableCell>
+                  <TableCell>
+                    {booking.estimated_cost ? `AED ${Number(booking.estimated_cost).toFixed(2)}` : "-"}
+                  </TableCell>
+                  <TableCell>{booking.approval_level}</TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => approve([booking.id])}
+                        disabled={decisionMutation.isPending}
+                        className="flex items-center gap-1 text-green-700"
+                      >
+                        <Check className="h-4 w-4" />
+                        Approve
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRejectIds([booking.id])}
+                        disabled={decisionMutation.isPending}
+                        className="flex items-center gap-1 text-red-600"
+                      >
+                        <X className="h-4 w-4" />
+                        Reject
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+
+        <Dialog
+          open={rejectIds !== null}
+          onOpenChange={(open) => {
+            if (!open) {
+              setRejectIds(null);
+              setRejectReason("");
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Reject {rejectIds?.length === 1 ? "Booking" : `${rejectIds?.length} Bookings`}</DialogTitle>
+              <DialogDescription>
+                The requester will see this reason. A reason is required to reject.
+              </DialogDescription>
+            </DialogHeader>
+            <Textarea
+              value={rejectReason}
+              onChange={(e) => setRejectReason(e.target.value)}
+              placeholder="Enter the reason for rejection"
+              rows={4}
+            />
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setRejectIds(null);
+                  setRejectReason("");
+                }}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={confirmReject}
+                disabled={!rejectReason.trim() || decisionMutation.isPending}
+              >
+                {decisionMutation.isPending ? "Rejecting..." : "Reject"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={isDelegationOpen} onOpenChange={setIsDelegationOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Out of Office Delegation</DialogTitle>
+              <DialogDescription>
+                Approvals that arrive while you are away go to your delegate.
+              </DialogDescription>
+            </DialogHeader>
+            <ApproverDelegationForm onSuccess={() => setIsDelegationOpen(false)} />
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PageTransition>
+  );
+}
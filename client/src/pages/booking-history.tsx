@@ -20,11 +20,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { format } from "date-fns";
 import type { Booking } from "@shared/schema";
 import { BookingType, BookingPurpose, Priority } from "@shared/schema";
-import React, { useState, useEffect, useMemo } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { VehicleLoadingIndicator } from "@/components/ui/vehicle-loading-indicator";
 import { Filter, Search, Clock as ClockIcon, RefreshCw, Trash2, Trash, Check, AlertTriangle } from "lucide-react";
 import { BookingForm } from "@/components/booking-form";
+import { BookingTimeline } from "@/components/booking-timeline";
 import { SimplifiedBookingForm } from "@/components/simplified-booking-form";
 import { Button } from "@/components/ui/button";
 import { registerRefreshFunction } from "@/lib/booking-refresh";
@@ -355,6 +356,17 @@ function BookingHistoryPage() {
     setBookingDetailsOpen(true);
   };
 
+  // Open a booking linked from elsewhere (e.g. /bookings?booking=12 from the live fleet map) once it has loaded
+  const linkedBookingOpened = useRef(false);
+  useEffect(() => {
+    const linkedId = Number(new URLSearchParams(window.location.search).get("booking"));
+    const linked = linkedId ? manualBookings.find((booking) => booking.id === linkedId) : undefined;
+    if (linked && !linkedBookingOpened.current) {
+      linkedBookingOpened.current = true;
+      handleBookingDetails(linked);
+    }
+  }, [manualBookings]);
+
   // Function to delete a single booking
   const handleDeleteSingleBooking = async (bookingId: number) => {
     try {
@@ -776,7 +788,7 @@ function BookingHistoryPage() {
             </DialogDescription>
           </DialogHeader>
           
-          <div className="p-6 pt-2 space-y-6">
+          <div className="p-6 pt-2 space-y-6 max-h-[70vh] overflow-y-auto">
             {selectedBookingDetails && (
               <>
                 <div className="grid grid-cols-2 gap-4">
@@ -888,6 +900,16 @@ function BookingHistoryPage() {
                     )}
                   </div>
                 </div>
+
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-muted-foreground">Lifecycle</h4>
+                  <div className="bg-background/50 p-3 rounded-md border border-border">
+                    <BookingTimeline
+                      bookingId={selectedBookingDetails.id}
+                      createdAt={selectedBookingDetails.created_at}
+                    />
+                  </div>
+                </div>
               </>
             )}
           </div>
@@ -28,6 +28,7 @@ import {
   Clock,
   AlertTriangle
 } from "lucide-react";
+import { getAuthHeaders } from "@/lib/queryClient";
 
 interface ServerInfo {
   version: string;
@@ -96,7 +97,7 @@ function ServerInfoPanel() {
   const { data, isLoading, error, refetch } = useQuery({
     queryKey: ['serverInfo'],
     queryFn: async () => {
-      const response = await fetch('/api/debug/server-info');
+      const response = await fetch('/api/debug/server-info', { headers: getAuthHeaders() });
       if (!response.ok) {
         throw new Error('Failed to fetch server information');
       }
@@ -112,7 +113,7 @@ function ServerInfoPanel() {
   } = useQuery({
     queryKey: ['dbStatus'],
     queryFn: async () => {
-      const response = await fetch('/api/debug/db-status');
+      const response = await fetch('/api/debug/db-status', { headers: getAuthHeaders() });
       if (!response.ok) {
         throw new Error('Failed to fetch database status');
       }
@@ -128,7 +129,7 @@ function ServerInfoPanel() {
   } = useQuery({
     queryKey: ['workflowStatus'],
     queryFn: async () => {
-      const response = await fetch('/api/debug/workflows');
+      const response = await fetch('/api/debug/workflows', { headers: getAuthHeaders() });
       if (!response.ok) {
         throw new Error('Failed to fetch workflow status');
       }
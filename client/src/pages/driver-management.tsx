@@ -0,0 +1,313 @@
+import { useMemo, useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Edit, FileSpreadsheet, Plus, Trash2, Upload } from "lucide-react";
+import { DriverForm } from "@/components/driver-form";
+import { DriverStatus, type Driver } from "@shared/schema";
+import { PageTransition } from "@/components/page-transition";
+import { apiRequest, getAuthHeaders } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+const DRIVERS_QUERY_KEY = ["/api/drivers"];
+
+// Last 30 days of telematics-derived driving events, scored out of 100
+type DriverSafetyScore = {
+  driverId: number;
+  score: number;
+  distanceKm: number;
+  penaltyPoints: number;
+};
+
+function SafetyScoreBadge({ safety }: { safety?: DriverSafetyScore }) {
+  if (!safety) return <>-</>;
+  const variant = safety.score >= 90 ? "default" : safety.score >= 70 ? "secondary" : "destructive";
+  return (
+    <Badge variant={variant} title={`${safety.penaltyPoints} penalty points over ${safety.distanceKm} km`}>
+      {safety.score}
+    </Badge>
+  );
+}
+
+const isLicenseExpired = (driver: Driver) => new Date(driver.license_expiry) <= new Date();
+
+async function downloadFile(url: string, filename: string) {
+  const response = await apiRequest("GET", url);
+  const blob = await response.blob();
+  const objectUrl = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = objectUrl;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(objectUrl);
+  document.body.removeChild(a);
+}
+
+export default function DriverManagement() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [search, setSearch] = useState("");
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [selectedDriver, setSelectedDriver] = useState<Driver | null>(null);
+
+  const { data: drivers, isLoading } = useQuery<Driver[]>({
+    queryKey: DRIVERS_QUERY_KEY,
+  });
+
+  const { data: safetyScores } = useQuery<DriverSafetyScore[]>({
+    queryKey: ["/api/driving-safety/scores"],
+  });
+  const scoreByDriver = useMemo(
+    () => new Map((safetyScores || []).map((s) => [s.driverId, s])),
+    [safetyScores]
+  );
+
+  const filteredDrivers = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return drivers || [];
+    return (drivers || []).filter((driver) =>
+      [driver.name, driver.employee_id, driver.license_number, driver.phone]
+        .some((value) => value?.toLowerCase().includes(term))
+    );
+  }, [drivers, search]);
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: string }) => {
+      const response = await apiRequest("PATCH", `/api/drivers/${id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DRIVERS_QUERY_KEY });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/drivers/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DRIVERS_QUERY_KEY });
+      toast({ title: "Success", description: "Driver deleted successfully" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const handleImport = async (file: File) => {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    try {
+      const response = await fetch("/api/drivers/import", {
+        method: "POST",
+        headers: getAuthHeaders(),
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        const failed = body.failures?.length;
+        throw new Error(failed ? `${failed} row(s) failed to import` : "Failed to import drivers");
+      }
+
+      toast({ title: "Success", description: "Drivers imported successfully" });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } finally {
+      // Rows that passed validation are saved even when others fail
+      queryClient.invalidateQueries({ queryKey: DRIVERS_QUERY_KEY });
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  const handleDownload = async (url: string, filename: string) => {
+    try {
+      await downloadFile(url, filename);
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const openForm = (driver: Driver | null) => {
+    setSelectedDriver(driver);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <PageTransition>
+      <div className="container mx-auto py-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Driver Management</h1>
+            <p className="text-muted-foreground">
+              Maintain driver records, licenses and availability
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => handleDownload("/api/drivers/template", "drivers-template.xlsx")}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Template
+            </Button>
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".xlsx,.xls"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+              }}
+            />
+            <Button variant="outline" onClick={() => handleDownload("/api/drivers/export", "drivers.xlsx")}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button onClick={() => openForm(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Driver
+            </Button>
+          </div>
+        </div>
+
+        <Input
+          placeholder="Search by name, employee ID, license or phone..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="max-w-sm"
+        />
+
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Employee ID</TableHead>
+                <TableHead>License</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead>Phone</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Rating</TableHead>
+                <TableHead>Safety Score</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center">Loading...</TableCell>
+                </TableRow>
+              ) : filteredDrivers.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={9} className="text-center text-muted-foreground">
+                    No drivers found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredDrivers.map((driver) => (
+                  <TableRow key={driver.id} className={driver.is_active ? "" : "opacity-60"}>
+                    <TableCell className="font-medium">{driver.name}</TableCell>
+                    <TableCell>{driver.employee_id}</TableCell>
+                    <TableCell>
+                      {driver.license_number}
+                      <span className="block text-xs text-muted-foreground">{driver.license_type}</span>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={isLicenseExpired(driver) ? "destructive" : "outline"}>
+                        {format(new Date(driver.license_expiry), "MMM d, yyyy")}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{driver.phone}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={driver.status}
+                        onValueChange={(status) => statusMutation.mutate({ id: driver.id, status })}
+                      >
+                        <SelectTrigger className="w-[140px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.values(DriverStatus).map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {status}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>{driver.rating ?? "-"}</TableCell>
+                    <TableCell>
+                      <SafetyScoreBadge safety={scoreByDriver.get(driver.id)} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => openForm(driver)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          if (confirm(`Delete driver ${driver.name}?`)) {
+                            deleteMutation.mutate(driver.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </Card>
+
+        <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{selectedDriver ? "Edit Driver" : "Add Driver"}</DialogTitle>
+            </DialogHeader>
+            <DriverForm
+              key={selectedDriver?.id ?? "new"}
+              initialData={selectedDriver}
+              onSuccess={() => setIsFormOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PageTransition>
+  );
+}
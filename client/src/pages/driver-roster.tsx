@@ -0,0 +1,226 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { addDays, addWeeks, format, isSameDay, startOfWeek } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ChevronLeft, ChevronRight, LogIn, LogOut, Plus, Trash2 } from "lucide-react";
+import { DriverShiftForm } from "@/components/driver-shift-form";
+import {
+  DriverShiftStatus,
+  DriverShiftType,
+  type Driver,
+  type DriverShift,
+} from "@shared/schema";
+import { PageTransition } from "@/components/page-transition";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+const shiftStyles: Record<string, string> = {
+  [DriverShiftType.REGULAR]: "bg-blue-100 text-blue-800 border-blue-200",
+  [DriverShiftType.OVERTIME]: "bg-orange-100 text-orange-800 border-orange-200",
+  [DriverShiftType.LEAVE]: "bg-slate-100 text-slate-600 border-slate-200",
+};
+
+type FormState = {
+  shift: DriverShift | null;
+  defaults?: { driverId?: number; date?: Date };
+};
+
+export default function DriverRosterPage() {
+  const queryClient = useQueryClient();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [formState, setFormState] = useState<FormState | null>(null);
+
+  const days = useMemo(() => Array.from({ length: 7 }, (_, i) => addDays(weekStart, i)), [weekStart]);
+  const weekEnd = addDays(weekStart, 7);
+
+  const { data: drivers } = useQuery<Driver[]>({
+    queryKey: ["/api/drivers"],
+  });
+
+  const { data: shifts, isLoading } = useQuery<DriverShift[]>({
+    queryKey: ["/api/driver-shifts", weekStart.toISOString()],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: weekStart.toISOString(), to: weekEnd.toISOString() });
+      const response = await apiRequest("GET", `/api/driver-shifts?${params}`);
+      return response.json();
+    },
+  });
+
+  const activeDrivers = useMemo(() => (drivers || []).filter((driver) => driver.is_active), [drivers]);
+
+  const shiftAction = useMutation({
+    mutationFn: async ({ shift, action }: { shift: DriverShift; action: "clock-in" | "clock-out" | "delete" }) => {
+      const response = action === "delete"
+        ? await apiRequest("DELETE", `/api/driver-shifts/${shift.id}`)
+        : await apiRequest("POST", `/api/driver-shifts/${shift.id}/${action}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/driver-shifts"] });
+      setFormState(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const shiftsFor = (driverId: number, day: Date) =>
+    (shifts || []).filter((shift) =>
+      shift.driver_id === driverId &&
+      shift.status !== DriverShiftStatus.CANCELLED &&
+      isSameDay(new Date(shift.planned_start), day)
+    );
+
+  const selectedShift = formState?.shift;
+
+  return (
+    <PageTransition>
+      <div className="container mx-auto py-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Driver Roster</h1>
+            <p className="text-muted-foreground">
+              Plan shifts and leave; dispatch only assigns drivers who are on shift
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, -1))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium w-48 text-center">
+              {format(weekStart, "MMM d")} – {format(addDays(weekStart, 6), "MMM d, yyyy")}
+            </span>
+            <Button variant="outline" size="icon" onClick={() => setWeekStart(addWeeks(weekStart, 1))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button onClick={() => setFormState({ shift: null })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Shift
+            </Button>
+          </div>
+        </div>
+
+        <Card className="overflow-x-auto">
+          <div className="grid min-w-[900px]" style={{ gridTemplateColumns: "180px repeat(7, 1fr)" }}>
+            <div className="p-3 border-b font-medium text-sm">Driver</div>
+            {days.map((day) => (
+              <div key={day.toISOString()} className="p-3 border-b border-l font-medium text-sm text-center">
+                {format(day, "EEE d")}
+              </div>
+            ))}
+
+            {isLoading ? (
+              <div className="col-span-8 p-6 text-center text-muted-foreground">Loading roster...</div>
+            ) : activeDrivers.length === 0 ? (
+              <div className="col-span-8 p-6 text-center text-muted-foreground">No active drivers</div>
+            ) : (
+              activeDrivers.map((driver) => (
+                <div key={driver.id} className="contents">
+                  <div className="p-3 border-b text-sm">
+                    <p className="font-medium">{driver.name}</p>
+                    <p className="text-xs text-muted-foreground">{driver.employee_id}</p>
+                  </div>
+                  {days.map((day) => (
+                    <div
+                      key={day.toISOString()}
+                      className="p-1 border-b border-l min-h-[64px] space-y-1 cursor-pointer hover:bg-muted/40"
+                      onClick={() => setFormState({ shift: null, defaults: { driverId: driver.id, date: day } })}
+                    >
+                      {shiftsFor(driver.id, day).map((shift) => (
+                        <button
+                          key={shift.id}
+                          type="button"
+                          className={`w-full rounded border px-2 py-1 text-left text-xs ${shiftStyles[shift.shift_type] || ""}`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setFormState({ shift });
+                          }}
+                        >
+                          {shift.shift_type === DriverShiftType.LEAVE
+                            ? "Leave"
+                            : `${format(new Date(shift.planned_start), "HH:mm")}–${format(new Date(shift.planned_end), "HH:mm")}`}
+                          {shift.status === DriverShiftStatus.ACTIVE && (
+                            <Badge className="ml-1 h-4 px-1 text-[10px] bg-green-600">On</Badge>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              ))
+            )}
+          </div>
+        </Card>
+
+        <Dialog open={!!formState} onOpenChange={(open) => !open && setFormState(null)}>
+          <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{selectedShift ? "Edit Shift" : "Add Shift"}</DialogTitle>
+            </DialogHeader>
+            {selectedShift && (
+              <div className="rounded-md border p-3 text-sm space-y-1">
+                <p>
+                  Clocked in: {selectedShift.clock_in ? format(new Date(selectedShift.clock_in), "MMM d, HH:mm") : "—"}
+                </p>
+                <p>
+                  Clocked out: {selectedShift.clock_out ? format(new Date(selectedShift.clock_out), "MMM d, HH:mm") : "—"}
+                </p>
+              </div>
+            )}
+            {formState && (
+              <DriverShiftForm
+                key={selectedShift?.id ?? "new"}
+                drivers={activeDrivers}
+                initialData={selectedShift}
+                defaults={formState.defaults}
+                onSuccess={() => setFormState(null)}
+              />
+            )}
+            {selectedShift && (
+              <DialogFooter className="gap-2 sm:justify-between">
+                <Button
+                  variant="outline"
+                  className="text-red-600"
+                  disabled={shiftAction.isPending || !!selectedShift.clock_in}
+                  onClick={() => shiftAction.mutate({ shift: selectedShift, action: "delete" })}
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </Button>
+                {selectedShift.status === DriverShiftStatus.SCHEDULED && selectedShift.shift_type !== DriverShiftType.LEAVE && (
+                  <Button
+                    variant="outline"
+                    disabled={shiftAction.isPending}
+                    onClick={() => shiftAction.mutate({ shift: selectedShift, action: "clock-in" })}
+                  >
+                    <LogIn className="h-4 w-4 mr-2" />
+                    Clock In
+                  </Button>
+                )}
+                {selectedShift.status === DriverShiftStatus.ACTIVE && (
+                  <Button
+                    variant="outline"
+                    disabled={shiftAction.isPending}
+                    onClick={() => shiftAction.mutate({ shift: selectedShift, action: "clock-out" })}
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Clock Out
+                  </Button>
+                )}
+              </DialogFooter>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,174 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { addDays, format, startOfDay } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { PageTransition } from "@/components/page-transition";
+import { apiRequest } from "@/lib/queryClient";
+
+type Reservation = {
+  bookingId: number;
+  status: string;
+  start: string;
+  end: string;
+  blockedFrom: string;
+  blockedUntil: string;
+};
+
+type VehicleAvailability = {
+  vehicleId: number;
+  vehicleNumber: string;
+  vehicleName: string;
+  bufferMinutes: number;
+  reservations: Reservation[];
+};
+
+const RANGE_OPTIONS = [
+  { days: 1, label: "Day" },
+  { days: 3, label: "3 Days" },
+  { days: 7, label: "Week" },
+];
+
+const statusColors: Record<string, string> = {
+  confirmed: "bg-indigo-500",
+  in_progress: "bg-purple-500",
+};
+
+export default function FleetCalendarPage() {
+  const [rangeStart, setRangeStart] = useState(() => startOfDay(new Date()));
+  const [days, setDays] = useState(1);
+  const rangeEnd = addDays(rangeStart, days);
+  const rangeMs = rangeEnd.getTime() - rangeStart.getTime();
+
+  const { data: calendar, isLoading } = useQuery<VehicleAvailability[]>({
+    queryKey: ["/api/vehicles/calendar", rangeStart.toISOString(), days],
+    queryFn: async () => {
+      const params = new URLSearchParams({ from: rangeStart.toISOString(), to: rangeEnd.toISOString() });
+      const response = await apiRequest("GET", `/api/vehicles/calendar?${params}`);
+      return response.json();
+    },
+  });
+
+  // Hour ticks for a single day, day ticks for longer ranges
+  const ticks = useMemo(() => {
+    const step = days === 1 ? 3 * 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+    const result: Date[] = [];
+    for (let t = rangeStart.getTime(); t < rangeEnd.getTime(); t += step) {
+      result.push(new Date(t));
+    }
+    return result;
+  }, [rangeStart, rangeEnd, days]);
+
+  // Position of an interval as left/width percentages, clipped to the visible range
+  const position = (start: string, end: string) => {
+    const from = Math.max(new Date(start).getTime(), rangeStart.getTime());
+    const to = Math.min(new Date(end).getTime(), rangeEnd.getTime());
+    return {
+      left: `${((from - rangeStart.getTime()) / rangeMs) * 100}%`,
+      width: `${(Math.max(to - from, 0) / rangeMs) * 100}%`,
+    };
+  };
+
+  const bookedCount = (calendar || []).filter((v) => v.reservations.length > 0).length;
+
+  return (
+    <PageTransition>
+      <div className="container mx-auto py-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Fleet Calendar</h1>
+            <p className="text-muted-foreground">
+              Confirmed trips per vehicle; shaded edges are the travel buffer kept free between trips
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {RANGE_OPTIONS.map((option) => (
+              <Button
+                key={option.days}
+                variant={days === option.days ? "default" : "outline"}
+                size="sm"
+                onClick={() => setDays(option.days)}
+              >
+                {option.label}
+              </Button>
+            ))}
+            <Button variant="outline" size="icon" onClick={() => setRangeStart(addDays(rangeStart, -days))}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setRangeStart(startOfDay(new Date()))}>
+              Today
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setRangeStart(addDays(rangeStart, days))}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          {format(rangeStart, "EEE, MMM d yyyy")}
+          {days > 1 && ` – ${format(addDays(rangeEnd, -1), "EEE, MMM d yyyy")}`}
+          {calendar && ` · ${bookedCount} of ${calendar.length} vehicles booked`}
+        </p>
+
+        <Card className="overflow-x-auto">
+          <div className="min-w-[900px]">
+            <div className="flex border-b">
+              <div className="w-48 shrink-0 p-3 text-sm font-medium">Vehicle</div>
+              <div className="relative flex-1 h-10">
+                {ticks.map((tick) => (
+                  <span
+                    key={tick.toISOString()}
+                    className="absolute top-0 h-full border-l pl-1 pt-2 text-xs text-muted-foreground"
+                    style={{ left: position(tick.toISOString(), tick.toISOString()).left }}
+                  >
+                    {days === 1 ? format(tick, "HH:mm") : format(tick, "EEE d")}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {isLoading ? (
+              <p className="p-6 text-center text-muted-foreground">Loading calendar...</p>
+            ) : !calendar || calendar.length === 0 ? (
+              <p className="p-6 text-center text-muted-foreground">No active vehicles</p>
+            ) : (
+              calendar.map((vehicle) => (
+                <div key={vehicle.vehicleId} className="flex border-b last:border-b-0">
+                  <div className="w-48 shrink-0 p-3 text-sm">
+                    <p className="font-medium">{vehicle.vehicleNumber}</p>
+                    <p className="text-xs text-muted-foreground truncate">{vehicle.vehicleName}</p>
+                  </div>
+                  <div className="relative flex-1 h-14">
+                    {ticks.map((tick) => (
+                      <span
+                        key={tick.toISOString()}
+                        className="absolute top-0 h-full border-l border-dashed border-border/60"
+                        style={{ left: position(tick.toISOString(), tick.toISOString()).left }}
+                      />
+                    ))}
+                    {vehicle.reservations.map((reservation) => (
+                      <div key={reservation.bookingId}>
+                        <div
+                          className="absolute top-3 h-8 rounded bg-slate-200/70"
+                          style={position(reservation.blockedFrom, reservation.blockedUntil)}
+                        />
+                        <div
+                          className={`absolute top-3 h-8 rounded px-2 text-xs text-white flex items-center overflow-hidden whitespace-nowrap ${statusColors[reservation.status] || "bg-slate-500"}`}
+                          style={position(reservation.start, reservation.end)}
+                          title={`Booking #${reservation.bookingId}: ${format(new Date(reservation.start), "MMM d HH:mm")} – ${format(new Date(reservation.end), "MMM d HH:mm")}`}
+                        >
+                          #{reservation.bookingId}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </Card>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,371 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Circle, DrawingManager, GoogleMap, Polygon, useJsApiLoader } from "@react-google-maps/api";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, Pencil, Trash2 } from "lucide-react";
+import { GeofenceForm, categoryLabels, type GeofenceGeometry } from "@/components/geofence-form";
+import { GeofenceCategory, GeofenceEventType, type Geofence, type GeofenceEvent } from "@shared/schema";
+import { PageTransition } from "@/components/page-transition";
+import { apiRequest } from "@/lib/queryClient";
+import { getGoogleMapsApiKey, MAP_CONFIG } from "@/lib/map-config";
+import { toast } from "@/hooks/use-toast";
+
+type GeofenceEventDetail = GeofenceEvent & {
+  geofence_name: string;
+  geofence_category: string;
+  vehicle_code: string;
+  registration_number: string;
+};
+
+const categoryColors: Record<string, string> = {
+  [GeofenceCategory.DEPOT]: "#2563eb",
+  [GeofenceCategory.HOSPITAL]: "#16a34a",
+  [GeofenceCategory.SITE]: "#7c3aed",
+  [GeofenceCategory.RESTRICTED]: "#dc2626",
+};
+
+const eventStyles: Record<string, string> = {
+  [GeofenceEventType.ENTRY]: "bg-blue-100 text-blue-800",
+  [GeofenceEventType.EXIT]: "bg-slate-100 text-slate-700",
+  [GeofenceEventType.DWELL]: "bg-yellow-100 text-yellow-800",
+};
+
+const formatTime = (value: string | Date) => format(new Date(value), "MMM d, HH:mm");
+
+export default function GeofencesPage() {
+  const queryClient = useQueryClient();
+  const [drawn, setDrawn] = useState<GeofenceGeometry | null>(null);
+  const [editing, setEditing] = useState<Geofence | null>(null);
+  const apiKey = getGoogleMapsApiKey();
+
+  const { isLoaded, loadError } = useJsApiLoader({
+    googleMapsApiKey: apiKey,
+    libraries: MAP_CONFIG.libraries as any[],
+  });
+
+  const { data: geofences, isLoading } = useQuery<Geofence[]>({
+    queryKey: ["/api/geofences"],
+  });
+
+  const { data: events } = useQuery<GeofenceEventDetail[]>({
+    queryKey: ["/api/geofences/events"],
+  });
+
+  const { data: alerts } = useQuery<GeofenceEventDetail[]>({
+    queryKey: ["/api/geofences/alerts"],
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("DELETE", `/api/geofences/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/geofences"] });
+      toast({ title: "Success", description: "Geofence deactivated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/geofences/alerts/${id}/acknowledge`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/geofences/alerts"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // The drawn overlay is only a sketch; the saved geofence is rendered from the query instead
+  const onCircleComplete = (circle: google.maps.Circle) => {
+    const center = circle.getCenter();
+    circle.setMap(null);
+    if (!center) return;
+    setDrawn({
+      shape: "circle",
+      center: { lat: center.lat(), lng: center.lng() },
+      radius_m: Math.round(circle.getRadius()),
+      polygon: null,
+    });
+  };
+
+  const onPolygonComplete = (polygon: google.maps.Polygon) => {
+    const points = polygon.getPath().getArray().map((point) => ({ lat: point.lat(), lng: point.lng() }));
+    polygon.setMap(null);
+    setDrawn({ shape: "polygon", center: null, radius_m: null, polygon: points });
+  };
+
+  const shapeOptions = (category: string) => ({
+    strokeColor: categoryColors[category] || "#6b7280",
+    fillColor: categoryColors[category] || "#6b7280",
+    fillOpacity: 0.15,
+    strokeWeight: 2,
+  });
+
+  return (
+    <PageTransition>
+      <div className="container mx-auto py-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Geofences</h1>
+          <p className="text-muted-foreground">
+            Draw a circle or polygon on the map to add an area; vehicle positions are checked against every active geofence
+          </p>
+        </div>
+
+        <Card className="p-4">
+          {loadError || !apiKey ? (
+            <p className="py-12 text-center text-muted-foreground">Map unavailable: Google Maps could not be loaded</p>
+          ) : !isLoaded ? (
+            <p className="py-12 text-center text-muted-foreground">Loading map...</p>
+          ) : (
+            <GoogleMap
+              mapContainerClassName="h-[420px] w-full rounded-md"
+              center={MAP_CONFIG.defaultCenter}
+              zoom={MAP_CONFIG.defaultZoom}
+              options={MAP_CONFIG.options}
+            >
+              <DrawingManager
+                onCircleComplete={onCircleComplete}
+                onPolygonComplete={onPolygonComplete}
+                options={{
+                  drawingControl: true,
+                  drawingControlOptions: {
+                    position: google.maps.ControlPosition.TOP_CENTER,
+                    drawingModes: [google.maps.drawing.OverlayType.CIRCLE, google.maps.drawing.OverlayType.POLYGON],
+                  },
+                }}
+              />
+              {(geofences || []).map((geofence) =>
+                geofence.shape === "circle" && geofence.center && geofence.radius_m ? (
+                  <Circle
+                    key={geofence.id}
+                    center={geofence.center}
+                    radius={geofence.radius_m}
+                    options={shapeOptions(geofence.category)}
+                    onClick={() => setEditing(geofence)}
+                  />
+                ) : geofence.polygon ? (
+                  <Polygon
+                    key={geofence.id}
+                    paths={geofence.polygon}
+                    options={shapeOptions(geofence.category)}
+                    onClick={() => setEditing(geofence)}
+                  />
+                ) : null
+              )}
+            </GoogleMap>
+          )}
+        </Card>
+
+        <Tabs defaultValue="geofences">
+          <TabsList>
+            <TabsTrigger value="geofences">Geofences</TabsTrigger>
+            <TabsTrigger value="events">Events</TabsTrigger>
+            <TabsTrigger value="alerts">
+              Alerts
+              {alerts && alerts.length > 0 && (
+                <Badge className="ml-2 h-5 px-1.5 bg-red-600">{alerts.length}</Badge>
+              )}
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="geofences">
+            <Card>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Shape</TableHead>
+                    <TableHead>Dwell After</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center">Loading...</TableCell>
+                    </TableRow>
+                  ) : !geofences || geofences.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">No geofences yet</TableCell>
+                    </TableRow>
+                  ) : (
+                    geofences.map((geofence) => (
+                      <TableRow key={geofence.id}>
+                        <TableCell className="font-medium">{geofence.name}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="gap-1">
+                            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: categoryColors[geofence.category] }} />
+                            {categoryLabels[geofence.category] || geofence.category}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          {geofence.shape === "circle"
+                            ? `Circle, ${geofence.radius_m} m`
+                            : `Polygon, ${geofence.polygon?.length ?? 0} points`}
+                        </TableCell>
+                        <TableCell>{geofence.dwell_minutes} min</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button variant="ghost" size="icon" onClick={() => setEditing(geofence)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deactivateMutation.mutate(geofence.id)}
+                            disabled={deactivateMutation.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="events">
+            <Card>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Vehicle</TableHead>
+                    <TableHead>Geofence</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Booking</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!events || events.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center text-muted-foreground">No events recorded</TableCell>
+                    </TableRow>
+                  ) : (
+                    events.map((event) => (
+                      <TableRow key={event.id}>
+                        <TableCell>{formatTime(event.occurred_at)}</TableCell>
+                        <TableCell>
+                          {event.vehicle_code}
+                          <span className="block text-xs text-muted-foreground">{event.registration_number}</span>
+                        </TableCell>
+                        <TableCell>{event.geofence_name}</TableCell>
+                        <TableCell>
+                          <Badge className={eventStyles[event.event_type]}>{event.event_type}</Badge>
+                        </TableCell>
+                        <TableCell>{event.booking_id ? `#${event.booking_id}` : "—"}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="alerts">
+            <Card>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Vehicle</TableHead>
+                    <TableHead>Restricted Zone</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!alerts || alerts.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">No open alerts</TableCell>
+                    </TableRow>
+                  ) : (
+                    alerts.map((alert) => (
+                      <TableRow key={alert.id}>
+                        <TableCell>{formatTime(alert.occurred_at)}</TableCell>
+                        <TableCell>
+                          {alert.vehicle_code}
+                          <span className="block text-xs text-muted-foreground">{alert.registration_number}</span>
+                        </TableCell>
+                        <TableCell>{alert.geofence_name}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => acknowledgeMutation.mutate(alert.id)}
+                            disabled={acknowledgeMutation.isPending}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Acknowledge
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <Dialog
+          open={!!drawn || !!editing}
+          onOpenChange={(open) => {
+            if (!open) {
+              setDrawn(null);
+              setEditing(null);
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{editing ? "Edit Geofence" : "New Geofence"}</DialogTitle>
+            </DialogHeader>
+            {(drawn || editing) && (
+              <GeofenceForm
+                key={editing?.id ?? "new"}
+                geometry={drawn || {
+                  shape: editing!.shape,
+                  center: editing!.center,
+                  radius_m: editing!.radius_m,
+                  polygon: editing!.polygon,
+                }}
+                geofence={editing || undefined}
+                onSuccess={() => {
+                  setDrawn(null);
+                  setEditing(null);
+                }}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,429 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { BellRing, Check, Play, Plus, RefreshCw } from "lucide-react";
+import { WorkOrderForm } from "@/components/work-order-form";
+import {
+  MaintenanceAlertType,
+  WorkOrderStatus,
+  type MaintenanceAlert,
+  type MaintenanceWorkOrder,
+} from "@shared/schema";
+import { PageTransition } from "@/components/page-transition";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+type ServiceSchedule = {
+  vehicleId: number;
+  vehicleCode: string;
+  registrationNumber: string;
+  vehicleTypeName: string;
+  servicePlan: { code: string; name: string; intervalKm: number; intervalMonths: number } | null;
+  currentOdometer: number;
+  lastServiceDate: string | null;
+  nextServiceDate: string | null;
+  nextServiceOdometer: number | null;
+  daysRemaining: number | null;
+  kmRemaining: number | null;
+  status: "ok" | "due_soon" | "overdue" | "no_plan";
+};
+
+const dueStyles: Record<ServiceSchedule["status"], { label: string; className: string }> = {
+  overdue: { label: "Overdue", className: "bg-red-100 text-red-800" },
+  due_soon: { label: "Due Soon", className: "bg-yellow-100 text-yellow-800" },
+  ok: { label: "OK", className: "bg-green-100 text-green-800" },
+  no_plan: { label: "No Plan", className: "bg-slate-100 text-slate-600" },
+};
+
+const workOrderStyles: Record<string, string> = {
+  [WorkOrderStatus.OPEN]: "bg-blue-100 text-blue-800",
+  [WorkOrderStatus.IN_PROGRESS]: "bg-purple-100 text-purple-800",
+  [WorkOrderStatus.CLOSED]: "bg-green-100 text-green-800",
+};
+
+const DUE_ORDER: ServiceSchedule["status"][] = ["overdue", "due_soon", "ok", "no_plan"];
+
+const formatDate = (value: string | Date | null) => (value ? format(new Date(value), "MMM d, yyyy") : "—");
+
+export default function MaintenancePage() {
+  const queryClient = useQueryClient();
+  const [isWorkOrderOpen, setIsWorkOrderOpen] = useState(false);
+  const [workOrderVehicleId, setWorkOrderVehicleId] = useState<number | undefined>();
+  const [closingOrder, setClosingOrder] = useState<MaintenanceWorkOrder | null>(null);
+  const [closeDetails, setCloseDetails] = useState({ cost: "", odometer: "", notes: "" });
+
+  const { data: schedules, isLoading: schedulesLoading } = useQuery<ServiceSchedule[]>({
+    queryKey: ["/api/maintenance/schedule"],
+  });
+
+  const { data: alerts } = useQuery<MaintenanceAlert[]>({
+    queryKey: ["/api/maintenance/alerts"],
+  });
+
+  const { data: workOrders } = useQuery<MaintenanceWorkOrder[]>({
+    queryKey: ["/api/maintenance/work-orders"],
+  });
+
+  const sortedSchedules = useMemo(
+    () => [...(schedules || [])].sort((a, b) => DUE_ORDER.indexOf(a.status) - DUE_ORDER.indexOf(b.status)),
+    [schedules]
+  );
+
+  const vehicleLabels = useMemo(
+    () => new Map((schedules || []).map((s) => [s.vehicleId, `${s.vehicleCode} (${s.registrationNumber})`])),
+    [schedules]
+  );
+
+  const invalidateAll = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance/schedule"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance/alerts"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/maintenance/work-orders"] });
+  };
+
+  const runAlertsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/maintenance/alerts/run");
+      return response.json();
+    },
+    onSuccess: (result: { raised: number }) => {
+      invalidateAll();
+      toast({ title: "Alert check complete", description: `${result.raised} new alert(s) raised` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/maintenance/alerts/${id}/acknowledge`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/maintenance/alerts"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, ...change }: { id: number; status: string; cost?: string; odometer_reading?: string; notes?: string }) => {
+      const response = await apiRequest("PATCH", `/api/maintenance/work-orders/${id}/status`, change);
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateAll();
+      setClosingOrder(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const openWorkOrder = (vehicleId?: number) => {
+    setWorkOrderVehicleId(vehicleId);
+    setIsWorkOrderOpen(true);
+  };
+
+  const startClosing = (order: MaintenanceWorkOrder) => {
+    setCloseDetails({
+      cost: order.cost || "",
+      odometer: order.odometer_reading || "",
+      notes: order.notes || "",
+    });
+    setClosingOrder(order);
+  };
+
+  return (
+    <PageTransition>
+      <div className="container mx-auto py-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Preventive Maintenance</h1>
+            <p className="text-muted-foreground">
+              Service schedules from each vehicle type's plan, alerts and work orders
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => runAlertsMutation.mutate()} disabled={runAlertsMutation.isPending}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Check Now
+            </Button>
+            <Button onClick={() => openWorkOrder()}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Work Order
+            </Button>
+          </div>
+        </div>
+
+        <Tabs defaultValue="schedule">
+          <TabsList>
+            <TabsTrigger value="schedule">Schedule</TabsTrigger>
+            <TabsTrigger value="alerts">
+              Alerts
+              {alerts && alerts.length > 0 && (
+                <Badge className="ml-2 h-5 px-1.5 bg-red-600">{alerts.length}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="work-orders">Work Orders</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="schedule">
+            <Card>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vehicle</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Plan</TableHead>
+                    <TableHead>Last Service</TableHead>
+                    <TableHead>Next Service</TableHead>
+                    <TableHead>Odometer</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedulesLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center">Loading...</TableCell>
+                    </TableRow>
+                  ) : sortedSchedules.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-muted-foreground">No vehicles found</TableCell>
+                    </TableRow>
+                  ) : (
+                    sortedSchedules.map((schedule) => (
+                      <TableRow key={schedule.vehicleId}>
+                        <TableCell className="font-medium">
+                          {schedule.vehicleCode}
+                          <span className="block text-xs text-muted-foreground">{schedule.registrationNumber}</span>
+                        </TableCell>
+                        <TableCell>{schedule.vehicleTypeName}</TableCell>
+                        <TableCell>{schedule.servicePlan?.name || "—"}</TableCell>
+                        <TableCell>{formatDate(schedule.lastServiceDate)}</TableCell>
+                        <TableCell>
+                          {formatDate(schedule.nextServiceDate)}
+                          {schedule.daysRemaining !== null && (
+                            <span className="block text-xs text-muted-foreground">{schedule.daysRemaining} days</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {schedule.currentOdometer.toLocaleString()} km
+                          {schedule.nextServiceOdometer !== null && (
+                            <span className="block text-xs text-muted-foreground">
+                              due at {schedule.nextServiceOdometer.toLocaleString()} km
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={dueStyles[schedule.status].className}>{dueStyles[schedule.status].label}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          {(schedule.status === "overdue" || schedule.status === "due_soon") && (
+                            <Button variant="outline" size="sm" onClick={() => openWorkOrder(schedule.vehicleId)}>
+                              Schedule Service
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="alerts">
+            <Card className="divide-y">
+              {!alerts || alerts.length === 0 ? (
+                <p className="p-6 text-center text-muted-foreground">No open maintenance alerts</p>
+              ) : (
+                alerts.map((alert) => (
+                  <div key={alert.id} className="flex items-center justify-between p-4">
+                    <div className="flex items-start gap-3">
+                      <BellRing className={`h-5 w-5 mt-0.5 ${alert.alert_type === MaintenanceAlertType.OVERDUE ? "text-red-600" : "text-yellow-600"}`} />
+                      <div>
+                        <p className="text-sm font-medium">{alert.message}</p>
+                        <p className="text-xs text-muted-foreground">Raised {formatDate(alert.created_at)}</p>
+                      </div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => acknowledgeMutation.mutate(alert.id)}
+                      disabled={acknowledgeMutation.isPending}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      Acknowledge
+                    </Button>
+                  </div>
+                ))
+              )}
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="work-orders">
+            <Card>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>#</TableHead>
+                    <TableHead>Vehicle</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead>Cost</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!workOrders || workOrders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={9} className="text-center text-muted-foreground">No work orders</TableCell>
+                    </TableRow>
+                  ) : (
+                    workOrders.map((order) => (
+                      <TableRow key={order.id}>
+                        <TableCell>{order.id}</TableCell>
+                        <TableCell>{vehicleLabels.get(order.vehicle_id) || order.vehicle_id}</TableCell>
+                        <TableCell className="capitalize">{order.work_order_type}</TableCell>
+                        <TableCell>
+                          {order.description}
+                          {order.notes && <span className="block text-xs text-muted-foreground">{order.notes}</span>}
+                        </TableCell>
+                        <TableCell>{formatDate(order.opened_at)}</TableCell>
+                        <TableCell>{formatDate(order.closed_at)}</TableCell>
+                        <TableCell>{order.cost ? `AED ${Number(order.cost).toLocaleString()}` : "—"}</TableCell>
+                        <TableCell>
+                          <Badge className={workOrderStyles[order.status]}>{order.status.replace("_", " ")}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right space-x-1">
+                          {order.status === WorkOrderStatus.OPEN && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => statusMutation.mutate({ id: order.id, status: WorkOrderStatus.IN_PROGRESS })}
+                            >
+                              <Play className="h-4 w-4 mr-1" />
+                              Start
+                            </Button>
+                          )}
+                          {order.status !== WorkOrderStatus.CLOSED && (
+                            <Button variant="ghost" size="sm" onClick={() => startClosing(order)}>
+                              <Check className="h-4 w-4 mr-1" />
+                              Close
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <Dialog open={isWorkOrderOpen} onOpenChange={setIsWorkOrderOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>New Work Order</DialogTitle>
+            </DialogHeader>
+            <WorkOrderForm
+              key={workOrderVehicleId ?? "new"}
+              vehicles={schedules || []}
+              defaultVehicleId={workOrderVehicleId}
+              onSuccess={() => setIsWorkOrderOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!closingOrder} onOpenChange={(open) => !open && setClosingOrder(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Close Work Order #{closingOrder?.id}</DialogTitle>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="close-cost">Cost (AED)</Label>
+                  <Input
+                    id="close-cost"
+                    type="number"
+                    min="0"
+                    value={closeDetails.cost}
+                    onChange={(e) => setCloseDetails({ ...closeDetails, cost: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="close-odometer">Odometer (km)</Label>
+                  <Input
+                    id="close-odometer"
+                    type="number"
+                    min="0"
+                    value={closeDetails.odometer}
+                    onChange={(e) => setCloseDetails({ ...closeDetails, odometer: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="close-notes">Notes</Label>
+                <Textarea
+                  id="close-notes"
+                  value={closeDetails.notes}
+                  onChange={(e) => setCloseDetails({ ...closeDetails, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setClosingOrder(null)}>
+                Cancel
+              </Button>
+              <Button
+                disabled={statusMutation.isPending}
+                onClick={() =>
+                  closingOrder &&
+                  statusMutation.mutate({
+                    id: closingOrder.id,
+                    status: WorkOrderStatus.CLOSED,
+                    cost: closeDetails.cost || undefined,
+                    odometer_reading: closeDetails.odometer || undefined,
+                    notes: closeDetails.notes || undefined,
+                  })
+                }
+              >
+                Close Work Order
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Pencil, Plus, Trash2 } from "lucide-react";
+import { MergeRuleForm } from "@/components/merge-rule-form";
+import type { MergeRule } from "@shared/schema";
+import { PageTransition } from "@/components/page-transition";
+import { toast } from "@/hooks/use-toast";
+import { getAuthHeaders } from "@/lib/queryClient";
+
+export default function MergeRulesManagementPage() {
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<MergeRule | null>(null);
+
+  const { data: rules, isLoading } = useQuery<MergeRule[]>({
+    queryKey: ['/api/merge-rules'],
+    queryFn: async () => {
+      const response = await fetch('/api/merge-rules', { headers: getAuthHeaders() });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch merge rules: ${response.status}`);
+      }
+      return response.json();
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/merge-rules/${id}`, { method: 'DELETE', headers: getAuthHeaders() });
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.message || 'Failed to delete merge rule');
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/merge-rules'] });
+      toast({
+        title: "Success",
+        description: "Merge rule deleted successfully",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (rule: MergeRule) => {
+    setEditingRule(rule);
+    setIsDialogOpen(true);
+  };
+
+  const handleAdd = () => {
+    setEditingRule(null);
+    setIsDialogOpen(true);
+  };
+
+  if (isLoading) {
+    return <div>Loading...</div>;
+  }
+
+  return (
+    <PageTransition>
+      <div className="container mx-auto py-6 space-y-6">
+        <div className="flex justify-between items-center">
+          <h1 className="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-[#004990] to-[#0066cc]">
+            Trip Merge Rules
+          </h1>
+          <Button onClick={handleAdd} className="flex items-center gap-2 bg-gradient-to-r from-[#004990] to-[#0066cc]">
+            <Plus className="h-4 w-4" />
+            Add Rule
+          </Button>
+        </div>
+
+        <Card className="backdrop-blur-sm bg-white/90 dark:bg-black/50 border border-white/20">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule Name</TableHead>
+                <TableHead>Region</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Max Pickup (km)</TableHead>
+                <TableHead>Max Dropoff (km)</TableHead>
+                <TableHead>Time Window (min)</TableHead>
+                <TableHead>Max Detour (%)</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules?.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell>{rule.rule_name}</TableCell>
+                  <TableCell>{rule.region || "All Regions"}</TableCell>
+                  <TableCell>{rule.department || "All Departments"}</TableCell>
+                  <TableCell>{rule.max_pickup_distance_km}</TableCell>
+                  <TableCell>{rule.max_dropoff_distance_km}</TableCell>
+                  <TableCell>{rule.time_window_minutes}</TableCell>
+                  <TableCell>{rule.max_detour_percent}</TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={rule.is_active ? "default" : "secondary"}
+                      className={rule.is_active ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}
+                    >
+                      {rule.is_active ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleEdit(rule)}
+                        className="flex items-center gap-1"
+                      >
+                        <Pencil className="h-4 w-4" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => deleteMutation.mutate(rule.id)}
+                        disabled={deleteMutation.isPending}
+                        className="flex items-center gap-1 text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        Delete
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {editingRule ? "Edit Merge Rule" : "Add Merge Rule"}
+              </DialogTitle>
+            </DialogHeader>
+            <MergeRuleForm
+              initialData={editingRule}
+              onSuccess={() => setIsDialogOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,154 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { LogOut } from "lucide-react";
+import { PageTransition } from "@/components/page-transition";
+import { TwoFactorSettings } from "@/components/two-factor-settings";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+
+type Session = {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+};
+
+// Short "Browser on OS" label from a user agent string
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    /Edg\//.test(userAgent) ? "Edge" :
+    /Chrome\//.test(userAgent) ? "Chrome" :
+    /Firefox\//.test(userAgent) ? "Firefox" :
+    /Safari\//.test(userAgent) ? "Safari" :
+    "Unknown browser";
+  const os =
+    /Android/.test(userAgent) ? "Android" :
+    /iPhone|iPad/.test(userAgent) ? "iOS" :
+    /Windows/.test(userAgent) ? "Windows" :
+    /Mac OS X/.test(userAgent) ? "macOS" :
+    /Linux/.test(userAgent) ? "Linux" :
+    "unknown OS";
+  return `${browser} on ${os}`;
+}
+
+export default function SessionsPage() {
+  const queryClient = useQueryClient();
+  const { logout, logoutEverywhere } = useAuth();
+
+  const { data: sessions = [], isLoading } = useQuery<Session[]>({
+    queryKey: ["/api/auth/sessions"],
+    queryFn: async () => {
+      const response = await apiRequest("GET", "/api/auth/sessions");
+      return response.json();
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/auth/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({ title: "Session revoked", description: "That device has been signed out" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <PageTransition>
+      <div className="container mx-auto py-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Active Sessions</h1>
+            <p className="text-sm text-muted-foreground">
+              Devices currently signed in to your account
+            </p>
+          </div>
+          <Button variant="destructive" onClick={logoutEverywhere}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Log out everywhere
+          </Button>
+        </div>
+
+        <TwoFactorSettings />
+
+        <Card className="p-4">
+          {isLoading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Signed In</TableHead>
+                  <TableHead>Last Active</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No active sessions
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  sessions.map((session) => (
+                    <TableRow key={session.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          <span title={session.userAgent ?? undefined}>{describeDevice(session.userAgent)}</span>
+                          {session.current && <Badge variant="outline">This device</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{session.ipAddress ?? "-"}</TableCell>
+                      <TableCell>{format(new Date(session.createdAt), "MMM d, yyyy HH:mm")}</TableCell>
+                      <TableCell>{formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true })}</TableCell>
+                      <TableCell>{format(new Date(session.expiresAt), "MMM d, yyyy")}</TableCell>
+                      <TableCell className="text-right">
+                        {session.current ? (
+                          <Button variant="outline" size="sm" onClick={logout}>
+                            Log out
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={revokeMutation.isPending}
+                            onClick={() => revokeMutation.mutate(session.id)}
+                          >
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </Card>
+      </div>
+    </PageTransition>
+  );
+}
@@ -0,0 +1,280 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, startOfDay, subDays } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Download } from "lucide-react";
+import { PageTransition } from "@/components/page-transition";
+import { apiRequest } from "@/lib/queryClient";
+import { toast } from "@/hooks/use-toast";
+
+const METRICS = [
+  { key: "distance", label: "Distance (km)" },
+  { key: "duration", label: "Duration (min)" },
+  { key: "cost", label: "Cost (AED)" },
+  { key: "co2", label: "CO2 (kg)" },
+] as const;
+
+type Metric = (typeof METRICS)[number]["key"];
+
+type MetricVariance = {
+  estimated: number | null;
+  actual: number | null;
+  variance: number | null;
+  variancePercent: number | null;
+};
+
+type BookingVariance = {
+  bookingId: number;
+  referenceNo: string | null;
+  completedAt: string;
+  vehicleType: string | null;
+  driverName: string | null;
+  department: string;
+  metrics: Record<Metric, MetricVariance>;
+  outliers: Metric[];
+};
+
+type GroupVariance = {
+  key: string;
+  trips: number;
+  outlierTrips: number;
+  metrics: Record<Metric, MetricVariance>;
+};
+
+type VarianceReport = {
+  thresholdPercent: number;
+  bookings: BookingVariance[];
+  byVehicleType: GroupVariance[];
+  byDriver: GroupVariance[];
+  byDepartment: GroupVariance[];
+};
+
+function MetricCell({ metric, threshold }: { metric: MetricVariance; threshold: number }) {
+  if (metric.estimated === null && metric.actual === null) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+  const percent = metric.variancePercent;
+  const isOutlier = percent !== null && Math.abs(percent) > threshold;
+  return (
+    <div className="space-y-0.5">
+      <div className="text-sm">
+        {metric.estimated ?? "-"} <span className="text-muted-foreground">/</span> {metric.actual ?? "-"}
+      </div>
+      {percent !== null && (
+        <Badge variant={isOutlier ? "destructive" : "outline"} className="text-xs">
+          {percent > 0 ? "+" : ""}
+          {percent}%
+        </Badge>
+      )}
+    </div>
+  );
+}
+
+function GroupTable({ groups, label, threshold }: { groups: GroupVariance[]; label: string; threshold: number }) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{label}</TableHead>
+          <TableHead>Trips</TableHead>
+          <TableHead>Outliers</TableHead>
+          {METRICS.map((m) => (
+            <TableHead key={m.key}>{m.label}</TableHead>
+          ))}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {groups.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={3 + METRICS.length} className="text-center text-muted-foreground">
+              No completed trips in this period
+            </TableCell>
+          </TableRow>
+        ) : (
+          groups.map((group) => (
+            <TableRow key={group.key}>
+              <TableCell className="font-medium">{group.key}</TableCell>
+              <TableCell>{group.trips}</TableCell>
+              <TableCell>{group.outlierTrips}</TableCell>
+              {METRICS.map((m) => (
+                <TableCell key={m.key}>
+                  <MetricCell metric={group.metrics[m.key]} threshold={threshold} />
+                </TableCell>
+              ))}
+            </TableRow>
+          ))
+        )}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function TripVariancePage() {
+  const [from, setFrom] = useState(() => format(subDays(startOfDay(new Date()), 30), "yyyy-MM-dd"));
+  const [to, setTo] = useState(() => format(new Date(), "yyyy-MM-dd"));
+  const [threshold, setThreshold] = useState("20");
+  const [outliersOnly, setOutliersOnly] = useState(false);
+
+  const params = new URLSearchParams({
+    from: new Date(`${from}T00:00:00`).toISOString(),
+    to: new Date(`${to}T23:59:59`).toISOString(),
+    threshold: threshold || "0",
+  });
+
+  const { data: report, isLoading } = useQuery<VarianceReport>({
+    queryKey: ["/api/reports/trip-variance", from, to, threshold],
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/reports/trip-variance?${params}`);
+      return response.json();
+    },
+  });
+
+  const thresholdPercent = report?.thresholdPercent ?? Number(threshold);
+  const bookings = (report?.bookings || []).filter((b) => !outliersOnly || b.outliers.length > 0);
+
+  const handleExport = async () => {
+    try {
+      const response = await apiRequest("GET", `/api/reports/trip-variance/export?${params}`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `trip-variance-${from}-${to}.xlsx`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <PageTransition>
+      <div className="container mx-auto py-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Trip Variance</h1>
+            <p className="text-sm text-muted-foreground">
+              Estimated vs actual figures for completed trips, shown as estimated / actual
+            </p>
+          </div>
+          <Button onClick={handleExport} className="bg-gradient-to-r from-[#004990] to-[#0066cc]">
+            <Download className="h-4 w-4 mr-2" />
+            Export XLSX
+          </Button>
+        </div>
+
+        <Card className="p-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="variance-from">From</Label>
+              <Input id="variance-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="variance-to">To</Label>
+              <Input id="variance-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="variance-threshold">Outlier threshold (%)</Label>
+              <Input
+                id="variance-threshold"
+                type="number"
+                min="0"
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            <Button variant={outliersOnly ? "default" : "outline"} onClick={() => setOutliersOnly(!outliersOnly)}>
+              {outliersOnly ? "Showing outliers" : "Show outliers only"}
+            </Button>
+          </div>
+        </Card>
+
+        <Card className="p-4">
+          {isLoading ? (
+            <div className="text-center py-8">Loading...</div>
+          ) : (
+            <Tabs defaultValue="bookings">
+              <TabsList>
+                <TabsTrigger value="bookings">Bookings</TabsTrigger>
+                <TabsTrigger value="vehicle-types">Vehicle Types</TabsTrigger>
+                <TabsTrigger value="drivers">Drivers</TabsTrigger>
+                <TabsTrigger value="departments">Departments</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="bookings">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Booking</TableHead>
+                      <TableHead>Completed</TableHead>
+                      <TableHead>Vehicle Type</TableHead>
+                      <TableHead>Driver</TableHead>
+                      <TableHead>Department</TableHead>
+                      {METRICS.map((m) => (
+                        <TableHead key={m.key}>{m.label}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bookings.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={5 + METRICS.length} className="text-center text-muted-foreground">
+                          No completed trips in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      bookings.map((booking) => (
+                        <TableRow key={booking.bookingId} className={booking.outliers.length > 0 ? "bg-red-50" : ""}>
+                          <TableCell className="font-medium">{booking.referenceNo ?? booking.bookingId}</TableCell>
+                          <TableCell>{format(new Date(booking.completedAt), "MMM d, yyyy HH:mm")}</TableCell>
+                          <TableCell>{booking.vehicleType ?? "-"}</TableCell>
+                          <TableCell>{booking.driverName ?? "-"}</TableCell>
+                          <TableCell>{booking.department}</TableCell>
+                          {METRICS.map((m) => (
+                            <TableCell key={m.key}>
+                              <MetricCell metric={booking.metrics[m.key]} threshold={thresholdPercent} />
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="vehicle-types">
+                <GroupTable groups={report?.byVehicleType || []} label="Vehicle Type" threshold={thresholdPercent} />
+              </TabsContent>
+              <TabsContent value="drivers">
+                <GroupTable groups={report?.byDriver || []} label="Driver" threshold={thresholdPercent} />
+              </TabsContent>
+              <TabsContent value="departments">
+                <GroupTable groups={report?.byDepartment || []} label="Department" threshold={thresholdPercent} />
+              </TabsContent>
+            </Tabs>
+          )}
+        </Card>
+      </div>
+    </PageTransition>
+  );
+}
@@ -2,7 +2,7 @@ import * as React from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Card, CardHeader, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Loader2, Plus, Pencil, Trash2 } from "lucide-react";
+import { Loader2, Plus, Pencil, Trash2, LockOpen } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import {
   AlertDialog,
@@ -14,7 +14,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { UserFormDialog, UserFormData } from "@/components/user-form-dialog";
 import { QuickActionsFAB } from "@/components/quick-actions-fab";
-import { queryClient } from "@/lib/queryClient";
+import { queryClient, getAuthHeaders } from "@/lib/queryClient";
 import { Table, TableBody, TableCell, TableHeader, TableRow, TableHead } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 
@@ -32,10 +32,14 @@ interface User {
   first_name: string;
   last_name: string;
   is_active: boolean;
+  // Set while sign-in is locked after repeated wrong passwords
+  locked_until: string | null;
   created_at: string;
   updated_at: string;
 }
 
+const isLocked = (user: User) => !!user.locked_until && new Date(user.locked_until) > new Date();
+
 const USERS_QUERY_KEY = "/api/users";
 
 export default function UserMasterPage() {
@@ -48,7 +52,7 @@ export default function UserMasterPage() {
   const { data: users, isLoading, error } = useQuery<User[]>({
     queryKey: [USERS_QUERY_KEY],
     queryFn: async () => {
-      const response = await fetch(USERS_QUERY_KEY);
+      const response = await fetch(USERS_QUERY_KEY, { headers: getAuthHeaders() });
       if (!response.ok) {
         throw new Error('Failed to fetch users');
       }
@@ -66,6 +70,7 @@ export default function UserMasterPage() {
       const response = await fetch("/api/users", {
         method: "POST",
         headers: {
+          ...getAuthHeaders(),
           "Content-Type": "application/json",
           "Accept": "application/json"
         },
@@ -120,6 +125,7 @@ export default function UserMasterPage() {
       const response = await fetch(`/api/users/${id}`, {
         method: "PUT",
         headers: {
+          ...getAuthHeaders(),
           "Content-Type": "application/json",
           "Accept": "application/json"
         },
@@ -175,6 +181,7 @@ export default function UserMasterPage() {
       console.log("Deleting user:", id);
       const response = await fetch(`${USERS_QUERY_KEY}/${id}`, {
         method: "DELETE",
+        headers: getAuthHeaders(),
       });
 
       if (!response.ok) {
@@ -201,6 +208,35 @@ export default function UserMasterPage() {
     },
   });
 
+  const unlockUserMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await fetch(`/api/auth/users/${id}/unlock`, {
+        method: "POST",
+        headers: getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || "Failed to unlock user");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [USERS_QUERY_KEY] });
+      toast({
+        title: "Success",
+        description: "User can sign in again",
+      });
+    },
+    onError: (error: Error) => {
+      console.error("Error unlocking user:", error);
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleDeleteUser = async () => {
     if (!selectedUser) return;
     try {
@@ -326,6 +362,14 @@ export default function UserMasterPage() {
                     >
                       {user.is_active ? "Active" : "Inactive"}
                     </span>
+                    {isLocked(user) && (
+                      <span
+                        className="ml-1 px-2 py-1 text-xs rounded-full bg-orange-100 text-orange-800"
+                        title={`Locked until ${new Date(user.locked_until!).toLocaleString()}`}
+                      >
+                        Locked
+                      </span>
+                    )}
                   </TableCell>
                   <TableCell>
                     {new Date(user.created_at).toLocaleDateString()}
@@ -338,6 +382,17 @@ export default function UserMasterPage() {
                     >
                       <Pencil className="h-4 w-4" />
                     </Button>
+                    {isLocked(user) && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        title="Unlock sign-in"
+                        disabled={unlockUserMutation.isPending}
+                        onClick={() => unlockUserMutation.mutate(user.id)}
+                      >
+                        <LockOpen className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="outline"
                       size="sm"
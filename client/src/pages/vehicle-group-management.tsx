@@ -24,7 +24,7 @@ import {
 } from "@/components/ui/select";
 import { motion, AnimatePresence } from "framer-motion";
 import { VehicleGroup, InsertVehicleGroup, Region, VehicleGroupType, Department } from "@shared/schema";
-import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient, getAuthHeaders } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { VehicleGroupForm } from "@/components/ui/vehicle-group-form";
 import { VehicleGroupFAB } from "@/components/ui/vehicle-group-fab";
@@ -197,6 +197,7 @@ export default function VehicleGroupManagement() {
     try {
       const response = await fetch('/api/vehicle-groups/import', {
         method: 'POST',
+        headers: getAuthHeaders(),
         body: formData
       });
 
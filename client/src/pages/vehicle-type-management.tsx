@@ -1,7 +1,7 @@
 import { useState, useMemo, useCallback, useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { VehicleTypeMaster, InsertVehicleTypeMaster } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getAuthHeaders } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { VehicleTypeForm } from "@/components/ui/vehicle-type-form";
 import { DEFAULT_MANUFACTURERS, DEFAULT_VEHICLE_MODELS, DEFAULT_YEARS } from "@/lib/vehicle-constants";
@@ -81,6 +81,7 @@ export default function VehicleTypeManagement() {
         const response = await fetch("/api/vehicle-types", {
           method: "GET",
           headers: {
+            ...getAuthHeaders(),
             "Accept": "application/json",
             "Content-Type": "application/json"
           }
@@ -145,7 +146,7 @@ export default function VehicleTypeManagement() {
   useEffect(() => {
     const fetchVehicleGroups = async () => {
       try {
-        const response = await fetch("/api/vehicle-groups");
+        const response = await fetch("/api/vehicle-groups", { headers: getAuthHeaders() });
         if (response.ok) {
           const data = await response.json();
           console.log("Vehicle groups loaded:", data);
@@ -21,6 +21,7 @@ import { Pencil, Plus } from "lucide-react";
 import { WorkflowManagementForm } from "@/components/workflow-management-form";
 import type { ApprovalWorkflow } from "@shared/schema";
 import { PageTransition } from "@/components/page-transition";
+import { getAuthHeaders } from "@/lib/queryClient";
 
 export default function WorkflowManagementPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -30,7 +31,7 @@ export default function WorkflowManagementPage() {
     queryKey: ['/api/approval-workflows'],
     queryFn: async () => {
       console.log("Fetching workflows from /api/approval-workflows");
-      const response = await fetch('/api/approval-workflows');
+      const response = await fetch('/api/approval-workflows', { headers: getAuthHeaders() });
       if (!response.ok) {
         throw new Error(`Failed to fetch workflows: ${response.status}`);
       }
@@ -1,10 +1,36 @@
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 
 // Consistent secret key using const
 // Include direct debug output of what the secret actually is
 const JWT_SECRET = process.env.JWT_SECRET || 'dev-secret-key';
 console.log('JWT_SECRET is set:', !!JWT_SECRET, 'Type:', typeof JWT_SECRET, 'Length:', JWT_SECRET.length);
 
+// Access tokens are short-lived; clients renew them with the session's refresh token
+export const ACCESS_TOKEN_TTL_MINUTES = parseFloat(process.env.ACCESS_TOKEN_TTL_MINUTES || '15');
+
+// Sessions revoked while their access tokens may still be unexpired. Kept in memory so the
+// synchronous checks below need no database round trip; SessionService seeds it at startup.
+const revokedSessions = new Map<number, number>();
+
+export function revokeSessionTokens(sessionIds: number[]): void {
+  const until = Date.now() + ACCESS_TOKEN_TTL_MINUTES * 60 * 1000;
+  sessionIds.forEach(id => revokedSessions.set(id, until));
+}
+
+export function isSessionRevoked(sessionId: number): boolean {
+  const until = revokedSessions.get(sessionId);
+  if (until === undefined) {
+    return false;
+  }
+  if (until < Date.now()) {
+    // Every token issued for the session has expired by now
+    revokedSessions.delete(sessionId);
+    return false;
+  }
+  return true;
+}
+
 // Interface for our token payloads
 export interface TokenPayload {
   userId?: number;
@@ -12,6 +38,8 @@ export interface TokenPayload {
   email?: string;
   id?: number;
   sub?: string;
+  // Session the token was issued for; tokens of revoked sessions are refused
+  sid?: number;
   iat: number;
   exp: number;
 }
@@ -19,9 +47,9 @@ export interface TokenPayload {
 /**
  * Creates a JWT token with consistent secret key
  */
-export function createToken(userId: number, email?: string): string {
+export function createToken(userId: number, email: string | undefined, sessionId: number): string {
   // Always include email if provided, force the email field to be present
-  const payload: any = { userId };
+  const payload: any = { userId, sid: sessionId };
   
   // Add email for more complete token payload
   if (email) {
@@ -35,7 +63,7 @@ export function createToken(userId: number, email?: string): string {
   const token = jwt.sign(
     payload,
     JWT_SECRET,
-    { expiresIn: '24h' }
+    { expiresIn: Math.round(ACCESS_TOKEN_TTL_MINUTES * 60) }
   );
   
   // Decode to verify structure
@@ -45,6 +73,59 @@ export function createToken(userId: number, email?: string): string {
   return token;
 }
 
+// Issued after the password check while a second factor is still owed. Signed with a separate
+// secret so it can never pass as an access token.
+const CHALLENGE_SECRET = `${JWT_SECRET}:two-factor`;
+
+// Challenge tokens already exchanged for a session, kept until they would have expired
+const usedChallenges = new Map<string, number>();
+
+interface ChallengePayload {
+  userId: number;
+  jti?: string;
+  exp: number;
+}
+
+export function createChallengeToken(userId: number, ttlMinutes: number): string {
+  return jwt.sign({ userId, jti: randomUUID() }, CHALLENGE_SECRET, { expiresIn: Math.round(ttlMinutes * 60) });
+}
+
+/**
+ * Returns the user ID of a valid challenge token; throws when it is invalid, expired or already used
+ */
+export function verifyChallengeToken(token: string): number {
+  const decoded = jwt.verify(token, CHALLENGE_SECRET) as ChallengePayload;
+  if (!decoded.jti || usedChallenges.has(decoded.jti)) {
+    throw new Error('Challenge token already used');
+  }
+  return decoded.userId;
+}
+
+/**
+ * Marks a challenge token as spent. Returns false when it was already spent or is no longer
+ * valid; the check and the mark happen synchronously, so two requests cannot both claim it.
+ */
+export function consumeChallengeToken(token: string): boolean {
+  let decoded: ChallengePayload;
+  try {
+    decoded = jwt.verify(token, CHALLENGE_SECRET) as ChallengePayload;
+  } catch {
+    return false;
+  }
+  if (!decoded.jti || usedChallenges.has(decoded.jti)) {
+    return false;
+  }
+
+  const now = Date.now();
+  usedChallenges.forEach((until, id) => {
+    if (until < now) {
+      usedChallenges.delete(id);
+    }
+  });
+  usedChallenges.set(decoded.jti, decoded.exp * 1000);
+  return true;
+}
+
 /**
  * Verifies a JWT token
  * More flexible to handle tokens with different structures
@@ -85,6 +166,16 @@ export function verifyToken(token: string): TokenPayload {
       console.error(`Token expired at ${new Date(decoded.exp * 1000).toISOString()}, current time is ${new Date().toISOString()}`);
       throw new Error('Token expired');
     }
+
+    // Tokens without a session could never be signed out, so they are not accepted
+    if (!decoded.sid) {
+      console.error(`Token carries no session`);
+      throw new Error('Token has no session');
+    }
+    if (isSessionRevoked(decoded.sid)) {
+      console.error(`Token belongs to revoked session ${decoded.sid}`);
+      throw new Error('Token revoked');
+    }
     
     return decoded;
   } catch (error) {
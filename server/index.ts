@@ -7,6 +7,10 @@ import { createServer } from "http";
 import authRouter from "./routes/auth";
 import path from "path";
 import { initializeFuelPriceService } from "./services/fuel-price-service";
+import { initializeApprovalEscalationJob } from "./services/approval-escalation";
+import { initializeMaintenanceAlertJob } from "./services/maintenance";
+import { initializeFleetSocket } from "./services/fleet-live";
+import { initializeAchievementJob } from "./services/gamification";
 import { bookingDebugMiddleware } from "./debug/booking-debug";
 
 // Add global error handlers
@@ -24,6 +28,15 @@ process.on("unhandledRejection", (reason, promise) => {
 
 const app = express();
 
+// Reverse proxies in front of the server, so req.ip is the client's address rather than the
+// proxy's. Either a hop count such as "1" or a list of trusted addresses and subnets such as
+// "loopback, 10.0.0.0/8". Left unset, forwarded headers are ignored.
+const trustProxy = process.env.TRUST_PROXY?.trim();
+if (trustProxy) {
+  app.set("trust proxy", /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy.split(",").map(entry => entry.trim()));
+  log(`Trusting proxy: ${trustProxy}`);
+}
+
 // Essential middleware
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
@@ -104,11 +117,27 @@ async function initializeServer() {
     await initializeFuelPriceService();
     log("Fuel price service initialized successfully");
 
+    // Schedule the approval escalation job
+    log("Scheduling approval escalation job...");
+    initializeApprovalEscalationJob();
+
+    // Schedule the daily maintenance alert job
+    log("Scheduling maintenance alert job...");
+    initializeMaintenanceAlertJob();
+
+    // Seed achievements and schedule the hourly progress evaluation
+    log("Scheduling achievement evaluation job...");
+    initializeAchievementJob();
+
     // Create HTTP server first
     log("Creating HTTP server...");
     const server = createServer(app);
     log("HTTP server created");
 
+    // Push live vehicle positions and status to the fleet map
+    log("Attaching fleet live socket...");
+    initializeFleetSocket(server);
+
     // Register API routes
     log("Registering API routes...");
     await registerRoutes(app);
@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { timingSafeEqual } from 'crypto';
 import { storage } from '../storage';
+import { isSessionRevoked } from '../auth/token-service';
+import { getPermissionsForUser, type PermissionName } from '@shared/schema/permissions';
+import { DataScopeService, DataScopeError, type DataScope } from '../services/data-scope';
 
 // Extend Request type to include a user property
 declare global {
@@ -9,6 +13,12 @@ declare global {
       user?: {
         userId: number;
         email: string;
+        // Session the access token was issued for
+        sessionId?: number;
+        // Loaded by requirePermission on first use
+        permissions?: PermissionName[];
+        // Set by resolveDataScope; null means the user is not restricted
+        dataScope?: DataScope | null;
       };
     }
   }
@@ -41,12 +51,31 @@ export const validateToken = async (req: Request, res: Response, next: NextFunct
     const decoded = jwt.verify(token, process.env.JWT_SECRET || 'dev-secret-key') as {
       userId: number;
       email: string;
+      sid?: number;
     };
+
+    // Tokens without a session could never be signed out, so they are not accepted
+    if (!decoded.sid) {
+      console.warn(`[AUTH] Rejected token of user ${decoded.userId} without a session`);
+      return res.status(401).json({
+        success: false,
+        message: 'Token is not tied to a session; sign in again'
+      });
+    }
+
+    if (isSessionRevoked(decoded.sid)) {
+      console.warn(`[AUTH] Rejected token of revoked session ${decoded.sid}`);
+      return res.status(401).json({
+        success: false,
+        message: 'Session has been signed out'
+      });
+    }
     
     // Add decoded user information to the request
     req.user = {
       userId: decoded.userId,
-      email: decoded.email
+      email: decoded.email,
+      sessionId: decoded.sid
     };
     
     console.log('[AUTH] User authenticated with ID:', decoded.userId);
@@ -59,4 +88,124 @@ export const validateToken = async (req: Request, res: Response, next: NextFunct
       message: 'Invalid or expired authentication token'
     });
   }
-};
\ No newline at end of file
+};
+
+// Permissions of the authenticated user, looked up once per request
+export const loadPermissions = async (req: Request): Promise<PermissionName[] | null> => {
+  if (!req.user) {
+    return null;
+  }
+  if (!req.user.permissions) {
+    const user = await storage.getUser(req.user.userId);
+    if (!user || !user.is_active) {
+      return null;
+    }
+    req.user.permissions = getPermissionsForUser(user);
+  }
+  return req.user.permissions;
+};
+
+// Must run after validateToken. Passes when the user holds any of the given permissions and
+// otherwise answers 403 naming the permission that is missing.
+export const requirePermission = (...required: PermissionName[]) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const permissions = await loadPermissions(req);
+      if (!permissions) {
+        return res.status(401).json({
+          success: false,
+          message: 'User account not found or inactive'
+        });
+      }
+
+      if (!required.some(permission => permissions.includes(permission))) {
+        console.warn(`[AUTH] User ${req.user!.userId} denied ${req.method} ${req.originalUrl}: missing ${required.join(' or ')}`);
+        return res.status(403).json({
+          success: false,
+          error: `Missing permission: ${required.join(' or ')}`,
+          missingPermission: required.length === 1 ? required[0] : required
+        });
+      }
+
+      next();
+    } catch (error: any) {
+      console.error('[AUTH] Permission check error:', error.message);
+      return res.status(500).json({
+        success: false,
+        message: 'Failed to check permissions'
+      });
+    }
+  };
+
+// Must run after validateToken. Records the region, department and unit the user's lists are
+// narrowed to, and refuses users whose scope cannot be determined.
+export const resolveDataScope = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user ? await storage.getUser(req.user.userId) : null;
+    if (!user || !user.is_active) {
+      return res.status(401).json({
+        success: false,
+        message: 'User account not found or inactive'
+      });
+    }
+
+    req.user!.dataScope = await DataScopeService.getScopeForUser(user);
+    next();
+  } catch (error: any) {
+    if (error instanceof DataScopeError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('[AUTH] Data scope error:', error.message);
+    return res.status(500).json({
+      success: false,
+      message: 'Failed to resolve data scope'
+    });
+  }
+};
+
+// The scope resolveDataScope attached to the request. A route that forgot the middleware
+// fails here instead of silently seeing every record.
+export function getDataScope(req: Request): DataScope | null {
+  const scope = req.user?.dataScope;
+  if (scope === undefined) {
+    throw new Error('Data scope was not resolved for this request; add resolveDataScope to the route');
+  }
+  return scope;
+}
+
+// Tracking devices have no user account; they authenticate with the shared telematics key
+export const validateDeviceKey = (req: Request, res: Response, next: NextFunction) => {
+  const provided = req.headers['x-api-key'];
+  const expected = process.env.TELEMATICS_API_KEY;
+
+  // Without a configured key no device can be trusted, so the endpoint stays closed
+  if (!expected) {
+    console.error('[AUTH] TELEMATICS_API_KEY is not set; refusing telematics request');
+    return res.status(503).json({
+      success: false,
+      message: 'Telematics ingestion is not configured'
+    });
+  }
+
+  if (typeof provided !== 'string' || !provided) {
+    return res.status(401).json({
+      success: false,
+      message: 'Device API key is missing'
+    });
+  }
+
+  const providedBuffer = Buffer.from(provided);
+  const expectedBuffer = Buffer.from(expected);
+  if (providedBuffer.length !== expectedBuffer.length || !timingSafeEqual(providedBuffer, expectedBuffer)) {
+    console.error('[AUTH] Rejected telematics request with an invalid device key');
+    return res.status(401).json({
+      success: false,
+      message: 'Invalid device API key'
+    });
+  }
+
+  next();
+};
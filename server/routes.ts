@@ -6,20 +6,19 @@ import { schema } from "./db";
 import { log } from "./vite";
 // Import debug utils
 import { logBookingRequest, logBookingError } from "./debug/booking-debug";
-import { createToken, verifyToken, isValidTokenPayload } from "./auth/token-service";
+import { verifyToken, isValidTokenPayload } from "./auth/token-service";
 import vehicleGroupRouter from "./routes/vehicle-groups";
 import vehicleTypeMasterRouter from "./routes/vehicle-type-master";
 import { ecoRoutesRouter } from "./routes/eco-routes";
 import multer from "multer";
 import { approvalWorkflowsRouter } from './routes/approval-workflows';
-import { insertBookingSchema, insertUserSchema, employees, bookings, insertEmployeeSchema, insertApprovalWorkflowSchema } from "@shared/schema";
+import { insertBookingSchema, insertUserSchema, employees, bookings, insertEmployeeSchema, insertApprovalWorkflowSchema, UserType, UserOperationType } from "@shared/schema";
 import bcrypt from "bcryptjs";
 import authTestRouter from "./routes/auth-test";
-import jwt from "jsonwebtoken";
 import XLSX from "xlsx";
 import nodemailer from "nodemailer";
 import crypto from "crypto";
-import { eq, sql } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
 import mastersRouter from "./routes/masters"; // Added import statement
 import { initializeFuelPriceService, updateFuelPrices, getFuelPriceHistory, triggerFuelPriceUpdate, runWamFuelPriceScraper } from "./services/fuel-price-service";
 import { performanceRouter } from "./routes/performance-snapshot";
@@ -33,6 +32,33 @@ import bookingManagementRouter from "./routes/booking-management";
 import bookingDebugAdvancedRouter from "./routes/booking-debug-advanced";
 import bookingCreateTestRouter from "./routes/booking-create-test";
 import { testBookingDirectRouter } from "./routes/test-booking-direct";
+import tripMergesRouter from "./routes/trip-merges";
+import dispatchRouter from "./routes/dispatch";
+import bookingStatusRouter from "./routes/booking-status";
+import tripExecutionRouter from "./routes/trip-execution";
+import tripVarianceRouter from "./routes/trip-variance";
+import pricingRouter from "./routes/pricing";
+import twoFactorRouter from "./routes/two-factor";
+import { PricingService } from "./services/pricing";
+import { DataScopeService } from "./services/data-scope";
+import { SessionService } from "./services/sessions";
+import { TwoFactorService } from "./services/two-factor";
+import { LoginProtectionService, LoginBlockedError } from "./services/login-protection";
+import { PasswordPolicyService, PasswordPolicyError } from "./services/password-policy";
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from "./middleware/auth";
+import { Permission } from "@shared/schema/permissions";
+import driverRouter from "./routes/drivers";
+import driverShiftsRouter from "./routes/driver-shifts";
+import maintenanceRouter from "./routes/maintenance";
+import vehicleAvailabilityRouter from "./routes/vehicle-availability";
+import telematicsRouter from "./routes/telematics";
+import geofencesRouter from "./routes/geofences";
+import drivingSafetyRouter from "./routes/driving-safety";
+import { achievementsRouter } from "./routes/achievements";
+import bookingApprovalsRouter from "./routes/booking-approvals";
+import approvalDelegationsRouter from "./routes/approval-delegations";
+import { BookingApprovalService } from "./services/booking-approval";
+import { mergeRulesRouter } from "./routes/merge-rules";
 
 // Configure multer for handling file uploads
 const upload = multer({
@@ -64,7 +90,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     log("Health check endpoint registered");
     
     // API endpoint to get booking purposes by booking type
-    app.get("/api/booking/purposes/:type", (req, res) => {
+    app.get("/api/booking/purposes/:type", validateToken, requirePermission(Permission.BOOKINGS_CREATE), (req, res) => {
       try {
         const { type } = req.params;
         // Import BookingPurpose directly from the schema
@@ -119,7 +145,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     log("Booking purposes endpoint registered");
     
     // Debug API for booking analysis
-    app.get("/api/debug/booking", (req, res) => {
+    app.get("/api/debug/booking", validateToken, requirePermission(Permission.SYSTEM_DEBUG), (req, res) => {
       try {
         // Trigger a test log message to verify the debug system
         console.log('[DEBUG] API check:', { timestamp: new Date().toISOString() });
@@ -142,7 +168,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Log diagnostic information if a booking ID was provided
         if (bookingId) {
           log(`[DEBUG] Request for debugging booking ID: ${bookingId}`);
-          storage.getBookings()
+          storage.getBookings(null)
             .then(bookings => {
               const booking = bookings.find(b => b.id === bookingId);
               if (booking) {
@@ -171,6 +197,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     await storage.initializeDefaultUser();
     log("Default user initialized");
     
+    // Restore the list of revoked sessions
+    log("Initializing session revocation list...");
+    await SessionService.initialize();
+    log("Session revocation list initialized");
+    
     // Initialize fuel price service
     log("Initializing fuel price service...");
     await initializeFuelPriceService();
@@ -258,8 +289,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Find user - try by username or email
         const user = await storage.findUserByEmail(emailValue) || 
                     await storage.getUserByUserName(emailValue);
-                    
+
+        // Blocked addresses and locked accounts are refused before the password is checked
+        await LoginProtectionService.assertAllowed(req, emailValue, user);
+
         if (!user) {
+          await LoginProtectionService.recordFailure(req, emailValue);
           return res.status(401).json({
             error: "Invalid credentials"
           });
@@ -270,14 +305,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log('Password validation result:', isValidPassword);
 
         if (!isValidPassword) {
+          await LoginProtectionService.recordFailure(req, emailValue, user);
           return res.status(401).json({
             error: "Invalid credentials"
           });
         }
+        await LoginProtectionService.recordSuccess(req, emailValue, user);
+
+        // Users who owe a second factor get a challenge instead of a session
+        const challenge = await TwoFactorService.getLoginChallenge(user);
+        if (challenge) {
+          return res.json(challenge);
+        }
 
-        // Generate token - using createToken from token-service.ts to maintain consistency
-        const token = createToken(user.id, user.email_id);
-        console.log(`Created token for user ${user.id} with email ${user.email_id}. Token: ${token.substring(0, 20)}...`);
+        // An expired password has to be changed before a session is opened
+        const expired = await PasswordPolicyService.getExpiryChallenge(user);
+        if (expired) {
+          return res.status(403).json(expired);
+        }
+
+        // Open a session; its access token is created by token-service.ts like every other token
+        const session = await SessionService.start(user, req);
+        console.log(`Started session ${session.sessionId} for user ${user.id} with email ${user.email_id}`);
 
         // Update last login
         await storage.updateUserLastLogin(user.id);
@@ -286,11 +335,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log('Login successful for:', user.email_id);
         const { password: _, ...userData } = user;
         res.json({
-          token,
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresIn: session.expiresIn,
           ...userData, // Flattening the user data for backward compatibility
           message: "Login successful"
         });
       } catch (error: any) {
+        if (error instanceof LoginBlockedError) {
+          res.set('Retry-After', String(error.retryAfterSeconds));
+          return res.status(error.statusCode).json({
+            error: error.message,
+            retryAfter: error.retryAfterSeconds
+          });
+        }
         console.error('Login error:', error);
         res.status(500).json({
           error: "Server error during login",
@@ -351,8 +409,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Find user - try by username or email
         const user = await storage.findUserByEmail(emailValue) || 
                     await storage.getUserByUserName(emailValue);
-                    
+
+        // Blocked addresses and locked accounts are refused before the password is checked
+        await LoginProtectionService.assertAllowed(req, emailValue, user);
+
         if (!user) {
+          await LoginProtectionService.recordFailure(req, emailValue);
           return res.status(401).json({
             error: "Invalid credentials"
           });
@@ -363,14 +425,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log('Password validation result:', isValidPassword);
 
         if (!isValidPassword) {
+          await LoginProtectionService.recordFailure(req, emailValue, user);
           return res.status(401).json({
             error: "Invalid credentials"
           });
         }
+        await LoginProtectionService.recordSuccess(req, emailValue, user);
+
+        // Users who owe a second factor get a challenge instead of a session
+        const challenge = await TwoFactorService.getLoginChallenge(user);
+        if (challenge) {
+          return res.json(challenge);
+        }
+
+        // An expired password has to be changed before a session is opened
+        const expired = await PasswordPolicyService.getExpiryChallenge(user);
+        if (expired) {
+          return res.status(403).json(expired);
+        }
 
-        // Generate token using the token-service for consistency
-        const token = createToken(user.id, user.email_id);
-        console.log(`Created token for user ${user.id} with email ${user.email_id}. Token: ${token.substring(0, 20)}...`);
+        // Open a session; its access token is created by the token-service for consistency
+        const session = await SessionService.start(user, req);
+        console.log(`Started session ${session.sessionId} for user ${user.id} with email ${user.email_id}`);
 
         // Update last login
         await storage.updateUserLastLogin(user.id);
@@ -379,11 +455,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log('Login successful for:', emailValue);
         const { password: _, ...userData } = user;
         res.json({
-          token,
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresIn: session.expiresIn,
           user: userData,
           message: "Login successful"
         });
       } catch (error: any) {
+        if (error instanceof LoginBlockedError) {
+          res.set('Retry-After', String(error.retryAfterSeconds));
+          return res.status(error.statusCode).json({
+            error: error.message,
+            retryAfter: error.retryAfterSeconds
+          });
+        }
         console.error('Login error:', error);
         res.status(500).json({
           error: "Server error during login",
@@ -401,7 +486,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           password: '[REDACTED]'
         });
 
-        const { email, password, firstName, lastName, userType = 'USER' } = req.body;
+        // Any role in the body is ignored; self-registered accounts are always plain employees and
+        // only a USERS_MANAGE holder can change that through PUT /api/auth/users/:id
+        const { email, password, firstName, lastName } = req.body;
 
         // Basic validation
         if (!email || !password || !firstName || !lastName) {
@@ -411,6 +498,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
 
+        const passwordError = PasswordPolicyService.validate(password);
+        if (passwordError) {
+          return res.status(400).json({
+            error: "Invalid password",
+            details: passwordError
+          });
+        }
+
         // Check if user already exists
         const existingUser = await storage.findUserByEmail(email);
         if (existingUser) {
@@ -432,8 +527,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           full_name: `${firstName} ${lastName}`,
           user_name: email.split('@')[0],
           user_code: `USR${Math.floor(Math.random() * 10000)}`,
-          user_type: userType,
-          user_operation_type: userType,
+          user_type: UserType.USER,
+          user_operation_type: UserOperationType.EMPLOYEE,
           user_group: 'DEFAULT',
           is_active: true,
           created_at: new Date(),
@@ -448,13 +543,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           name: user.full_name
         });
 
-        // Generate token for immediate login using token-service for consistency
-        const token = createToken(user.id, user.email_id);
-        console.log(`Created token for new user ${user.id} with email ${user.email_id}. Token: ${token.substring(0, 20)}...`);
+        // Open a session for immediate login
+        const session = await SessionService.start(user, req);
+        console.log(`Started session ${session.sessionId} for new user ${user.id} with email ${user.email_id}`);
 
         res.status(201).json({
           message: "Registration successful",
-          token,
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresIn: session.expiresIn,
           user: {
             id: user.id,
             email: user.email_id,
@@ -493,19 +590,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Mark user as verified
         const user = await storage.markUserAsVerified(userId);
         
-        // Generate token
-        const token = createToken(user.id, user.email_id);
+        // Open a session
+        const session = await SessionService.start(user, req);
         
-        res.json({ message: "Account verified successfully", token, user });
+        res.json({
+          message: "Account verified successfully",
+          token: session.token,
+          refreshToken: session.refreshToken,
+          expiresIn: session.expiresIn,
+          user
+        });
       } catch (error: any) {
         res.status(400).json({ error: error.message });
       }
     });
 
     // Get all vehicles
-    app.get("/api/vehicles", async (_req, res) => {
+    app.get("/api/vehicles", validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req, res) => {
       try {
-        const vehicles = await storage.getVehicles();
+        const vehicles = await storage.getVehicles(getDataScope(req));
         res.json(vehicles);
       } catch (error: any) {
         res.status(500).json({ error: "Failed to retrieve vehicles" });
@@ -513,9 +616,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     // Get available vehicles
-    app.get("/api/vehicles/available", async (_req, res) => {
+    app.get("/api/vehicles/available", validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req, res) => {
       try {
-        const vehicles = await storage.getAvailableVehicles();
+        const vehicles = await storage.getAvailableVehicles(getDataScope(req));
         res.json(vehicles);
       } catch (error: any) {
         res.status(500).json({ error: "Failed to retrieve available vehicles" });
@@ -523,9 +626,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     // Get all drivers
-    app.get("/api/drivers", async (_req, res) => {
+    app.get("/api/drivers", validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req, res) => {
       try {
-        const drivers = await storage.getDrivers();
+        const drivers = await storage.getDrivers(getDataScope(req));
         res.json(drivers);
       } catch (error: any) {
         res.status(500).json({ error: "Failed to retrieve drivers" });
@@ -533,9 +636,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     // Get available drivers
-    app.get("/api/drivers/available", async (_req, res) => {
+    app.get("/api/drivers/available", validateToken, requirePermission(Permission.FLEET_VIEW, Permission.DISPATCH_MANAGE), resolveDataScope, async (req, res) => {
       try {
-        const drivers = await storage.getAvailableDrivers();
+        const drivers = await storage.getAvailableDrivers(getDataScope(req));
         res.json(drivers);
       } catch (error: any) {
         res.status(500).json({ error: "Failed to retrieve available drivers" });
@@ -544,7 +647,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     // Get all bookings
     // Simple test endpoint to verify API connectivity
-    app.get("/api/bookings/test", (req, res) => {
+    app.get("/api/bookings/test", validateToken, requirePermission(Permission.SYSTEM_DEBUG), (req, res) => {
       console.log("Booking test endpoint called");
       res.status(200).json({
         message: "Booking API is working",
@@ -556,7 +659,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     });
     
-    app.get("/api/bookings", async (req, res) => {
+    app.get("/api/bookings", validateToken, requirePermission(Permission.BOOKINGS_VIEW), resolveDataScope, async (req, res) => {
+      // Taken before the token is decoded again below, which replaces req.user
+      const dataScope = getDataScope(req);
+
       // Check for authentication token
       const authHeader = req.headers.authorization;
       if (!authHeader) {
@@ -600,7 +706,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       try {
-        const bookings = await storage.getBookings();
+        const bookings = await storage.getBookings(dataScope);
         
         // Log the first booking to debug format issues
         if (bookings.length > 0) {
@@ -637,7 +743,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     // Update the booking creation route
-    app.post("/api/bookings", async (req, res) => {
+    app.post("/api/bookings", validateToken, requirePermission(Permission.BOOKINGS_CREATE), async (req, res) => {
       const debugId = Date.now().toString();
       console.log(`[BOOKING-${debugId}] ==========================================`);
       console.log(`[BOOKING-${debugId}] BOOKING CREATION REQUEST RECEIVED`);
@@ -941,22 +1047,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const booking = await storage.createBooking(bookingData);
         console.log(`[BOOKING-${debugId}] Successfully created booking with ID ${booking.id}:`, JSON.stringify(booking, null, 2));
 
-        // Calculate and update metadata
-        const totalDistance = calculateTotalDistance(booking.pickup_location, booking.dropoff_location);
-        const estimatedCost = calculateEstimatedCost(booking);
-        const co2Emissions = calculateCO2Emissions(booking);
+        // Price the trip on the cheapest suitable vehicle type until a vehicle is assigned
+        let metadata: { totalDistance?: number; estimatedCost?: number; estimatedFuelCost?: number; co2Emissions?: number };
+        try {
+          const estimate = await PricingService.estimateForBooking(booking);
+          metadata = {
+            totalDistance: estimate.distanceKm,
+            estimatedCost: estimate.total,
+            estimatedFuelCost: estimate.fuelCost,
+            co2Emissions: estimate.co2Kg
+          };
+        } catch (estimateError) {
+          // The booking stands without a price, keeping the distance where the stops allow it
+          console.error(`[BOOKING-${debugId}] Could not estimate cost:`, estimateError);
+          metadata = { totalDistance: PricingService.getBookingDistanceKm(booking) ?? undefined };
+        }
 
-        console.log("Calculated metadata:", { totalDistance, estimatedCost, co2Emissions });
+        console.log("Calculated metadata:", metadata);
 
         // Update booking with metadata
-        const updatedBooking = await storage.updateBookingMetadata(booking.id, {
-          totalDistance,
-          estimatedCost,
-          co2Emissions
-        });
+        const updatedBooking = await storage.updateBookingMetadata(booking.id, metadata);
 
-        console.log(`[BOOKING-${debugId}] Final booking data being returned:`, JSON.stringify(updatedBooking, null, 2));
-        res.status(201).json(updatedBooking);
+        // Route the booking to its approval workflow, if one is configured
+        const routedBooking = await BookingApprovalService.routeBooking(updatedBooking);
+
+        console.log(`[BOOKING-${debugId}] Final booking data being returned:`, JSON.stringify(routedBooking, null, 2));
+        res.status(201).json(routedBooking);
       } catch (error: any) {
         console.error(`[BOOKING-${debugId}] Error creating booking:`, error);
         
@@ -1040,62 +1156,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
 
-    // Using arrow functions instead for ES module compatibility
-    const calculateTotalDistance = (pickup: any, dropoff: any): number => {
-      // Calculate distance using coordinates
-      const R = 6371; // Earth's radius in km
-      const lat1 = pickup.coordinates.lat * Math.PI / 180;
-      const lat2 = dropoff.coordinates.lat * Math.PI / 180;
-      const dLat = (dropoff.coordinates.lat - pickup.coordinates.lat) * Math.PI / 180;
-      const dLon = (dropoff.coordinates.lng - pickup.coordinates.lng) * Math.PI / 180;
-
-      const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-        Math.cos(lat1) * Math.cos(lat2) *
-        Math.sin(dLon / 2) * Math.sin(dLon / 2);
-
-      const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-      const distance = R * c; // Distance in km
-
-      return parseFloat(distance.toFixed(2));
-    };
-
-    const calculateEstimatedCost = (booking: any): number => {
-      // Basic cost calculation
-      const baseRate = 2.5; // Base rate per km
-      const distance = calculateTotalDistance(booking.pickup_location, booking.dropoff_location);
-      let estimatedCost = distance * baseRate;
-
-      // Add surcharges based on booking type and priority
-      if (booking.booking_type === "ambulance") estimatedCost *= 1.5;
-      if (booking.priority === "CRITICAL" || booking.priority === "EMERGENCY") estimatedCost *= 1.3;
-
-      return parseFloat(estimatedCost.toFixed(2));
-    };
-
-    const calculateCO2Emissions = (booking: any): number => {
-      // Average CO2 emissions calculation (in kg)
-      const distance = calculateTotalDistance(booking.pickup_location, booking.dropoff_location);
-      const avgEmissionRate = 0.12; // kg CO2 per km (average)
-      return parseFloat((distance * avgEmissionRate).toFixed(2));
-    };
-
     // Update the employee endpoint for better performance
-    app.get("/api/employee/current", async (req, res) => {
+    app.get("/api/employee/current", validateToken, async (req, res) => {
       try {
-        const authHeader = req.headers.authorization;
-        if (!authHeader) {
-          return res.status(401).json({ error: "No authorization token provided" });
-        }
-
-        const token = authHeader.split(" ")[1];
-        if (!token) {
-          return res.status(401).json({ error: "Invalid authorization header" });
-        }
-
-        const decoded = jwt.verify(token, process.env.JWT_SECRET || 'dev-secret-key') as { userId: number, email: string };
-
         // Get user details
-        const user = await storage.findUserByEmail(decoded.email);
+        const user = await storage.findUserByEmail(req.user!.email);
         if (!user) {
           return res.status(404).json({ error: "User not found" });
         }
@@ -1187,6 +1252,75 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Register booking management routes at /api/bookings/management to avoid conflicts
     app.use("/api/bookings/management", bookingManagementRouter);
     log("Booking management router registered");
+
+    // Register booking status transition and timeline routes
+    app.use("/api/bookings", bookingStatusRouter);
+    log("Booking status routes registered");
+
+    // Register driver trip execution routes
+    app.use("/api/bookings", tripExecutionRouter);
+    log("Trip execution routes registered");
+
+    // Register estimated vs actual trip variance report routes
+    app.use("/api/reports/trip-variance", tripVarianceRouter);
+    log("Trip variance report routes registered");
+
+    // Register trip cost estimation routes
+    app.use("/api/pricing", pricingRouter);
+    log("Pricing routes registered");
+
+    // Register two-factor sign-in and enrollment routes
+    app.use("/api/auth/2fa", twoFactorRouter);
+    log("Two-factor authentication routes registered");
+
+    // Register driver management routes; mounted after the inline /api/drivers and
+    // /api/drivers/available handlers so those keep precedence over /api/drivers/:id
+    app.use(driverRouter);
+    log("Driver management routes registered");
+
+    // Register driver shift rostering routes
+    app.use("/api/driver-shifts", driverShiftsRouter);
+    log("Driver shift routes registered");
+
+    // Register preventive maintenance routes
+    app.use("/api/maintenance", maintenanceRouter);
+    log("Maintenance routes registered");
+
+    // Register vehicle availability and fleet calendar routes
+    app.use("/api/vehicles", vehicleAvailabilityRouter);
+    log("Vehicle availability routes registered");
+
+    // Register telematics ingestion and position history routes
+    app.use("/api/telematics", telematicsRouter);
+    log("Telematics routes registered");
+
+    // Register geofence management and event routes
+    app.use("/api/geofences", geofencesRouter);
+    log("Geofence routes registered");
+
+    // Register driving event and safety score routes
+    app.use("/api/driving-safety", drivingSafetyRouter);
+    log("Driving safety routes registered");
+
+    // Register achievement and unlock routes
+    app.use("/api/achievements", achievementsRouter);
+    log("Achievement routes registered");
+
+    // Register trip merging routes
+    app.use("/api/trip-merges", tripMergesRouter);
+    log("Trip merge routes registered");
+
+    // Register automated dispatch routes
+    app.use("/api/dispatch", dispatchRouter);
+    log("Dispatch routes registered");
+
+    // Register booking approval routes
+    app.use("/api/booking-approvals", bookingApprovalsRouter);
+    log("Booking approval routes registered");
+
+    // Register approver delegation routes
+    app.use("/api/approval-delegations", approvalDelegationsRouter);
+    log("Approval delegation routes registered");
     
     // Register booking creation test routes for diagnostic purposes
     app.use("/api/debug", bookingCreateTestRouter);
@@ -1211,7 +1345,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Get fuel price history
     // This route is redundant, as the same functionality exists in the fuelTypesRouter
     // Keeping it for backward compatibility
-    app.get("/api/fuel-prices/history", async (_req, res) => {
+    app.get("/api/fuel-prices/history", validateToken, requirePermission(Permission.FLEET_VIEW), async (_req, res) => {
       try {
         const history = await getFuelPriceHistory();
         res.json(history);
@@ -1224,9 +1358,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Trigger manual update of fuel prices (requires admin)
     // This route is redundant, as the same functionality exists in the fuelTypesRouter
     // Keeping it for backward compatibility
-    app.post("/api/fuel-prices/update", async (req, res) => {
+    app.post("/api/fuel-prices/update", validateToken, requirePermission(Permission.FUEL_PRICES_MANAGE), async (req, res) => {
       try {
-        // TODO: Add proper authentication check here
         const result = await triggerFuelPriceUpdate();
         if (result) {
           res.json({ success: true, message: "Fuel prices updated successfully" });
@@ -1249,9 +1382,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     // Endpoint to manually trigger WAM scraper (requires admin)
     // This route is redundant, as the same functionality exists in the fuelTypesRouter
     // Keeping it for backward compatibility
-    app.post("/api/fuel-prices/wam-scrape", async (req, res) => {
+    app.post("/api/fuel-prices/wam-scrape", validateToken, requirePermission(Permission.FUEL_PRICES_MANAGE), async (req, res) => {
       try {
-        // TODO: Add proper authentication check here
         console.log("Manually triggering WAM fuel price scraper");
         const result = await runWamFuelPriceScraper();
         
@@ -1284,10 +1416,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     log("Performance snapshot routes registered");
 
     // Add employee routes
-    app.get("/api/employees", async (_req, res) => {
+    app.get("/api/employees", validateToken, requirePermission(Permission.EMPLOYEES_VIEW), resolveDataScope, async (req, res) => {
       try {
         console.log("Fetching all employees");
-        const employees = await storage.getAllEmployees();
+        const employees = await storage.getAllEmployees(getDataScope(req));
         console.log(`Found ${employees.length} employees`);
         res.json(employees);
       } catch (error: any) {
@@ -1297,7 +1429,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
     
     // Add endpoint to search for employee by email
-    app.get("/api/employee/search", async (req, res) => {
+    app.get("/api/employee/search", validateToken, requirePermission(Permission.EMPLOYEES_VIEW), resolveDataScope, async (req, res) => {
       try {
         const { email, employee_id } = req.query;
         
@@ -1327,6 +1459,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
+        // Employees outside the caller's region, department and unit are reported as not found
+        if (employee && !DataScopeService.includes(getDataScope(req), employee)) {
+          console.log(`Employee ${employee.employee_id} is outside the caller's data scope`);
+          employee = null;
+        }
+
         // If still no employee found, return 404
         if (!employee) {
           return res.status(404).json({ 
@@ -1376,7 +1514,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
 
-    app.post("/api/employees", async (req, res) => {
+    app.post("/api/employees", validateToken, requirePermission(Permission.EMPLOYEES_MANAGE), async (req, res) => {
       try {
         console.log("Creating employee with data:", req.body);
         const result = insertEmployeeSchema.safeParse(req.body);
@@ -1412,7 +1550,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
 
-    app.get("/api/employees/validate/:employeeId", async (req, res) => {
+    app.get("/api/employees/validate/:employeeId", validateToken, requirePermission(Permission.EMPLOYEES_VIEW), async (req, res) => {
       try {
         const { employeeId } = req.params;
         console.log("Validating employee ID:", employeeId);
@@ -1467,11 +1605,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     // Add these new endpoints after existing employee routes
-    app.get("/api/employees/:id/details", async (req, res) => {
+    app.get("/api/employees/:id/details", validateToken, requirePermission(Permission.EMPLOYEES_VIEW), resolveDataScope, async (req, res) => {
       try {
         const employeeId = parseInt(req.params.id);
         console.log("Fetching employee details for ID:", employeeId);
 
+        if (!await storage.getScopedEmployee(employeeId, getDataScope(req))) {
+          return res.status(404).json({ error: "Employee not found" });
+        }
+
         // Get employee with their supervisor details
         const [employee] = await db
           .select({
@@ -1505,11 +1647,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
 
-    app.get("/api/employees/:id/subordinates", async (req, res) => {
+    app.get("/api/employees/:id/subordinates", validateToken, requirePermission(Permission.EMPLOYEES_VIEW), resolveDataScope, async (req, res) => {
       try {
         const employeeId = parseInt(req.params.id);
         console.log("Fetching subordinates for employee ID:", employeeId);
 
+        const dataScope = getDataScope(req);
+        if (!await storage.getScopedEmployee(employeeId, dataScope)) {
+          return res.status(404).json({ error: "Employee not found" });
+        }
+
         // Get all subordinates of the employee
         const subordinates = await db
           .select({
@@ -1520,7 +1667,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
             department: employees.department
           })
           .from(employees)
-          .where(eq(employees.supervisorId, employeeId));
+          .where(
+            and(
+              eq(employees.supervisorId, employeeId),
+              dataScope ? DataScopeService.employeeCondition(dataScope) : undefined
+            )
+          );
 
         console.log("Found subordinates:", subordinates);
         res.json(subordinates);
@@ -1530,11 +1682,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
 
-    app.get("/api/employees/:id/bookings", async (req, res) => {
+    app.get("/api/employees/:id/bookings", validateToken, requirePermission(Permission.BOOKINGS_VIEW), resolveDataScope, async (req, res) => {
       try {
         const employeeId = parseInt(req.params.id);
         console.log("Fetching bookings for employee ID:", employeeId);
 
+        if (!await storage.getScopedEmployee(employeeId, getDataScope(req))) {
+          return res.status(404).json({ error: "Employee not found" });
+        }
+
         // Get all bookings for the employee
         const employeeBookings = await db
           .select({
@@ -1561,11 +1717,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
 
-    app.get("/api/employees/:id/team-bookings", async (req, res) => {
+    app.get("/api/employees/:id/team-bookings", validateToken, requirePermission(Permission.BOOKINGS_VIEW), resolveDataScope, async (req, res) => {
       try {
         const supervisorId = parseInt(req.params.id);
         console.log("Fetching team bookings for supervisor ID:", supervisorId);
 
+        const dataScope = getDataScope(req);
+        if (!await storage.getScopedEmployee(supervisorId, dataScope)) {
+          return res.status(404).json({ error: "Employee not found" });
+        }
+
         // Get all bookings for the supervisor's team
         const teamBookings = await db
           .select({
@@ -1581,7 +1742,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           })
           .from(bookings)
           .leftJoin(employees, eq(bookings.employeeId, employees.id))
-          .where(eq(employees.supervisorId, supervisorId));
+          .where(
+            and(
+              eq(employees.supervisorId, supervisorId),
+              // Team members outside the supervisor's scope stay hidden too
+              dataScope ? DataScopeService.bookingCondition(dataScope) : undefined
+            )
+          );
 
         console.log("Found team bookings:", teamBookings);
         res.json(teamBookings);
@@ -1592,7 +1759,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
 
     // Add user management routes
-    app.get("/api/users", async (_req, res) => {
+    app.get("/api/users", validateToken, requirePermission(Permission.USERS_MANAGE), async (_req, res) => {
       try {
         console.log("Fetching all users");
         const users = await storage.getAllUsers();
@@ -1610,7 +1777,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
     });
 
-    app.post("/api/users", async (req, res) => {
+    app.post("/api/users", validateToken, requirePermission(Permission.USERS_MANAGE), async (req, res) => {
       try {
         console.log("Creating user with data:", req.body);
         const result = insertUserSchema.safeParse(req.body);
@@ -1796,17 +1963,23 @@ If you didn't request this reset, please ignore this email.
           });
         }
 
-        // Hash new password
-        const hashedPassword = await bcrypt.hash(newPassword, 10);
+        // Complexity and history rules apply; the reset token is cleared with the new password
+        await PasswordPolicyService.changePassword(user, newPassword);
 
-        // Update user's password and clear reset token
-        await storage.updateUserPassword(user.id, hashedPassword);
+        // Whoever knew the old password is signed out everywhere
+        await SessionService.revokeAll(user.id, 'Password reset');
+
+        // Proving control of the mailbox also lifts a sign-in lockout
+        await LoginProtectionService.unlock(user.id);
 
         res.json({
           message: "Password reset successful"
         });
 
       } catch (error: any) {
+        if (error instanceof PasswordPolicyError) {
+          return res.status(error.statusCode).json({ error: error.message });
+        }
         console.error('Error resetting password:', error);
         res.status(500).json({
           error: "Failed to reset password",
@@ -1817,9 +1990,10 @@ If you didn't request this reset, please ignore this email.
 
     // Add approval workflows routes
     app.use('/api/approval-workflows', approvalWorkflowsRouter);
+    app.use('/api/merge-rules', mergeRulesRouter);
 
     // Add employee routes for workflow management
-    app.get("/api/employees/approvers", async (req, res) => {
+    app.get("/api/employees/approvers", validateToken, requirePermission(Permission.EMPLOYEES_VIEW), async (req, res) => {
       try {
         const { region, department, unit } = req.query;
         console.log("Fetching all employees");
@@ -1870,7 +2044,7 @@ If you didn't request this reset, please ignore this email.
     });
 
     // Add workflow management routes
-    app.post("/api/workflows", async (req, res) => {
+    app.post("/api/workflows", validateToken, requirePermission(Permission.WORKFLOWS_MANAGE), async (req, res) => {
       try {
         const result = insertApprovalWorkflowSchema.safeParse(req.body);
         if (!result.success) {
@@ -1884,11 +2058,17 @@ If you didn't request this reset, please ignore this email.
         res.status(201).json(workflow);
       } catch (error: any) {
         console.error("Error creating workflow:", error);
+        if (error.message?.includes("Level 2 approver")) {
+          return res.status(400).json({ error: error.message });
+        }
+        if (error.message?.includes("already exists")) {
+          return res.status(409).json({ error: error.message });
+        }
         res.status(500).json({ error: "Failed to create workflow" });
       }
     });
 
-    app.get("/api/workflows", async (_req, res) => {
+    app.get("/api/workflows", validateToken, requirePermission(Permission.WORKFLOWS_MANAGE), async (_req, res) => {
       try {
         const workflows = await storage.getWorkflows();
         res.json(workflows);
@@ -1898,7 +2078,7 @@ If you didn't request this reset, please ignore this email.
       }
     });
 
-    app.patch("/api/workflows/:id", async (req, res) => {
+    app.patch("/api/workflows/:id", validateToken, requirePermission(Permission.WORKFLOWS_MANAGE), async (req, res) => {
       try {
         const id = parseInt(req.params.id);
         if (isNaN(id)) {
@@ -1917,16 +2097,27 @@ If you didn't request this reset, please ignore this email.
         res.json(workflow);
       } catch (error: any) {
         console.error("Error updating workflow:", error);
+        if (error.message?.includes("not found")) {
+          return res.status(404).json({ error: error.message });
+        }
+        if (error.message?.includes("Level 2 approver")) {
+          return res.status(400).json({ error: error.message });
+        }
         res.status(500).json({ error: "Failed to update workflow" });
       }
     });
 
     // Keep existing route registrations and error handlers
-    app.get("/api/employees/:id/team-bookings", async (req, res) => {
+    app.get("/api/employees/:id/team-bookings", validateToken, requirePermission(Permission.BOOKINGS_VIEW), resolveDataScope, async (req, res) => {
       try {
         const supervisorId = parseInt(req.params.id);
         console.log("Fetching team bookings for supervisor ID:", supervisorId);
 
+        const dataScope = getDataScope(req);
+        if (!await storage.getScopedEmployee(supervisorId, dataScope)) {
+          return res.status(404).json({ error: "Employee not found" });
+        }
+
         // Get all bookings for the supervisor's team
         const teamBookings = await db
           .select({
@@ -1942,7 +2133,13 @@ If you didn't request this reset, please ignore this email.
           })
           .from(bookings)
           .leftJoin(employees, eq(bookings.employeeId, employees.id))
-          .where(eq(employees.supervisorId, supervisorId));
+          .where(
+            and(
+              eq(employees.supervisorId, supervisorId),
+              // Team members outside the supervisor's scope stay hidden too
+              dataScope ? DataScopeService.bookingCondition(dataScope) : undefined
+            )
+          );
 
         console.log("Found team bookings:", teamBookings);
         res.json(teamBookings);
@@ -1953,7 +2150,7 @@ If you didn't request this reset, please ignore this email.
     });
 
     // Add user management routes
-    app.get("/api/users", async (_req, res) => {
+    app.get("/api/users", validateToken, requirePermission(Permission.USERS_MANAGE), async (_req, res) => {
       try {
         console.log("Fetching all users");
         const users = await storage.getAllUsers();
@@ -1971,7 +2168,7 @@ If you didn't request this reset, please ignore this email.
       }
     });
 
-    app.post("/api/users", async (req, res) => {
+    app.post("/api/users", validateToken, requirePermission(Permission.USERS_MANAGE), async (req, res) => {
       try {
         console.log("Creating user with data:", req.body);
         const result = insertUserSchema.safeParse(req.body);
@@ -2157,17 +2354,23 @@ If you didn't request this reset, please ignore this email.
           });
         }
 
-        // Hash new password
-        const hashedPassword = await bcrypt.hash(newPassword, 10);
+        // Complexity and history rules apply; the reset token is cleared with the new password
+        await PasswordPolicyService.changePassword(user, newPassword);
 
-        // Update user's password and clear reset token
-        await storage.updateUserPassword(user.id, hashedPassword);
+        // Whoever knew the old password is signed out everywhere
+        await SessionService.revokeAll(user.id, 'Password reset');
+
+        // Proving control of the mailbox also lifts a sign-in lockout
+        await LoginProtectionService.unlock(user.id);
 
         res.json({
           message: "Password reset successful"
         });
 
       } catch (error: any) {
+        if (error instanceof PasswordPolicyError) {
+          return res.status(error.statusCode).json({ error: error.message });
+        }
         console.error('Error resetting password:', error);
         res.status(500).json({
           error: "Failed to reset password",
@@ -1,68 +1,83 @@
-import { Router } from "express";
-import { ACHIEVEMENT_CATEGORIES } from "@shared/schema/achievements";
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { validateToken, requirePermission } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
+import { GamificationService, GamificationError } from "../services/gamification";
 
 const router = Router();
 
-// Mock achievements data - In production, this would come from a database
-const achievements = [
-  {
-    id: 1,
-    name: "Eco Warrior",
-    description: "Maintain fleet CO2 emissions below target for 30 days",
-    icon: "leaf",
-    criteria: "CO2_EMISSIONS_TARGET",
-    progress: 0.75,
-    isCompleted: false,
-    unlockedAt: null,
-    badgeColor: ACHIEVEMENT_CATEGORIES.ECO_FRIENDLY,
-  },
-  {
-    id: 2,
-    name: "Efficiency Master",
-    description: "Achieve 95% fuel efficiency across the fleet",
-    icon: "gauge",
-    criteria: "FUEL_EFFICIENCY",
-    progress: 1,
-    isCompleted: true,
-    unlockedAt: "2024-03-20T10:30:00Z",
-    badgeColor: ACHIEVEMENT_CATEGORIES.FUEL_EFFICIENCY,
-  },
-  {
-    id: 3,
-    name: "Safety Champion",
-    description: "Zero incidents reported for 60 days",
-    icon: "shield",
-    criteria: "SAFETY_RECORD",
-    progress: 0.9,
-    isCompleted: false,
-    unlockedAt: null,
-    badgeColor: ACHIEVEMENT_CATEGORIES.SAFETY,
-  },
-  {
-    id: 4,
-    name: "Fleet Expert",
-    description: "Successfully manage 50+ vehicles",
-    icon: "star",
-    criteria: "FLEET_SIZE",
-    progress: 1,
-    isCompleted: true,
-    unlockedAt: "2024-03-15T14:20:00Z",
-    badgeColor: ACHIEVEMENT_CATEGORIES.MANAGEMENT,
-  },
-];
+// Apply authentication middleware to all routes
+router.use(validateToken);
 
-// Get all achievements
-router.get("/api/achievements", (_req, res) => {
-  res.json(achievements);
+const markSeenSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1),
+});
+
+// Get all achievements with the current user's or their department's progress
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const achievements = await GamificationService.getAchievementsForUser(req.user!.userId);
+    res.json(achievements);
+  } catch (error) {
+    console.error("[ACHIEVEMENTS] Error fetching achievements:", error);
+    res.status(500).json({ error: "Failed to fetch achievements" });
+  }
+});
+
+// Unlocks not yet announced to the current user
+router.get("/unlocks", async (req: Request, res: Response) => {
+  try {
+    const unlocks = await GamificationService.getUnseenUnlocks(req.user!.userId);
+    res.json(unlocks);
+  } catch (error) {
+    console.error("[ACHIEVEMENTS] Error fetching unlocks:", error);
+    res.status(500).json({ error: "Failed to fetch achievement unlocks" });
+  }
+});
+
+router.post("/unlocks/seen", async (req: Request, res: Response) => {
+  try {
+    const result = markSeenSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: "Invalid request", details: result.error.issues });
+    }
+
+    const updated = await GamificationService.markUnlocksSeen(req.user!.userId, result.data.ids);
+    res.json({ updated });
+  } catch (error) {
+    console.error("[ACHIEVEMENTS] Error marking unlocks seen:", error);
+    res.status(500).json({ error: "Failed to update achievement unlocks" });
+  }
+});
+
+// Re-evaluate all achievements now instead of waiting for the hourly job
+router.post("/evaluate", requirePermission(Permission.ACHIEVEMENTS_MANAGE), async (_req: Request, res: Response) => {
+  try {
+    const result = await GamificationService.evaluateAll();
+    res.json(result);
+  } catch (error) {
+    console.error("[ACHIEVEMENTS] Error evaluating achievements:", error);
+    res.status(500).json({ error: "Failed to evaluate achievements" });
+  }
 });
 
 // Get achievement by ID
-router.get("/api/achievements/:id", (req, res) => {
-  const achievement = achievements.find(a => a.id === parseInt(req.params.id));
-  if (!achievement) {
-    return res.status(404).json({ error: "Achievement not found" });
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid ID format" });
+    }
+
+    const achievement = await GamificationService.getAchievementForUser(req.user!.userId, id);
+    res.json(achievement);
+  } catch (error) {
+    if (error instanceof GamificationError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error("[ACHIEVEMENTS] Error fetching achievement:", error);
+    res.status(500).json({ error: "Failed to fetch achievement" });
   }
-  res.json(achievement);
 });
 
 export const achievementsRouter = router;
@@ -0,0 +1,77 @@
+import { Router, Request, Response } from 'express';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { insertApproverDelegationSchema } from '@shared/schema';
+import { BookingApprovalService } from '../services/booking-approval';
+import { ApprovalEscalationService, ApprovalEscalationError } from '../services/approval-escalation';
+
+const approvalDelegationsRouter = Router();
+
+// Apply authentication middleware to all routes
+approvalDelegationsRouter.use(validateToken, requirePermission(Permission.BOOKINGS_APPROVE));
+
+// List the logged-in approver's delegations
+approvalDelegationsRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const approver = await BookingApprovalService.getEmployeeForUser(req.user!);
+    if (!approver) {
+      return res.status(403).json({ error: 'No employee record found for the current user' });
+    }
+
+    const delegations = await ApprovalEscalationService.getDelegations(approver.id);
+    res.json(delegations);
+  } catch (error: any) {
+    console.error('[ESCALATION] Error fetching delegations:', error);
+    res.status(500).json({ error: 'Failed to fetch delegations' });
+  }
+});
+
+// Set a date-ranged delegate (or mark out of office without one)
+approvalDelegationsRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const result = insertApproverDelegationSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid delegation data', details: result.error.issues });
+    }
+
+    const approver = await BookingApprovalService.getEmployeeForUser(req.user!);
+    if (!approver) {
+      return res.status(403).json({ error: 'No employee record found for the current user' });
+    }
+
+    const delegation = await ApprovalEscalationService.createDelegation(approver.id, result.data);
+    res.status(201).json(delegation);
+  } catch (error: any) {
+    if (error instanceof ApprovalEscalationError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[ESCALATION] Error creating delegation:', error);
+    res.status(500).json({ error: 'Failed to create delegation', details: error.message });
+  }
+});
+
+// Cancel one of the logged-in approver's delegations
+approvalDelegationsRouter.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const approver = await BookingApprovalService.getEmployeeForUser(req.user!);
+    if (!approver) {
+      return res.status(403).json({ error: 'No employee record found for the current user' });
+    }
+
+    const delegation = await ApprovalEscalationService.cancelDelegation(approver.id, id);
+    res.json(delegation);
+  } catch (error: any) {
+    if (error instanceof ApprovalEscalationError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[ESCALATION] Error cancelling delegation:', error);
+    res.status(500).json({ error: 'Failed to cancel delegation' });
+  }
+});
+
+export default approvalDelegationsRouter;
@@ -3,11 +3,16 @@ import { storage } from "../storage";
 import { ApprovalLevel, WorkflowLevels, insertApprovalWorkflowSchema } from "@shared/schema";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { eq, and } from "drizzle-orm";
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
 
 export const approvalWorkflowsRouter = Router();
 
+// Apply authentication middleware to all routes
+approvalWorkflowsRouter.use(validateToken);
+
 // Get all approval workflows
-approvalWorkflowsRouter.get("/", async (req: Request, res: Response) => {
+approvalWorkflowsRouter.get("/", requirePermission(Permission.WORKFLOWS_MANAGE), async (req: Request, res: Response) => {
   try {
     console.log("Getting all approval workflows");
     const workflows = await storage.getWorkflows();
@@ -19,7 +24,7 @@ approvalWorkflowsRouter.get("/", async (req: Request, res: Response) => {
 });
 
 // Create new approval workflow
-approvalWorkflowsRouter.post("/", async (req: Request, res: Response) => {
+approvalWorkflowsRouter.post("/", requirePermission(Permission.WORKFLOWS_MANAGE), async (req: Request, res: Response) => {
   try {
     console.log("Creating new approval workflow", req.body);
     
@@ -41,6 +46,13 @@ approvalWorkflowsRouter.post("/", async (req: Request, res: Response) => {
   } catch (error) {
     console.error("Error creating approval workflow:", error);
     
+    if ((error as Error).message.includes("Level 2 approver")) {
+      return res.status(400).json({
+        message: "Invalid workflow data",
+        error: (error as Error).message
+      });
+    }
+
     // Check if it's a duplicate error
     if ((error as Error).message.includes("already exists")) {
       return res.status(409).json({ 
@@ -57,7 +69,7 @@ approvalWorkflowsRouter.post("/", async (req: Request, res: Response) => {
 });
 
 // Update an existing approval workflow
-approvalWorkflowsRouter.put("/:id", async (req: Request, res: Response) => {
+approvalWorkflowsRouter.put("/:id", requirePermission(Permission.WORKFLOWS_MANAGE), async (req: Request, res: Response) => {
   try {
     const workflowId = parseInt(req.params.id);
     
@@ -85,6 +97,15 @@ approvalWorkflowsRouter.put("/:id", async (req: Request, res: Response) => {
     res.json(updatedWorkflow);
   } catch (error) {
     console.error(`Error updating approval workflow:`, error);
+    if ((error as Error).message.includes("not found")) {
+      return res.status(404).json({ message: (error as Error).message });
+    }
+    if ((error as Error).message.includes("Level 2 approver")) {
+      return res.status(400).json({
+        message: "Invalid workflow data",
+        error: (error as Error).message
+      });
+    }
     res.status(500).json({ 
       message: "Failed to update approval workflow", 
       error: (error as Error).message 
@@ -93,7 +114,7 @@ approvalWorkflowsRouter.put("/:id", async (req: Request, res: Response) => {
 });
 
 // Get approvers by role, region, department
-approvalWorkflowsRouter.get("/approvers", async (req: Request, res: Response) => {
+approvalWorkflowsRouter.get("/approvers", requirePermission(Permission.EMPLOYEES_VIEW), resolveDataScope, async (req: Request, res: Response) => {
   try {
     const { region, department, unit, level } = req.query;
     console.log(`Getting approvers for region=${region}, department=${department}, unit=${unit}, level=${level}`);
@@ -105,8 +126,8 @@ approvalWorkflowsRouter.get("/approvers", async (req: Request, res: Response) =>
       });
     }
     
-    // Get all employees
-    const employees = await storage.getAllEmployees();
+    // Get all employees the user may see
+    const employees = await storage.getAllEmployees(getDataScope(req));
     
     // Filter by region, department and employee role (based on level)
     let approvers = employees.filter(employee => {
@@ -1,11 +1,13 @@
 import express from 'express';
 import { verifyToken, isValidTokenPayload, createToken } from '../auth/token-service';
 import jwt from 'jsonwebtoken';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
 
 const router = express.Router();
 
 // Test route to verify auth middleware is working
-router.get("/api/auth-test", (req, res) => {
+router.get("/api/auth-test", validateToken, requirePermission(Permission.SYSTEM_DEBUG), (req, res) => {
   const authHeader = req.headers.authorization;
   if (!authHeader) {
     return res.status(401).json({ error: "No authorization token provided" });
@@ -43,7 +45,7 @@ router.get("/api/auth-test", (req, res) => {
 });
 
 // Test endpoint to generate/verify tokens and check behavior
-router.get("/api/debug-token-test", (req, res) => {
+router.get("/api/debug-token-test", validateToken, requirePermission(Permission.SYSTEM_DEBUG), (req, res) => {
   try {
     // Generate a test token for userId 54
     const userId = 54;
@@ -53,7 +55,7 @@ router.get("/api/debug-token-test", (req, res) => {
     console.log(`DEBUG TEST: Email value type: ${typeof email}, value: "${email}"`);
     
     // Generate a token with both userId and email
-    const token = createToken(userId, email);
+    const token = createToken(userId, email, req.user!.sessionId!);
     console.log(`DEBUG TEST: Created token: ${token.substring(0, 20)}...`);
     
     // Decode the token to check its payload
@@ -65,7 +67,7 @@ router.get("/api/debug-token-test", (req, res) => {
     console.log(`DEBUG TEST: Verified token payload: ${JSON.stringify(verified)}`);
     
     // Generate a token with only userId (no email)
-    const tokenNoEmail = createToken(userId);
+    const tokenNoEmail = createToken(userId, undefined, req.user!.sessionId!);
     console.log(`DEBUG TEST: Created token (no email): ${tokenNoEmail.substring(0, 20)}...`);
     
     // Decode and verify the token without email
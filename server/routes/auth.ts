@@ -1,17 +1,43 @@
 import { Router } from "express";
 import { storage } from "../storage";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
 import { db, schema } from '../db'; // Import the db object and schema
 import { sql } from 'drizzle-orm';
+import { SessionService, SessionError } from "../services/sessions";
+import { TwoFactorService } from "../services/two-factor";
+import { LoginProtectionService, LoginBlockedError } from "../services/login-protection";
+import { PasswordPolicyService, PasswordPolicyError } from "../services/password-policy";
+import { validateToken, requirePermission, loadPermissions } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
 
 const router = Router();
 
-const generateToken = (userId: number) => {
-  return jwt.sign({ userId }, process.env.JWT_SECRET || 'your-secret-key', {
-    expiresIn: '24h',
-  });
-};
+// Fields an administrator may set when creating or editing a user. Passwords go through the
+// password policy, and the sign-in lockout and password age are maintained by the server.
+const EDITABLE_USER_FIELDS = [
+  'user_name',
+  'user_code',
+  'email_id',
+  'user_type',
+  'user_operation_type',
+  'user_group',
+  'first_name',
+  'last_name',
+  'full_name',
+  'country_code',
+  'mobile_number',
+  'is_active'
+] as const;
+
+function pickEditableUserFields(body: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {};
+  for (const field of EDITABLE_USER_FIELDS) {
+    if (body[field] !== undefined) {
+      fields[field] = body[field];
+    }
+  }
+  return fields;
+}
 
 // Update the default user creation code
 console.log('Initializing default user...');
@@ -75,8 +101,12 @@ router.post("/login", async (req, res) => {
       user = await storage.getUserByUserName(userName);
     }
 
+    // Blocked addresses and locked accounts are refused before the password is checked
+    await LoginProtectionService.assertAllowed(req, userName, user);
+
     if (!user) {
       console.error('User not found:', userName);
+      await LoginProtectionService.recordFailure(req, userName);
       return res.status(401).json({
         error: "Invalid username or password"
       });
@@ -89,25 +119,49 @@ router.post("/login", async (req, res) => {
 
     if (!isValidPassword) {
       console.error('Password validation failed for user:', userName);
+      await LoginProtectionService.recordFailure(req, userName, user);
       return res.status(401).json({
         error: "Invalid username or password"
       });
     }
+    await LoginProtectionService.recordSuccess(req, userName, user);
+
+    // Users who owe a second factor get a challenge instead of a session
+    const challenge = await TwoFactorService.getLoginChallenge(user);
+    if (challenge) {
+      return res.status(200).json(challenge);
+    }
+
+    // An expired password has to be changed before a session is opened
+    const expired = await PasswordPolicyService.getExpiryChallenge(user);
+    if (expired) {
+      return res.status(403).json(expired);
+    }
 
-    const token = generateToken(user.id);
+    // The access token is signed with the same secret validateToken checks against
+    const session = await SessionService.start(user, req);
 
     // Update last login
     await storage.updateUserLastLogin(user.id);
     console.log('Login successful for user:', user.id, user.user_name);
 
     return res.status(200).json({
-      token,
+      token: session.token,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn,
       id: user.id,
       email_id: user.email_id,
       userName: user.user_name
     });
 
   } catch (error) {
+    if (error instanceof LoginBlockedError) {
+      res.set('Retry-After', String(error.retryAfterSeconds));
+      return res.status(error.statusCode).json({
+        error: error.message,
+        retryAfter: error.retryAfterSeconds
+      });
+    }
     console.error('Login error:', error);
     return res.status(500).json({
       error: "An error occurred during login. Please try again."
@@ -115,12 +169,117 @@ router.post("/login", async (req, res) => {
   }
 });
 
-router.post("/logout", (req, res) => {
-  res.status(200).json({ message: "Logged out successfully" });
+// Swap a refresh token for a new access token; the refresh token is rotated on every use
+router.post("/refresh", async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({
+        error: "Refresh token is required"
+      });
+    }
+
+    const session = await SessionService.refresh(refreshToken, req);
+    return res.status(200).json({
+      token: session.token,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn
+    });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Token refresh error:', error);
+    return res.status(500).json({
+      error: "Failed to refresh session"
+    });
+  }
+});
+
+// End the session the request's token belongs to
+router.post("/logout", validateToken, async (req, res) => {
+  try {
+    const { userId, sessionId } = req.user!;
+    if (sessionId) {
+      await SessionService.revokeSession(userId, sessionId, 'Signed out');
+    }
+    return res.status(200).json({ message: "Logged out successfully" });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Logout error:', error);
+    return res.status(500).json({
+      error: "Failed to log out"
+    });
+  }
+});
+
+router.post("/logout-all", validateToken, async (req, res) => {
+  try {
+    const revoked = await SessionService.revokeAll(req.user!.userId, 'Signed out everywhere');
+    return res.status(200).json({ message: "Logged out on all devices", revoked });
+  } catch (error) {
+    console.error('Logout everywhere error:', error);
+    return res.status(500).json({
+      error: "Failed to log out of all devices"
+    });
+  }
+});
+
+// Devices the signed-in user currently has sessions on
+router.get("/sessions", validateToken, async (req, res) => {
+  try {
+    const sessions = await SessionService.getActiveSessions(req.user!.userId, req.user!.sessionId);
+    return res.status(200).json(sessions);
+  } catch (error) {
+    console.error('Error fetching sessions:', error);
+    return res.status(500).json({
+      error: "Failed to fetch sessions"
+    });
+  }
+});
+
+router.delete("/sessions/:id", validateToken, async (req, res) => {
+  try {
+    const sessionId = parseInt(req.params.id);
+    if (isNaN(sessionId)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    await SessionService.revokeSession(req.user!.userId, sessionId, 'Revoked from sessions page');
+    return res.status(200).json({ message: "Session revoked" });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Error revoking session:', error);
+    return res.status(500).json({
+      error: "Failed to revoke session"
+    });
+  }
+});
+
+// Permissions of the signed-in user, so the client can hide what it cannot do
+router.get("/permissions", validateToken, async (req, res) => {
+  try {
+    const permissions = await loadPermissions(req);
+    if (!permissions) {
+      return res.status(401).json({
+        error: "User account not found or inactive"
+      });
+    }
+    return res.status(200).json({ permissions });
+  } catch (error) {
+    console.error('Error fetching permissions:', error);
+    return res.status(500).json({
+      error: "Failed to fetch permissions"
+    });
+  }
 });
 
 // Get all users
-router.get("/users", async (_req, res) => {
+router.get("/users", validateToken, requirePermission(Permission.USERS_MANAGE), async (_req, res) => {
   try {
     console.log('Fetching all users');
     const users = await storage.getAllUsers();
@@ -135,7 +294,7 @@ router.get("/users", async (_req, res) => {
 });
 
 // Update user creation route
-router.post("/users", async (req, res) => {
+router.post("/users", validateToken, requirePermission(Permission.USERS_MANAGE), async (req, res) => {
   try {
     console.log('Received user creation request:', {
       ...req.body,
@@ -143,7 +302,8 @@ router.post("/users", async (req, res) => {
       timestamp: new Date().toISOString()
     });
 
-    const { password, ...userData } = req.body;
+    const { password } = req.body;
+    const userData = pickEditableUserFields(req.body);
 
     // Validate required fields
     const requiredFields = [
@@ -166,6 +326,15 @@ router.post("/users", async (req, res) => {
       });
     }
 
+    if (password) {
+      const passwordError = PasswordPolicyService.validate(password);
+      if (passwordError) {
+        return res.status(400).json({
+          error: passwordError
+        });
+      }
+    }
+
     // Check if email already exists in users table
     const existingUserEmail = await storage.findUserByEmail(userData.email_id);
     if (existingUserEmail) {
@@ -246,11 +415,13 @@ router.post("/users", async (req, res) => {
       : await bcrypt.hash("Pass@123", salt);
 
     // Create user with validated data
+    // The required fields were checked above
     const newUser = await storage.createUser({
-      ...userData,
+      ...(userData as schema.InsertUser),
       password: hashedPassword,
       is_active: true
     });
+    await PasswordPolicyService.recordPassword(newUser.id, hashedPassword);
 
     console.log('User created successfully:', {
       id: newUser.id,
@@ -269,14 +440,15 @@ router.post("/users", async (req, res) => {
 });
 
 // Update user
-router.put("/users/:id", async (req, res) => {
+router.put("/users/:id", validateToken, requirePermission(Permission.USERS_MANAGE), async (req, res) => {
   try {
     console.log('Updating user:', req.params.id, 'with data:', {
       ...req.body,
       password: '[REDACTED]'
     });
     const userId = parseInt(req.params.id);
-    const userData = req.body;
+    const userData = pickEditableUserFields(req.body);
+    const { password } = req.body;
 
     // Fetch existing user
     const existingUser = await storage.getUser(userId);
@@ -324,6 +496,11 @@ router.put("/users/:id", async (req, res) => {
       }
     }
 
+    // Complexity and history rules apply to a password set by an administrator too
+    if (password) {
+      await PasswordPolicyService.changePassword(existingUser, password);
+    }
+
     // Update user data
     const updatedUser = await storage.updateUser(userId, {
       ...userData,
@@ -333,8 +510,20 @@ router.put("/users/:id", async (req, res) => {
     });
 
     console.log('User updated successfully:', { id: updatedUser.id, email: updatedUser.email_id, mobile: updatedUser.mobile_number });
+
+    // A deactivated user, or one whose password was replaced, is signed out everywhere
+    if (existingUser.is_active && !updatedUser.is_active) {
+      await SessionService.revokeAll(userId, 'User deactivated');
+    } else if (password) {
+      await SessionService.revokeAll(userId, 'Password changed by administrator');
+    }
     return res.status(200).json(updatedUser);
   } catch (error) {
+    if (error instanceof PasswordPolicyError) {
+      return res.status(error.statusCode).json({
+        error: error.message
+      });
+    }
     console.error('Error updating user:', error);
     return res.status(500).json({
       error: error instanceof Error ? error.message : "Failed to update user"
@@ -342,8 +531,34 @@ router.put("/users/:id", async (req, res) => {
   }
 });
 
+// Lift a sign-in lockout before it runs out
+router.post("/users/:id/unlock", validateToken, requirePermission(Permission.USERS_MANAGE), async (req, res) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const user = await LoginProtectionService.unlock(userId);
+    if (!user) {
+      return res.status(404).json({
+        error: "User not found"
+      });
+    }
+
+    console.log(`User ${userId} unlocked by user ${req.user!.userId}`);
+    const { password, ...userData } = user;
+    return res.status(200).json(userData);
+  } catch (error) {
+    console.error('Error unlocking user:', error);
+    return res.status(500).json({
+      error: "Failed to unlock user"
+    });
+  }
+});
+
 // Delete user
-router.delete("/users/:id", async (req, res) => {
+router.delete("/users/:id", validateToken, requirePermission(Permission.USERS_MANAGE), async (req, res) => {
   try {
     console.log('Deleting user:', req.params.id);
     const userId = parseInt(req.params.id);
@@ -0,0 +1,177 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { ApprovalDecision } from '@shared/schema';
+import { BookingApprovalService, BookingApprovalError } from '../services/booking-approval';
+import { ApprovalEscalationService } from '../services/approval-escalation';
+import { storage } from '../storage';
+
+const bookingApprovalsRouter = Router();
+
+// Apply authentication middleware to all routes
+bookingApprovalsRouter.use(validateToken);
+
+const bulkDecisionSchema = z.object({
+  bookingIds: z.array(z.number().int().positive()).min(1),
+  decision: z.enum([ApprovalDecision.APPROVED, ApprovalDecision.REJECTED]),
+  comments: z.string().optional()
+});
+
+const approveSchema = z.object({
+  comments: z.string().optional()
+});
+
+const rejectSchema = z.object({
+  comments: z.string().min(1, 'A reason is required when rejecting a booking')
+});
+
+// Bookings awaiting the logged-in employee's decision
+bookingApprovalsRouter.get('/inbox', requirePermission(Permission.BOOKINGS_APPROVE), async (req: Request, res: Response) => {
+  try {
+    const approver = await BookingApprovalService.getEmployeeForUser(req.user!);
+    if (!approver) {
+      return res.status(403).json({ error: 'No employee record found for the current user' });
+    }
+
+    const inbox = await BookingApprovalService.getInbox(approver.id);
+    res.json(inbox);
+  } catch (error: any) {
+    console.error('[APPROVAL] Error fetching approval inbox:', error);
+    res.status(500).json({ error: 'Failed to fetch approval inbox', details: error.message });
+  }
+});
+
+// Approve or reject several bookings at once
+bookingApprovalsRouter.post('/bulk', requirePermission(Permission.BOOKINGS_APPROVE), async (req: Request, res: Response) => {
+  try {
+    const result = bulkDecisionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid bulk decision request', details: result.error.issues });
+    }
+
+    const approver = await BookingApprovalService.getEmployeeForUser(req.user!);
+    if (!approver) {
+      return res.status(403).json({ error: 'No employee record found for the current user' });
+    }
+
+    const { bookingIds, decision, comments } = result.data;
+    const results = await BookingApprovalService.bulkDecide(bookingIds, approver, decision, comments);
+    res.json(results);
+  } catch (error: any) {
+    if (error instanceof BookingApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[APPROVAL] Error applying bulk decision:', error);
+    res.status(500).json({ error: 'Failed to apply bulk decision', details: error.message });
+  }
+});
+
+// Run the escalation check now instead of waiting for the scheduled job
+bookingApprovalsRouter.post('/escalations/process', requirePermission(Permission.WORKFLOWS_MANAGE), async (_req: Request, res: Response) => {
+  try {
+    const escalations = await ApprovalEscalationService.processOverdueApprovals();
+    res.json(escalations);
+  } catch (error: any) {
+    console.error('[ESCALATION] Error processing overdue approvals:', error);
+    res.status(500).json({ error: 'Failed to process overdue approvals', details: error.message });
+  }
+});
+
+// Approve the booking at its current level
+bookingApprovalsRouter.post('/:bookingId/approve', requirePermission(Permission.BOOKINGS_APPROVE), async (req: Request, res: Response) => {
+  try {
+    const bookingId = parseInt(req.params.bookingId);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = approveSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid approval request', details: result.error.issues });
+    }
+
+    const approver = await BookingApprovalService.getEmployeeForUser(req.user!);
+    if (!approver) {
+      return res.status(403).json({ error: 'No employee record found for the current user' });
+    }
+
+    const booking = await BookingApprovalService.approve(bookingId, approver, result.data.comments);
+    res.json(booking);
+  } catch (error: any) {
+    if (error instanceof BookingApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[APPROVAL] Error approving booking:', error);
+    res.status(500).json({ error: 'Failed to approve booking', details: error.message });
+  }
+});
+
+// Reject the booking; a reason is mandatory
+bookingApprovalsRouter.post('/:bookingId/reject', requirePermission(Permission.BOOKINGS_APPROVE), async (req: Request, res: Response) => {
+  try {
+    const bookingId = parseInt(req.params.bookingId);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = rejectSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid rejection request', details: result.error.issues });
+    }
+
+    const approver = await BookingApprovalService.getEmployeeForUser(req.user!);
+    if (!approver) {
+      return res.status(403).json({ error: 'No employee record found for the current user' });
+    }
+
+    const booking = await BookingApprovalService.reject(bookingId, approver, result.data.comments);
+    res.json(booking);
+  } catch (error: any) {
+    if (error instanceof BookingApprovalError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[APPROVAL] Error rejecting booking:', error);
+    res.status(500).json({ error: 'Failed to reject booking', details: error.message });
+  }
+});
+
+// Decisions recorded against a booking, newest first
+bookingApprovalsRouter.get('/:bookingId/history', requirePermission(Permission.BOOKINGS_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const bookingId = parseInt(req.params.bookingId);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+    if (!await storage.getScopedBooking(bookingId, getDataScope(req))) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const history = await BookingApprovalService.getApprovalHistory(bookingId);
+    res.json(history);
+  } catch (error: any) {
+    console.error('[APPROVAL] Error fetching approval history:', error);
+    res.status(500).json({ error: 'Failed to fetch approval history' });
+  }
+});
+
+// Escalations and delegations applied to a booking, newest first
+bookingApprovalsRouter.get('/:bookingId/escalations', requirePermission(Permission.BOOKINGS_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const bookingId = parseInt(req.params.bookingId);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+    if (!await storage.getScopedBooking(bookingId, getDataScope(req))) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const escalations = await ApprovalEscalationService.getEscalations(bookingId);
+    res.json(escalations);
+  } catch (error: any) {
+    console.error('[ESCALATION] Error fetching escalations:', error);
+    res.status(500).json({ error: 'Failed to fetch escalations' });
+  }
+});
+
+export default bookingApprovalsRouter;
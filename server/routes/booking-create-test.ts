@@ -1,10 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
-import { validateToken } from '../middleware/auth';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
 import { insertBookingSchema } from '@shared/schema';
 
 const bookingCreateTestRouter = Router();
 
+// Diagnostic routes are restricted to administrators
+bookingCreateTestRouter.use(validateToken, requirePermission(Permission.SYSTEM_DEBUG));
+
 // Debug endpoint for testing booking creation directly
 bookingCreateTestRouter.post('/test-booking-create', async (req: Request, res: Response) => {
   try {
@@ -56,7 +60,7 @@ bookingCreateTestRouter.get('/booking-database-check', async (req: Request, res:
     console.log('[BOOKING-DB-CHECK] Checking booking database connection');
     
     // Get all bookings to verify the database connection
-    const bookings = await storage.getBookings();
+    const bookings = await storage.getBookings(null);
     
     console.log(`[BOOKING-DB-CHECK] Successfully retrieved ${bookings.length} bookings from database`);
     
@@ -6,6 +6,8 @@
 import { storage } from '../storage';
 import { Request, Response, Router } from 'express';
 import { Priority as BookingPriority, BookingStatus, BookingType } from '@shared/schema';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
 
 // Simple version of auth middleware
 const authMiddleware = (req: Request, res: Response, next: Function) => {
@@ -54,6 +56,9 @@ const calculateBookingMetrics = (
 
 export const bookingCreateTraceRouter = Router();
 
+// Diagnostic routes are restricted to administrators
+bookingCreateTraceRouter.use(validateToken, requirePermission(Permission.SYSTEM_DEBUG));
+
 // POST /api/booking-create-trace - Create a new booking directly with minimal validation
 bookingCreateTraceRouter.post('/', authMiddleware, async (req: Request, res: Response) => {
   const userId = req.user?.userId;
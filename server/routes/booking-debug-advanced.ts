@@ -1,35 +1,27 @@
 import { Router, Request, Response } from 'express';
 import * as schema from '@shared/schema';
 import { db } from '../db';
-import jwt from 'jsonwebtoken';
+import { verifyToken as verifyAccessToken } from '../auth/token-service';
 import { storage } from '../storage';
 import { and, eq, sql } from 'drizzle-orm';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
 
 // Create a router for debugging booking creation
 const router = Router();
 
-// Helper function to verify token
+// Diagnostic routes are restricted to administrators
+router.use(validateToken, requirePermission(Permission.SYSTEM_DEBUG));
+
+// Helper function to verify token; applies the same expiry, session and revocation checks as validateToken
 const verifyToken = (token: string): { userId: number, email: string } | null => {
   try {
     if (!token) return null;
-    
-    console.log("Verifying token:", token.substring(0, 15) + "...");
-    console.log("JWT_SECRET length:", process.env.JWT_SECRET?.length, "first 5 chars:", process.env.JWT_SECRET?.substring(0, 5));
-    console.log("Full token being verified:", token);
-    
-    const timestamp = Math.floor(Date.now() / 1000);
-    console.log("Current timestamp:", timestamp);
-    
-    const decoded: any = jwt.verify(token, process.env.JWT_SECRET || 'dev-secret-key');
-    
-    console.log("Token payload structure:", Object.keys(decoded).join(", "));
-    console.log("Token full decoded payload:", JSON.stringify(decoded));
-    console.log("Token exp:", decoded.exp, "iat:", decoded.iat);
-    console.log("Current time (epoch):", timestamp, "Token expiry:", decoded.exp, "Difference:", decoded.exp - timestamp);
-    
+
+    const decoded = verifyAccessToken(token);
     return {
-      userId: decoded.userId,
-      email: decoded.email
+      userId: decoded.userId!,
+      email: decoded.email!
     };
   } catch (tokenError) {
     console.error("Token verification failed:", tokenError);
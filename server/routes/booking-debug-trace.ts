@@ -1,20 +1,25 @@
 import { Router, Request, Response } from 'express';
 import * as schema from '@shared/schema';
 import { db } from '../db';
-import jwt from 'jsonwebtoken';
+import { verifyToken as verifyAccessToken } from '../auth/token-service';
 import { storage } from '../storage';
 import { and, eq, sql } from 'drizzle-orm';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
 
 // Create a router for tracing booking creation steps
 const router = Router();
 
-// Helper function to verify token
+// Diagnostic routes are restricted to administrators
+router.use(validateToken, requirePermission(Permission.SYSTEM_DEBUG));
+
+// Helper function to verify token; applies the same expiry, session and revocation checks as validateToken
 const verifyToken = (token: string): { userId: number, email: string } => {
   try {
-    const decoded: any = jwt.verify(token, process.env.JWT_SECRET || 'dev-secret-key');
+    const decoded = verifyAccessToken(token);
     return {
-      userId: decoded.userId,
-      email: decoded.email
+      userId: decoded.userId!,
+      email: decoded.email!
     };
   } catch (error) {
     console.error("Token verification failed:", error);
@@ -2,9 +2,14 @@ import { Router, Request, Response } from 'express';
 import { bookingDebugManager } from '../debug/booking-debug';
 import { storage } from '../storage';
 import { createToken, verifyToken } from '../auth/token-service';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
 
 const bookingDebugRouter = Router();
 
+// Diagnostic routes are restricted to administrators
+bookingDebugRouter.use(validateToken, requirePermission(Permission.SYSTEM_DEBUG));
+
 // Get all debug sessions
 bookingDebugRouter.get('/sessions', (req: Request, res: Response) => {
   try {
@@ -107,7 +112,7 @@ bookingDebugRouter.get('/format-check', async (req: Request, res: Response) => {
     console.log('[DEBUG-FORMAT] Checking booking data format');
     
     // Get all bookings
-    const bookings = await storage.getBookings();
+    const bookings = await storage.getBookings(null);
     console.log(`[DEBUG-FORMAT] Found ${bookings.length} bookings in database`);
     
     // Check data format of the first booking
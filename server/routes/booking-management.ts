@@ -1,8 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
-import { validateToken } from '../middleware/auth';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
 import { insertBookingSchema } from '@shared/schema';
 import { db } from '../db';
+import { BookingApprovalService } from '../services/booking-approval';
 
 const bookingManagementRouter = Router();
 
@@ -10,7 +12,7 @@ const bookingManagementRouter = Router();
 bookingManagementRouter.use(validateToken);
 
 // Create a booking with dedicated endpoint
-bookingManagementRouter.post('/create', async (req: Request, res: Response) => {
+bookingManagementRouter.post('/create', requirePermission(Permission.BOOKINGS_CREATE), async (req: Request, res: Response) => {
   try {
     console.log('[BOOKING-CREATE] Request received to create a booking');
     console.log('[BOOKING-CREATE] Request headers:', JSON.stringify(req.headers, null, 2));
@@ -52,7 +54,10 @@ bookingManagementRouter.post('/create', async (req: Request, res: Response) => {
     console.log('[BOOKING-CREATE] Creating booking with data:', JSON.stringify(bookingData, null, 2));
     
     // Create the booking
-    const newBooking = await storage.createBooking(bookingData);
+    const createdBooking = await storage.createBooking(bookingData);
+
+    // Route the booking to its approval workflow, if one is configured
+    const newBooking = await BookingApprovalService.routeBooking(createdBooking);
     
     console.log('[BOOKING-CREATE] Booking created successfully with ID:', newBooking.id);
     
@@ -72,7 +77,7 @@ bookingManagementRouter.post('/create', async (req: Request, res: Response) => {
 });
 
 // Delete all bookings
-bookingManagementRouter.delete('/delete-all', async (req: Request, res: Response) => {
+bookingManagementRouter.delete('/delete-all', requirePermission(Permission.SYSTEM_DEBUG), async (req: Request, res: Response) => {
   try {
     console.log('[BOOKINGS-DELETE-ALL] Attempting to delete all bookings');
     
@@ -85,7 +90,7 @@ bookingManagementRouter.delete('/delete-all', async (req: Request, res: Response
     }
 
     // Fetch all bookings first to get the count
-    const allBookings = await storage.getBookings();
+    const allBookings = await storage.getBookings(null);
     const count = allBookings.length;
     
     // Delete all bookings from the database
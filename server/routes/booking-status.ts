@@ -0,0 +1,70 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { storage } from '../storage';
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { BookingStatus } from '@shared/schema';
+
+// Mounted at /api/bookings, so authentication is applied per route rather than
+// router-wide to leave the other /api/bookings handlers untouched
+const bookingStatusRouter = Router();
+
+const statusChangeSchema = z.object({
+  status: z.enum(Object.values(BookingStatus) as [string, ...string[]]),
+  reason: z.string().optional()
+});
+
+// Move a booking to a new status; only transitions allowed by BookingStatusTransitions succeed
+bookingStatusRouter.patch('/:id/status', validateToken, requirePermission(Permission.BOOKINGS_MANAGE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = statusChangeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid status change', details: result.error.issues });
+    }
+    if (!await storage.getScopedBooking(id, getDataScope(req))) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const booking = await storage.updateBookingStatus(id, result.data.status, {
+      changedBy: req.user?.userId,
+      reason: result.data.reason
+    });
+    res.json(booking);
+  } catch (error: any) {
+    if (error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error.message.includes('Invalid status transition')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('[BOOKING-STATUS] Error updating booking status:', error);
+    res.status(500).json({ error: 'Failed to update booking status', details: error.message });
+  }
+});
+
+// Status history of a booking, oldest first
+bookingStatusRouter.get('/:id/timeline', validateToken, requirePermission(Permission.BOOKINGS_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    if (!await storage.getScopedBooking(id, getDataScope(req))) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const timeline = await storage.getBookingStatusHistory(id);
+    res.json(timeline);
+  } catch (error: any) {
+    console.error('[BOOKING-STATUS] Error fetching booking timeline:', error);
+    res.status(500).json({ error: 'Failed to fetch booking timeline' });
+  }
+});
+
+export default bookingStatusRouter;
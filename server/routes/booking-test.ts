@@ -1,9 +1,14 @@
 import { Router } from 'express';
 import { insertBookingSchema } from '@shared/schema';
 import { logBookingRequest } from '../debug/booking-debug';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
 
 const bookingTestRouter = Router();
 
+// Diagnostic routes are restricted to administrators
+bookingTestRouter.use(validateToken, requirePermission(Permission.SYSTEM_DEBUG));
+
 // Test endpoint to validate booking data without creating a booking
 bookingTestRouter.post('/validate', (req, res) => {
   const debugId = `validate-${Date.now()}`;
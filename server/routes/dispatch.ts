@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { storage } from '../storage';
+import { Permission } from '@shared/schema/permissions';
+import { DispatchService, DispatchError } from '../services/dispatch';
+
+const dispatchRouter = Router();
+
+// Apply authentication middleware to all routes
+dispatchRouter.use(validateToken, requirePermission(Permission.DISPATCH_MANAGE), resolveDataScope);
+
+const manualAssignSchema = z.object({
+  vehicleId: z.number().int().positive(),
+  driverId: z.number().int().positive(),
+  note: z.string().optional()
+});
+
+// Dispatch every approved, unassigned booking in priority order
+dispatchRouter.post('/run', async (req: Request, res: Response) => {
+  try {
+    const result = await DispatchService.dispatchApprovedBookings(getDataScope(req));
+    res.json(result);
+  } catch (error: any) {
+    console.error('[DISPATCH] Error running dispatch:', error);
+    res.status(500).json({ error: 'Failed to run dispatch', details: error.message });
+  }
+});
+
+// Automatically dispatch a single booking
+dispatchRouter.post('/bookings/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = await DispatchService.dispatchBooking(id, getDataScope(req));
+    res.json(result);
+  } catch (error: any) {
+    if (error instanceof DispatchError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[DISPATCH] Error dispatching booking:', error);
+    res.status(500).json({ error: 'Failed to dispatch booking', details: error.message });
+  }
+});
+
+// Ranked vehicles and drivers for a booking, without assigning anything
+dispatchRouter.get('/bookings/:id/recommendations', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const recommendations = await DispatchService.getRecommendations(id, getDataScope(req));
+    res.json(recommendations);
+  } catch (error: any) {
+    if (error instanceof DispatchError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[DISPATCH] Error fetching recommendations:', error);
+    res.status(500).json({ error: 'Failed to fetch dispatch recommendations', details: error.message });
+  }
+});
+
+// Override the automatic choice with a dispatcher-selected vehicle and driver
+dispatchRouter.post('/bookings/:id/assign', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = manualAssignSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid assignment request', details: result.error.issues });
+    }
+
+    const { vehicleId, driverId, note } = result.data;
+    const decisions = await DispatchService.assignManually(id, vehicleId, driverId, getDataScope(req), req.user?.userId, note);
+    res.json(decisions);
+  } catch (error: any) {
+    if (error instanceof DispatchError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[DISPATCH] Error assigning booking:', error);
+    res.status(500).json({ error: 'Failed to assign booking', details: error.message });
+  }
+});
+
+// Dispatch decision history for a booking
+dispatchRouter.get('/bookings/:id/decisions', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    if (!await storage.getScopedBooking(id, getDataScope(req))) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const decisions = await DispatchService.getDecisions(id);
+    res.json(decisions);
+  } catch (error: any) {
+    console.error('[DISPATCH] Error fetching dispatch decisions:', error);
+    res.status(500).json({ error: 'Failed to fetch dispatch decisions' });
+  }
+});
+
+export default dispatchRouter;
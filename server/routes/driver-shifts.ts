@@ -0,0 +1,155 @@
+import { Router, Request, Response } from 'express';
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { storage } from '../storage';
+import { Permission } from '@shared/schema/permissions';
+import { insertDriverShiftSchema } from '@shared/schema';
+import { DriverShiftService, DriverShiftError } from '../services/driver-shifts';
+
+const driverShiftsRouter = Router();
+
+// Apply authentication middleware to all routes
+driverShiftsRouter.use(validateToken);
+
+function parseId(value: string): number | null {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+// Shifts overlapping a date range, optionally for one driver
+driverShiftsRouter.get('/', requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const from = req.query.from ? new Date(String(req.query.from)) : null;
+    const to = req.query.to ? new Date(String(req.query.to)) : null;
+    if (!from || !to || isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return res.status(400).json({ error: 'from and to query parameters must be valid dates' });
+    }
+
+    const driverId = req.query.driverId ? parseId(String(req.query.driverId)) : undefined;
+    if (driverId === null) {
+      return res.status(400).json({ error: 'Invalid driver ID format' });
+    }
+
+    const shifts = await DriverShiftService.getShifts({ from, to, driverId }, getDataScope(req));
+    res.json(shifts);
+  } catch (error: any) {
+    console.error('[SHIFTS] Error fetching shifts:', error);
+    res.status(500).json({ error: 'Failed to fetch shifts' });
+  }
+});
+
+// Hours a driver has driven today and over the last 7 days, with the configured limits
+driverShiftsRouter.get('/hours/:driverId', requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const driverId = parseId(req.params.driverId);
+    if (driverId === null) {
+      return res.status(400).json({ error: 'Invalid driver ID format' });
+    }
+    if (!await storage.getScopedDriver(driverId, getDataScope(req))) {
+      return res.status(404).json({ error: 'Driver not found' });
+    }
+
+    const now = new Date();
+    const [hours] = await DriverShiftService.getDrivingHours([driverId], { start: now, end: now });
+    res.json(hours);
+  } catch (error: any) {
+    console.error('[SHIFTS] Error fetching driving hours:', error);
+    res.status(500).json({ error: 'Failed to fetch driving hours' });
+  }
+});
+
+driverShiftsRouter.post('/', requirePermission(Permission.DRIVERS_MANAGE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const result = insertDriverShiftSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid shift data', details: result.error.issues });
+    }
+
+    const shift = await DriverShiftService.createShift(result.data, getDataScope(req), req.user?.userId);
+    res.status(201).json(shift);
+  } catch (error: any) {
+    if (error instanceof DriverShiftError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[SHIFTS] Error creating shift:', error);
+    res.status(500).json({ error: 'Failed to create shift', details: error.message });
+  }
+});
+
+driverShiftsRouter.put('/:id', requirePermission(Permission.DRIVERS_MANAGE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = insertDriverShiftSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid shift data', details: result.error.issues });
+    }
+
+    const shift = await DriverShiftService.updateShift(id, result.data, getDataScope(req));
+    res.json(shift);
+  } catch (error: any) {
+    if (error instanceof DriverShiftError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[SHIFTS] Error updating shift:', error);
+    res.status(500).json({ error: 'Failed to update shift', details: error.message });
+  }
+});
+
+driverShiftsRouter.delete('/:id', requirePermission(Permission.DRIVERS_MANAGE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const shift = await DriverShiftService.deleteShift(id, getDataScope(req));
+    res.json(shift);
+  } catch (error: any) {
+    if (error instanceof DriverShiftError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[SHIFTS] Error deleting shift:', error);
+    res.status(500).json({ error: 'Failed to delete shift' });
+  }
+});
+
+driverShiftsRouter.post('/:id/clock-in', requirePermission(Permission.DRIVERS_MANAGE, Permission.TRIPS_EXECUTE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const shift = await DriverShiftService.clockIn(id, getDataScope(req));
+    res.json(shift);
+  } catch (error: any) {
+    if (error instanceof DriverShiftError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[SHIFTS] Error clocking in:', error);
+    res.status(500).json({ error: 'Failed to clock in' });
+  }
+});
+
+driverShiftsRouter.post('/:id/clock-out', requirePermission(Permission.DRIVERS_MANAGE, Permission.TRIPS_EXECUTE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseId(req.params.id);
+    if (id === null) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const shift = await DriverShiftService.clockOut(id, getDataScope(req));
+    res.json(shift);
+  } catch (error: any) {
+    if (error instanceof DriverShiftError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[SHIFTS] Error clocking out:', error);
+    res.status(500).json({ error: 'Failed to clock out' });
+  }
+});
+
+export default driverShiftsRouter;
@@ -0,0 +1,309 @@
+import { Router } from "express";
+import { insertDriverSchema, DriverStatus, type Driver } from "@shared/schema";
+import { storage } from "../storage";
+import multer from "multer";
+import XLSX from "xlsx";
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
+
+const router = Router();
+const upload = multer({ storage: multer.memoryStorage() });
+
+// Spreadsheet rows are flat, so list and location fields are split into plain columns
+function driverToRow(driver: Driver) {
+  return {
+    employee_id: driver.employee_id,
+    name: driver.name,
+    license_number: driver.license_number,
+    license_type: driver.license_type,
+    license_expiry: new Date(driver.license_expiry).toISOString().split("T")[0],
+    phone: driver.phone,
+    email: driver.email,
+    status: driver.status,
+    location_address: driver.current_location?.address || "",
+    location_lat: driver.current_location?.coordinates?.lat ?? "",
+    location_lng: driver.current_location?.coordinates?.lng ?? "",
+    specializations: (driver.specializations || []).join(", "),
+    preferred_vehicle_types: (driver.preferred_vehicle_types || []).join(", "),
+    rating: driver.rating ?? "",
+    is_active: driver.is_active
+  };
+}
+
+function splitList(value: unknown): string[] {
+  if (value === undefined || value === null || value === "") {
+    return [];
+  }
+  return String(value).split(",").map(item => item.trim()).filter(Boolean);
+}
+
+function rowToDriver(row: any) {
+  return {
+    employee_id: String(row.employee_id ?? ""),
+    name: row.name,
+    license_number: String(row.license_number ?? ""),
+    license_type: row.license_type,
+    license_expiry: row.license_expiry,
+    phone: String(row.phone ?? ""),
+    email: row.email,
+    status: row.status || DriverStatus.AVAILABLE,
+    current_location: {
+      address: row.location_address || "",
+      coordinates: {
+        lat: Number(row.location_lat) || 0,
+        lng: Number(row.location_lng) || 0
+      }
+    },
+    specializations: splitList(row.specializations),
+    preferred_vehicle_types: splitList(row.preferred_vehicle_types),
+    rating: row.rating === "" || row.rating === undefined ? null : row.rating,
+    is_active: row.is_active === undefined ? true : row.is_active === true || String(row.is_active).toLowerCase() === "true"
+  };
+}
+
+// Create new driver
+router.post("/api/drivers", validateToken, requirePermission(Permission.DRIVERS_MANAGE), async (req, res) => {
+  try {
+    console.log("Received driver creation request:", req.body);
+    const validatedData = insertDriverSchema.parse(req.body);
+
+    const driver = await storage.createDriver(validatedData);
+    console.log("Created new driver:", driver.id);
+    res.status(201).json(driver);
+  } catch (error: any) {
+    console.error("Error creating driver:", error);
+
+    if (error.code === '23505') { // Unique constraint violation
+      return res.status(400).json({
+        error: "Driver with this employee ID or license number already exists",
+        details: error.detail
+      });
+    }
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    res.status(500).json({ error: "Failed to create driver" });
+  }
+});
+
+// Download template
+router.get("/api/drivers/template", validateToken, requirePermission(Permission.DRIVERS_MANAGE), (_req, res) => {
+  try {
+    const template = {
+      employee_id: "",
+      name: "",
+      license_number: "",
+      license_type: "",
+      license_expiry: "YYYY-MM-DD",
+      phone: "",
+      email: "",
+      status: DriverStatus.AVAILABLE,
+      location_address: "",
+      location_lat: "",
+      location_lng: "",
+      specializations: "",
+      preferred_vehicle_types: "",
+      rating: "",
+      is_active: true
+    };
+
+    const ws = XLSX.utils.json_to_sheet([template]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Template");
+
+    const buf = XLSX.write(wb, { type: "buffer", bookType: "xlsx" });
+
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.setHeader("Content-Disposition", "attachment; filename=drivers-template.xlsx");
+    res.send(buf);
+  } catch (error: any) {
+    console.error("Error generating driver template:", error);
+    res.status(500).json({ error: "Failed to generate template" });
+  }
+});
+
+// Export drivers
+router.get("/api/drivers/export", validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req, res) => {
+  try {
+    const drivers = await storage.getDrivers(getDataScope(req));
+
+    const ws = XLSX.utils.json_to_sheet(drivers.map(driverToRow));
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Drivers");
+
+    const buf = XLSX.write(wb, { type: "buffer", bookType: "xlsx" });
+
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.setHeader("Content-Disposition", "attachment; filename=drivers.xlsx");
+    res.send(buf);
+  } catch (error: any) {
+    console.error("Error exporting drivers:", error);
+    res.status(500).json({ error: "Failed to export drivers" });
+  }
+});
+
+// Import drivers
+router.post("/api/drivers/import", validateToken, requirePermission(Permission.DRIVERS_MANAGE), upload.single("file"), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const workbook = XLSX.read(req.file.buffer, { cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    const data = XLSX.utils.sheet_to_json(sheet);
+
+    const results = await Promise.all(
+      data.map(async (row: any) => {
+        try {
+          const validatedData = insertDriverSchema.parse(rowToDriver(row));
+          const driver = await storage.createDriver(validatedData);
+          return { success: true, data: driver };
+        } catch (error: any) {
+          return {
+            success: false,
+            error: error.name === 'ZodError' ? 'Validation error' : error.message,
+            data: row
+          };
+        }
+      })
+    );
+
+    const failures = results.filter(r => !r.success);
+    if (failures.length > 0) {
+      return res.status(400).json({
+        error: "Some records failed to import",
+        failures
+      });
+    }
+
+    res.status(201).json({
+      message: "All records imported successfully",
+      count: results.length
+    });
+  } catch (error: any) {
+    console.error("Error importing drivers:", error);
+    res.status(500).json({ error: "Failed to import drivers" });
+  }
+});
+
+// Get driver by ID
+router.get("/api/drivers/:id", validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid ID format" });
+    }
+
+    const driver = await storage.getScopedDriver(id, getDataScope(req));
+    if (!driver) {
+      return res.status(404).json({ error: "Driver not found" });
+    }
+    res.json(driver);
+  } catch (error: any) {
+    console.error("Error fetching driver:", error);
+    res.status(500).json({ error: "Failed to fetch driver" });
+  }
+});
+
+// Update driver
+router.patch("/api/drivers/:id", validateToken, requirePermission(Permission.DRIVERS_MANAGE), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid ID format" });
+    }
+
+    console.log("Updating driver:", id, "with data:", req.body);
+    const validatedData = insertDriverSchema.partial().parse(req.body);
+
+    const driver = await storage.updateDriver(id, validatedData);
+    res.json(driver);
+  } catch (error: any) {
+    console.error("Error updating driver:", error);
+
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: "Driver not found" });
+    }
+
+    if (error.code === '23505') {
+      return res.status(400).json({
+        error: "Driver with this employee ID or license number already exists",
+        details: error.detail
+      });
+    }
+
+    if (error.name === 'ZodError') {
+      return res.status(400).json({
+        error: "Validation error",
+        errors: error.errors
+      });
+    }
+
+    res.status(500).json({ error: "Failed to update driver" });
+  }
+});
+
+// Change driver status
+router.patch("/api/drivers/:id/status", validateToken, requirePermission(Permission.DRIVERS_MANAGE), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid ID format" });
+    }
+
+    const { status } = req.body;
+    if (!(Object.values(DriverStatus) as string[]).includes(status)) {
+      return res.status(400).json({
+        error: "Invalid driver status",
+        details: `Status must be one of: ${Object.values(DriverStatus).join(", ")}`
+      });
+    }
+
+    const driver = await storage.updateDriverStatus(id, status);
+    res.json(driver);
+  } catch (error: any) {
+    console.error("Error updating driver status:", error);
+
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: "Driver not found" });
+    }
+
+    res.status(500).json({ error: "Failed to update driver status" });
+  }
+});
+
+// Delete driver
+router.delete("/api/drivers/:id", validateToken, requirePermission(Permission.DRIVERS_MANAGE), async (req, res) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: "Invalid ID format" });
+    }
+
+    console.log("Deleting driver:", id);
+    const driver = await storage.deleteDriver(id);
+    res.json(driver);
+  } catch (error: any) {
+    console.error("Error deleting driver:", error);
+
+    if (error.message?.includes("not found")) {
+      return res.status(404).json({ error: "Driver not found" });
+    }
+
+    if (error.code === '23503') { // Still referenced by bookings or dispatch records
+      return res.status(409).json({
+        error: "Driver has trip history and cannot be deleted; deactivate the driver instead"
+      });
+    }
+
+    res.status(500).json({ error: "Failed to delete driver" });
+  }
+});
+
+export default router;
@@ -0,0 +1,94 @@
+import { Router, Request, Response } from 'express';
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { DrivingEventType } from '@shared/schema';
+import { DrivingSafetyService, type DrivingEventFilters } from '../services/driving-safety';
+
+const drivingSafetyRouter = Router();
+
+// Apply authentication middleware to all routes
+drivingSafetyRouter.use(validateToken, requirePermission(Permission.FLEET_VIEW, Permission.REPORTS_VIEW), resolveDataScope);
+
+// Scores cover the last 30 days unless a range is given
+const DEFAULT_SCORE_DAYS = 30;
+
+function parseRange(req: Request): { from: Date; to: Date } | { error: string } {
+  const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+  const from = req.query.from
+    ? new Date(String(req.query.from))
+    : new Date(to.getTime() - DEFAULT_SCORE_DAYS * 24 * 60 * 60 * 1000);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { error: 'from and to query parameters must be valid dates' };
+  }
+  if (from > to) {
+    return { error: 'from must be before to' };
+  }
+  return { from, to };
+}
+
+// Detected events, newest first, filtered by vehicleId, driverId, type, from and to
+drivingSafetyRouter.get('/events', async (req: Request, res: Response) => {
+  try {
+    const vehicleId = req.query.vehicleId ? parseInt(String(req.query.vehicleId)) : undefined;
+    const driverId = req.query.driverId ? parseInt(String(req.query.driverId)) : undefined;
+    const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+    const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+    const eventType = req.query.type ? String(req.query.type) : undefined;
+    if ((vehicleId !== undefined && isNaN(vehicleId)) || (driverId !== undefined && isNaN(driverId))) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return res.status(400).json({ error: 'from and to query parameters must be valid dates' });
+    }
+    if (eventType && !(Object.values(DrivingEventType) as string[]).includes(eventType)) {
+      return res.status(400).json({ error: `type must be one of ${Object.values(DrivingEventType).join(', ')}` });
+    }
+
+    const filters: DrivingEventFilters = { vehicleId, driverId, eventType, from, to };
+    const events = await DrivingSafetyService.getEvents(filters, getDataScope(req));
+    res.json(events);
+  } catch (error: any) {
+    console.error('[DRIVING-SAFETY] Error fetching events:', error);
+    res.status(500).json({ error: 'Failed to fetch driving events' });
+  }
+});
+
+// Safety scores for all active drivers, best first
+drivingSafetyRouter.get('/scores', async (req: Request, res: Response) => {
+  try {
+    const range = parseRange(req);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error });
+    }
+
+    const scores = await DrivingSafetyService.getDriverScores(range.from, range.to, getDataScope(req));
+    res.json(scores);
+  } catch (error: any) {
+    console.error('[DRIVING-SAFETY] Error calculating scores:', error);
+    res.status(500).json({ error: 'Failed to calculate safety scores' });
+  }
+});
+
+drivingSafetyRouter.get('/scores/:driverId', async (req: Request, res: Response) => {
+  try {
+    const driverId = parseInt(req.params.driverId);
+    if (isNaN(driverId)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+    const range = parseRange(req);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error });
+    }
+
+    const [score] = await DrivingSafetyService.getDriverScores(range.from, range.to, getDataScope(req), [driverId]);
+    if (!score) {
+      return res.status(404).json({ error: 'Driver not found' });
+    }
+    res.json(score);
+  } catch (error: any) {
+    console.error('[DRIVING-SAFETY] Error calculating score:', error);
+    res.status(500).json({ error: 'Failed to calculate safety score' });
+  }
+});
+
+export default drivingSafetyRouter;
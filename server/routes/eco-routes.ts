@@ -1,5 +1,7 @@
 import { Router } from "express";
 import { z } from "zod";
+import { validateToken, requirePermission } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
 
 const router = Router();
 
@@ -19,7 +21,7 @@ const routeRequestSchema = z.object({
 });
 
 // Calculate routes with environmental impact
-router.get("/api/eco-routes", async (req, res) => {
+router.get("/api/eco-routes", validateToken, requirePermission(Permission.BOOKINGS_VIEW), async (req, res) => {
   try {
     const params = routeRequestSchema.parse(req.query);
     
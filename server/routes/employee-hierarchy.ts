@@ -3,11 +3,13 @@ import { EmployeeHierarchyService } from '../services/employee-hierarchy';
 import { db } from '../db';
 import { eq } from 'drizzle-orm';
 import { employees } from '@shared/schema';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
 
 const router = Router();
 
 // Get employee's complete hierarchy information
-router.get('/api/employees/:id/hierarchy', async (req, res) => {
+router.get('/api/employees/:id/hierarchy', validateToken, requirePermission(Permission.EMPLOYEES_VIEW), async (req, res) => {
   try {
     const employeeId = parseInt(req.params.id);
     console.log("Fetching hierarchy for employee ID:", employeeId);
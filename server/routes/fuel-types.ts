@@ -3,11 +3,16 @@ import { storage } from "../storage";
 import { z } from "zod";
 import { spawn } from "child_process";
 import path from "path";
+import { validateToken, requirePermission } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
 
 const router = Router();
 
+// Apply authentication middleware to all routes
+router.use(validateToken);
+
 // Get all fuel types
-router.get("/", async (req, res) => {
+router.get("/", requirePermission(Permission.FLEET_VIEW), async (req, res) => {
   try {
     const fuelTypes = await storage.getAllFuelTypes();
     res.json(fuelTypes);
@@ -18,7 +23,7 @@ router.get("/", async (req, res) => {
 });
 
 // Create a new fuel type
-router.post("/", async (req, res) => {
+router.post("/", requirePermission(Permission.FUEL_PRICES_MANAGE), async (req, res) => {
   try {
     const schema = z.object({
       type: z.string().min(2),
@@ -56,7 +61,7 @@ router.post("/", async (req, res) => {
 });
 
 // Update a fuel type
-router.patch("/:id", async (req, res) => {
+router.patch("/:id", requirePermission(Permission.FUEL_PRICES_MANAGE), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -133,7 +138,7 @@ router.patch("/:id", async (req, res) => {
 });
 
 // Delete a fuel type
-router.delete("/:id", async (req, res) => {
+router.delete("/:id", requirePermission(Permission.FUEL_PRICES_MANAGE), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -149,7 +154,7 @@ router.delete("/:id", async (req, res) => {
 });
 
 // Get fuel price history
-router.get("/history", async (_req, res) => {
+router.get("/history", requirePermission(Permission.FLEET_VIEW), async (_req, res) => {
   try {
     const history = await storage.getFuelPriceHistory();
     res.json(history);
@@ -160,7 +165,7 @@ router.get("/history", async (_req, res) => {
 });
 
 // Endpoint to get UAE fuel types from a predefined list
-router.get("/uae-fuel-types", async (req, res) => {
+router.get("/uae-fuel-types", requirePermission(Permission.FLEET_VIEW), async (req, res) => {
   try {
     // Standard UAE fuel types
     const uaeFuelTypes = [
@@ -193,7 +198,7 @@ router.get("/uae-fuel-types", async (req, res) => {
 });
 
 // WAM Scraper endpoint to fetch UAE fuel prices
-router.post("/wam-scrape", async (req, res) => {
+router.post("/wam-scrape", requirePermission(Permission.FUEL_PRICES_MANAGE), async (req, res) => {
   try {
     console.log("Starting WAM fuel price scraper...");
     
@@ -258,7 +263,7 @@ router.post("/wam-scrape", async (req, res) => {
 });
 
 // Update fuel prices endpoint
-router.post("/update", async (req, res) => {
+router.post("/update", requirePermission(Permission.FUEL_PRICES_MANAGE), async (req, res) => {
   try {
     const priceData = req.body;
     console.log("Received fuel price update:", priceData);
@@ -0,0 +1,156 @@
+import { Router, Request, Response } from 'express';
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { insertGeofenceSchema } from '@shared/schema';
+import { GeofenceService, GeofenceError, type GeofenceEventFilters } from '../services/geofences';
+
+const geofencesRouter = Router();
+
+// Apply authentication middleware to all routes
+geofencesRouter.use(validateToken);
+
+function parseEventFilters(req: Request): GeofenceEventFilters | { error: string } {
+  const vehicleId = req.query.vehicleId ? parseInt(String(req.query.vehicleId)) : undefined;
+  const geofenceId = req.query.geofenceId ? parseInt(String(req.query.geofenceId)) : undefined;
+  const from = req.query.from ? new Date(String(req.query.from)) : undefined;
+  const to = req.query.to ? new Date(String(req.query.to)) : undefined;
+  if ((vehicleId !== undefined && isNaN(vehicleId)) || (geofenceId !== undefined && isNaN(geofenceId))) {
+    return { error: 'Invalid ID format' };
+  }
+  if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+    return { error: 'from and to query parameters must be valid dates' };
+  }
+  return { vehicleId, geofenceId, from, to };
+}
+
+// Active geofences, or all of them with ?all=true
+geofencesRouter.get('/', requirePermission(Permission.FLEET_VIEW), async (req: Request, res: Response) => {
+  try {
+    const geofences = await GeofenceService.getGeofences(req.query.all === 'true');
+    res.json(geofences);
+  } catch (error: any) {
+    console.error('[GEOFENCE] Error fetching geofences:', error);
+    res.status(500).json({ error: 'Failed to fetch geofences' });
+  }
+});
+
+// Entry, exit and dwell events, newest first, filtered by vehicleId, geofenceId, from and to
+geofencesRouter.get('/events', requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const filters = parseEventFilters(req);
+    if ('error' in filters) {
+      return res.status(400).json({ error: filters.error });
+    }
+
+    const events = await GeofenceService.getEvents(filters, getDataScope(req));
+    res.json(events);
+  } catch (error: any) {
+    console.error('[GEOFENCE] Error fetching events:', error);
+    res.status(500).json({ error: 'Failed to fetch geofence events' });
+  }
+});
+
+// Unacknowledged restricted-zone alerts, or all of them with ?all=true
+geofencesRouter.get('/alerts', requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const alerts = await GeofenceService.getEvents({}, getDataScope(req), true, req.query.all === 'true');
+    res.json(alerts);
+  } catch (error: any) {
+    console.error('[GEOFENCE] Error fetching alerts:', error);
+    res.status(500).json({ error: 'Failed to fetch geofence alerts' });
+  }
+});
+
+geofencesRouter.post('/alerts/:id/acknowledge', requirePermission(Permission.FLEET_MANAGE, Permission.DISPATCH_MANAGE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const alert = await GeofenceService.acknowledgeAlert(id, getDataScope(req), req.user?.userId);
+    res.json(alert);
+  } catch (error: any) {
+    if (error instanceof GeofenceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[GEOFENCE] Error acknowledging alert:', error);
+    res.status(500).json({ error: 'Failed to acknowledge alert' });
+  }
+});
+
+geofencesRouter.get('/:id', requirePermission(Permission.FLEET_VIEW), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const geofence = await GeofenceService.getGeofence(id);
+    res.json(geofence);
+  } catch (error: any) {
+    if (error instanceof GeofenceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[GEOFENCE] Error fetching geofence:', error);
+    res.status(500).json({ error: 'Failed to fetch geofence' });
+  }
+});
+
+geofencesRouter.post('/', requirePermission(Permission.FLEET_MANAGE), async (req: Request, res: Response) => {
+  try {
+    const result = insertGeofenceSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid geofence data', details: result.error.issues });
+    }
+
+    const geofence = await GeofenceService.createGeofence(result.data, req.user?.userId);
+    res.status(201).json(geofence);
+  } catch (error: any) {
+    console.error('[GEOFENCE] Error creating geofence:', error);
+    res.status(500).json({ error: 'Failed to create geofence', details: error.message });
+  }
+});
+
+geofencesRouter.put('/:id', requirePermission(Permission.FLEET_MANAGE), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = insertGeofenceSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid geofence data', details: result.error.issues });
+    }
+
+    const geofence = await GeofenceService.updateGeofence(id, result.data);
+    res.json(geofence);
+  } catch (error: any) {
+    if (error instanceof GeofenceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[GEOFENCE] Error updating geofence:', error);
+    res.status(500).json({ error: 'Failed to update geofence', details: error.message });
+  }
+});
+
+geofencesRouter.delete('/:id', requirePermission(Permission.FLEET_MANAGE), async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const geofence = await GeofenceService.deactivateGeofence(id);
+    res.json(geofence);
+  } catch (error: any) {
+    if (error instanceof GeofenceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[GEOFENCE] Error deactivating geofence:', error);
+    res.status(500).json({ error: 'Failed to deactivate geofence' });
+  }
+});
+
+export default geofencesRouter;
@@ -0,0 +1,149 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { insertWorkOrderSchema, WorkOrderStatus } from '@shared/schema';
+import { MaintenanceService, MaintenanceError } from '../services/maintenance';
+
+const maintenanceRouter = Router();
+
+// Apply authentication middleware to all routes
+maintenanceRouter.use(validateToken);
+
+const workOrderStatusSchema = z.object({
+  status: z.enum(Object.values(WorkOrderStatus) as [string, ...string[]]),
+  cost: z.coerce.number().min(0).optional().transform(value => value?.toString()),
+  notes: z.string().optional(),
+  odometer_reading: z.coerce.number().min(0).optional().transform(value => value?.toString())
+});
+
+// Next service date and odometer reading for every vehicle
+maintenanceRouter.get('/schedule', requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const schedules = await MaintenanceService.getSchedules(getDataScope(req));
+    res.json(schedules);
+  } catch (error: any) {
+    console.error('[MAINTENANCE] Error computing service schedules:', error);
+    res.status(500).json({ error: 'Failed to compute service schedules', details: error.message });
+  }
+});
+
+maintenanceRouter.get('/schedule/:vehicleId', requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const vehicleId = parseInt(req.params.vehicleId);
+    if (isNaN(vehicleId)) {
+      return res.status(400).json({ error: 'Invalid vehicle ID format' });
+    }
+
+    const schedule = await MaintenanceService.getSchedule(vehicleId, getDataScope(req));
+    res.json(schedule);
+  } catch (error: any) {
+    if (error instanceof MaintenanceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[MAINTENANCE] Error computing service schedule:', error);
+    res.status(500).json({ error: 'Failed to compute service schedule' });
+  }
+});
+
+// Unacknowledged alerts, or all of them with ?all=true
+maintenanceRouter.get('/alerts', requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const alerts = await MaintenanceService.getAlerts(getDataScope(req), req.query.all === 'true');
+    res.json(alerts);
+  } catch (error: any) {
+    console.error('[MAINTENANCE] Error fetching alerts:', error);
+    res.status(500).json({ error: 'Failed to fetch maintenance alerts' });
+  }
+});
+
+// Run the alert check now instead of waiting for the daily job
+maintenanceRouter.post('/alerts/run', requirePermission(Permission.FLEET_MANAGE), async (_req: Request, res: Response) => {
+  try {
+    const alerts = await MaintenanceService.raiseAlerts();
+    res.json({ raised: alerts.length, alerts });
+  } catch (error: any) {
+    console.error('[MAINTENANCE] Error raising alerts:', error);
+    res.status(500).json({ error: 'Failed to raise maintenance alerts', details: error.message });
+  }
+});
+
+maintenanceRouter.post('/alerts/:id/acknowledge', requirePermission(Permission.FLEET_MANAGE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const alert = await MaintenanceService.acknowledgeAlert(id, getDataScope(req), req.user?.userId);
+    res.json(alert);
+  } catch (error: any) {
+    if (error instanceof MaintenanceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[MAINTENANCE] Error acknowledging alert:', error);
+    res.status(500).json({ error: 'Failed to acknowledge alert' });
+  }
+});
+
+maintenanceRouter.get('/work-orders', requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const vehicleId = req.query.vehicleId ? parseInt(String(req.query.vehicleId)) : undefined;
+    if (vehicleId !== undefined && isNaN(vehicleId)) {
+      return res.status(400).json({ error: 'Invalid vehicle ID format' });
+    }
+
+    const orders = await MaintenanceService.getWorkOrders({
+      vehicleId,
+      status: req.query.status ? String(req.query.status) : undefined
+    }, getDataScope(req));
+    res.json(orders);
+  } catch (error: any) {
+    console.error('[MAINTENANCE] Error fetching work orders:', error);
+    res.status(500).json({ error: 'Failed to fetch work orders' });
+  }
+});
+
+maintenanceRouter.post('/work-orders', requirePermission(Permission.FLEET_MANAGE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const result = insertWorkOrderSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid work order data', details: result.error.issues });
+    }
+
+    const order = await MaintenanceService.createWorkOrder(result.data, getDataScope(req), req.user?.userId);
+    res.status(201).json(order);
+  } catch (error: any) {
+    if (error instanceof MaintenanceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[MAINTENANCE] Error creating work order:', error);
+    res.status(500).json({ error: 'Failed to create work order', details: error.message });
+  }
+});
+
+// Move a work order along open -> in progress -> closed, recording cost and notes
+maintenanceRouter.patch('/work-orders/:id/status', requirePermission(Permission.FLEET_MANAGE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = workOrderStatusSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid status change', details: result.error.issues });
+    }
+
+    const order = await MaintenanceService.updateWorkOrderStatus(id, result.data, getDataScope(req));
+    res.json(order);
+  } catch (error: any) {
+    if (error instanceof MaintenanceError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[MAINTENANCE] Error updating work order:', error);
+    res.status(500).json({ error: 'Failed to update work order', details: error.message });
+  }
+});
+
+export default maintenanceRouter;
@@ -5,13 +5,14 @@ import {
   Department, 
   PlateCategory,
   TransmissionType,
-  vehicleGroups,
   fuelTypes as fuelTypesTable,
   insertEmployeeSchema
 } from "@shared/schema";
 import { storage } from "../storage";
 import { db } from "../db";
 import { z } from "zod";
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
 
 const router = Router();
 
@@ -457,12 +458,12 @@ const co2EmissionFactors: Record<string, number> = {
 };
 
 // Master data endpoints
-router.get("/api/vehicle-masters", async (_req, res) => {
+router.get("/api/vehicle-masters", validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req, res) => {
   try {
     console.log("Fetching vehicle masters data...");
 
     // Fetch vehicle groups from database
-    const groups = await db.select().from(vehicleGroups);
+    const groups = await storage.getAllVehicleGroups(getDataScope(req));
     console.log("Retrieved vehicle groups:", groups);
 
     // Fetch real fuel types data from the database
@@ -497,10 +498,10 @@ router.get("/api/vehicle-masters", async (_req, res) => {
 });
 
 // Employee management endpoints
-router.get("/api/employees", async (_req, res) => {
+router.get("/api/employees", validateToken, requirePermission(Permission.EMPLOYEES_VIEW), resolveDataScope, async (req, res) => {
   try {
     console.log("Fetching all employees...");
-    const employees = await storage.getAllEmployees();
+    const employees = await storage.getAllEmployees(getDataScope(req));
     res.json(employees);
   } catch (error: any) {
     console.error("Error fetching employees:", error);
@@ -508,7 +509,7 @@ router.get("/api/employees", async (_req, res) => {
   }
 });
 
-router.get("/api/employees/:id", async (req, res) => {
+router.get("/api/employees/:id", validateToken, requirePermission(Permission.EMPLOYEES_VIEW), resolveDataScope, async (req, res) => {
   try {
     const employeeId = parseInt(req.params.id);
     if (isNaN(employeeId)) {
@@ -516,7 +517,7 @@ router.get("/api/employees/:id", async (req, res) => {
     }
 
     console.log(`Fetching employee with ID: ${employeeId}`);
-    const employee = await storage.getEmployeeById(employeeId);
+    const employee = await storage.getScopedEmployee(employeeId, getDataScope(req));
     
     if (!employee) {
       return res.status(404).json({ error: "Employee not found" });
@@ -529,7 +530,7 @@ router.get("/api/employees/:id", async (req, res) => {
   }
 });
 
-router.put("/api/employees/:id", async (req, res) => {
+router.put("/api/employees/:id", validateToken, requirePermission(Permission.EMPLOYEES_MANAGE), resolveDataScope, async (req, res) => {
   try {
     const employeeId = parseInt(req.params.id);
     if (isNaN(employeeId)) {
@@ -539,7 +540,7 @@ router.put("/api/employees/:id", async (req, res) => {
     console.log(`Updating employee with ID: ${employeeId}`);
     
     // Check if employee exists
-    const existingEmployee = await storage.getEmployeeById(employeeId);
+    const existingEmployee = await storage.getScopedEmployee(employeeId, getDataScope(req));
     if (!existingEmployee) {
       return res.status(404).json({ error: "Employee not found" });
     }
@@ -553,7 +554,7 @@ router.put("/api/employees/:id", async (req, res) => {
   }
 });
 
-router.delete("/api/employees/:id", async (req, res) => {
+router.delete("/api/employees/:id", validateToken, requirePermission(Permission.EMPLOYEES_MANAGE), resolveDataScope, async (req, res) => {
   try {
     const employeeId = parseInt(req.params.id);
     if (isNaN(employeeId)) {
@@ -563,7 +564,7 @@ router.delete("/api/employees/:id", async (req, res) => {
     console.log(`Deleting employee with ID: ${employeeId}`);
     
     // Check if employee exists
-    const existingEmployee = await storage.getEmployeeById(employeeId);
+    const existingEmployee = await storage.getScopedEmployee(employeeId, getDataScope(req));
     if (!existingEmployee) {
       return res.status(404).json({ error: "Employee not found" });
     }
@@ -578,12 +579,12 @@ router.delete("/api/employees/:id", async (req, res) => {
 });
 
 // Get employees who can be approvers based on hierarchy level and designation
-router.get("/api/approvers", async (req, res) => {
+router.get("/api/approvers", validateToken, requirePermission(Permission.EMPLOYEES_VIEW), resolveDataScope, async (req, res) => {
   try {
     console.log("Fetching approvers...");
     
-    // Get all employees
-    const employees = await storage.getAllEmployees();
+    // Get all employees the user may see
+    const employees = await storage.getAllEmployees(getDataScope(req));
     
     // Level 1 approvers are employees with "Approval Authority" designation OR hierarchy_level = "Level 1"
     const level1Approvers = employees.filter(e => 
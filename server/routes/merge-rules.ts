@@ -0,0 +1,145 @@
+import { Router, Request, Response } from "express";
+import { storage } from "../storage";
+import { insertMergeRuleSchema } from "@shared/schema";
+import { TripMergeService } from "../services/trip-merge";
+import { validateToken, requirePermission } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
+
+export const mergeRulesRouter = Router();
+
+// Apply authentication middleware to all routes
+mergeRulesRouter.use(validateToken);
+
+// Get all merge rules
+mergeRulesRouter.get("/", requirePermission(Permission.WORKFLOWS_MANAGE, Permission.BOOKINGS_MANAGE), async (req: Request, res: Response) => {
+  try {
+    console.log("Getting all merge rules");
+    const rules = await storage.getMergeRules();
+    res.json(rules);
+  } catch (error) {
+    console.error("Error fetching merge rules:", error);
+    res.status(500).json({ message: "Failed to fetch merge rules", error: (error as Error).message });
+  }
+});
+
+// Get the thresholds that apply to a region/department combination
+mergeRulesRouter.get("/effective", requirePermission(Permission.WORKFLOWS_MANAGE, Permission.BOOKINGS_MANAGE), async (req: Request, res: Response) => {
+  try {
+    const { region, department } = req.query;
+    const rules = await TripMergeService.getActiveMergeRules();
+    const thresholds = TripMergeService.resolveThresholds(
+      rules,
+      region ? String(region) : null,
+      department ? String(department) : null
+    );
+    res.json(thresholds);
+  } catch (error) {
+    console.error("Error resolving merge thresholds:", error);
+    res.status(500).json({ message: "Failed to resolve merge thresholds", error: (error as Error).message });
+  }
+});
+
+// Create new merge rule
+mergeRulesRouter.post("/", requirePermission(Permission.WORKFLOWS_MANAGE), async (req: Request, res: Response) => {
+  try {
+    console.log("Creating new merge rule", req.body);
+
+    let ruleData;
+    try {
+      ruleData = insertMergeRuleSchema.parse(req.body);
+    } catch (validationError) {
+      console.error("Validation error:", validationError);
+      return res.status(400).json({
+        message: "Invalid merge rule data",
+        error: (validationError as Error).message
+      });
+    }
+
+    const rule = await storage.createMergeRule(ruleData);
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error("Error creating merge rule:", error);
+
+    if ((error as Error).message.includes("already exists")) {
+      return res.status(409).json({
+        message: "Merge rule for this region/department combination already exists",
+        error: (error as Error).message
+      });
+    }
+
+    res.status(500).json({
+      message: "Failed to create merge rule",
+      error: (error as Error).message
+    });
+  }
+});
+
+// Update an existing merge rule
+mergeRulesRouter.put("/:id", requirePermission(Permission.WORKFLOWS_MANAGE), async (req: Request, res: Response) => {
+  try {
+    const ruleId = parseInt(req.params.id);
+
+    if (isNaN(ruleId)) {
+      return res.status(400).json({ message: "Invalid merge rule ID" });
+    }
+
+    console.log(`Updating merge rule ${ruleId}`, req.body);
+
+    let updateData;
+    try {
+      updateData = insertMergeRuleSchema.partial().parse(req.body);
+    } catch (validationError) {
+      console.error("Validation error:", validationError);
+      return res.status(400).json({
+        message: "Invalid merge rule data",
+        error: (validationError as Error).message
+      });
+    }
+
+    const updatedRule = await storage.updateMergeRule(ruleId, updateData);
+    res.json(updatedRule);
+  } catch (error) {
+    console.error("Error updating merge rule:", error);
+
+    if ((error as Error).message.includes("not found")) {
+      return res.status(404).json({ message: (error as Error).message });
+    }
+
+    if ((error as Error).message.includes("already exists")) {
+      return res.status(409).json({
+        message: "Merge rule for this region/department combination already exists",
+        error: (error as Error).message
+      });
+    }
+
+    res.status(500).json({
+      message: "Failed to update merge rule",
+      error: (error as Error).message
+    });
+  }
+});
+
+// Delete a merge rule
+mergeRulesRouter.delete("/:id", requirePermission(Permission.WORKFLOWS_MANAGE), async (req: Request, res: Response) => {
+  try {
+    const ruleId = parseInt(req.params.id);
+
+    if (isNaN(ruleId)) {
+      return res.status(400).json({ message: "Invalid merge rule ID" });
+    }
+
+    await storage.deleteMergeRule(ruleId);
+    res.status(204).send();
+  } catch (error) {
+    console.error("Error deleting merge rule:", error);
+
+    if ((error as Error).message.includes("not found")) {
+      return res.status(404).json({ message: (error as Error).message });
+    }
+
+    res.status(500).json({
+      message: "Failed to delete merge rule",
+      error: (error as Error).message
+    });
+  }
+});
@@ -1,14 +1,16 @@
 import express from "express";
 import { storage } from "../storage";
 import { VehicleTypeMaster } from "@shared/schema";
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
 
 export const performanceRouter = express.Router();
 
 // Get detailed top performing vehicles data
-performanceRouter.get("/api/performance-snapshot/top-performers", async (req, res) => {
+performanceRouter.get("/api/performance-snapshot/top-performers", validateToken, requirePermission(Permission.REPORTS_VIEW), resolveDataScope, async (req, res) => {
   try {
     // Get all vehicle types
-    const vehicles = await storage.getAllVehicleTypes();
+    const vehicles = await storage.getAllVehicleTypes(getDataScope(req));
     const fuelTypes = await storage.getAllFuelTypes();
     
     if (!vehicles || vehicles.length === 0) {
@@ -74,10 +76,10 @@ performanceRouter.get("/api/performance-snapshot/top-performers", async (req, re
 });
 
 // Get performance snapshot data
-performanceRouter.get("/api/performance-snapshot", async (req, res) => {
+performanceRouter.get("/api/performance-snapshot", validateToken, requirePermission(Permission.REPORTS_VIEW), resolveDataScope, async (req, res) => {
   try {
     // Get vehicle data
-    const vehicles = await storage.getAllVehicleTypes();
+    const vehicles = await storage.getAllVehicleTypes(getDataScope(req));
     
     // Get fuel prices
     const fuelTypes = await storage.getAllFuelTypes();
@@ -0,0 +1,31 @@
+import { Router, Request, Response } from 'express';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { costEstimateRequestSchema } from '@shared/schema';
+import { PricingService, PricingError } from '../services/pricing';
+
+const pricingRouter = Router();
+
+// Apply authentication middleware to all routes
+pricingRouter.use(validateToken, requirePermission(Permission.BOOKINGS_CREATE));
+
+// Itemised fuel, idling, Salik and driver cost for a trip before it is booked
+pricingRouter.post('/estimate', async (req: Request, res: Response) => {
+  try {
+    const result = costEstimateRequestSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid estimate request', details: result.error.issues });
+    }
+
+    const estimate = await PricingService.estimate(result.data);
+    res.json(estimate);
+  } catch (error: any) {
+    if (error instanceof PricingError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[PRICING] Error estimating cost:', error);
+    res.status(500).json({ error: 'Failed to estimate cost' });
+  }
+});
+
+export default pricingRouter;
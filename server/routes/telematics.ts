@@ -0,0 +1,99 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateDeviceKey, validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { telematicsBatchSchema, telematicsPingSchema } from '@shared/schema';
+import { TelematicsService, TelematicsError } from '../services/telematics';
+import { FleetLiveService } from '../services/fleet-live';
+
+// Devices and users authenticate differently, so each route picks its own middleware
+const telematicsRouter = Router();
+
+// History defaults to the last day and is capped at a week per request
+const DEFAULT_HISTORY_HOURS = 24;
+const MAX_HISTORY_DAYS = 7;
+
+// Devices post either a single ping or { pings: [...] } when flushing a buffer
+telematicsRouter.post('/pings', validateDeviceKey, async (req: Request, res: Response) => {
+  try {
+    const pings = Array.isArray(req.body?.pings)
+      ? telematicsBatchSchema.parse(req.body).pings
+      : [telematicsPingSchema.parse(req.body)];
+
+    const result = await TelematicsService.ingest(pings);
+    res.status(result.accepted > 0 ? 202 : 422).json(result);
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: 'Invalid telematics payload', details: error.errors });
+    }
+    console.error('[TELEMATICS] Error ingesting pings:', error);
+    res.status(500).json({ error: 'Failed to ingest telematics data' });
+  }
+});
+
+// Same snapshot the fleet socket sends on connect, for clients that cannot open one
+telematicsRouter.get('/fleet', validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const vehicles = await FleetLiveService.getVehicles(undefined, getDataScope(req));
+    res.json(vehicles);
+  } catch (error: any) {
+    console.error('[TELEMATICS] Error fetching live fleet:', error);
+    res.status(500).json({ error: 'Failed to fetch live fleet positions' });
+  }
+});
+
+// Recorded track of a vehicle_master vehicle between from and to
+telematicsRouter.get('/vehicles/:vehicleId/pings', validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const vehicleId = parseInt(req.params.vehicleId);
+    if (isNaN(vehicleId)) {
+      return res.status(400).json({ error: 'Invalid vehicle ID format' });
+    }
+
+    const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+    const from = req.query.from
+      ? new Date(String(req.query.from))
+      : new Date(to.getTime() - DEFAULT_HISTORY_HOURS * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return res.status(400).json({ error: 'from and to query parameters must be valid dates' });
+    }
+    if (to <= from) {
+      return res.status(400).json({ error: 'to must be after from' });
+    }
+    if (to.getTime() - from.getTime() > MAX_HISTORY_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ error: `Range cannot exceed ${MAX_HISTORY_DAYS} days` });
+    }
+
+    const pings = await TelematicsService.getPings(vehicleId, from, to, getDataScope(req));
+    res.json(pings);
+  } catch (error: any) {
+    if (error instanceof TelematicsError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[TELEMATICS] Error fetching pings:', error);
+    res.status(500).json({ error: 'Failed to fetch telematics history' });
+  }
+});
+
+telematicsRouter.get('/vehicles/:vehicleId/latest', validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const vehicleId = parseInt(req.params.vehicleId);
+    if (isNaN(vehicleId)) {
+      return res.status(400).json({ error: 'Invalid vehicle ID format' });
+    }
+
+    const ping = await TelematicsService.getLatestPing(vehicleId, getDataScope(req));
+    if (!ping) {
+      return res.status(404).json({ error: 'No telematics data received for this vehicle' });
+    }
+    res.json(ping);
+  } catch (error: any) {
+    if (error instanceof TelematicsError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[TELEMATICS] Error fetching latest ping:', error);
+    res.status(500).json({ error: 'Failed to fetch latest telematics data' });
+  }
+});
+
+export default telematicsRouter;
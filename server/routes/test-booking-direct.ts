@@ -1,8 +1,13 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
+import { validateToken, requirePermission } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
 
 export const testBookingDirectRouter = Router();
 
+// Diagnostic routes are restricted to administrators
+testBookingDirectRouter.use(validateToken, requirePermission(Permission.SYSTEM_DEBUG));
+
 // Direct booking creation test endpoint (bypasses validation)
 testBookingDirectRouter.get('/create-test-booking', async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,130 @@
+import { Router, Request, Response } from 'express';
+import { validateToken, requirePermission, resolveDataScope, getDataScope, loadPermissions } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { tripArrivalSchema, tripCompletionSchema, tripStartSchema } from '@shared/schema';
+import { TripExecutionService, TripExecutionError, type TripActor } from '../services/trip-execution';
+import { storage } from '../storage';
+
+// Mounted at /api/bookings, so authentication is applied per route rather than
+// router-wide to leave the other /api/bookings handlers untouched
+const tripExecutionRouter = Router();
+
+// Dispatchers may report on any trip in their scope; anyone else only on trips they are driving
+async function getTripActor(req: Request): Promise<TripActor> {
+  const permissions = await loadPermissions(req);
+  return {
+    userId: req.user!.userId,
+    isDispatcher: !!permissions?.includes(Permission.DISPATCH_MANAGE)
+  };
+}
+
+// Reported stops and, once completed, the trip actuals
+tripExecutionRouter.get('/:id/trip', validateToken, requirePermission(Permission.BOOKINGS_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    if (!await storage.getScopedBooking(id, getDataScope(req))) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const trip = await TripExecutionService.getTrip(id);
+    res.json(trip);
+  } catch (error: any) {
+    if (error instanceof TripExecutionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[TRIP] Error fetching trip:', error);
+    res.status(500).json({ error: 'Failed to fetch trip' });
+  }
+});
+
+tripExecutionRouter.post('/:id/trip/start', validateToken, requirePermission(Permission.TRIPS_EXECUTE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = tripStartSchema.safeParse(req.body ?? {});
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid trip start', details: result.error.issues });
+    }
+    if (!await storage.getScopedBooking(id, getDataScope(req))) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const booking = await TripExecutionService.startTrip(id, result.data.start_odometer, await getTripActor(req));
+    res.json(booking);
+  } catch (error: any) {
+    if (error instanceof TripExecutionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    if (error.message?.includes('Invalid status transition')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('[TRIP] Error starting trip:', error);
+    res.status(500).json({ error: 'Failed to start trip', details: error.message });
+  }
+});
+
+// Arrival at the pickup, a waypoint (by waypoint_index) or the dropoff
+tripExecutionRouter.post('/:id/trip/arrivals', validateToken, requirePermission(Permission.TRIPS_EXECUTE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = tripArrivalSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid arrival', details: result.error.issues });
+    }
+    if (!await storage.getScopedBooking(id, getDataScope(req))) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const stop = await TripExecutionService.recordArrival(id, result.data, await getTripActor(req));
+    res.status(201).json(stop);
+  } catch (error: any) {
+    if (error instanceof TripExecutionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[TRIP] Error recording arrival:', error);
+    res.status(500).json({ error: 'Failed to record arrival', details: error.message });
+  }
+});
+
+// Odometer readings and fuel used close the trip and store its actual distance, cost and CO2
+tripExecutionRouter.post('/:id/trip/complete', validateToken, requirePermission(Permission.TRIPS_EXECUTE), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const result = tripCompletionSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid trip completion', details: result.error.issues });
+    }
+    if (!await storage.getScopedBooking(id, getDataScope(req))) {
+      return res.status(404).json({ error: 'Booking not found' });
+    }
+
+    const booking = await TripExecutionService.completeTrip(id, result.data, await getTripActor(req));
+    res.json(booking);
+  } catch (error: any) {
+    if (error instanceof TripExecutionError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    if (error.message?.includes('Invalid status transition')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('[TRIP] Error completing trip:', error);
+    res.status(500).json({ error: 'Failed to complete trip', details: error.message });
+  }
+});
+
+export default tripExecutionRouter;
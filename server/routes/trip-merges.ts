@@ -0,0 +1,107 @@
+import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { TripMergeService, TripMergeError } from '../services/trip-merge';
+
+const tripMergesRouter = Router();
+
+// Apply authentication middleware to all routes
+tripMergesRouter.use(validateToken, requirePermission(Permission.BOOKINGS_MANAGE), resolveDataScope);
+
+const acceptMergeSchema = z.object({
+  bookingIds: z.tuple([z.number().int().positive(), z.number().int().positive()])
+});
+
+// List scored merge candidates, optionally limited to pairs involving one booking
+tripMergesRouter.get('/candidates', async (req: Request, res: Response) => {
+  try {
+    const bookingId = req.query.bookingId ? parseInt(req.query.bookingId as string) : undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+    if ((bookingId !== undefined && isNaN(bookingId)) || (limit !== undefined && isNaN(limit))) {
+      return res.status(400).json({ error: 'Invalid query parameters' });
+    }
+
+    const candidates = await TripMergeService.findCandidates({ bookingId, limit }, getDataScope(req));
+    console.log(`[TRIP-MERGE] Found ${candidates.length} merge candidates`);
+    res.json(candidates);
+  } catch (error: any) {
+    console.error('[TRIP-MERGE] Error finding merge candidates:', error);
+    res.status(500).json({ error: 'Failed to find merge candidates', details: error.message });
+  }
+});
+
+// List active merged trips
+tripMergesRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const trips = await TripMergeService.getActiveMergedTrips(getDataScope(req));
+    res.json(trips);
+  } catch (error: any) {
+    console.error('[TRIP-MERGE] Error fetching merged trips:', error);
+    res.status(500).json({ error: 'Failed to fetch merged trips' });
+  }
+});
+
+// Get a merged trip with its bookings
+tripMergesRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const trip = await TripMergeService.getMergedTrip(id, getDataScope(req));
+    if (!trip) {
+      return res.status(404).json({ error: 'Merged trip not found' });
+    }
+    res.json(trip);
+  } catch (error: any) {
+    console.error('[TRIP-MERGE] Error fetching merged trip:', error);
+    res.status(500).json({ error: 'Failed to fetch merged trip' });
+  }
+});
+
+// Accept a merge candidate and link both bookings to a shared trip
+tripMergesRouter.post('/', async (req: Request, res: Response) => {
+  try {
+    const result = acceptMergeSchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid merge request', details: result.error.issues });
+    }
+
+    const trip = await TripMergeService.acceptMerge(result.data.bookingIds, req.user?.userId, getDataScope(req));
+    res.status(201).json(trip);
+  } catch (error: any) {
+    if (error instanceof TripMergeError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[TRIP-MERGE] Error accepting merge:', error);
+    res.status(500).json({ error: 'Failed to merge bookings', details: error.message });
+  }
+});
+
+// Dissolve a merged trip so its bookings can be dispatched separately again
+tripMergesRouter.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    if (!await TripMergeService.getMergedTrip(id, getDataScope(req))) {
+      return res.status(404).json({ error: 'Merged trip not found' });
+    }
+
+    const trip = await TripMergeService.dissolveMerge(id);
+    res.json(trip);
+  } catch (error: any) {
+    if (error instanceof TripMergeError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('[TRIP-MERGE] Error dissolving merged trip:', error);
+    res.status(500).json({ error: 'Failed to dissolve merged trip' });
+  }
+});
+
+export default tripMergesRouter;
@@ -0,0 +1,74 @@
+import { Router, Request, Response } from 'express';
+import XLSX from 'xlsx';
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { TripVarianceService, DEFAULT_OUTLIER_PERCENT } from '../services/trip-variance';
+
+const tripVarianceRouter = Router();
+
+// Apply authentication middleware to all routes
+tripVarianceRouter.use(validateToken, requirePermission(Permission.REPORTS_VIEW), resolveDataScope);
+
+// The report covers the last 30 days unless a range is given
+const DEFAULT_REPORT_DAYS = 30;
+
+function parseReportQuery(req: Request): { from: Date; to: Date; threshold: number } | { error: string } {
+  const to = req.query.to ? new Date(String(req.query.to)) : new Date();
+  const from = req.query.from
+    ? new Date(String(req.query.from))
+    : new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+  const threshold = req.query.threshold ? parseFloat(String(req.query.threshold)) : DEFAULT_OUTLIER_PERCENT;
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { error: 'from and to query parameters must be valid dates' };
+  }
+  if (from > to) {
+    return { error: 'from must be before to' };
+  }
+  if (isNaN(threshold) || threshold < 0) {
+    return { error: 'threshold must be a non-negative percentage' };
+  }
+  return { from, to, threshold };
+}
+
+// Estimated vs actual distance, duration, cost and CO2 per booking, vehicle type, driver and department
+tripVarianceRouter.get('/', async (req: Request, res: Response) => {
+  try {
+    const query = parseReportQuery(req);
+    if ('error' in query) {
+      return res.status(400).json({ error: query.error });
+    }
+
+    const report = await TripVarianceService.getReport(query.from, query.to, query.threshold, getDataScope(req));
+    res.json(report);
+  } catch (error: any) {
+    console.error('[TRIP-VARIANCE] Error building report:', error);
+    res.status(500).json({ error: 'Failed to build trip variance report' });
+  }
+});
+
+tripVarianceRouter.get('/export', async (req: Request, res: Response) => {
+  try {
+    const query = parseReportQuery(req);
+    if ('error' in query) {
+      return res.status(400).json({ error: query.error });
+    }
+
+    const report = await TripVarianceService.getReport(query.from, query.to, query.threshold, getDataScope(req));
+    const wb = XLSX.utils.book_new();
+    for (const [name, rows] of Object.entries(TripVarianceService.toSheets(report))) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(rows), name);
+    }
+
+    const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+    const filename = `trip-variance-${query.from.toISOString().slice(0, 10)}-${query.to.toISOString().slice(0, 10)}.xlsx`;
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename=${filename}`);
+    res.send(buf);
+  } catch (error: any) {
+    console.error('[TRIP-VARIANCE] Error exporting report:', error);
+    res.status(500).json({ error: 'Failed to export trip variance report' });
+  }
+});
+
+export default tripVarianceRouter;
@@ -0,0 +1,143 @@
+import { Router, Request, Response } from 'express';
+import { validateToken } from '../middleware/auth';
+import { storage } from '../storage';
+import { twoFactorVerifySchema, type User } from '@shared/schema';
+import { TwoFactorService, TwoFactorError } from '../services/two-factor';
+import { SessionService } from '../services/sessions';
+import { PasswordPolicyService } from '../services/password-policy';
+
+const twoFactorRouter = Router();
+
+function handleError(res: Response, error: unknown, action: string) {
+  if (error instanceof TwoFactorError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  console.error(`[2FA] Error ${action}:`, error);
+  res.status(500).json({ error: `Failed ${action}` });
+}
+
+async function getSignedInUser(req: Request, res: Response): Promise<User | null> {
+  const user = await storage.getUser(req.user!.userId);
+  if (!user || !user.is_active) {
+    res.status(401).json({ error: 'User account not found or inactive' });
+    return null;
+  }
+  return user;
+}
+
+// Sign-in steps; the caller has passed the password check and holds a challenge token
+
+twoFactorRouter.post('/send-code', async (req: Request, res: Response) => {
+  try {
+    const { challengeToken } = req.body;
+    if (!challengeToken || typeof challengeToken !== 'string') {
+      return res.status(400).json({ error: 'Challenge token is required' });
+    }
+
+    await TwoFactorService.resendLoginCode(challengeToken);
+    res.json({ message: 'A new code has been sent' });
+  } catch (error) {
+    handleError(res, error, 'to send sign-in code');
+  }
+});
+
+twoFactorRouter.post('/verify', async (req: Request, res: Response) => {
+  try {
+    const result = twoFactorVerifySchema.safeParse(req.body);
+    if (!result.success) {
+      return res.status(400).json({ error: 'Invalid verification request', details: result.error.issues });
+    }
+
+    const { challengeToken, code, backupCode } = result.data;
+    const user = await TwoFactorService.verifyLogin(challengeToken, code, backupCode ?? false);
+
+    // An expired password has to be changed before a session is opened
+    const expired = await PasswordPolicyService.getExpiryChallenge(user);
+    if (expired) {
+      return res.status(403).json(expired);
+    }
+
+    const session = await SessionService.start(user, req);
+    await storage.updateUserLastLogin(user.id);
+
+    const { password: _, ...userData } = user;
+    res.json({
+      token: session.token,
+      refreshToken: session.refreshToken,
+      expiresIn: session.expiresIn,
+      user: userData,
+      message: 'Login successful'
+    });
+  } catch (error) {
+    handleError(res, error, 'to verify sign-in code');
+  }
+});
+
+// Enrollment for the signed-in user
+
+twoFactorRouter.get('/status', validateToken, async (req: Request, res: Response) => {
+  try {
+    const user = await getSignedInUser(req, res);
+    if (!user) return;
+    res.json(await TwoFactorService.getStatus(user));
+  } catch (error) {
+    handleError(res, error, 'to fetch two-factor status');
+  }
+});
+
+twoFactorRouter.post('/totp/setup', validateToken, async (req: Request, res: Response) => {
+  try {
+    const user = await getSignedInUser(req, res);
+    if (!user) return;
+    res.json(await TwoFactorService.startTotpSetup(user));
+  } catch (error) {
+    handleError(res, error, 'to start authenticator setup');
+  }
+});
+
+twoFactorRouter.post('/totp/confirm', validateToken, async (req: Request, res: Response) => {
+  try {
+    const user = await getSignedInUser(req, res);
+    if (!user) return;
+    const { code } = req.body;
+    if (!code || typeof code !== 'string') {
+      return res.status(400).json({ error: 'Code is required' });
+    }
+    res.json({ backupCodes: await TwoFactorService.confirmTotpSetup(user, code.trim()) });
+  } catch (error) {
+    handleError(res, error, 'to confirm authenticator setup');
+  }
+});
+
+twoFactorRouter.post('/email/enable', validateToken, async (req: Request, res: Response) => {
+  try {
+    const user = await getSignedInUser(req, res);
+    if (!user) return;
+    res.json({ backupCodes: await TwoFactorService.enableEmail(user) });
+  } catch (error) {
+    handleError(res, error, 'to enable emailed codes');
+  }
+});
+
+twoFactorRouter.post('/backup-codes', validateToken, async (req: Request, res: Response) => {
+  try {
+    const user = await getSignedInUser(req, res);
+    if (!user) return;
+    res.json({ backupCodes: await TwoFactorService.regenerateBackupCodes(user) });
+  } catch (error) {
+    handleError(res, error, 'to regenerate backup codes');
+  }
+});
+
+twoFactorRouter.post('/disable', validateToken, async (req: Request, res: Response) => {
+  try {
+    const user = await getSignedInUser(req, res);
+    if (!user) return;
+    await TwoFactorService.disable(user, req.body.password);
+    res.json({ message: 'Two-factor authentication disabled' });
+  } catch (error) {
+    handleError(res, error, 'to disable two-factor authentication');
+  }
+});
+
+export default twoFactorRouter;
@@ -1,8 +1,13 @@
 import { Router } from "express";
 import { storage } from "../storage";
+import { validateToken, requirePermission } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
 
 const router = Router();
 
+// Apply authentication middleware to all routes
+router.use(validateToken, requirePermission(Permission.EMPLOYEES_VIEW));
+
 // Endpoint to find user by employee ID
 router.get("/by-employee/:employeeId", async (req, res) => {
   try {
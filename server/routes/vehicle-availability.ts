@@ -0,0 +1,68 @@
+import { Router, Request, Response } from 'express';
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from '../middleware/auth';
+import { Permission } from '@shared/schema/permissions';
+import { VehicleAvailabilityService } from '../services/vehicle-availability';
+
+// Mounted at /api/vehicles, so authentication is applied per route rather than
+// router-wide to leave the inline /api/vehicles handlers untouched
+const vehicleAvailabilityRouter = Router();
+
+// Longest range a single availability request may cover
+const MAX_RANGE_DAYS = 62;
+
+function parseRange(req: Request): { from: Date; to: Date } | { error: string } {
+  const from = req.query.from ? new Date(String(req.query.from)) : null;
+  const to = req.query.to ? new Date(String(req.query.to)) : null;
+  if (!from || !to || isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return { error: 'from and to query parameters must be valid dates' };
+  }
+  if (to <= from) {
+    return { error: 'to must be after from' };
+  }
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `Range cannot exceed ${MAX_RANGE_DAYS} days` };
+  }
+  return { from, to };
+}
+
+// Reservations of every active vehicle in a range, for the fleet calendar
+vehicleAvailabilityRouter.get('/calendar', validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const range = parseRange(req);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error });
+    }
+
+    const calendar = await VehicleAvailabilityService.getFleetAvailability(range.from, range.to, getDataScope(req));
+    res.json(calendar);
+  } catch (error: any) {
+    console.error('[AVAILABILITY] Error building fleet calendar:', error);
+    res.status(500).json({ error: 'Failed to fetch fleet calendar' });
+  }
+});
+
+// Reservations and free slots of one vehicle between from and to
+vehicleAvailabilityRouter.get('/:id/availability', validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req: Request, res: Response) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid ID format' });
+    }
+
+    const range = parseRange(req);
+    if ('error' in range) {
+      return res.status(400).json({ error: range.error });
+    }
+
+    const availability = await VehicleAvailabilityService.getAvailability(id, range.from, range.to, getDataScope(req));
+    if (!availability) {
+      return res.status(404).json({ error: 'Vehicle not found' });
+    }
+    res.json(availability);
+  } catch (error: any) {
+    console.error('[AVAILABILITY] Error fetching vehicle availability:', error);
+    res.status(500).json({ error: 'Failed to fetch vehicle availability' });
+  }
+});
+
+export default vehicleAvailabilityRouter;
@@ -1,17 +1,21 @@
 import { Router } from "express";
 import { vehicleGroups, insertVehicleGroupSchema, type VehicleGroup } from "@shared/schema";
 import { db } from "../db";
-import { eq } from "drizzle-orm";
+import { storage } from "../storage";
+import { DataScopeService } from "../services/data-scope";
+import { and, eq } from "drizzle-orm";
 import multer from "multer";
 import XLSX from "xlsx";
+import { validateToken, requirePermission, resolveDataScope, getDataScope } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
 
 const router = Router();
 const upload = multer({ storage: multer.memoryStorage() });
 
 // Get all vehicle groups
-router.get("/api/vehicle-groups", async (_req, res) => {
+router.get("/api/vehicle-groups", validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req, res) => {
   try {
-    const groups = await db.select().from(vehicleGroups);
+    const groups = await storage.getAllVehicleGroups(getDataScope(req));
     console.log("Retrieved vehicle groups:", groups);
     res.json(groups);
   } catch (error: any) {
@@ -21,7 +25,7 @@ router.get("/api/vehicle-groups", async (_req, res) => {
 });
 
 // Create new vehicle group
-router.post("/api/vehicle-groups", async (req, res) => {
+router.post("/api/vehicle-groups", validateToken, requirePermission(Permission.FLEET_MANAGE), async (req, res) => {
   try {
     console.log("Received vehicle group creation request:", req.body);
 
@@ -67,7 +71,7 @@ router.post("/api/vehicle-groups", async (req, res) => {
 });
 
 // Update vehicle group
-router.patch("/api/vehicle-groups/:id", async (req, res) => {
+router.patch("/api/vehicle-groups/:id", validateToken, requirePermission(Permission.FLEET_MANAGE), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -114,7 +118,7 @@ router.patch("/api/vehicle-groups/:id", async (req, res) => {
 });
 
 // Delete vehicle group
-router.delete("/api/vehicle-groups/:id", async (req, res) => {
+router.delete("/api/vehicle-groups/:id", validateToken, requirePermission(Permission.FLEET_MANAGE), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -140,7 +144,7 @@ router.delete("/api/vehicle-groups/:id", async (req, res) => {
 });
 
 // Download template
-router.get("/api/vehicle-groups/template", (_req, res) => {
+router.get("/api/vehicle-groups/template", validateToken, requirePermission(Permission.FLEET_MANAGE), (_req, res) => {
   try {
     const template = {
       group_code: "",
@@ -168,9 +172,9 @@ router.get("/api/vehicle-groups/template", (_req, res) => {
 });
 
 // Export vehicle groups
-router.get("/api/vehicle-groups/export", async (_req, res) => {
+router.get("/api/vehicle-groups/export", validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req, res) => {
   try {
-    const groups = await db.select().from(vehicleGroups);
+    const groups = await storage.getAllVehicleGroups(getDataScope(req));
 
     const ws = XLSX.utils.json_to_sheet(groups);
     const wb = XLSX.utils.book_new();
@@ -188,7 +192,7 @@ router.get("/api/vehicle-groups/export", async (_req, res) => {
 });
 
 // Import vehicle groups
-router.post("/api/vehicle-groups/import", upload.single("file"), async (req, res) => {
+router.post("/api/vehicle-groups/import", validateToken, requirePermission(Permission.FLEET_MANAGE), upload.single("file"), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: "No file uploaded" });
@@ -238,17 +242,18 @@ router.post("/api/vehicle-groups/import", upload.single("file"), async (req, res
 });
 
 // Get vehicle group by ID
-router.get("/api/vehicle-groups/:id", async (req, res) => {
+router.get("/api/vehicle-groups/:id", validateToken, requirePermission(Permission.FLEET_VIEW), resolveDataScope, async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
       return res.status(400).json({ error: "Invalid ID format" });
     }
 
+    const scope = getDataScope(req);
     const [group] = await db
       .select()
       .from(vehicleGroups)
-      .where(eq(vehicleGroups.id, id));
+      .where(and(eq(vehicleGroups.id, id), scope ? DataScopeService.vehicleGroupCondition(scope) : undefined));
 
     if (!group) {
       return res.status(404).json({ error: "Vehicle group not found" });
@@ -9,6 +9,8 @@ import {
   triggerFuelPriceUpdate,
   initializeFuelPriceService 
 } from "../services/fuel-price-service";
+import { validateToken, requirePermission } from "../middleware/auth";
+import { Permission } from "@shared/schema/permissions";
 
 const router = Router();
 
@@ -82,7 +84,7 @@ const co2EmissionFactors: Record<string, number> = {
 };
 
 // Enhanced fuel prices endpoint with better error handling
-router.get("/api/fuel-prices", async (_req, res) => {
+router.get("/api/fuel-prices", validateToken, requirePermission(Permission.FLEET_VIEW), async (_req, res) => {
   try {
     console.log("Fetching current fuel prices from database...");
     
@@ -108,7 +110,7 @@ router.get("/api/fuel-prices", async (_req, res) => {
 });
 
 // Get all vehicle types
-router.get("/api/vehicle-types", async (_req, res) => {
+router.get("/api/vehicle-types", validateToken, requirePermission(Permission.FLEET_VIEW), async (_req, res) => {
   try {
     console.log("Fetching all vehicle types");
     const types = await db.select().from(vehicleTypeMaster);
@@ -138,7 +140,7 @@ router.get("/api/vehicle-types", async (_req, res) => {
 });
 
 // Create new vehicle type with proper type handling
-router.post("/api/vehicle-types", async (req, res) => {
+router.post("/api/vehicle-types", validateToken, requirePermission(Permission.FLEET_MANAGE), async (req, res) => {
   try {
     console.log("Received vehicle type data:", req.body);
 
@@ -266,7 +268,7 @@ router.post("/api/vehicle-types", async (req, res) => {
 });
 
 // Get single vehicle type
-router.get("/api/vehicle-types/:id", async (req, res) => {
+router.get("/api/vehicle-types/:id", validateToken, requirePermission(Permission.FLEET_VIEW), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -303,7 +305,7 @@ router.get("/api/vehicle-types/:id", async (req, res) => {
 });
 
 // Get form-ready vehicle type data
-router.get("/api/vehicle-types/:id/form-data", async (req, res) => {
+router.get("/api/vehicle-types/:id/form-data", validateToken, requirePermission(Permission.FLEET_VIEW), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -361,7 +363,7 @@ router.get("/api/vehicle-types/:id/form-data", async (req, res) => {
 });
 
 // Update vehicle type
-router.patch("/api/vehicle-types/:id", async (req, res) => {
+router.patch("/api/vehicle-types/:id", validateToken, requirePermission(Permission.FLEET_MANAGE), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -506,7 +508,7 @@ router.patch("/api/vehicle-types/:id", async (req, res) => {
 });
 
 // Fuel price management endpoints
-router.get("/api/fuel-types", async (_req, res) => {
+router.get("/api/fuel-types", validateToken, requirePermission(Permission.FLEET_VIEW), async (_req, res) => {
   try {
     console.log("Fetching all fuel types from database");
     const fuelTypes = await storage.getAllFuelTypes();
@@ -522,7 +524,7 @@ router.get("/api/fuel-types", async (_req, res) => {
 });
 
 // Endpoint to manually trigger fuel price update
-router.post("/api/fuel-prices/update", async (_req, res) => {
+router.post("/api/fuel-prices/update", validateToken, requirePermission(Permission.FUEL_PRICES_MANAGE), async (_req, res) => {
   try {
     console.log("Manually triggering fuel price update");
     await triggerFuelPriceUpdate();
@@ -544,7 +546,7 @@ router.post("/api/fuel-prices/update", async (_req, res) => {
 });
 
 // Delete vehicle type
-router.delete("/api/vehicle-types/:id", async (req, res) => {
+router.delete("/api/vehicle-types/:id", validateToken, requirePermission(Permission.FLEET_MANAGE), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -0,0 +1,155 @@
+import { readFileSync } from "fs";
+import { calculateDistanceKm, type Coordinates } from "../services/geo-utils";
+
+/**
+ * Replays a GPS track against the telematics ingestion endpoint, as a tracking device would.
+ *
+ *   npx tsx server/scripts/simulate-telematics.ts --device <device_id> [--track track.json]
+ *     [--url http://localhost:5000] [--key <api key>] [--interval 5] [--speed 40]
+ *     [--odometer 10000] [--temperature 4]
+ *
+ * The track file is either an array of { lat, lng } points or a GeoJSON LineString
+ * (Feature or bare geometry). Without one, a short loop around Abu Dhabi is driven.
+ * --interval is seconds between pings and --speed the simulated speed in km/h.
+ */
+
+const DEFAULT_TRACK: Coordinates[] = [
+  { lat: 24.4539, lng: 54.3773 },
+  { lat: 24.4667, lng: 54.3667 },
+  { lat: 24.4872, lng: 54.3606 },
+  { lat: 24.4958, lng: 54.3831 },
+  { lat: 24.4764, lng: 54.4011 },
+  { lat: 24.4539, lng: 54.3773 }
+];
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--") && i + 1 < argv.length) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+function loadTrack(path: string): Coordinates[] {
+  const data = JSON.parse(readFileSync(path, "utf8"));
+  const geometry = data?.type === "Feature" ? data.geometry : data;
+  if (geometry?.type === "LineString") {
+    // GeoJSON positions are [lng, lat]
+    return geometry.coordinates.map(([lng, lat]: [number, number]) => ({ lat, lng }));
+  }
+  if (Array.isArray(data)) {
+    return data.map((point: any) => ({ lat: Number(point.lat), lng: Number(point.lng) }));
+  }
+  throw new Error("Track must be an array of { lat, lng } points or a GeoJSON LineString");
+}
+
+// Compass bearing in degrees from one point to the next
+function bearing(from: Coordinates, to: Coordinates): number {
+  const lat1 = from.lat * Math.PI / 180;
+  const lat2 = to.lat * Math.PI / 180;
+  const dLng = (to.lng - from.lng) * Math.PI / 180;
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return Math.round((Math.atan2(y, x) * 180 / Math.PI + 360) % 360);
+}
+
+// Points along the track spaced by the distance covered in one interval
+function samplePositions(track: Coordinates[], stepKm: number): { position: Coordinates; heading: number }[] {
+  const samples: { position: Coordinates; heading: number }[] = [];
+  let carried = 0;
+  for (let i = 1; i < track.length; i++) {
+    const from = track[i - 1];
+    const to = track[i];
+    const segmentKm = calculateDistanceKm(from, to);
+    const heading = bearing(from, to);
+    let offset = carried;
+    while (offset < segmentKm) {
+      const ratio = offset / segmentKm;
+      samples.push({
+        position: { lat: from.lat + (to.lat - from.lat) * ratio, lng: from.lng + (to.lng - from.lng) * ratio },
+        heading
+      });
+      offset += stepKm;
+    }
+    carried = offset - segmentKm;
+  }
+  const last = track[track.length - 1];
+  samples.push({ position: last, heading: samples.length > 0 ? samples[samples.length - 1].heading : 0 });
+  return samples;
+}
+
+async function sendPing(url: string, key: string, ping: Record<string, unknown>) {
+  const response = await fetch(`${url}/api/telematics/pings`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "X-Api-Key": key },
+    body: JSON.stringify(ping)
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(`Ingestion failed with ${response.status}: ${JSON.stringify(body)}`);
+  }
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.device) {
+    console.error("Usage: simulate-telematics.ts --device <device_id> [--track track.json] [--url ...] [--interval 5] [--speed 40]");
+    process.exit(1);
+  }
+
+  const url = args.url || "http://localhost:5000";
+  const key = args.key || process.env.TELEMATICS_API_KEY;
+  if (!key) {
+    console.error("Pass --key or set TELEMATICS_API_KEY to the key the server was started with");
+    process.exit(1);
+  }
+  const intervalSeconds = parseFloat(args.interval || "5");
+  const speedKmh = parseFloat(args.speed || "40");
+  const track = args.track ? loadTrack(args.track) : DEFAULT_TRACK;
+  if (track.length < 2) {
+    throw new Error("Track needs at least two points");
+  }
+
+  const stepKm = speedKmh * intervalSeconds / 3600;
+  const samples = samplePositions(track, stepKm);
+  let odometer = parseFloat(args.odometer || "10000");
+  const temperature = args.temperature ? parseFloat(args.temperature) : undefined;
+
+  console.log(`Replaying ${samples.length} positions for device ${args.device} every ${intervalSeconds}s at ${speedKmh} km/h`);
+
+  for (let i = 0; i < samples.length; i++) {
+    const { position, heading } = samples[i];
+    if (i > 0) {
+      odometer += calculateDistanceKm(samples[i - 1].position, position);
+    }
+    const isLast = i === samples.length - 1;
+    await sendPing(url, key, {
+      device_id: args.device,
+      recorded_at: new Date().toISOString(),
+      lat: Number(position.lat.toFixed(6)),
+      lng: Number(position.lng.toFixed(6)),
+      speed: isLast ? 0 : speedKmh,
+      heading,
+      // Ignition goes off once the end of the track is reached
+      ignition: !isLast,
+      odometer: Number(odometer.toFixed(2)),
+      temperature
+    });
+    console.log(`[${i + 1}/${samples.length}] ${position.lat.toFixed(5)}, ${position.lng.toFixed(5)} odometer ${odometer.toFixed(1)} km`);
+
+    if (!isLast) {
+      await new Promise(resolve => setTimeout(resolve, intervalSeconds * 1000));
+    }
+  }
+
+  console.log("Track replay completed");
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Simulation failed:", error.message);
+  process.exit(1);
+});
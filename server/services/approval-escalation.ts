@@ -0,0 +1,273 @@
+import cron from 'node-cron';
+import { and, desc, eq, gte, isNotNull, isNull, lte } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  approvalEscalations,
+  approvalWorkflows,
+  approverDelegations,
+  bookings,
+  ApprovalLevel,
+  BookingStatus,
+  EscalationReason,
+  EscalationTarget,
+  type ApprovalEscalation,
+  type ApprovalWorkflow,
+  type ApproverDelegation,
+  type Booking,
+  type InsertApproverDelegation
+} from '@shared/schema';
+import { EmployeeHierarchyService } from './employee-hierarchy';
+
+// Guards against delegation loops (A -> B -> A)
+const MAX_DELEGATION_DEPTH = 5;
+
+export interface ResolvedApprover {
+  approverId: number;
+  // Set when the original approver was replaced by a delegate
+  delegatedFrom: number | null;
+  // True when the approver (or the end of the delegation chain) is away with no delegate
+  unavailable: boolean;
+}
+
+export class ApprovalEscalationError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'ApprovalEscalationError';
+  }
+}
+
+export class ApprovalEscalationService {
+  static async getActiveDelegation(approverId: number, at: Date = new Date()): Promise<ApproverDelegation | null> {
+    const [delegation] = await db
+      .select()
+      .from(approverDelegations)
+      .where(
+        and(
+          eq(approverDelegations.approver_id, approverId),
+          eq(approverDelegations.is_active, true),
+          lte(approverDelegations.start_date, at),
+          gte(approverDelegations.end_date, at)
+        )
+      )
+      .orderBy(desc(approverDelegations.created_at))
+      .limit(1);
+    return delegation || null;
+  }
+
+  // Follow active delegations from an approver to whoever is actually available
+  static async resolveApprover(approverId: number, at: Date = new Date()): Promise<ResolvedApprover> {
+    const visited = new Set<number>([approverId]);
+    let current = approverId;
+
+    for (let depth = 0; depth < MAX_DELEGATION_DEPTH; depth++) {
+      const delegation = await this.getActiveDelegation(current, at);
+      if (!delegation) {
+        break;
+      }
+      if (!delegation.delegate_id) {
+        return { approverId: current, delegatedFrom: current === approverId ? null : approverId, unavailable: true };
+      }
+      if (visited.has(delegation.delegate_id)) {
+        break;
+      }
+      visited.add(delegation.delegate_id);
+      current = delegation.delegate_id;
+    }
+
+    return { approverId: current, delegatedFrom: current === approverId ? null : approverId, unavailable: false };
+  }
+
+  // Pick who an overdue approval goes to, based on the workflow's escalation target
+  static async getEscalationTarget(booking: Booking, workflow: ApprovalWorkflow | null): Promise<number | null> {
+    const currentApproverId = booking.current_approver_id;
+    if (!currentApproverId) {
+      return null;
+    }
+
+    const levelTwoApprover = booking.approval_level === ApprovalLevel.LEVEL_1 && workflow?.level_2_approver_id
+      && workflow.level_2_approver_id !== currentApproverId
+      ? workflow.level_2_approver_id
+      : null;
+
+    const supervisor = await EmployeeHierarchyService.getSupervisor(currentApproverId);
+    const supervisorId = supervisor && supervisor.id !== currentApproverId ? supervisor.id : null;
+
+    // Fall back to the other option when the preferred target doesn't exist
+    if (workflow?.escalation_target === EscalationTarget.LEVEL_2_APPROVER) {
+      return levelTwoApprover ?? supervisorId;
+    }
+    return supervisorId ?? levelTwoApprover;
+  }
+
+  // Move a pending booking to a new approver and log why. Only applies while the booking is still
+  // waiting on the approver and level it was read with, so a decision made in the meantime wins.
+  static async reassign(booking: Booking, toApproverId: number, reason: string): Promise<ApprovalEscalation | null> {
+    return await db.transaction(async (tx) => {
+      const moved = await tx
+        .update(bookings)
+        .set({
+          current_approver_id: toApproverId,
+          approval_requested_at: new Date(),
+          updated_at: new Date()
+        })
+        .where(
+          and(
+            eq(bookings.id, booking.id),
+            eq(bookings.status, BookingStatus.PENDING),
+            booking.current_approver_id !== null
+              ? eq(bookings.current_approver_id, booking.current_approver_id)
+              : isNull(bookings.current_approver_id),
+            booking.approval_level !== null
+              ? eq(bookings.approval_level, booking.approval_level)
+              : isNull(bookings.approval_level)
+          )
+        )
+        .returning({ id: bookings.id });
+      if (moved.length === 0) {
+        console.log(`[ESCALATION] Booking ${booking.id} was decided or reassigned meanwhile; not moving it`);
+        return null;
+      }
+
+      const [escalation] = await tx
+        .insert(approvalEscalations)
+        .values({
+          booking_id: booking.id,
+          approval_level: booking.approval_level || ApprovalLevel.LEVEL_1,
+          from_approver_id: booking.current_approver_id,
+          to_approver_id: toApproverId,
+          reason,
+          created_at: new Date()
+        })
+        .returning();
+
+      console.log(`[ESCALATION] Booking ${booking.id} moved from approver ${booking.current_approver_id} to ${toApproverId} (${reason})`);
+      return escalation;
+    });
+  }
+
+  // Reassign pending approvals whose approver is away or has let the SLA lapse
+  static async processOverdueApprovals(now: Date = new Date()): Promise<ApprovalEscalation[]> {
+    const pending = await db
+      .select({ booking: bookings, workflow: approvalWorkflows })
+      .from(bookings)
+      .leftJoin(approvalWorkflows, eq(bookings.approval_workflow_id, approvalWorkflows.id))
+      .where(and(eq(bookings.status, BookingStatus.PENDING), isNotNull(bookings.current_approver_id)));
+
+    const escalations: ApprovalEscalation[] = [];
+    for (const { booking, workflow } of pending) {
+      try {
+        const escalation = await this.processBooking(booking, workflow, now);
+        if (escalation) {
+          escalations.push(escalation);
+        }
+      } catch (error: any) {
+        console.error(`[ESCALATION] Failed to process booking ${booking.id}:`, error.message);
+      }
+    }
+
+    console.log(`[ESCALATION] Processed ${pending.length} pending approvals, ${escalations.length} reassigned`);
+    return escalations;
+  }
+
+  private static async processBooking(
+    booking: Booking,
+    workflow: ApprovalWorkflow | null,
+    now: Date
+  ): Promise<ApprovalEscalation | null> {
+    const resolved = await this.resolveApprover(booking.current_approver_id!, now);
+
+    if (!resolved.unavailable && resolved.delegatedFrom !== null) {
+      return await this.reassign(booking, resolved.approverId, EscalationReason.DELEGATED);
+    }
+
+    let reason: string | null = null;
+    if (resolved.unavailable) {
+      reason = EscalationReason.OUT_OF_OFFICE;
+    } else if (workflow?.escalation_hours) {
+      const requestedAt = booking.approval_requested_at || booking.created_at;
+      const deadline = new Date(requestedAt).getTime() + workflow.escalation_hours * 60 * 60 * 1000;
+      if (now.getTime() > deadline) {
+        reason = EscalationReason.SLA_BREACH;
+      }
+    }
+
+    if (!reason) {
+      return null;
+    }
+
+    const target = await this.getEscalationTarget(booking, workflow);
+    if (!target) {
+      console.log(`[ESCALATION] Booking ${booking.id} is overdue but has no escalation target`);
+      return null;
+    }
+
+    // The escalation target may itself be away
+    const resolvedTarget = await this.resolveApprover(target, now);
+    if (resolvedTarget.approverId === booking.current_approver_id) {
+      return null;
+    }
+    return await this.reassign(booking, resolvedTarget.approverId, reason);
+  }
+
+  static async getEscalations(bookingId: number): Promise<ApprovalEscalation[]> {
+    return await db
+      .select()
+      .from(approvalEscalations)
+      .where(eq(approvalEscalations.booking_id, bookingId))
+      .orderBy(desc(approvalEscalations.created_at));
+  }
+
+  static async getDelegations(approverId: number): Promise<ApproverDelegation[]> {
+    return await db
+      .select()
+      .from(approverDelegations)
+      .where(eq(approverDelegations.approver_id, approverId))
+      .orderBy(desc(approverDelegations.start_date));
+  }
+
+  static async createDelegation(approverId: number, data: InsertApproverDelegation): Promise<ApproverDelegation> {
+    if (data.delegate_id === approverId) {
+      throw new ApprovalEscalationError('An approver cannot delegate to themselves');
+    }
+
+    const [delegation] = await db
+      .insert(approverDelegations)
+      .values({
+        ...data,
+        approver_id: approverId,
+        delegate_id: data.delegate_id ?? null,
+        created_at: new Date(),
+        updated_at: new Date()
+      })
+      .returning();
+
+    console.log(`[ESCALATION] Approver ${approverId} delegated to ${delegation.delegate_id ?? 'nobody'} from ${delegation.start_date.toISOString()} to ${delegation.end_date.toISOString()}`);
+    return delegation;
+  }
+
+  static async cancelDelegation(approverId: number, delegationId: number): Promise<ApproverDelegation> {
+    const [delegation] = await db
+      .update(approverDelegations)
+      .set({ is_active: false, updated_at: new Date() })
+      .where(and(eq(approverDelegations.id, delegationId), eq(approverDelegations.approver_id, approverId)))
+      .returning();
+
+    if (!delegation) {
+      throw new ApprovalEscalationError(`Delegation with ID ${delegationId} not found`, 404);
+    }
+    return delegation;
+  }
+}
+
+// Check pending approvals every 15 minutes
+export function initializeApprovalEscalationJob() {
+  cron.schedule('*/15 * * * *', async () => {
+    console.log('Running scheduled approval escalation job');
+    try {
+      await ApprovalEscalationService.processOverdueApprovals();
+    } catch (error) {
+      console.error('Error running approval escalation job:', error);
+    }
+  });
+  console.log('Approval escalation job scheduled');
+}
@@ -1,5 +1,4 @@
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
 import { Employee, InsertUser, User } from '@shared/schema';
 import { storage } from '../storage';
 import { UserType, UserOperationType, UserGroup } from '@shared/schema';
@@ -18,8 +17,8 @@ const emailTransporter = nodemailer.createTransport({
 });
 
 export class AuthService {
-  private async generateOTP(): Promise<string> {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+  async generateOTP(): Promise<string> {
+    return crypto.randomInt(100000, 1000000).toString();
   }
 
   private async sendOTPEmail(email: string, otp: string): Promise<void> {
@@ -53,6 +52,37 @@ export class AuthService {
     }
   }
 
+  async sendLoginCodeEmail(email: string, otp: string, expiresInMinutes: number): Promise<void> {
+    try {
+      console.log('Sending login code email to:', email);
+
+      const mailOptions = {
+        from: `"TripXL" <${process.env.SMTP_USER}>`,
+        to: email,
+        subject: 'Your TripXL Sign-in Code',
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h1 style="color: #004990; text-align: center;">TripXL Sign-in</h1>
+            <p style="font-size: 16px; text-align: center;">Your sign-in code is:</p>
+            <div style="background-color: #f3f4f6; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0;">
+              <strong style="font-size: 32px; letter-spacing: 8px;">${otp}</strong>
+            </div>
+            <p style="color: #6b7280; font-size: 14px; text-align: center;">
+              This code will expire in ${expiresInMinutes} minutes.<br>
+              If you didn't try to sign in, change your password.
+            </p>
+          </div>
+        `
+      };
+
+      const info = await emailTransporter.sendMail(mailOptions);
+      console.log('Login code email sent successfully:', info.messageId);
+    } catch (error) {
+      console.error('Failed to send login code email:', error);
+      throw new Error('Failed to send sign-in code. Please try again later.');
+    }
+  }
+
   private async hashPassword(password: string): Promise<string> {
     return bcrypt.hash(password, 10);
   }
@@ -75,13 +105,6 @@ export class AuthService {
         isActive: true // Set to true for initial testing
       });
 
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: user.id, emailId: user.emailId },
-        process.env.JWT_SECRET || 'dev-secret-key',
-        { expiresIn: '24h' }
-      );
-
       return { user, userId: user.id };
     } catch (error) {
       console.error('Registration error:', error);
@@ -89,7 +112,8 @@ export class AuthService {
     }
   }
 
-  async verifyOTP(userId: number, otp: string): Promise<{ user: User; token: string }> {
+  // Access tokens are only issued with a session by SessionService, so none is returned here
+  async verifyOTP(userId: number, otp: string): Promise<User> {
     try {
       const verification = await storage.getOtpVerification(userId);
       if (!verification) {
@@ -110,46 +134,13 @@ export class AuthService {
       // Delete used OTP
       await storage.deleteOtpVerification(userId);
 
-      // Generate token
-      const token = jwt.sign(
-        { userId: user.id, emailId: user.emailId },
-        process.env.JWT_SECRET || 'dev-secret-key',
-        { expiresIn: '24h' }
-      );
-
-      return { user, token };
+      return user;
     } catch (error) {
       console.error('OTP verification error:', error);
       throw error;
     }
   }
 
-  async login(emailId: string, password: string): Promise<{ user: User; token: string }> {
-    if (!emailId || !password) {
-      throw new Error('Email and password are required');
-    }
-
-    const user = await storage.findUserByEmail(emailId);
-    if (!user) {
-      throw new Error('Invalid email or password');
-    }
-
-    const isValid = await bcrypt.compare(password, user.password);
-    if (!isValid) {
-      throw new Error('Invalid email or password');
-    }
-
-    await storage.updateUserLastLogin(user.id);
-
-    const token = jwt.sign(
-      { userId: user.id, emailId: user.emailId },
-      process.env.JWT_SECRET || 'dev-secret-key',
-      { expiresIn: '24h' }
-    );
-
-    return { user, token };
-  }
-
   async verifyEmployee(employeeId: string, emailId: string): Promise<Employee | null> {
     if (!employeeId || !emailId) {
       return null;
@@ -0,0 +1,316 @@
+import { and, asc, desc, eq } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  approvalWorkflows,
+  bookingApprovals,
+  bookingStatusHistory,
+  bookings,
+  employees,
+  ApprovalDecision,
+  ApprovalLevel,
+  BookingStatus,
+  WorkflowLevels,
+  type ApprovalWorkflow,
+  type Booking,
+  type BookingApproval,
+  type Employee
+} from '@shared/schema';
+import { ApprovalEscalationService } from './approval-escalation';
+
+export type ApprovalRequester = Pick<Employee, 'id' | 'employee_id' | 'employee_name' | 'region' | 'department' | 'unit'>;
+
+export interface ApprovalInboxItem extends Booking {
+  requester: ApprovalRequester;
+}
+
+export interface BulkDecisionResult {
+  bookingId: number;
+  success: boolean;
+  error?: string;
+}
+
+export class BookingApprovalError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'BookingApprovalError';
+  }
+}
+
+export class BookingApprovalService {
+  // Find the active workflow configured for an employee's region/department/unit
+  static async findWorkflowForEmployee(employee: Employee): Promise<ApprovalWorkflow | null> {
+    const [workflow] = await db
+      .select()
+      .from(approvalWorkflows)
+      .where(
+        and(
+          eq(approvalWorkflows.region, employee.region),
+          eq(approvalWorkflows.department, employee.department),
+          eq(approvalWorkflows.unit, employee.unit),
+          eq(approvalWorkflows.is_active, true)
+        )
+      );
+    return workflow || null;
+  }
+
+  static requiresSecondLevel(workflow: ApprovalWorkflow): boolean {
+    return workflow.levels_required === WorkflowLevels.BOTH_LEVELS;
+  }
+
+  // Map an authenticated user onto their employee record, by link first and email second
+  static async getEmployeeForUser(user: { userId: number; email: string }): Promise<Employee | null> {
+    const [linked] = await db.select().from(employees).where(eq(employees.user_id, user.userId));
+    if (linked) {
+      return linked;
+    }
+
+    if (!user.email) {
+      return null;
+    }
+    const [byEmail] = await db.select().from(employees).where(eq(employees.email_id, user.email));
+    return byEmail || null;
+  }
+
+  // Send a newly created booking to its Level 1 approver. Bookings that were created already
+  // approved (high priority) or whose employee has no workflow are left untouched.
+  static async routeBooking(booking: Booking): Promise<Booking> {
+    if (booking.status !== BookingStatus.NEW) {
+      return booking;
+    }
+
+    const [employee] = await db.select().from(employees).where(eq(employees.id, booking.employee_id));
+    if (!employee) {
+      return booking;
+    }
+
+    const workflow = await this.findWorkflowForEmployee(employee);
+    if (!workflow || !workflow.level_1_approver_id) {
+      console.log(`[APPROVAL] No approval workflow for booking ${booking.id} (${employee.region}/${employee.department}/${employee.unit})`);
+      return booking;
+    }
+
+    // Out-of-office approvers hand new requests straight to their delegate
+    const { approverId } = await ApprovalEscalationService.resolveApprover(workflow.level_1_approver_id);
+
+    const [routed] = await db
+      .update(bookings)
+      .set({
+        status: BookingStatus.PENDING,
+        approval_workflow_id: workflow.id,
+        approval_level: ApprovalLevel.LEVEL_1,
+        current_approver_id: approverId,
+        approval_requested_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(eq(bookings.id, booking.id))
+      .returning();
+
+    await db.insert(bookingStatusHistory).values({
+      booking_id: booking.id,
+      previous_status: booking.status,
+      status: BookingStatus.PENDING,
+      reason: `Routed to approval workflow ${workflow.workflow_name}`,
+      created_at: new Date()
+    });
+
+    console.log(`[APPROVAL] Booking ${booking.id} routed to workflow ${workflow.id}, Level 1 approver ${approverId}`);
+    return routed;
+  }
+
+  static async approve(bookingId: number, approver: Employee, comments?: string): Promise<Booking> {
+    return await db.transaction(async (tx) => {
+      const { booking, workflow } = await this.getPendingBooking(tx, bookingId, approver);
+      const level = booking.approval_level || ApprovalLevel.LEVEL_1;
+
+      await tx.insert(bookingApprovals).values({
+        booking_id: booking.id,
+        workflow_id: booking.approval_workflow_id,
+        approval_level: level,
+        approver_id: approver.id,
+        decision: ApprovalDecision.APPROVED,
+        comments: comments || null,
+        created_at: new Date()
+      });
+
+      const needsLevelTwo = level === ApprovalLevel.LEVEL_1 && !!workflow && this.requiresSecondLevel(workflow);
+      // Workflows saved before both levels required a Level 2 approver must not skip that level
+      if (needsLevelTwo && !workflow!.level_2_approver_id) {
+        throw new BookingApprovalError(
+          `Workflow ${workflow!.workflow_name} requires Level 2 approval but has no Level 2 approver; configure one before approving`,
+          409
+        );
+      }
+      const levelTwoApprover = needsLevelTwo ? workflow!.level_2_approver_id : null;
+      const nextApprover = levelTwoApprover
+        ? (await ApprovalEscalationService.resolveApprover(levelTwoApprover)).approverId
+        : null;
+
+      const [updated] = await tx
+        .update(bookings)
+        .set(nextApprover
+          ? {
+              approval_level: ApprovalLevel.LEVEL_2,
+              current_approver_id: nextApprover,
+              approval_requested_at: new Date(),
+              updated_at: new Date()
+            }
+          : {
+              status: BookingStatus.APPROVED,
+              approval_level: null,
+              current_approver_id: null,
+              updated_at: new Date()
+            })
+        .where(eq(bookings.id, booking.id))
+        .returning();
+
+      if (!nextApprover) {
+        await tx.insert(bookingStatusHistory).values({
+          booking_id: booking.id,
+          previous_status: booking.status,
+          status: BookingStatus.APPROVED,
+          changed_by: approver.user_id,
+          reason: comments || `Approved at ${level}`,
+          created_at: new Date()
+        });
+      }
+
+      console.log(nextApprover
+        ? `[APPROVAL] Booking ${booking.id} approved at ${level} by ${approver.id}, moved to Level 2 approver ${nextApprover}`
+        : `[APPROVAL] Booking ${booking.id} fully approved by ${approver.id}`);
+      return updated;
+    });
+  }
+
+  static async reject(bookingId: number, approver: Employee, comments: string): Promise<Booking> {
+    if (!comments || !comments.trim()) {
+      throw new BookingApprovalError('A reason is required when rejecting a booking');
+    }
+
+    return await db.transaction(async (tx) => {
+      const { booking } = await this.getPendingBooking(tx, bookingId, approver);
+
+      await tx.insert(bookingApprovals).values({
+        booking_id: booking.id,
+        workflow_id: booking.approval_workflow_id,
+        approval_level: booking.approval_level || ApprovalLevel.LEVEL_1,
+        approver_id: approver.id,
+        decision: ApprovalDecision.REJECTED,
+        comments: comments.trim(),
+        created_at: new Date()
+      });
+
+      const [updated] = await tx
+        .update(bookings)
+        .set({
+          status: BookingStatus.REJECTED,
+          current_approver_id: null,
+          updated_at: new Date()
+        })
+        .where(eq(bookings.id, booking.id))
+        .returning();
+
+      await tx.insert(bookingStatusHistory).values({
+        booking_id: booking.id,
+        previous_status: booking.status,
+        status: BookingStatus.REJECTED,
+        changed_by: approver.user_id,
+        reason: comments.trim(),
+        created_at: new Date()
+      });
+
+      console.log(`[APPROVAL] Booking ${booking.id} rejected at ${booking.approval_level} by ${approver.id}`);
+      return updated;
+    });
+  }
+
+  // Bookings currently waiting on this approver, oldest first
+  static async getInbox(approverId: number): Promise<ApprovalInboxItem[]> {
+    const rows = await db
+      .select({ booking: bookings, requester: employees })
+      .from(bookings)
+      .innerJoin(employees, eq(bookings.employee_id, employees.id))
+      .where(
+        and(
+          eq(bookings.status, BookingStatus.PENDING),
+          eq(bookings.current_approver_id, approverId)
+        )
+      )
+      .orderBy(asc(bookings.created_at));
+
+    return rows.map(({ booking, requester }) => ({
+      ...booking,
+      requester: {
+        id: requester.id,
+        employee_id: requester.employee_id,
+        employee_name: requester.employee_name,
+        region: requester.region,
+        department: requester.department,
+        unit: requester.unit
+      }
+    }));
+  }
+
+  // Apply the same decision to several bookings; each one succeeds or fails on its own
+  static async bulkDecide(
+    bookingIds: number[],
+    approver: Employee,
+    decision: string,
+    comments?: string
+  ): Promise<BulkDecisionResult[]> {
+    if (decision === ApprovalDecision.REJECTED && (!comments || !comments.trim())) {
+      throw new BookingApprovalError('A reason is required when rejecting a booking');
+    }
+
+    const results: BulkDecisionResult[] = [];
+    for (const bookingId of bookingIds) {
+      try {
+        if (decision === ApprovalDecision.REJECTED) {
+          await this.reject(bookingId, approver, comments!);
+        } else {
+          await this.approve(bookingId, approver, comments);
+        }
+        results.push({ bookingId, success: true });
+      } catch (error: any) {
+        results.push({ bookingId, success: false, error: error.message });
+      }
+    }
+    return results;
+  }
+
+  static async getApprovalHistory(bookingId: number): Promise<BookingApproval[]> {
+    return await db
+      .select()
+      .from(bookingApprovals)
+      .where(eq(bookingApprovals.booking_id, bookingId))
+      .orderBy(desc(bookingApprovals.created_at));
+  }
+
+  // Lock the booking row and check the caller is the approver it is waiting on
+  private static async getPendingBooking(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    bookingId: number,
+    approver: Employee
+  ): Promise<{ booking: Booking; workflow: ApprovalWorkflow | null }> {
+    const [booking] = await tx.select().from(bookings).where(eq(bookings.id, bookingId)).for('update');
+    if (!booking) {
+      throw new BookingApprovalError(`Booking with ID ${bookingId} not found`, 404);
+    }
+    if (booking.status !== BookingStatus.PENDING || !booking.current_approver_id) {
+      throw new BookingApprovalError(`Booking ${bookingId} is not awaiting approval`, 409);
+    }
+    if (booking.current_approver_id !== approver.id) {
+      throw new BookingApprovalError('You are not the assigned approver for this booking', 403);
+    }
+
+    let workflow: ApprovalWorkflow | null = null;
+    if (booking.approval_workflow_id) {
+      const [found] = await tx
+        .select()
+        .from(approvalWorkflows)
+        .where(eq(approvalWorkflows.id, booking.approval_workflow_id));
+      workflow = found || null;
+    }
+
+    return { booking, workflow };
+  }
+}
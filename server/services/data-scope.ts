@@ -0,0 +1,109 @@
+import { and, eq, inArray, sql, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import { bookings, drivers, employees, vehicleGroups, vehicleMaster, vehicleTypeMaster, vehicles, type User } from '@shared/schema';
+import { normalizeRole, Role } from '@shared/schema/permissions';
+
+export class DataScopeError extends Error {
+  constructor(message: string, public statusCode: number = 403) {
+    super(message);
+    this.name = 'DataScopeError';
+  }
+}
+
+// The organisational unit a user's lists are narrowed to
+export interface DataScope {
+  region: string;
+  department: string;
+  unit: string;
+}
+
+export class DataScopeService {
+  // Admins see everything (null); everyone else is held to the region, department and unit of
+  // the employee record linked to their account
+  static async getScopeForUser(user: User): Promise<DataScope | null> {
+    const roles = [normalizeRole(user.user_type), normalizeRole(user.user_operation_type)];
+    if (roles.includes(Role.ADMIN)) {
+      return null;
+    }
+
+    const [employee] = await db
+      .select({ region: employees.region, department: employees.department, unit: employees.unit })
+      .from(employees)
+      .where(eq(employees.user_id, user.id));
+    if (!employee) {
+      throw new DataScopeError('Your account is not linked to an employee record, so no data can be shown');
+    }
+    return employee;
+  }
+
+  // Whether a record that carries its own region, department and unit falls inside the scope
+  static includes(scope: DataScope | null | undefined, record: DataScope): boolean {
+    return !scope || (
+      record.region === scope.region &&
+      record.department === scope.department &&
+      record.unit === scope.unit
+    );
+  }
+
+  static employeeCondition(scope: DataScope): SQL {
+    return and(
+      eq(employees.region, scope.region),
+      eq(employees.department, scope.department),
+      eq(employees.unit, scope.unit)
+    )!;
+  }
+
+  static vehicleMasterCondition(scope: DataScope): SQL {
+    return and(
+      eq(vehicleMaster.region, scope.region),
+      eq(vehicleMaster.department, scope.department),
+      eq(vehicleMaster.unit, scope.unit)
+    )!;
+  }
+
+  // Fleet vehicles carry their region, department and unit on the matching vehicle_master record
+  static vehicleCondition(scope: DataScope): SQL {
+    return inArray(
+      vehicles.registration_number,
+      db
+        .select({ registration_number: vehicleMaster.registration_number })
+        .from(vehicleMaster)
+        .where(this.vehicleMasterCondition(scope))
+    );
+  }
+
+  // Drivers belong to the unit of their employee record; drivers.employee_id holds its number as text
+  static driverCondition(scope: DataScope): SQL {
+    return inArray(
+      drivers.employee_id,
+      db
+        .select({ employee_id: sql<string>`cast(${employees.employee_id} as text)` })
+        .from(employees)
+        .where(this.employeeCondition(scope))
+    );
+  }
+
+  // Vehicle groups are defined per region and department, not per unit
+  static vehicleGroupCondition(scope: DataScope): SQL {
+    return and(
+      eq(vehicleGroups.region, scope.region),
+      eq(vehicleGroups.department, scope.department)
+    )!;
+  }
+
+  static vehicleTypeCondition(scope: DataScope): SQL {
+    return and(
+      eq(vehicleTypeMaster.region, scope.region),
+      eq(vehicleTypeMaster.department, scope.department),
+      eq(vehicleTypeMaster.unit, scope.unit)
+    )!;
+  }
+
+  // Bookings belong to the unit of the employee they were made for
+  static bookingCondition(scope: DataScope): SQL {
+    return inArray(
+      bookings.employee_id,
+      db.select({ id: employees.id }).from(employees).where(this.employeeCondition(scope))
+    );
+  }
+}
@@ -0,0 +1,530 @@
+import { and, eq, desc, isNull } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  bookings,
+  dispatchDecisions,
+  vehicleTypeMaster,
+  BookingStatus,
+  BookingType,
+  CargoType,
+  DispatchDecisionType,
+  Priority,
+  VehicleStatus,
+  type Booking,
+  type DispatchDecision,
+  type Driver,
+  type Vehicle,
+  type VehicleTypeMaster
+} from '@shared/schema';
+import { calculateDistanceKm, getCoordinates } from './geo-utils';
+import { DriverShiftService, type DriverExclusion } from './driver-shifts';
+import { VehicleAvailabilityService } from './vehicle-availability';
+import { DataScopeService, type DataScope } from './data-scope';
+
+export interface VehicleRanking {
+  vehicle: Vehicle;
+  distanceKm: number | null;
+  score: number;
+  reasons: string[];
+}
+
+export interface DriverRanking {
+  driver: Driver;
+  score: number;
+  reasons: string[];
+}
+
+export interface DispatchResult {
+  bookingIds: number[];
+  vehicle: Vehicle;
+  driver: Driver;
+  score: number;
+  reasons: string[];
+  decisions: DispatchDecision[];
+}
+
+export interface DispatchFailure {
+  bookingId: number;
+  reason: string;
+}
+
+// Lower index is dispatched first; Critical and Emergency bookings get first pick of the fleet
+const PRIORITY_ORDER: string[] = [
+  Priority.CRITICAL,
+  Priority.EMERGENCY,
+  Priority.HIGH,
+  Priority.MEDIUM,
+  Priority.NORMAL
+];
+
+// Distance beyond which a vehicle's proximity no longer improves its score
+const MAX_USEFUL_DISTANCE_KM = 50;
+
+export class DispatchError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'DispatchError';
+  }
+}
+
+export class DispatchService {
+  // Specializations a driver must have to take the booking
+  static getRequiredSpecializations(booking: Booking): string[] {
+    const required: string[] = [];
+    if (booking.booking_type.toLowerCase() === BookingType.AMBULANCE) {
+      required.push('Ambulance');
+    }
+    if (booking.cargo_type === CargoType.HAZARDOUS || booking.cargo_type === CargoType.TEMPERATURE_CONTROLLED) {
+      required.push(booking.cargo_type);
+    }
+    return required;
+  }
+
+  static comparePriority(a: Booking, b: Booking): number {
+    const rank = (booking: Booking) => {
+      const index = PRIORITY_ORDER.indexOf(booking.priority);
+      return index === -1 ? PRIORITY_ORDER.length : index;
+    };
+
+    const byPriority = rank(a) - rank(b);
+    if (byPriority !== 0) {
+      return byPriority;
+    }
+
+    const aTime = a.pickup_time ? new Date(a.pickup_time).getTime() : Infinity;
+    const bTime = b.pickup_time ? new Date(b.pickup_time).getTime() : Infinity;
+    return aTime - bTime;
+  }
+
+  // Why a vehicle cannot carry the trip at all, or null when it can; shared by automatic
+  // ranking and manual assignment so both apply the same rules
+  static getVehicleUnsuitability(tripBookings: Booking[], vehicle: Vehicle): string | null {
+    const passengers = tripBookings.reduce((sum, b) => sum + (b.num_passengers || 0), 0);
+    const weight = tripBookings.reduce((sum, b) => sum + (b.weight || 0), 0);
+    if (!vehicle.is_active) {
+      return 'vehicle is inactive';
+    }
+    if (passengers > 0 && (vehicle.passenger_capacity || 0) < passengers) {
+      return `seats ${vehicle.passenger_capacity || 0} but the trip has ${passengers} passengers`;
+    }
+    if (weight > 0 && vehicle.load_capacity < weight) {
+      return `carries ${vehicle.load_capacity} kg but the trip weighs ${weight} kg`;
+    }
+    return null;
+  }
+
+  // Rank available vehicles for a group of bookings that will travel together
+  static rankVehicles(tripBookings: Booking[], candidates: Vehicle[]): VehicleRanking[] {
+    const lead = tripBookings[0];
+    const pickup = getCoordinates(lead.pickup_location);
+    const passengers = tripBookings.reduce((sum, b) => sum + (b.num_passengers || 0), 0);
+    const weight = tripBookings.reduce((sum, b) => sum + (b.weight || 0), 0);
+
+    const rankings: VehicleRanking[] = [];
+    for (const vehicle of candidates) {
+      if (this.getVehicleUnsuitability(tripBookings, vehicle)) {
+        continue;
+      }
+
+      const reasons: string[] = [];
+      const vehicleLocation = getCoordinates(vehicle.current_location);
+      const distanceKm = pickup && vehicleLocation ? calculateDistanceKm(vehicleLocation, pickup) : null;
+
+      // Proximity dominates the score; a snug capacity fit breaks ties so large vehicles stay free
+      let score = 0;
+      if (distanceKm !== null) {
+        score += 70 * Math.max(0, 1 - distanceKm / MAX_USEFUL_DISTANCE_KM);
+        reasons.push(`Vehicle is ${distanceKm.toFixed(2)} km from pickup`);
+      } else {
+        reasons.push('Vehicle location unknown');
+      }
+
+      if (passengers > 0) {
+        score += 30 * (passengers / (vehicle.passenger_capacity || passengers));
+        reasons.push(`Seats ${passengers} of ${vehicle.passenger_capacity} passengers`);
+      } else if (weight > 0) {
+        score += 30 * (weight / (vehicle.load_capacity || weight));
+        reasons.push(`Carries ${weight} of ${vehicle.load_capacity} kg load capacity`);
+      } else {
+        score += 15;
+      }
+
+      rankings.push({ vehicle, distanceKm, score: round(score), reasons });
+    }
+
+    return rankings.sort((a, b) => b.score - a.score);
+  }
+
+  // Rank available drivers for a vehicle; drivers missing a required specialization are excluded
+  static rankDrivers(
+    tripBookings: Booking[],
+    vehicle: Vehicle,
+    vehicleType: VehicleTypeMaster | null,
+    candidates: Driver[]
+  ): DriverRanking[] {
+    const required = Array.from(new Set(tripBookings.flatMap(b => this.getRequiredSpecializations(b))));
+    const purposes = tripBookings.map(b => b.purpose.toLowerCase());
+    const vehicleTypeNames = [
+      vehicleType?.vehicle_type_code,
+      vehicleType?.vehicle_type_name,
+      vehicleType?.vehicle_type
+    ].filter((name): name is string => !!name).map(name => name.toLowerCase());
+    const vehicleLocation = getCoordinates(vehicle.current_location);
+
+    const rankings: DriverRanking[] = [];
+    for (const driver of candidates) {
+      if (!driver.is_active) {
+        continue;
+      }
+
+      const specializations = (driver.specializations || []).map(s => s.toLowerCase());
+      const missing = required.filter(r => !specializations.includes(r.toLowerCase()));
+      if (missing.length > 0) {
+        continue;
+      }
+
+      const reasons: string[] = [];
+      let score = 0;
+
+      if (required.length > 0) {
+        score += 30;
+        reasons.push(`Has required specializations: ${required.join(', ')}`);
+      }
+
+      if (purposes.some(purpose => specializations.includes(purpose))) {
+        score += 10;
+        reasons.push('Specializes in this trip purpose');
+      }
+
+      const preferred = (driver.preferred_vehicle_types || []).map(t => t.toLowerCase());
+      if (preferred.length === 0) {
+        score += 10;
+        reasons.push('No vehicle type preference');
+      } else if (preferred.some(t => vehicleTypeNames.includes(t))) {
+        score += 25;
+        reasons.push('Prefers this vehicle type');
+      }
+
+      if (driver.rating) {
+        score += driver.rating * 4;
+        reasons.push(`Rated ${driver.rating}/5`);
+      }
+
+      const driverLocation = getCoordinates(driver.current_location);
+      if (vehicleLocation && driverLocation) {
+        const distanceKm = calculateDistanceKm(driverLocation, vehicleLocation);
+        score += 15 * Math.max(0, 1 - distanceKm / MAX_USEFUL_DISTANCE_KM);
+        reasons.push(`Driver is ${distanceKm.toFixed(2)} km from vehicle`);
+      }
+
+      rankings.push({ driver, score: round(score), reasons });
+    }
+
+    return rankings.sort((a, b) => b.score - a.score);
+  }
+
+  // A booking that belongs to a merged trip is dispatched together with the rest of the trip
+  static async getTripBookings(booking: Booking): Promise<Booking[]> {
+    if (!booking.merged_trip_id) {
+      return [booking];
+    }
+
+    const tripBookings = await db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.merged_trip_id, booking.merged_trip_id),
+          eq(bookings.status, BookingStatus.APPROVED),
+          isNull(bookings.assigned_vehicle_id)
+        )
+      );
+    return tripBookings.sort((a, b) => this.comparePriority(a, b));
+  }
+
+  static async getVehicleTypes(): Promise<Map<number, VehicleTypeMaster>> {
+    const types = await db.select().from(vehicleTypeMaster);
+    return new Map(types.map(t => [t.id, t]));
+  }
+
+  // Bookings, vehicles and drivers are all limited to the dispatcher's data scope
+  static async getRecommendations(bookingId: number, scope: DataScope | null): Promise<{
+    bookingIds: number[];
+    vehicles: VehicleRanking[];
+    drivers: DriverRanking[];
+    excludedDrivers: DriverExclusion[];
+  }> {
+    const booking = await this.getBooking(bookingId, scope);
+    const tripBookings = await this.getTripBookings(booking);
+    const [availableVehicles, availableDrivers, vehicleTypes] = await Promise.all([
+      storage.getAvailableVehicles(scope),
+      storage.getAvailableDrivers(scope),
+      this.getVehicleTypes()
+    ]);
+
+    const { eligible, excluded } = await DriverShiftService.filterEligibleDrivers(
+      availableDrivers,
+      DriverShiftService.getTripWindow(tripBookings)
+    );
+    const freeVehicles = await VehicleAvailabilityService.filterAvailableVehicles(availableVehicles, tripBookings);
+    const freeDrivers = await VehicleAvailabilityService.filterAvailableDrivers(eligible, tripBookings);
+    const busyDrivers: DriverExclusion[] = eligible
+      .filter(d => !freeDrivers.includes(d))
+      .map(d => ({ driverId: d.id, driverName: d.name, reason: 'Already assigned to another trip at this time' }));
+
+    const vehicleRankings = this.rankVehicles(tripBookings, freeVehicles);
+    const best = vehicleRankings[0];
+    const driverRankings = best
+      ? this.rankDrivers(tripBookings, best.vehicle, vehicleTypes.get(best.vehicle.type_id ?? -1) || null, freeDrivers)
+      : [];
+
+    return {
+      bookingIds: tripBookings.map(b => b.id),
+      vehicles: vehicleRankings,
+      drivers: driverRankings,
+      excludedDrivers: [...excluded, ...busyDrivers]
+    };
+  }
+
+  // Choose the best vehicle/driver pair for one booking (and its merged trip) and assign it
+  static async dispatchBooking(
+    bookingId: number,
+    scope: DataScope | null,
+    exclude: { vehicleIds: Set<number>; driverIds: Set<number> } = { vehicleIds: new Set(), driverIds: new Set() }
+  ): Promise<DispatchResult> {
+    const booking = await this.getBooking(bookingId, scope);
+    if (booking.status !== BookingStatus.APPROVED) {
+      throw new DispatchError(`Booking ${bookingId} is ${booking.status}; only approved bookings can be dispatched`, 409);
+    }
+    if (booking.assigned_vehicle_id) {
+      throw new DispatchError(`Booking ${bookingId} already has a vehicle assigned`, 409);
+    }
+
+    const tripBookings = await this.getTripBookings(booking);
+    const [availableVehicles, availableDrivers, vehicleTypes] = await Promise.all([
+      storage.getAvailableVehicles(scope),
+      storage.getAvailableDrivers(scope),
+      this.getVehicleTypes()
+    ]);
+
+    // Vehicles already reserved around this trip's time are skipped
+    const vehicles = await VehicleAvailabilityService.filterAvailableVehicles(
+      availableVehicles.filter(v => !exclude.vehicleIds.has(v.id)),
+      tripBookings
+    );
+    // Only drivers rostered for the trip, within their driving-hour limits and not already on
+    // another trip at that time are considered
+    const { eligible } = await DriverShiftService.filterEligibleDrivers(
+      availableDrivers.filter(d => !exclude.driverIds.has(d.id)),
+      DriverShiftService.getTripWindow(tripBookings)
+    );
+    const drivers = await VehicleAvailabilityService.filterAvailableDrivers(eligible, tripBookings);
+
+    // Walk down the vehicle ranking until one has a suitable driver
+    for (const vehicleRanking of this.rankVehicles(tripBookings, vehicles)) {
+      const vehicleType = vehicleTypes.get(vehicleRanking.vehicle.type_id ?? -1) || null;
+      const [driverRanking] = this.rankDrivers(tripBookings, vehicleRanking.vehicle, vehicleType, drivers);
+      if (!driverRanking) {
+        continue;
+      }
+
+      const score = round(vehicleRanking.score + driverRanking.score);
+      const reasons = [
+        `Priority ${booking.priority}`,
+        ...vehicleRanking.reasons,
+        ...driverRanking.reasons
+      ];
+      if (tripBookings.length > 1) {
+        reasons.push(`Dispatched together with merged trip bookings ${tripBookings.map(b => b.id).join(', ')}`);
+      }
+
+      const decisions = await this.assign(tripBookings, vehicleRanking.vehicle, driverRanking.driver, {
+        decisionType: DispatchDecisionType.AUTOMATIC,
+        score,
+        distanceKm: vehicleRanking.distanceKm,
+        reasons
+      });
+
+      exclude.vehicleIds.add(vehicleRanking.vehicle.id);
+      exclude.driverIds.add(driverRanking.driver.id);
+
+      return {
+        bookingIds: tripBookings.map(b => b.id),
+        vehicle: vehicleRanking.vehicle,
+        driver: driverRanking.driver,
+        score,
+        reasons,
+        decisions
+      };
+    }
+
+    throw new DispatchError(`No available vehicle and driver combination fits booking ${bookingId}`, 409);
+  }
+
+  // Dispatch every approved, unassigned booking in the scope in priority order
+  static async dispatchApprovedBookings(scope: DataScope | null): Promise<{ dispatched: DispatchResult[]; failed: DispatchFailure[] }> {
+    const pending = await db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.status, BookingStatus.APPROVED),
+          isNull(bookings.assigned_vehicle_id),
+          scope ? DataScopeService.bookingCondition(scope) : undefined
+        )
+      );
+    pending.sort((a, b) => this.comparePriority(a, b));
+
+    const exclude = { vehicleIds: new Set<number>(), driverIds: new Set<number>() };
+    const handled = new Set<number>();
+    const dispatched: DispatchResult[] = [];
+    const failed: DispatchFailure[] = [];
+
+    for (const booking of pending) {
+      if (handled.has(booking.id)) {
+        continue;
+      }
+
+      try {
+        const result = await this.dispatchBooking(booking.id, scope, exclude);
+        result.bookingIds.forEach(id => handled.add(id));
+        dispatched.push(result);
+      } catch (error: any) {
+        console.error(`[DISPATCH] Could not dispatch booking ${booking.id}:`, error.message);
+        failed.push({ bookingId: booking.id, reason: error.message });
+      }
+    }
+
+    console.log(`[DISPATCH] Dispatched ${dispatched.length} trips, ${failed.length} bookings could not be dispatched`);
+    return { dispatched, failed };
+  }
+
+  // Record a dispatcher's own choice of vehicle and driver
+  static async assignManually(
+    bookingId: number,
+    vehicleId: number,
+    driverId: number,
+    scope: DataScope | null,
+    decidedBy?: number,
+    note?: string
+  ): Promise<DispatchDecision[]> {
+    const booking = await this.getBooking(bookingId, scope);
+    const tripBookings = await this.getTripBookings(booking);
+    const [vehicles, drivers] = await Promise.all([storage.getVehicles(scope), storage.getDrivers(scope)]);
+
+    const vehicle = vehicles.find(v => v.id === vehicleId);
+    const driver = drivers.find(d => d.id === driverId);
+    if (!vehicle) {
+      throw new DispatchError(`Vehicle with ID ${vehicleId} not found`, 404);
+    }
+    if (!driver) {
+      throw new DispatchError(`Driver with ID ${driverId} not found`, 404);
+    }
+
+    // The same eligibility rules as automatic dispatch; only the scoring is overridden
+    if (vehicle.status !== VehicleStatus.AVAILABLE) {
+      throw new DispatchError(`Vehicle ${vehicle.vehicle_number} cannot be assigned: it is ${vehicle.status}`, 409);
+    }
+    const unsuitable = this.getVehicleUnsuitability(tripBookings, vehicle);
+    if (unsuitable) {
+      throw new DispatchError(`Vehicle ${vehicle.vehicle_number} cannot be assigned: ${unsuitable}`, 409);
+    }
+    if (!driver.is_active) {
+      throw new DispatchError(`Driver ${driver.name} cannot be assigned: driver is inactive`, 409);
+    }
+    const tripWindow = DriverShiftService.getTripWindow(tripBookings);
+    if (new Date(driver.license_expiry) <= tripWindow.end) {
+      throw new DispatchError(`Driver ${driver.name} cannot be assigned: license expires before the trip ends`, 409);
+    }
+
+    const { excluded } = await DriverShiftService.filterEligibleDrivers([driver], tripWindow);
+    if (excluded.length > 0) {
+      throw new DispatchError(`Driver ${driver.name} cannot be assigned: ${excluded[0].reason}`, 409);
+    }
+
+    const [conflict] = await VehicleAvailabilityService.findConflicts(vehicle.vehicle_number, tripBookings);
+    if (conflict) {
+      throw new DispatchError(`Vehicle ${vehicle.vehicle_number} is already reserved for booking ${conflict.bookingId} at that time`, 409);
+    }
+    const [driverConflict] = await VehicleAvailabilityService.findDriverConflicts(driver.id, tripBookings);
+    if (driverConflict) {
+      throw new DispatchError(`Driver ${driver.name} is already assigned to booking ${driverConflict.bookingId} at that time`, 409);
+    }
+
+    const pickup = getCoordinates(booking.pickup_location);
+    const vehicleLocation = getCoordinates(vehicle.current_location);
+    const distanceKm = pickup && vehicleLocation ? calculateDistanceKm(vehicleLocation, pickup) : null;
+
+    return await this.assign(tripBookings, vehicle, driver, {
+      decisionType: DispatchDecisionType.MANUAL,
+      score: null,
+      distanceKm,
+      reasons: [note || 'Assigned manually by dispatcher'],
+      decidedBy
+    });
+  }
+
+  static async getDecisions(bookingId: number): Promise<DispatchDecision[]> {
+    return await db
+      .select()
+      .from(dispatchDecisions)
+      .where(eq(dispatchDecisions.booking_id, bookingId))
+      .orderBy(desc(dispatchDecisions.created_at));
+  }
+
+  private static async assign(
+    tripBookings: Booking[],
+    vehicle: Vehicle,
+    driver: Driver,
+    decision: {
+      decisionType: string;
+      score: number | null;
+      distanceKm: number | null;
+      reasons: string[];
+      decidedBy?: number;
+    }
+  ): Promise<DispatchDecision[]> {
+    // The whole trip is assigned and its decisions recorded in one transaction, or nothing is
+    let decisions: DispatchDecision[] = [];
+    try {
+      await storage.assignBookings(tripBookings.map(b => b.id), vehicle.id, driver.id, decision.decidedBy, async (tx) => {
+        decisions = await tx
+          .insert(dispatchDecisions)
+          .values(tripBookings.map(booking => ({
+            booking_id: booking.id,
+            vehicle_id: vehicle.id,
+            driver_id: driver.id,
+            decision_type: decision.decisionType,
+            score: decision.score !== null ? decision.score.toString() : null,
+            vehicle_distance_km: decision.distanceKm !== null ? decision.distanceKm.toFixed(2) : null,
+            reasons: decision.reasons,
+            decided_by: decision.decidedBy,
+            created_at: new Date()
+          })))
+          .returning();
+      });
+    } catch (error: any) {
+      // Reservation clashes and status changes since the booking was read are conflicts, not server errors
+      if (/already (reserved|assigned)|Invalid status transition|license expires/.test(error.message)) {
+        throw new DispatchError(error.message, 409);
+      }
+      throw error;
+    }
+
+    console.log(`[DISPATCH] Assigned vehicle ${vehicle.vehicle_number} and driver ${driver.name} to bookings ${tripBookings.map(b => b.id).join(', ')}`);
+    return decisions;
+  }
+
+  private static async getBooking(bookingId: number, scope: DataScope | null): Promise<Booking> {
+    const booking = await storage.getScopedBooking(bookingId, scope);
+    if (!booking) {
+      throw new DispatchError(`Booking with ID ${bookingId} not found`, 404);
+    }
+    return booking;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
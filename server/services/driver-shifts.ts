@@ -0,0 +1,377 @@
+import { and, asc, eq, gt, gte, inArray, lt, lte, ne } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  bookings,
+  drivers,
+  driverShifts,
+  BookingStatus,
+  DriverShiftStatus,
+  DriverShiftType,
+  DriverStatus,
+  type Booking,
+  type Driver,
+  type DriverShift,
+  type InsertDriverShift
+} from '@shared/schema';
+import { storage } from '../storage';
+import { DataScopeService, type DataScope } from './data-scope';
+
+export interface HoursOfServiceLimits {
+  maxDailyHours: number;
+  maxWeeklyHours: number;
+}
+
+export interface DrivingHours {
+  driverId: number;
+  dailyHours: number;
+  weeklyHours: number;
+  limits: HoursOfServiceLimits;
+}
+
+export interface TripWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface DriverExclusion {
+  driverId: number;
+  driverName: string;
+  reason: string;
+}
+
+// Overridable per deployment; defaults follow common commercial driving rules
+export const HOURS_OF_SERVICE_LIMITS: HoursOfServiceLimits = {
+  maxDailyHours: parseFloat(process.env.DRIVER_MAX_DAILY_HOURS || '9'),
+  maxWeeklyHours: parseFloat(process.env.DRIVER_MAX_WEEKLY_HOURS || '56')
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const WEEK_MS = 7 * 24 * HOUR_MS;
+
+const WORKING_SHIFT_TYPES: string[] = [DriverShiftType.REGULAR, DriverShiftType.OVERTIME];
+const OPEN_SHIFT_STATUSES: string[] = [DriverShiftStatus.SCHEDULED, DriverShiftStatus.ACTIVE];
+
+export class DriverShiftError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'DriverShiftError';
+  }
+}
+
+export class DriverShiftService {
+  // Shifts of drivers in the scope only
+  private static driverIdCondition(scope: DataScope) {
+    return inArray(driverShifts.driver_id, db.select({ id: drivers.id }).from(drivers).where(DataScopeService.driverCondition(scope)));
+  }
+
+  static async getShifts(filters: { from: Date; to: Date; driverId?: number }, scope: DataScope | null): Promise<DriverShift[]> {
+    const conditions = [
+      lt(driverShifts.planned_start, filters.to),
+      gt(driverShifts.planned_end, filters.from)
+    ];
+    if (scope) {
+      conditions.push(this.driverIdCondition(scope));
+    }
+    if (filters.driverId) {
+      conditions.push(eq(driverShifts.driver_id, filters.driverId));
+    }
+
+    return await db
+      .select()
+      .from(driverShifts)
+      .where(and(...conditions))
+      .orderBy(asc(driverShifts.planned_start));
+  }
+
+  static async getShift(id: number, scope: DataScope | null): Promise<DriverShift> {
+    const [shift] = await db
+      .select()
+      .from(driverShifts)
+      .where(and(eq(driverShifts.id, id), scope ? this.driverIdCondition(scope) : undefined));
+    if (!shift) {
+      throw new DriverShiftError(`Shift with ID ${id} not found`, 404);
+    }
+    return shift;
+  }
+
+  static async createShift(data: InsertDriverShift, scope: DataScope | null, createdBy?: number): Promise<DriverShift> {
+    await this.requireDriver(data.driver_id, scope);
+    await this.validateShift(data);
+
+    const [shift] = await db
+      .insert(driverShifts)
+      .values({
+        ...data,
+        created_by: createdBy ?? null,
+        created_at: new Date(),
+        updated_at: new Date()
+      })
+      .returning();
+
+    console.log(`[SHIFTS] Created ${shift.shift_type} shift ${shift.id} for driver ${shift.driver_id}`);
+    return shift;
+  }
+
+  static async updateShift(id: number, data: InsertDriverShift, scope: DataScope | null): Promise<DriverShift> {
+    const existing = await this.getShift(id, scope);
+    if (existing.clock_in && (data.planned_start.getTime() !== existing.planned_start.getTime() || data.driver_id !== existing.driver_id)) {
+      throw new DriverShiftError('Cannot move or reassign a shift the driver has already clocked in to', 409);
+    }
+    if (data.driver_id !== existing.driver_id) {
+      await this.requireDriver(data.driver_id, scope);
+    }
+    await this.validateShift(data, id);
+
+    const [shift] = await db
+      .update(driverShifts)
+      .set({ ...data, updated_at: new Date() })
+      .where(eq(driverShifts.id, id))
+      .returning();
+    return shift;
+  }
+
+  static async deleteShift(id: number, scope: DataScope | null): Promise<DriverShift> {
+    const existing = await this.getShift(id, scope);
+    if (existing.clock_in) {
+      throw new DriverShiftError('Cannot delete a shift the driver has clocked in to; cancel it instead', 409);
+    }
+
+    const [shift] = await db.delete(driverShifts).where(eq(driverShifts.id, id)).returning();
+    return shift;
+  }
+
+  static async clockIn(id: number, scope: DataScope | null, at: Date = new Date()): Promise<DriverShift> {
+    const shift = await this.getShift(id, scope);
+    if (shift.shift_type === DriverShiftType.LEAVE) {
+      throw new DriverShiftError('Cannot clock in to a leave entry');
+    }
+    if (shift.status !== DriverShiftStatus.SCHEDULED) {
+      throw new DriverShiftError(`Shift ${id} is ${shift.status}; only scheduled shifts can be clocked in to`, 409);
+    }
+
+    const [updated] = await db
+      .update(driverShifts)
+      .set({ status: DriverShiftStatus.ACTIVE, clock_in: at, updated_at: new Date() })
+      .where(eq(driverShifts.id, id))
+      .returning();
+    return updated;
+  }
+
+  static async clockOut(id: number, scope: DataScope | null, at: Date = new Date()): Promise<DriverShift> {
+    const shift = await this.getShift(id, scope);
+    if (shift.status !== DriverShiftStatus.ACTIVE) {
+      throw new DriverShiftError(`Shift ${id} is ${shift.status}; only active shifts can be clocked out of`, 409);
+    }
+
+    const [updated] = await db
+      .update(driverShifts)
+      .set({ status: DriverShiftStatus.COMPLETED, clock_out: at, updated_at: new Date() })
+      .where(eq(driverShifts.id, id))
+      .returning();
+    return updated;
+  }
+
+  private static async requireDriver(driverId: number, scope: DataScope | null): Promise<void> {
+    if (!await storage.getScopedDriver(driverId, scope)) {
+      throw new DriverShiftError(`Driver with ID ${driverId} not found`, 404);
+    }
+  }
+
+  // Breaks must sit inside the shift, and a driver cannot have two overlapping entries
+  private static async validateShift(data: InsertDriverShift, excludeId?: number): Promise<void> {
+    for (const shiftBreak of data.breaks || []) {
+      if (new Date(shiftBreak.start) < data.planned_start || new Date(shiftBreak.end) > data.planned_end) {
+        throw new DriverShiftError('Breaks must fall within the shift');
+      }
+    }
+    if (data.status === DriverShiftStatus.CANCELLED) {
+      return;
+    }
+
+    const conditions = [
+      eq(driverShifts.driver_id, data.driver_id),
+      ne(driverShifts.status, DriverShiftStatus.CANCELLED),
+      lt(driverShifts.planned_start, data.planned_end),
+      gt(driverShifts.planned_end, data.planned_start)
+    ];
+    if (excludeId) {
+      conditions.push(ne(driverShifts.id, excludeId));
+    }
+
+    const [overlap] = await db.select().from(driverShifts).where(and(...conditions)).limit(1);
+    if (overlap) {
+      throw new DriverShiftError(`Driver already has a ${overlap.shift_type} entry overlapping this time (shift ${overlap.id})`, 409);
+    }
+  }
+
+  // Time the trip keeps the driver busy; an unknown dropoff time counts as zero length
+  static getTripWindow(tripBookings: Booking[]): TripWindow {
+    const pickups = tripBookings.filter(b => b.pickup_time).map(b => new Date(b.pickup_time!).getTime());
+    const dropoffs = tripBookings.filter(b => b.dropoff_time).map(b => new Date(b.dropoff_time!).getTime());
+    const start = pickups.length > 0 ? Math.min(...pickups) : Date.now();
+    const end = dropoffs.length > 0 ? Math.max(start, ...dropoffs) : start;
+    return { start: new Date(start), end: new Date(end) };
+  }
+
+  // Hours driven per driver in [from, to], from completed bookings' pickup and dropoff times
+  static async getDrivenHours(driverIds: number[], from: Date, to: Date): Promise<Map<number, number>> {
+    const hours = new Map<number, number>(driverIds.map(id => [id, 0]));
+    if (driverIds.length === 0) {
+      return hours;
+    }
+
+    const completed = await db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          inArray(bookings.assigned_driver_id, driverIds),
+          eq(bookings.status, BookingStatus.COMPLETED),
+          lt(bookings.pickup_time, to),
+          gt(bookings.dropoff_time, from)
+        )
+      );
+
+    // Merged trips produce one booking per passenger for the same drive, so overlapping time is counted once
+    const intervals = new Map<number, [number, number][]>();
+    for (const booking of completed) {
+      const start = Math.max(new Date(booking.pickup_time!).getTime(), from.getTime());
+      const end = Math.min(new Date(booking.dropoff_time!).getTime(), to.getTime());
+      if (end > start) {
+        const list = intervals.get(booking.assigned_driver_id!) || [];
+        list.push([start, end]);
+        intervals.set(booking.assigned_driver_id!, list);
+      }
+    }
+
+    intervals.forEach((list, driverId) => {
+      list.sort((a, b) => a[0] - b[0]);
+      let total = 0;
+      let [currentStart, currentEnd] = list[0];
+      for (const [start, end] of list.slice(1)) {
+        if (start <= currentEnd) {
+          currentEnd = Math.max(currentEnd, end);
+        } else {
+          total += currentEnd - currentStart;
+          [currentStart, currentEnd] = [start, end];
+        }
+      }
+      total += currentEnd - currentStart;
+      hours.set(driverId, total / HOUR_MS);
+    });
+
+    return hours;
+  }
+
+  // Daily hours cover the calendar day the trip starts on; weekly hours are the 7 days up to the trip's end
+  static async getDrivingHours(driverIds: number[], window: TripWindow): Promise<DrivingHours[]> {
+    const dayStart = new Date(window.start);
+    dayStart.setHours(0, 0, 0, 0);
+    const dayEnd = new Date(dayStart.getTime() + 24 * HOUR_MS);
+    const weekStart = new Date(window.end.getTime() - WEEK_MS);
+
+    const [daily, weekly] = await Promise.all([
+      this.getDrivenHours(driverIds, dayStart, dayEnd),
+      this.getDrivenHours(driverIds, weekStart, window.end)
+    ]);
+
+    return driverIds.map(driverId => ({
+      driverId,
+      dailyHours: round(daily.get(driverId) || 0),
+      weeklyHours: round(weekly.get(driverId) || 0),
+      limits: HOURS_OF_SERVICE_LIMITS
+    }));
+  }
+
+  // Split candidates into drivers who are rostered and within their hours for the trip, and those who are not
+  static async filterEligibleDrivers(
+    candidates: Driver[],
+    window: TripWindow
+  ): Promise<{ eligible: Driver[]; excluded: DriverExclusion[] }> {
+    const driverIds = candidates.map(d => d.id);
+    if (driverIds.length === 0) {
+      return { eligible: [], excluded: [] };
+    }
+
+    const [shifts, hours] = await Promise.all([
+      db
+        .select()
+        .from(driverShifts)
+        .where(
+          and(
+            inArray(driverShifts.driver_id, driverIds),
+            ne(driverShifts.status, DriverShiftStatus.CANCELLED),
+            lte(driverShifts.planned_start, window.end),
+            gte(driverShifts.planned_end, window.start)
+          )
+        ),
+      this.getDrivingHours(driverIds, window)
+    ]);
+    const hoursByDriver = new Map(hours.map(h => [h.driverId, h]));
+    const tripHours = (window.end.getTime() - window.start.getTime()) / HOUR_MS;
+
+    const eligible: Driver[] = [];
+    const excluded: DriverExclusion[] = [];
+    for (const driver of candidates) {
+      const reason = this.getIneligibilityReason(
+        driver,
+        shifts.filter(s => s.driver_id === driver.id),
+        hoursByDriver.get(driver.id)!,
+        window,
+        tripHours
+      );
+      if (reason) {
+        excluded.push({ driverId: driver.id, driverName: driver.name, reason });
+      } else {
+        eligible.push(driver);
+      }
+    }
+
+    return { eligible, excluded };
+  }
+
+  private static getIneligibilityReason(
+    driver: Driver,
+    shifts: DriverShift[],
+    hours: DrivingHours,
+    window: TripWindow,
+    tripHours: number
+  ): string | null {
+    if (new Date(driver.license_expiry) <= window.end) {
+      return `License expires on ${new Date(driver.license_expiry).toDateString()}, before the trip ends`;
+    }
+    if (driver.status === DriverStatus.ON_LEAVE || shifts.some(s => s.shift_type === DriverShiftType.LEAVE)) {
+      return 'Driver is on leave';
+    }
+
+    const shift = shifts.find(s =>
+      WORKING_SHIFT_TYPES.includes(s.shift_type) &&
+      OPEN_SHIFT_STATUSES.includes(s.status) &&
+      s.planned_start <= window.start &&
+      s.planned_end >= window.end
+    );
+    if (!shift) {
+      return 'Driver is not on shift for the whole trip';
+    }
+
+    const onBreak = (shift.breaks || []).some(b =>
+      new Date(b.start) < window.end && new Date(b.end) > window.start
+    );
+    if (onBreak) {
+      return 'Trip overlaps a scheduled break';
+    }
+
+    if (hours.dailyHours + tripHours > hours.limits.maxDailyHours) {
+      return `Would exceed the daily driving limit (${hours.dailyHours}h driven, ${hours.limits.maxDailyHours}h allowed)`;
+    }
+    if (hours.weeklyHours + tripHours > hours.limits.maxWeeklyHours) {
+      return `Would exceed the weekly driving limit (${hours.weeklyHours}h driven, ${hours.limits.maxWeeklyHours}h allowed)`;
+    }
+
+    return null;
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,362 @@
+import { and, desc, eq, gte, inArray, isNotNull, lte, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  bookings,
+  drivers,
+  drivingEvents,
+  vehicleDrivingState,
+  vehicleMaster,
+  vehicles,
+  BookingStatus,
+  DrivingEventSeverity,
+  DrivingEventType,
+  RoadClass,
+  type DrivingEvent,
+  type TelematicsPingPayload,
+  type VehicleMaster
+} from '@shared/schema';
+import { DataScopeService, type DataScope } from './data-scope';
+
+// Posted limits assumed for each road class, in km/h
+export const ROAD_CLASS_SPEED_LIMITS: Record<string, number> = {
+  [RoadClass.MOTORWAY]: 120,
+  [RoadClass.PRIMARY]: 100,
+  [RoadClass.URBAN]: 80,
+  [RoadClass.RESIDENTIAL]: 40
+};
+
+export const DRIVING_THRESHOLDS = {
+  // Allowance over the limit before a reading counts as speeding
+  speedToleranceKmh: parseFloat(process.env.SPEEDING_TOLERANCE_KMH || '5'),
+  harshAccelerationMs2: 3.0,
+  harshBrakingMs2: 3.5,
+  // Speed changes over longer gaps say nothing about how hard the driver accelerated
+  maxHarshSampleSeconds: 10,
+  idleSpeedKmh: 2,
+  idleLimitMinutes: parseFloat(process.env.IDLE_LIMIT_MINUTES || '5')
+};
+
+// Penalty points per event; the safety score takes points per 100 km off 100
+const SEVERITY_POINTS: Record<string, number> = {
+  [DrivingEventSeverity.LOW]: 1,
+  [DrivingEventSeverity.MEDIUM]: 3,
+  [DrivingEventSeverity.HIGH]: 5
+};
+
+// Short distances would swing the score wildly, so exposure is at least this many km
+const MIN_SCORED_DISTANCE_KM = 100;
+
+const MAX_EVENTS = 500;
+
+// Idling wastes fuel but is not a safety incident
+export const SAFETY_EVENT_TYPES: string[] = [
+  DrivingEventType.OVER_SPEED,
+  DrivingEventType.HARSH_ACCELERATION,
+  DrivingEventType.HARSH_BRAKING
+];
+
+export interface DrivingEventFilters {
+  vehicleId?: number;
+  driverId?: number;
+  eventType?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface DriverSafetyScore {
+  driverId: number;
+  driverName: string;
+  employeeId: string;
+  score: number;
+  distanceKm: number;
+  eventCounts: Record<string, number>;
+  penaltyPoints: number;
+}
+
+interface TripAttribution {
+  driver_id: number | null;
+  booking_id: number | null;
+}
+
+export class DrivingSafetyService {
+  // Lower of the vehicle's own cap and the road class limit, or null when neither is known
+  static getSpeedLimit(vehicle: VehicleMaster, roadClass?: string | null): number | null {
+    const limits = [
+      vehicle.max_speed !== null ? Number(vehicle.max_speed) : null,
+      roadClass ? ROAD_CLASS_SPEED_LIMITS[roadClass] ?? null : null
+    ].filter((limit): limit is number => limit !== null && limit > 0);
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  // Run a vehicle's new pings, in time order, through the speeding, harsh driving and idling checks
+  static async evaluatePings(vehicle: VehicleMaster, pings: TelematicsPingPayload[]): Promise<DrivingEvent[]> {
+    if (pings.length === 0) {
+      return [];
+    }
+    const ordered = [...pings].sort((a, b) => a.recorded_at.getTime() - b.recorded_at.getTime());
+    const attribution = await this.getTripAttribution(vehicle);
+    const detected: DrivingEvent[] = [];
+
+    return await db.transaction(async (tx) => {
+      const [stored] = await tx
+        .select()
+        .from(vehicleDrivingState)
+        .where(eq(vehicleDrivingState.vehicle_id, vehicle.id))
+        .for('update');
+      const state = stored
+        ? { ...stored, last_speed: stored.last_speed !== null ? Number(stored.last_speed) : null }
+        : { last_recorded_at: null as Date | null, last_speed: null as number | null, speeding_event_id: null as number | null, idle_since: null as Date | null, idle_event_id: null as number | null };
+
+      const record = async (values: Omit<typeof drivingEvents.$inferInsert, 'vehicle_id' | 'driver_id' | 'booking_id'>) => {
+        const [event] = await tx
+          .insert(drivingEvents)
+          .values({ ...values, vehicle_id: vehicle.id, ...attribution })
+          .returning();
+        detected.push(event);
+        return event;
+      };
+
+      for (const ping of ordered) {
+        // A batch replayed after a newer one has nothing left to tell
+        if (state.last_recorded_at && ping.recorded_at <= state.last_recorded_at) {
+          continue;
+        }
+        const position = { lat: ping.lat.toString(), lng: ping.lng.toString() };
+        const speed = ping.speed ?? null;
+
+        // Over-speed: one event per continuous episode, keeping the highest reading
+        const limit = this.getSpeedLimit(vehicle, ping.road_class);
+        const speeding = speed !== null && limit !== null && speed > limit + DRIVING_THRESHOLDS.speedToleranceKmh;
+        if (speeding) {
+          const severity = this.speedingSeverity(speed! - limit!);
+          if (state.speeding_event_id) {
+            const [open] = await tx.select().from(drivingEvents).where(eq(drivingEvents.id, state.speeding_event_id));
+            if (open && speed! > Number(open.peak_value)) {
+              await tx
+                .update(drivingEvents)
+                .set({ peak_value: speed!.toString(), limit_value: limit!.toString(), severity })
+                .where(eq(drivingEvents.id, open.id));
+            }
+          } else {
+            const event = await record({
+              event_type: DrivingEventType.OVER_SPEED,
+              severity,
+              started_at: ping.recorded_at,
+              peak_value: speed!.toString(),
+              limit_value: limit!.toString(),
+              road_class: ping.road_class ?? null,
+              ...position
+            });
+            state.speeding_event_id = event.id;
+          }
+        } else if (state.speeding_event_id) {
+          await tx
+            .update(drivingEvents)
+            .set({ ended_at: ping.recorded_at })
+            .where(eq(drivingEvents.id, state.speeding_event_id));
+          state.speeding_event_id = null;
+        }
+
+        // Harsh acceleration and braking from the change in speed since the previous ping
+        if (speed !== null && state.last_speed !== null && state.last_recorded_at) {
+          const seconds = (ping.recorded_at.getTime() - state.last_recorded_at.getTime()) / 1000;
+          if (seconds > 0 && seconds <= DRIVING_THRESHOLDS.maxHarshSampleSeconds) {
+            const acceleration = (speed - state.last_speed) / 3.6 / seconds;
+            const harshType = acceleration >= DRIVING_THRESHOLDS.harshAccelerationMs2
+              ? DrivingEventType.HARSH_ACCELERATION
+              : acceleration <= -DRIVING_THRESHOLDS.harshBrakingMs2
+                ? DrivingEventType.HARSH_BRAKING
+                : null;
+            if (harshType) {
+              const magnitude = Math.abs(acceleration);
+              await record({
+                event_type: harshType,
+                severity: magnitude >= 5 ? DrivingEventSeverity.HIGH : magnitude >= 4 ? DrivingEventSeverity.MEDIUM : DrivingEventSeverity.LOW,
+                started_at: state.last_recorded_at,
+                ended_at: ping.recorded_at,
+                peak_value: magnitude.toFixed(2),
+                ...position
+              });
+            }
+          }
+        }
+
+        // Idling: engine on and standing still beyond the limit, one event per stop
+        const idling = ping.ignition === true && (speed ?? 0) < DRIVING_THRESHOLDS.idleSpeedKmh;
+        if (idling) {
+          state.idle_since = state.idle_since ?? ping.recorded_at;
+          const idleMinutes = (ping.recorded_at.getTime() - state.idle_since.getTime()) / 60000;
+          if (idleMinutes >= DRIVING_THRESHOLDS.idleLimitMinutes) {
+            const severity = idleMinutes >= DRIVING_THRESHOLDS.idleLimitMinutes * 3
+              ? DrivingEventSeverity.HIGH
+              : idleMinutes >= DRIVING_THRESHOLDS.idleLimitMinutes * 2 ? DrivingEventSeverity.MEDIUM : DrivingEventSeverity.LOW;
+            if (state.idle_event_id) {
+              await tx
+                .update(drivingEvents)
+                .set({ peak_value: idleMinutes.toFixed(2), severity })
+                .where(eq(drivingEvents.id, state.idle_event_id));
+            } else {
+              const event = await record({
+                event_type: DrivingEventType.EXCESSIVE_IDLING,
+                severity,
+                started_at: state.idle_since,
+                peak_value: idleMinutes.toFixed(2),
+                limit_value: DRIVING_THRESHOLDS.idleLimitMinutes.toString(),
+                ...position
+              });
+              state.idle_event_id = event.id;
+            }
+          }
+        } else {
+          if (state.idle_event_id) {
+            await tx
+              .update(drivingEvents)
+              .set({ ended_at: ping.recorded_at })
+              .where(eq(drivingEvents.id, state.idle_event_id));
+          }
+          state.idle_since = null;
+          state.idle_event_id = null;
+        }
+
+        state.last_recorded_at = ping.recorded_at;
+        state.last_speed = speed;
+      }
+
+      if (state.last_recorded_at) {
+        const values = {
+          last_recorded_at: state.last_recorded_at,
+          last_speed: state.last_speed !== null ? state.last_speed.toString() : null,
+          speeding_event_id: state.speeding_event_id,
+          idle_since: state.idle_since,
+          idle_event_id: state.idle_event_id,
+          updated_at: new Date()
+        };
+        await tx
+          .insert(vehicleDrivingState)
+          .values({ vehicle_id: vehicle.id, ...values })
+          .onConflictDoUpdate({ target: vehicleDrivingState.vehicle_id, set: values });
+      }
+
+      if (detected.length > 0) {
+        console.log(`[DRIVING-SAFETY] ${detected.length} event(s) detected for vehicle ${vehicle.vehicle_id}`);
+      }
+      return detected;
+    });
+  }
+
+  // Events of vehicles in the scope only
+  static async getEvents(filters: DrivingEventFilters, scope: DataScope | null): Promise<DrivingEvent[]> {
+    const conditions: SQL[] = [];
+    if (scope) {
+      conditions.push(inArray(
+        drivingEvents.vehicle_id,
+        db.select({ id: vehicleMaster.id }).from(vehicleMaster).where(DataScopeService.vehicleMasterCondition(scope))
+      ));
+    }
+    if (filters.vehicleId) {
+      conditions.push(eq(drivingEvents.vehicle_id, filters.vehicleId));
+    }
+    if (filters.driverId) {
+      conditions.push(eq(drivingEvents.driver_id, filters.driverId));
+    }
+    if (filters.eventType) {
+      conditions.push(eq(drivingEvents.event_type, filters.eventType));
+    }
+    if (filters.from) {
+      conditions.push(gte(drivingEvents.started_at, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(drivingEvents.started_at, filters.to));
+    }
+
+    return await db
+      .select()
+      .from(drivingEvents)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(drivingEvents.started_at))
+      .limit(MAX_EVENTS);
+  }
+
+  // 100 minus penalty points per 100 km driven on completed trips, floored at 0; the driver's
+  // odometer distance is used where recorded, otherwise the booking estimate
+  static async getDriverScores(from: Date, to: Date, scope: DataScope | null, driverIds?: number[]): Promise<DriverSafetyScore[]> {
+    const driverConditions: SQL[] = [eq(drivers.is_active, true)];
+    if (scope) {
+      driverConditions.push(DataScopeService.driverCondition(scope));
+    }
+    if (driverIds) {
+      if (driverIds.length === 0) {
+        return [];
+      }
+      driverConditions.push(inArray(drivers.id, driverIds));
+    }
+    const activeDrivers = await db.select().from(drivers).where(and(...driverConditions));
+    if (activeDrivers.length === 0) {
+      return [];
+    }
+    const ids = activeDrivers.map(d => d.id);
+
+    const events = await db
+      .select({ driver_id: drivingEvents.driver_id, event_type: drivingEvents.event_type, severity: drivingEvents.severity })
+      .from(drivingEvents)
+      .where(and(inArray(drivingEvents.driver_id, ids), gte(drivingEvents.started_at, from), lte(drivingEvents.started_at, to)));
+
+    const trips = await db
+      .select({
+        driver_id: bookings.assigned_driver_id,
+        total_distance: bookings.total_distance,
+        actual_distance: bookings.actual_distance
+      })
+      .from(bookings)
+      .where(
+        and(
+          inArray(bookings.assigned_driver_id, ids),
+          eq(bookings.status, BookingStatus.COMPLETED),
+          isNotNull(bookings.completed_at),
+          gte(bookings.completed_at, from),
+          lte(bookings.completed_at, to)
+        )
+      );
+
+    return activeDrivers
+      .map(driver => {
+        const driverEvents = events.filter(e => e.driver_id === driver.id);
+        const distanceKm = trips
+          .filter(t => t.driver_id === driver.id)
+          .reduce((sum, t) => sum + Number(t.actual_distance ?? t.total_distance ?? 0), 0);
+        const penaltyPoints = driverEvents.reduce((sum, e) => sum + (SEVERITY_POINTS[e.severity] || 0), 0);
+        const eventCounts: Record<string, number> = Object.fromEntries(
+          Object.values(DrivingEventType).map(type => [type, driverEvents.filter(e => e.event_type === type).length])
+        );
+        const perHundredKm = penaltyPoints / Math.max(distanceKm, MIN_SCORED_DISTANCE_KM) * 100;
+        return {
+          driverId: driver.id,
+          driverName: driver.name,
+          employeeId: driver.employee_id,
+          score: Math.max(0, Math.round(100 - perHundredKm)),
+          distanceKm: Math.round(distanceKm * 10) / 10,
+          eventCounts,
+          penaltyPoints
+        };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // Events belong to whoever is driving the trip under way on the vehicle
+  private static async getTripAttribution(vehicle: VehicleMaster): Promise<TripAttribution> {
+    const [trip] = await db
+      .select({ booking_id: bookings.id, driver_id: bookings.assigned_driver_id })
+      .from(bookings)
+      .innerJoin(vehicles, eq(bookings.assigned_vehicle_id, vehicles.vehicle_number))
+      .where(and(eq(vehicles.registration_number, vehicle.registration_number), eq(bookings.status, BookingStatus.IN_PROGRESS)))
+      .limit(1);
+    return { booking_id: trip?.booking_id ?? null, driver_id: trip?.driver_id ?? null };
+  }
+
+  private static speedingSeverity(excessKmh: number): string {
+    if (excessKmh > 30) {
+      return DrivingEventSeverity.HIGH;
+    }
+    return excessKmh > 15 ? DrivingEventSeverity.MEDIUM : DrivingEventSeverity.LOW;
+  }
+}
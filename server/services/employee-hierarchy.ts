@@ -1,6 +1,6 @@
 import { eq } from 'drizzle-orm';
 import { db } from '../db';
-import { employees, EmployeeDesignation, HierarchyLevel } from '@shared/schema';
+import { employees, EmployeeDesignation, HierarchyLevel, type Employee } from '@shared/schema';
 
 export class EmployeeHierarchyService {
   // Get the hierarchy level based on designation
@@ -79,6 +79,23 @@ export class EmployeeHierarchyService {
     };
   }
 
+  // Get an employee's active direct supervisor
+  static async getSupervisor(employeeId: number): Promise<Employee | null> {
+    const employee = await db.query.employees.findFirst({
+      where: eq(employees.id, employeeId)
+    });
+
+    if (!employee?.supervisor_id) {
+      return null;
+    }
+
+    const supervisor = await db.query.employees.findFirst({
+      where: eq(employees.id, employee.supervisor_id)
+    });
+
+    return supervisor?.is_active ? supervisor : null;
+  }
+
   // Get all employees under a supervisor (direct and indirect reports)
   static async getSubordinateHierarchy(supervisorId: number): Promise<any[]> {
     const directReports = await db.query.employees.findMany({
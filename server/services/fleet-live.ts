@@ -0,0 +1,275 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import { WebSocketServer, WebSocket } from 'ws';
+import { and, asc, desc, eq, inArray, or, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  bookings,
+  telematicsPings,
+  vehicleMaster,
+  vehicles,
+  users,
+  BookingStatus
+} from '@shared/schema';
+import { getCoordinates, type Coordinates } from './geo-utils';
+import { DataScopeService, DataScopeError, type DataScope } from './data-scope';
+import { verifyToken } from '../auth/token-service';
+import { getPermissionsForUser, Permission } from '@shared/schema/permissions';
+
+export const FLEET_SOCKET_PATH = '/ws/fleet';
+
+// Dead connections are dropped when they miss a heartbeat
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export interface LiveVehicleBooking {
+  id: number;
+  reference_no: string | null;
+  status: string;
+  pickup_time: Date | null;
+}
+
+export interface LiveVehicle {
+  vehicleId: number;
+  vehicleNumber: string;
+  name: string;
+  status: string;
+  position: Coordinates | null;
+  speed: number | null;
+  heading: number | null;
+  ignition: boolean | null;
+  recordedAt: Date | null;
+  currentBooking: LiveVehicleBooking | null;
+}
+
+export interface GeofenceAlertNotice {
+  eventId: number;
+  geofenceName: string;
+  vehicleCode: string;
+  registrationNumber: string;
+  occurredAt: Date;
+}
+
+export type FleetMessage =
+  | { type: 'snapshot'; vehicles: LiveVehicle[] }
+  | { type: 'vehicle_update'; vehicle: LiveVehicle }
+  | { type: 'geofence_alert'; alert: GeofenceAlertNotice };
+
+// Which vehicles changed; bookings know them by vehicle number, work orders and devices by registration
+export interface VehicleSelector {
+  vehicleNumbers?: string[];
+  registrationNumbers?: string[];
+}
+
+// Set once the connecting user's data scope is known; updates are withheld until then
+type FleetClient = WebSocket & { isAlive?: boolean; dataScope?: DataScope | null };
+
+const ACTIVE_BOOKING_STATUSES: string[] = [BookingStatus.IN_PROGRESS, BookingStatus.CONFIRMED];
+
+export class FleetLiveService {
+  private static wss: WebSocketServer | null = null;
+
+  // Share the HTTP server's port; other upgrades (Vite HMR) are left for their own listeners
+  static attach(server: Server): void {
+    const wss = new WebSocketServer({ noServer: true });
+    this.wss = wss;
+
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const url = new URL(req.url || '', 'http://localhost');
+      if (url.pathname !== FLEET_SOCKET_PATH) {
+        return;
+      }
+
+      // Browsers cannot set headers on a WebSocket handshake, so the token travels in the query string
+      let userId: number;
+      try {
+        // Refuses expired tokens, tokens without a session and tokens of signed-out sessions
+        const decoded = verifyToken(url.searchParams.get('token') || '');
+        if (!decoded.userId) {
+          throw new Error('Token has no user');
+        }
+        userId = decoded.userId;
+      } catch {
+        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req, userId));
+    });
+
+    wss.on('connection', async (ws: FleetClient, _req: IncomingMessage, userId: number) => {
+      ws.isAlive = true;
+      ws.on('pong', () => { ws.isAlive = true; });
+
+      try {
+        const [user] = await db.select().from(users).where(eq(users.id, userId));
+        if (!user || !user.is_active) {
+          ws.close(1008, 'User account not found or inactive');
+          return;
+        }
+        // Same permission as the fleet REST endpoint
+        if (!getPermissionsForUser(user).includes(Permission.FLEET_VIEW)) {
+          console.warn(`[FLEET-LIVE] User ${user.id} denied fleet socket: missing ${Permission.FLEET_VIEW}`);
+          ws.close(1008, `Missing permission: ${Permission.FLEET_VIEW}`);
+          return;
+        }
+        ws.dataScope = await DataScopeService.getScopeForUser(user);
+        this.send(ws, { type: 'snapshot', vehicles: await this.getVehicles(undefined, ws.dataScope) });
+      } catch (error) {
+        if (error instanceof DataScopeError) {
+          ws.close(1008, error.message);
+          return;
+        }
+        console.error('[FLEET-LIVE] Error sending fleet snapshot:', error);
+      }
+    });
+
+    const heartbeat = setInterval(() => {
+      wss.clients.forEach((client: WebSocket & { isAlive?: boolean }) => {
+        if (client.isAlive === false) {
+          client.terminate();
+          return;
+        }
+        client.isAlive = false;
+        client.ping();
+      });
+    }, HEARTBEAT_INTERVAL_MS);
+    wss.on('close', () => clearInterval(heartbeat));
+  }
+
+  // Live state of active vehicles, optionally narrowed to the ones that changed and to a data scope
+  static async getVehicles(selector: VehicleSelector | undefined, scope: DataScope | null): Promise<LiveVehicle[]> {
+    const filters: SQL[] = [];
+    if (selector?.vehicleNumbers?.length) {
+      filters.push(inArray(vehicles.vehicle_number, selector.vehicleNumbers));
+    }
+    if (selector?.registrationNumbers?.length) {
+      filters.push(inArray(vehicles.registration_number, selector.registrationNumbers));
+    }
+    if (selector && filters.length === 0) {
+      return [];
+    }
+
+    const fleet = await db
+      .select()
+      .from(vehicles)
+      .where(
+        and(
+          eq(vehicles.is_active, true),
+          filters.length > 0 ? or(...filters) : undefined,
+          scope ? DataScopeService.vehicleCondition(scope) : undefined
+        )
+      );
+    if (fleet.length === 0) {
+      return [];
+    }
+
+    // Newest ping per device-fitted vehicle
+    const pings = await db
+      .selectDistinctOn([telematicsPings.vehicle_id], {
+        registration_number: vehicleMaster.registration_number,
+        lat: telematicsPings.lat,
+        lng: telematicsPings.lng,
+        speed: telematicsPings.speed,
+        heading: telematicsPings.heading,
+        ignition: telematicsPings.ignition,
+        recorded_at: telematicsPings.recorded_at
+      })
+      .from(telematicsPings)
+      .innerJoin(vehicleMaster, eq(telematicsPings.vehicle_id, vehicleMaster.id))
+      .where(inArray(vehicleMaster.registration_number, fleet.map(v => v.registration_number)))
+      .orderBy(telematicsPings.vehicle_id, desc(telematicsPings.recorded_at));
+    const pingByRegistration = new Map(pings.map(p => [p.registration_number, p]));
+
+    // A trip under way wins over the next confirmed one
+    const activeBookings = await db
+      .select({
+        id: bookings.id,
+        reference_no: bookings.reference_no,
+        status: bookings.status,
+        pickup_time: bookings.pickup_time,
+        assigned_vehicle_id: bookings.assigned_vehicle_id
+      })
+      .from(bookings)
+      .where(
+        and(
+          inArray(bookings.assigned_vehicle_id, fleet.map(v => v.vehicle_number)),
+          inArray(bookings.status, ACTIVE_BOOKING_STATUSES)
+        )
+      )
+      .orderBy(asc(bookings.pickup_time));
+    const bookingByVehicle = new Map<string, LiveVehicleBooking>();
+    for (const booking of activeBookings) {
+      const current = bookingByVehicle.get(booking.assigned_vehicle_id!);
+      if (!current || (booking.status === BookingStatus.IN_PROGRESS && current.status !== BookingStatus.IN_PROGRESS)) {
+        const { assigned_vehicle_id, ...rest } = booking;
+        bookingByVehicle.set(assigned_vehicle_id!, rest);
+      }
+    }
+
+    return fleet.map(vehicle => {
+      const ping = pingByRegistration.get(vehicle.registration_number);
+      return {
+        vehicleId: vehicle.id,
+        vehicleNumber: vehicle.vehicle_number,
+        name: vehicle.name,
+        status: vehicle.status,
+        position: ping ? { lat: Number(ping.lat), lng: Number(ping.lng) } : getCoordinates(vehicle.current_location),
+        speed: ping?.speed != null ? Number(ping.speed) : null,
+        heading: ping?.heading ?? null,
+        ignition: ping?.ignition ?? null,
+        recordedAt: ping?.recorded_at ?? null,
+        currentBooking: bookingByVehicle.get(vehicle.vehicle_number) || null
+      };
+    });
+  }
+
+  // Push the current state of the given vehicles to every client whose scope includes them; call
+  // after the change has been committed
+  static notify(selector: VehicleSelector): void {
+    if (!this.wss || this.wss.clients.size === 0) {
+      return;
+    }
+
+    const audiences = new Map<string, { scope: DataScope | null; clients: FleetClient[] }>();
+    this.wss.clients.forEach((client: FleetClient) => {
+      if (client.dataScope === undefined) {
+        return;
+      }
+      const key = JSON.stringify(client.dataScope);
+      const audience = audiences.get(key) ?? { scope: client.dataScope, clients: [] };
+      audience.clients.push(client);
+      audiences.set(key, audience);
+    });
+
+    audiences.forEach(({ scope, clients }) => {
+      this.getVehicles(selector, scope)
+        .then(changed => changed.forEach(vehicle =>
+          clients.forEach(client => this.send(client, { type: 'vehicle_update', vehicle }))
+        ))
+        .catch(error => console.error('[FLEET-LIVE] Error broadcasting vehicle update:', error));
+    });
+  }
+
+  // Alert the clients whose scope includes the vehicle; vehicleScope is the unit the vehicle's
+  // master record belongs to
+  static notifyGeofenceAlert(alert: GeofenceAlertNotice, vehicleScope: DataScope): void {
+    this.wss?.clients.forEach((client: FleetClient) => {
+      if (client.dataScope === undefined || !DataScopeService.includes(client.dataScope, vehicleScope)) {
+        return;
+      }
+      this.send(client, { type: 'geofence_alert', alert });
+    });
+  }
+
+  private static send(client: WebSocket, message: FleetMessage): void {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(message));
+    }
+  }
+}
+
+export function initializeFleetSocket(server: Server) {
+  FleetLiveService.attach(server);
+  console.log(`Fleet live socket listening on ${FLEET_SOCKET_PATH}`);
+}
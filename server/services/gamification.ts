@@ -0,0 +1,467 @@
+import cron from 'node-cron';
+import { and, count, desc, eq, gte, inArray, isNotNull, isNull, min, or, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  achievementNotifications,
+  achievementProgress,
+  achievements,
+  bookings,
+  drivingEvents,
+  employees,
+  vehicleMaster,
+  AchievementCriteria,
+  AchievementScope,
+  BookingStatus,
+  DrivingEventType,
+  type AchievementDefinition,
+  type AchievementProgress
+} from '@shared/schema';
+import { ACHIEVEMENT_CATEGORIES, type Achievement, type AchievementUnlock } from '@shared/schema/achievements';
+import { SAFETY_EVENT_TYPES } from './driving-safety';
+
+// A user, or a department, whose trips an achievement is measured against
+interface AchievementScopeContext {
+  scopeType: string;
+  scopeKey: string;
+  department: string | null;
+  employeeIds: number[];
+  // Who hears about an unlock in this scope
+  userIds: number[];
+}
+
+export interface EvaluationResult {
+  evaluated: number;
+  unlocked: number;
+  failed: number;
+}
+
+// Returns the scope's current value in the unit of the achievement's target
+type CriterionEvaluator = (achievement: AchievementDefinition, scope: AchievementScopeContext, now: Date) => Promise<number>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_ACHIEVEMENTS: (typeof achievements.$inferInsert)[] = [
+  {
+    code: 'ECO_WARRIOR',
+    name: 'Eco Warrior',
+    description: 'Keep department trip CO2 emissions under 500 kg a day for 30 days',
+    icon: 'leaf',
+    criteria: AchievementCriteria.CO2_EMISSIONS_TARGET,
+    scope: AchievementScope.DEPARTMENT,
+    target: '30',
+    threshold: '500',
+    badge_color: ACHIEVEMENT_CATEGORIES.ECO_FRIENDLY
+  },
+  {
+    code: 'GREEN_TRAVELLER',
+    name: 'Green Traveller',
+    description: 'Keep your own trip CO2 emissions under 50 kg a day for 30 days',
+    icon: 'leaf',
+    criteria: AchievementCriteria.CO2_EMISSIONS_TARGET,
+    scope: AchievementScope.USER,
+    target: '30',
+    threshold: '50',
+    badge_color: ACHIEVEMENT_CATEGORIES.ECO_FRIENDLY
+  },
+  {
+    code: 'EFFICIENCY_MASTER',
+    name: 'Efficiency Master',
+    description: 'Complete 95% of department trips over 30 days without excessive idling',
+    icon: 'gauge',
+    criteria: AchievementCriteria.FUEL_EFFICIENCY,
+    scope: AchievementScope.DEPARTMENT,
+    target: '95',
+    window_days: 30,
+    badge_color: ACHIEVEMENT_CATEGORIES.FUEL_EFFICIENCY
+  },
+  {
+    code: 'SAFETY_CHAMPION',
+    name: 'Safety Champion',
+    description: 'No speeding or harsh driving on department trips for 60 days',
+    icon: 'shield',
+    criteria: AchievementCriteria.SAFETY_RECORD,
+    scope: AchievementScope.DEPARTMENT,
+    target: '60',
+    badge_color: ACHIEVEMENT_CATEGORIES.SAFETY
+  },
+  {
+    code: 'FLEET_EXPERT',
+    name: 'Fleet Expert',
+    description: 'Manage 50 or more vehicles in the department',
+    icon: 'star',
+    criteria: AchievementCriteria.FLEET_SIZE,
+    scope: AchievementScope.DEPARTMENT,
+    target: '50',
+    badge_color: ACHIEVEMENT_CATEGORIES.MANAGEMENT
+  }
+];
+
+export class GamificationError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'GamificationError';
+  }
+}
+
+export class GamificationService {
+  private static evaluators: Record<string, CriterionEvaluator> = {
+    // Consecutive days, counting back from today, with the scope's trip emissions under the daily threshold
+    [AchievementCriteria.CO2_EMISSIONS_TARGET]: async (achievement, scope, now) => {
+      const days = Math.ceil(Number(achievement.target));
+      const trips = await GamificationService.getCompletedTrips(scope, new Date(now.getTime() - days * DAY_MS));
+      // With no trips at all there is no record to reward
+      if (trips.length === 0) {
+        return 0;
+      }
+      const dailyKg = new Map<string, number>();
+      for (const trip of trips) {
+        const day = trip.completed_at!.toISOString().slice(0, 10);
+        // Emissions from the fuel the driver reported, or the booking estimate
+        dailyKg.set(day, (dailyKg.get(day) || 0) + Number(trip.actual_co2_emissions ?? trip.co2_emissions ?? 0));
+      }
+      const limit = Number(achievement.threshold ?? 0);
+      let streak = 0;
+      while (streak < days && (dailyKg.get(new Date(now.getTime() - streak * DAY_MS).toISOString().slice(0, 10)) || 0) <= limit) {
+        streak++;
+      }
+      return streak;
+    },
+
+    // Percentage of trips in the window completed without an excessive idling event
+    [AchievementCriteria.FUEL_EFFICIENCY]: async (achievement, scope, now) => {
+      const trips = await GamificationService.getCompletedTrips(scope, new Date(now.getTime() - achievement.window_days * DAY_MS));
+      if (trips.length === 0) {
+        return 0;
+      }
+      const idled = await db
+        .selectDistinct({ booking_id: drivingEvents.booking_id })
+        .from(drivingEvents)
+        .where(
+          and(
+            inArray(drivingEvents.booking_id, trips.map(t => t.id)),
+            eq(drivingEvents.event_type, DrivingEventType.EXCESSIVE_IDLING)
+          )
+        );
+      return Math.round((1 - idled.length / trips.length) * 1000) / 10;
+    },
+
+    // Days since the last speeding or harsh driving event on the scope's trips, or since its first trip
+    [AchievementCriteria.SAFETY_RECORD]: async (_achievement, scope, now) => {
+      if (scope.employeeIds.length === 0) {
+        return 0;
+      }
+      const [lastIncident] = await db
+        .select({ started_at: drivingEvents.started_at })
+        .from(drivingEvents)
+        .innerJoin(bookings, eq(drivingEvents.booking_id, bookings.id))
+        .where(and(inArray(bookings.employee_id, scope.employeeIds), inArray(drivingEvents.event_type, SAFETY_EVENT_TYPES)))
+        .orderBy(desc(drivingEvents.started_at))
+        .limit(1);
+      let since: Date | null = lastIncident?.started_at ?? null;
+      if (!since) {
+        const [firstTrip] = await db
+          .select({ completed_at: min(bookings.completed_at) })
+          .from(bookings)
+          .where(and(inArray(bookings.employee_id, scope.employeeIds), eq(bookings.status, BookingStatus.COMPLETED)));
+        since = firstTrip?.completed_at ?? null;
+      }
+      return since ? Math.max(0, Math.floor((now.getTime() - since.getTime()) / DAY_MS)) : 0;
+    },
+
+    // Vehicles registered to the department; a user is measured by their own department
+    [AchievementCriteria.FLEET_SIZE]: async (_achievement, scope) => {
+      if (!scope.department) {
+        return 0;
+      }
+      const [result] = await db
+        .select({ total: count() })
+        .from(vehicleMaster)
+        .where(eq(vehicleMaster.department, scope.department));
+      return result?.total ?? 0;
+    }
+  };
+
+  // Add any default achievement missing from the table; existing definitions are left as edited
+  static async seedDefaults(): Promise<void> {
+    const inserted = await db
+      .insert(achievements)
+      .values(DEFAULT_ACHIEVEMENTS)
+      .onConflictDoNothing({ target: achievements.code })
+      .returning({ id: achievements.id });
+    if (inserted.length > 0) {
+      console.log(`[ACHIEVEMENTS] Seeded ${inserted.length} default achievement(s)`);
+    }
+  }
+
+  // Re-measure every active achievement for every user or department it applies to
+  static async evaluateAll(now: Date = new Date()): Promise<EvaluationResult> {
+    const definitions = await db.select().from(achievements).where(eq(achievements.is_active, true));
+    const scopes = await this.getScopes();
+    const result: EvaluationResult = { evaluated: 0, unlocked: 0, failed: 0 };
+
+    for (const achievement of definitions) {
+      const evaluate = this.evaluators[achievement.criteria];
+      if (!evaluate) {
+        console.warn(`[ACHIEVEMENTS] No evaluator for criteria ${achievement.criteria} (${achievement.code})`);
+        continue;
+      }
+      // One failing scope must not stop the rest of the run
+      for (const scope of scopes.filter(s => s.scopeType === achievement.scope)) {
+        try {
+          const value = await evaluate(achievement, scope, now);
+          if (await this.recordProgress(achievement, scope, value, now)) {
+            result.unlocked++;
+          }
+          result.evaluated++;
+        } catch (error: any) {
+          console.error(`[ACHIEVEMENTS] Failed to evaluate ${achievement.code} for ${scope.scopeType} ${scope.scopeKey}:`, error.message);
+          result.failed++;
+        }
+      }
+    }
+
+    console.log(`[ACHIEVEMENTS] Evaluated ${result.evaluated} achievement scope(s), ${result.unlocked} unlocked, ${result.failed} failed`);
+    return result;
+  }
+
+  // Active achievements with the user's own progress, or their department's for department achievements
+  static async getAchievementsForUser(userId: number): Promise<Achievement[]> {
+    const definitions = await db
+      .select()
+      .from(achievements)
+      .where(eq(achievements.is_active, true))
+      .orderBy(achievements.id);
+    const department = await this.getUserDepartment(userId);
+
+    const scopeConditions: SQL[] = [
+      and(eq(achievementProgress.scope_type, AchievementScope.USER), eq(achievementProgress.scope_key, String(userId)))!
+    ];
+    if (department) {
+      scopeConditions.push(
+        and(eq(achievementProgress.scope_type, AchievementScope.DEPARTMENT), eq(achievementProgress.scope_key, department))!
+      );
+    }
+    const progressRows = definitions.length > 0
+      ? await db
+        .select()
+        .from(achievementProgress)
+        .where(
+          and(
+            inArray(achievementProgress.achievement_id, definitions.map(d => d.id)),
+            or(...scopeConditions)
+          )
+        )
+      : [];
+
+    return definitions.map(achievement => {
+      const row = progressRows.find(p => p.achievement_id === achievement.id && p.scope_type === achievement.scope);
+      return this.toAchievement(achievement, row);
+    });
+  }
+
+  static async getAchievementForUser(userId: number, id: number): Promise<Achievement> {
+    const achievement = (await this.getAchievementsForUser(userId)).find(a => a.id === id);
+    if (!achievement) {
+      throw new GamificationError('Achievement not found', 404);
+    }
+    return achievement;
+  }
+
+  // Unlocks the user has not been shown yet, oldest first
+  static async getUnseenUnlocks(userId: number): Promise<AchievementUnlock[]> {
+    const rows = await db
+      .select({ notification: achievementNotifications, achievement: achievements })
+      .from(achievementNotifications)
+      .innerJoin(achievements, eq(achievementNotifications.achievement_id, achievements.id))
+      .where(and(eq(achievementNotifications.user_id, userId), isNull(achievementNotifications.seen_at)))
+      .orderBy(achievementNotifications.unlocked_at);
+
+    return rows.map(({ notification, achievement }) => ({
+      id: notification.id,
+      achievementId: achievement.id,
+      name: achievement.name,
+      description: achievement.description,
+      badgeColor: achievement.badge_color,
+      unlockedAt: notification.unlocked_at.toISOString()
+    }));
+  }
+
+  static async markUnlocksSeen(userId: number, ids: number[]): Promise<number> {
+    if (ids.length === 0) {
+      return 0;
+    }
+    const updated = await db
+      .update(achievementNotifications)
+      .set({ seen_at: new Date() })
+      .where(
+        and(
+          eq(achievementNotifications.user_id, userId),
+          inArray(achievementNotifications.id, ids),
+          isNull(achievementNotifications.seen_at)
+        )
+      )
+      .returning({ id: achievementNotifications.id });
+    return updated.length;
+  }
+
+  // Store the latest value; returns true when this evaluation unlocked the achievement. The row is
+  // created if missing and then locked, so concurrent runs cannot both unlock (and notify) it.
+  private static async recordProgress(
+    achievement: AchievementDefinition,
+    scope: AchievementScopeContext,
+    value: number,
+    now: Date
+  ): Promise<boolean> {
+    const target = Number(achievement.target);
+    const progress = target > 0 ? Math.min(1, value / target) : 0;
+
+    return await db.transaction(async (tx) => {
+      await tx
+        .insert(achievementProgress)
+        .values({
+          achievement_id: achievement.id,
+          scope_type: scope.scopeType,
+          scope_key: scope.scopeKey,
+          evaluated_at: now
+        })
+        .onConflictDoNothing({
+          target: [achievementProgress.achievement_id, achievementProgress.scope_type, achievementProgress.scope_key]
+        });
+
+      const [existing] = await tx
+        .select()
+        .from(achievementProgress)
+        .where(
+          and(
+            eq(achievementProgress.achievement_id, achievement.id),
+            eq(achievementProgress.scope_type, scope.scopeType),
+            eq(achievementProgress.scope_key, scope.scopeKey)
+          )
+        )
+        .for('update');
+      const unlocked = !existing.is_completed && target > 0 && value >= target;
+
+      await tx
+        .update(achievementProgress)
+        .set({
+          current_value: value.toString(),
+          progress: progress.toFixed(4),
+          is_completed: existing.is_completed || unlocked,
+          unlocked_at: existing.unlocked_at ?? (unlocked ? now : null),
+          evaluated_at: now
+        })
+        .where(eq(achievementProgress.id, existing.id));
+
+      if (unlocked && scope.userIds.length > 0) {
+        await tx.insert(achievementNotifications).values(
+          scope.userIds.map(userId => ({ user_id: userId, achievement_id: achievement.id, unlocked_at: now }))
+        );
+        console.log(`[ACHIEVEMENTS] ${achievement.name} unlocked for ${scope.scopeType} ${scope.scopeKey}`);
+      }
+      return unlocked;
+    });
+  }
+
+  // Every user with an employee record, and every department with active employees
+  private static async getScopes(): Promise<AchievementScopeContext[]> {
+    const staff = await db
+      .select({ id: employees.id, user_id: employees.user_id, department: employees.department })
+      .from(employees)
+      .where(eq(employees.is_active, true));
+
+    const byUser = new Map<number, AchievementScopeContext>();
+    const byDepartment = new Map<string, AchievementScopeContext>();
+    for (const employee of staff) {
+      const department = byDepartment.get(employee.department) || {
+        scopeType: AchievementScope.DEPARTMENT,
+        scopeKey: employee.department,
+        department: employee.department,
+        employeeIds: [],
+        userIds: []
+      };
+      department.employeeIds.push(employee.id);
+      byDepartment.set(employee.department, department);
+
+      if (employee.user_id) {
+        const user = byUser.get(employee.user_id) || {
+          scopeType: AchievementScope.USER,
+          scopeKey: String(employee.user_id),
+          department: employee.department,
+          employeeIds: [],
+          userIds: [employee.user_id]
+        };
+        user.employeeIds.push(employee.id);
+        byUser.set(employee.user_id, user);
+        if (!department.userIds.includes(employee.user_id)) {
+          department.userIds.push(employee.user_id);
+        }
+      }
+    }
+    return [...Array.from(byUser.values()), ...Array.from(byDepartment.values())];
+  }
+
+  private static async getCompletedTrips(scope: AchievementScopeContext, from: Date) {
+    if (scope.employeeIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select({
+        id: bookings.id,
+        completed_at: bookings.completed_at,
+        co2_emissions: bookings.co2_emissions,
+        actual_co2_emissions: bookings.actual_co2_emissions
+      })
+      .from(bookings)
+      .where(
+        and(
+          inArray(bookings.employee_id, scope.employeeIds),
+          eq(bookings.status, BookingStatus.COMPLETED),
+          isNotNull(bookings.completed_at),
+          gte(bookings.completed_at, from)
+        )
+      );
+  }
+
+  private static async getUserDepartment(userId: number): Promise<string | null> {
+    const [employee] = await db
+      .select({ department: employees.department })
+      .from(employees)
+      .where(and(eq(employees.user_id, userId), eq(employees.is_active, true)))
+      .limit(1);
+    return employee?.department ?? null;
+  }
+
+  private static toAchievement(achievement: AchievementDefinition, row?: AchievementProgress): Achievement {
+    return {
+      id: achievement.id,
+      name: achievement.name,
+      description: achievement.description,
+      icon: achievement.icon,
+      criteria: achievement.criteria,
+      scope: achievement.scope,
+      currentValue: row ? Number(row.current_value) : 0,
+      target: Number(achievement.target),
+      progress: row?.is_completed ? 1 : row ? Number(row.progress) : 0,
+      isCompleted: row?.is_completed ?? false,
+      unlockedAt: row?.unlocked_at ? row.unlocked_at.toISOString() : null,
+      badgeColor: achievement.badge_color
+    };
+  }
+}
+
+// Seed the default achievements, then re-evaluate progress every hour
+export function initializeAchievementJob() {
+  GamificationService.seedDefaults()
+    .then(() => GamificationService.evaluateAll())
+    .catch(error => console.error('Error initializing achievements:', error));
+
+  cron.schedule('0 * * * *', async () => {
+    console.log('Running scheduled achievement evaluation job');
+    try {
+      await GamificationService.evaluateAll();
+    } catch (error) {
+      console.error('Error running achievement evaluation job:', error);
+    }
+  });
+  console.log('Achievement evaluation job scheduled');
+}
@@ -0,0 +1,86 @@
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Great-circle distance between two points in km (haversine formula)
+export function calculateDistanceKm(from: Coordinates, to: Coordinates): number {
+  const lat1 = from.lat * Math.PI / 180;
+  const lat2 = to.lat * Math.PI / 180;
+  const dLat = (to.lat - from.lat) * Math.PI / 180;
+  const dLon = (to.lng - from.lng) * Math.PI / 180;
+
+  const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1) * Math.cos(lat2) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_KM * c;
+}
+
+// Total length of a path visiting the given points in order
+export function calculatePathDistanceKm(points: Coordinates[]): number {
+  let total = 0;
+  for (let i = 1; i < points.length; i++) {
+    total += calculateDistanceKm(points[i - 1], points[i]);
+  }
+  return total;
+}
+
+// Shortest distance in km from a point to the straight segment between two points, on a local
+// flat projection that is accurate enough at city scale
+export function distanceToSegmentKm(point: Coordinates, from: Coordinates, to: Coordinates): number {
+  const kmPerDegLat = Math.PI * EARTH_RADIUS_KM / 180;
+  const kmPerDegLng = kmPerDegLat * Math.cos(point.lat * Math.PI / 180);
+  const project = (c: Coordinates) => ({ x: (c.lng - point.lng) * kmPerDegLng, y: (c.lat - point.lat) * kmPerDegLat });
+
+  const a = project(from);
+  const b = project(to);
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+  return Math.hypot(a.x + t * dx, a.y + t * dy);
+}
+
+// Ray casting test; the polygon is closed implicitly between its last and first vertex
+export function isPointInPolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses = (a.lat > point.lat) !== (b.lat > point.lat) &&
+      point.lng < (b.lng - a.lng) * (point.lat - a.lat) / (b.lat - a.lat) + a.lng;
+    if (crosses) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Extract coordinates from a stored location, which may arrive as a JSON string
+export function getCoordinates(location: any): Coordinates | null {
+  if (!location) {
+    return null;
+  }
+
+  const parsed = typeof location === 'string' ? safeParse(location) : location;
+  const lat = Number(parsed?.coordinates?.lat);
+  const lng = Number(parsed?.coordinates?.lng);
+
+  if (isNaN(lat) || isNaN(lng) || (lat === 0 && lng === 0)) {
+    return null;
+  }
+
+  return { lat, lng };
+}
+
+function safeParse(value: string): any {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
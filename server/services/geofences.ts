@@ -0,0 +1,335 @@
+import { and, asc, desc, eq, gte, inArray, isNull, lte, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  bookings,
+  geofenceEvents,
+  geofencePresence,
+  geofences,
+  vehicleMaster,
+  vehicles,
+  BookingStatus,
+  GeofenceCategory,
+  GeofenceEventType,
+  GeofenceShape,
+  type Geofence,
+  type GeofenceEvent,
+  type InsertGeofence,
+  type VehicleMaster
+} from '@shared/schema';
+import { storage } from '../storage';
+import { DataScopeService, type DataScope } from './data-scope';
+import { calculateDistanceKm, getCoordinates, isPointInPolygon, type Coordinates } from './geo-utils';
+import { IMMINENT_BOOKING_MINUTES } from './resource-status';
+import { FleetLiveService } from './fleet-live';
+
+export interface GeofencePosition extends Coordinates {
+  recorded_at: Date;
+}
+
+export interface GeofenceEventFilters {
+  vehicleId?: number;
+  geofenceId?: number;
+  from?: Date;
+  to?: Date;
+}
+
+export interface GeofenceEventDetail extends GeofenceEvent {
+  geofence_name: string;
+  geofence_category: string;
+  vehicle_code: string;
+  registration_number: string;
+}
+
+const MAX_EVENTS = 500;
+
+export class GeofenceError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'GeofenceError';
+  }
+}
+
+export class GeofenceService {
+  static contains(geofence: Geofence, point: Coordinates): boolean {
+    if (geofence.shape === GeofenceShape.CIRCLE) {
+      return !!geofence.center && !!geofence.radius_m &&
+        calculateDistanceKm(geofence.center, point) * 1000 <= geofence.radius_m;
+    }
+    return !!geofence.polygon && geofence.polygon.length >= 3 && isPointInPolygon(point, geofence.polygon);
+  }
+
+  static async getGeofences(includeInactive = false): Promise<Geofence[]> {
+    return await db
+      .select()
+      .from(geofences)
+      .where(includeInactive ? undefined : eq(geofences.is_active, true))
+      .orderBy(asc(geofences.name));
+  }
+
+  static async getGeofence(id: number): Promise<Geofence> {
+    const [geofence] = await db.select().from(geofences).where(eq(geofences.id, id));
+    if (!geofence) {
+      throw new GeofenceError(`Geofence with ID ${id} not found`, 404);
+    }
+    return geofence;
+  }
+
+  static async createGeofence(data: InsertGeofence, createdBy?: number): Promise<Geofence> {
+    const [created] = await db
+      .insert(geofences)
+      .values({
+        ...this.normalizeShape(data),
+        created_by: createdBy ?? null,
+        created_at: new Date(),
+        updated_at: new Date()
+      })
+      .returning();
+    console.log(`[GEOFENCE] Created ${created.shape} geofence ${created.id} (${created.name})`);
+    return created;
+  }
+
+  static async updateGeofence(id: number, data: InsertGeofence): Promise<Geofence> {
+    await this.getGeofence(id);
+    const [updated] = await db
+      .update(geofences)
+      .set({ ...this.normalizeShape(data), updated_at: new Date() })
+      .where(eq(geofences.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Events keep pointing at the geofence, so it is deactivated rather than deleted
+  static async deactivateGeofence(id: number): Promise<Geofence> {
+    await this.getGeofence(id);
+    return await db.transaction(async (tx) => {
+      await tx.delete(geofencePresence).where(eq(geofencePresence.geofence_id, id));
+      const [updated] = await tx
+        .update(geofences)
+        .set({ is_active: false, updated_at: new Date() })
+        .where(eq(geofences.id, id))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Events of vehicles in the scope only
+  static async getEvents(
+    filters: GeofenceEventFilters,
+    scope: DataScope | null,
+    alertsOnly = false,
+    includeAcknowledged = true
+  ): Promise<GeofenceEventDetail[]> {
+    const conditions: SQL[] = [];
+    if (scope) {
+      conditions.push(DataScopeService.vehicleMasterCondition(scope));
+    }
+    if (filters.vehicleId) {
+      conditions.push(eq(geofenceEvents.vehicle_id, filters.vehicleId));
+    }
+    if (filters.geofenceId) {
+      conditions.push(eq(geofenceEvents.geofence_id, filters.geofenceId));
+    }
+    if (filters.from) {
+      conditions.push(gte(geofenceEvents.occurred_at, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(geofenceEvents.occurred_at, filters.to));
+    }
+    if (alertsOnly) {
+      conditions.push(eq(geofenceEvents.is_alert, true));
+      if (!includeAcknowledged) {
+        conditions.push(isNull(geofenceEvents.acknowledged_at));
+      }
+    }
+
+    const rows = await db
+      .select({
+        event: geofenceEvents,
+        geofence_name: geofences.name,
+        geofence_category: geofences.category,
+        vehicle_code: vehicleMaster.vehicle_id,
+        registration_number: vehicleMaster.registration_number
+      })
+      .from(geofenceEvents)
+      .innerJoin(geofences, eq(geofenceEvents.geofence_id, geofences.id))
+      .innerJoin(vehicleMaster, eq(geofenceEvents.vehicle_id, vehicleMaster.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(geofenceEvents.occurred_at))
+      .limit(MAX_EVENTS);
+
+    return rows.map(({ event, ...names }) => ({ ...event, ...names }));
+  }
+
+  static async acknowledgeAlert(id: number, scope: DataScope | null, userId?: number): Promise<GeofenceEvent> {
+    const [row] = await db
+      .select({ event: geofenceEvents })
+      .from(geofenceEvents)
+      .innerJoin(vehicleMaster, eq(geofenceEvents.vehicle_id, vehicleMaster.id))
+      .where(and(eq(geofenceEvents.id, id), scope ? DataScopeService.vehicleMasterCondition(scope) : undefined));
+    const event = row?.event;
+    if (!event || !event.is_alert) {
+      throw new GeofenceError(`Geofence alert with ID ${id} not found`, 404);
+    }
+    if (event.acknowledged_at) {
+      return event;
+    }
+    const [updated] = await db
+      .update(geofenceEvents)
+      .set({ acknowledged_by: userId ?? null, acknowledged_at: new Date() })
+      .where(eq(geofenceEvents.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Walk a vehicle's new positions in time order and record every boundary it crossed
+  static async evaluatePositions(vehicle: VehicleMaster, positions: GeofencePosition[]): Promise<GeofenceEvent[]> {
+    if (positions.length === 0) {
+      return [];
+    }
+    const activeFences = await this.getGeofences();
+    const presence = await db
+      .select()
+      .from(geofencePresence)
+      .where(eq(geofencePresence.vehicle_id, vehicle.id));
+    if (activeFences.length === 0 && presence.length === 0) {
+      return [];
+    }
+
+    const inside = new Map(presence.map(p => [p.geofence_id, p]));
+    const recorded: GeofenceEvent[] = [];
+    const ordered = [...positions].sort((a, b) => a.recorded_at.getTime() - b.recorded_at.getTime());
+
+    for (const position of ordered) {
+      for (const fence of activeFences) {
+        const isInside = this.contains(fence, position);
+        const current = inside.get(fence.id);
+
+        if (isInside && !current) {
+          // A concurrent batch for the same vehicle may have recorded the entry already
+          const [entered] = await db
+            .insert(geofencePresence)
+            .values({ geofence_id: fence.id, vehicle_id: vehicle.id, entered_at: position.recorded_at })
+            .onConflictDoNothing()
+            .returning();
+          if (!entered) {
+            continue;
+          }
+          inside.set(fence.id, entered);
+          const bookingId = await this.applyBookingMilestones(vehicle, fence, position);
+          recorded.push(await this.recordEvent(fence, vehicle.id, GeofenceEventType.ENTRY, position, bookingId));
+        } else if (!isInside && current) {
+          await db.delete(geofencePresence).where(eq(geofencePresence.id, current.id));
+          inside.delete(fence.id);
+          recorded.push(await this.recordEvent(fence, vehicle.id, GeofenceEventType.EXIT, position));
+        } else if (
+          isInside && current && !current.dwell_reported &&
+          position.recorded_at.getTime() - current.entered_at.getTime() >= fence.dwell_minutes * 60 * 1000
+        ) {
+          await db
+            .update(geofencePresence)
+            .set({ dwell_reported: true })
+            .where(eq(geofencePresence.id, current.id));
+          current.dwell_reported = true;
+          recorded.push(await this.recordEvent(fence, vehicle.id, GeofenceEventType.DWELL, position));
+        }
+      }
+    }
+
+    for (const event of recorded.filter(e => e.is_alert)) {
+      const fence = activeFences.find(f => f.id === event.geofence_id)!;
+      console.warn(`[GEOFENCE] Vehicle ${vehicle.vehicle_id} entered restricted zone ${fence.name}`);
+      FleetLiveService.notifyGeofenceAlert({
+        eventId: event.id,
+        geofenceName: fence.name,
+        vehicleCode: vehicle.vehicle_id,
+        registrationNumber: vehicle.registration_number,
+        occurredAt: event.occurred_at
+      }, { region: vehicle.region, department: vehicle.department, unit: vehicle.unit });
+    }
+    return recorded;
+  }
+
+  private static async recordEvent(
+    fence: Geofence,
+    vehicleId: number,
+    eventType: string,
+    position: GeofencePosition,
+    bookingId: number | null = null
+  ): Promise<GeofenceEvent> {
+    const [event] = await db
+      .insert(geofenceEvents)
+      .values({
+        geofence_id: fence.id,
+        vehicle_id: vehicleId,
+        event_type: eventType,
+        occurred_at: position.recorded_at,
+        lat: position.lat.toString(),
+        lng: position.lng.toString(),
+        booking_id: bookingId,
+        is_alert: eventType === GeofenceEventType.ENTRY && fence.category === GeofenceCategory.RESTRICTED
+      })
+      .returning();
+    return event;
+  }
+
+  // Entering the dropoff area completes a trip under way; entering the pickup area marks the
+  // next confirmed trip as arrived. Returns the first booking affected, for the event record.
+  private static async applyBookingMilestones(vehicle: VehicleMaster, fence: Geofence, position: GeofencePosition): Promise<number | null> {
+    const [fleetVehicle] = await db
+      .select({ vehicle_number: vehicles.vehicle_number })
+      .from(vehicles)
+      .where(eq(vehicles.registration_number, vehicle.registration_number));
+    if (!fleetVehicle) {
+      return null;
+    }
+
+    const activeBookings = await db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.assigned_vehicle_id, fleetVehicle.vehicle_number),
+          inArray(bookings.status, [BookingStatus.IN_PROGRESS, BookingStatus.CONFIRMED])
+        )
+      )
+      .orderBy(asc(bookings.pickup_time));
+
+    const affected: number[] = [];
+    for (const booking of activeBookings.filter(b => b.status === BookingStatus.IN_PROGRESS)) {
+      const dropoff = getCoordinates(booking.dropoff_location);
+      if (dropoff && this.contains(fence, dropoff)) {
+        await storage.updateBookingStatus(booking.id, BookingStatus.COMPLETED, {
+          reason: `Vehicle entered geofence ${fence.name} at the dropoff`
+        });
+        affected.push(booking.id);
+      }
+    }
+
+    // Arriving more than the imminent window ahead of pickup is a pass-by, not an arrival
+    const earliestArrival = position.recorded_at.getTime() + IMMINENT_BOOKING_MINUTES * 60 * 1000;
+    const arriving = activeBookings.find(b => {
+      const pickup = getCoordinates(b.pickup_location);
+      return b.status === BookingStatus.CONFIRMED &&
+        !b.pickup_arrived_at &&
+        !!b.pickup_time && b.pickup_time.getTime() <= earliestArrival &&
+        !!pickup && this.contains(fence, pickup);
+    });
+    if (arriving) {
+      await db
+        .update(bookings)
+        .set({ pickup_arrived_at: position.recorded_at, updated_at: new Date() })
+        .where(eq(bookings.id, arriving.id));
+      console.log(`[GEOFENCE] Booking ${arriving.id} vehicle arrived at pickup (${fence.name})`);
+      affected.push(arriving.id);
+    }
+
+    return affected[0] ?? null;
+  }
+
+  // Keep only the fields of the chosen shape
+  private static normalizeShape(data: InsertGeofence): InsertGeofence {
+    return data.shape === GeofenceShape.CIRCLE
+      ? { ...data, polygon: null }
+      : { ...data, center: null, radius_m: null };
+  }
+}
@@ -0,0 +1,146 @@
+import type { Request } from 'express';
+import { and, count, eq, gt, inArray, min, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { loginAttempts, users, LoginAttemptOutcome, type User } from '@shared/schema';
+
+export class LoginBlockedError extends Error {
+  constructor(message: string, public statusCode: number = 423, public retryAfterSeconds: number = 0) {
+    super(message);
+    this.name = 'LoginBlockedError';
+  }
+}
+
+// Whole-number setting from the environment. A value that is not a whole number of at least
+// min stops the server at startup rather than quietly weakening the limit.
+export function integerFromEnv(name: string, fallback: number, min: number = 1): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return fallback;
+  }
+  const value = parseInt(raw, 10);
+  if (!/^\d+$/.test(raw) || value < min) {
+    throw new Error(`${name} must be a whole number of at least ${min}, got "${raw}"`);
+  }
+  return value;
+}
+
+// Wrong passwords in a row before an account is locked
+const MAX_FAILED_ATTEMPTS = integerFromEnv('LOGIN_MAX_FAILED_ATTEMPTS', 5);
+// The first lockout lasts LOGIN_LOCKOUT_MINUTES; each further lockout without a successful
+// sign-in in between doubles it, up to LOGIN_MAX_LOCKOUT_MINUTES
+const LOCKOUT_MINUTES = integerFromEnv('LOGIN_LOCKOUT_MINUTES', 5);
+const MAX_LOCKOUT_MINUTES = integerFromEnv('LOGIN_MAX_LOCKOUT_MINUTES', 1440);
+// Failed attempts one address may make, across all accounts, within the window
+const MAX_IP_FAILURES = integerFromEnv('LOGIN_MAX_IP_FAILURES', 20);
+const IP_WINDOW_MINUTES = integerFromEnv('LOGIN_IP_WINDOW_MINUTES', 15);
+
+// Outcomes that count towards the per-address limit; refused attempts do not extend it
+const COUNTED_FAILURES = [LoginAttemptOutcome.INVALID_PASSWORD, LoginAttemptOutcome.UNKNOWN_USER];
+
+type Outcome = typeof LoginAttemptOutcome[keyof typeof LoginAttemptOutcome];
+
+const secondsUntil = (date: Date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+function describeWait(seconds: number): string {
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+}
+
+export class LoginProtectionService {
+  // Refuse a sign-in before its password is checked, so guesses made while blocked reveal nothing
+  // req.ip is the client's address only when TRUST_PROXY describes the proxies in front of the
+  // server; otherwise every request behind a proxy would share the proxy's limit
+  static async assertAllowed(req: Request, identifier: string, user?: User | null): Promise<void> {
+    const ipAddress = req.ip?.slice(0, 64);
+    if (ipAddress) {
+      const since = new Date(Date.now() - IP_WINDOW_MINUTES * 60 * 1000);
+      const [recent] = await db
+        .select({ failures: count(), oldest: min(loginAttempts.created_at) })
+        .from(loginAttempts)
+        .where(and(
+          eq(loginAttempts.ip_address, ipAddress),
+          inArray(loginAttempts.outcome, COUNTED_FAILURES),
+          gt(loginAttempts.created_at, since)
+        ));
+
+      if (recent.failures >= MAX_IP_FAILURES && recent.oldest) {
+        const retryAfter = secondsUntil(new Date(recent.oldest.getTime() + IP_WINDOW_MINUTES * 60 * 1000));
+        await this.record(req, identifier, user, LoginAttemptOutcome.IP_BLOCKED);
+        throw new LoginBlockedError(
+          `Too many failed sign-in attempts from this address. Try again in ${describeWait(retryAfter)}`,
+          429,
+          retryAfter
+        );
+      }
+    }
+
+    if (user?.locked_until && user.locked_until > new Date()) {
+      const retryAfter = secondsUntil(user.locked_until);
+      await this.record(req, identifier, user, LoginAttemptOutcome.ACCOUNT_LOCKED);
+      throw new LoginBlockedError(
+        `Account is locked after repeated failed sign-in attempts. Try again in ${describeWait(retryAfter)} or ask an administrator to unlock it`,
+        423,
+        retryAfter
+      );
+    }
+  }
+
+  // A wrong password, or a name that matched no account
+  static async recordFailure(req: Request, identifier: string, user?: User | null): Promise<void> {
+    await this.record(
+      req,
+      identifier,
+      user,
+      user ? LoginAttemptOutcome.INVALID_PASSWORD : LoginAttemptOutcome.UNKNOWN_USER
+    );
+    if (!user) return;
+
+    const [updated] = await db
+      .update(users)
+      .set({ failed_login_attempts: sql`${users.failed_login_attempts} + 1` })
+      .where(eq(users.id, user.id))
+      .returning();
+
+    if (updated && updated.failed_login_attempts >= MAX_FAILED_ATTEMPTS) {
+      const minutes = Math.min(LOCKOUT_MINUTES * 2 ** updated.lockout_count, MAX_LOCKOUT_MINUTES);
+      await db
+        .update(users)
+        .set({
+          failed_login_attempts: 0,
+          lockout_count: updated.lockout_count + 1,
+          locked_until: new Date(Date.now() + minutes * 60 * 1000)
+        })
+        .where(eq(users.id, user.id));
+      console.warn(`[LOGIN] Locked user ${user.id} for ${minutes} minutes after ${updated.failed_login_attempts} failed attempts`);
+    }
+  }
+
+  // The password was right; the failure count and backoff start over
+  static async recordSuccess(req: Request, identifier: string, user: User): Promise<void> {
+    await this.record(req, identifier, user, LoginAttemptOutcome.SUCCESS);
+    if (user.failed_login_attempts > 0 || user.lockout_count > 0 || user.locked_until) {
+      await this.unlock(user.id);
+    }
+  }
+
+  static async unlock(userId: number): Promise<User | undefined> {
+    const [user] = await db
+      .update(users)
+      .set({ failed_login_attempts: 0, lockout_count: 0, locked_until: null })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  private static async record(req: Request, identifier: string, user: User | null | undefined, outcome: Outcome): Promise<void> {
+    await db.insert(loginAttempts).values({
+      identifier: identifier.slice(0, 255),
+      user_id: user?.id ?? null,
+      ip_address: req.ip?.slice(0, 64) ?? null,
+      user_agent: req.get('user-agent')?.slice(0, 500) ?? null,
+      outcome
+    });
+  }
+}
@@ -0,0 +1,436 @@
+import cron from 'node-cron';
+import { and, desc, eq, inArray, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  maintenanceAlerts,
+  maintenanceWorkOrders,
+  vehicleMaster,
+  vehicles,
+  vehicleTypeMaster,
+  MaintenanceAlertType,
+  WorkOrderStatus,
+  WorkOrderType,
+  type InsertWorkOrder,
+  type MaintenanceAlert,
+  type MaintenanceWorkOrder,
+  type VehicleMaster,
+  type VehicleTypeMaster
+} from '@shared/schema';
+import { servicePlans } from '../routes/masters';
+import { ResourceStatusService } from './resource-status';
+import { FleetLiveService } from './fleet-live';
+import { DataScopeService, type DataScope } from './data-scope';
+
+export type ServicePlan = typeof servicePlans[number];
+
+export const ServiceDueStatus = {
+  OK: 'ok',
+  DUE_SOON: 'due_soon',
+  OVERDUE: 'overdue',
+  NO_PLAN: 'no_plan'
+} as const;
+
+export interface ServiceSchedule {
+  vehicleId: number;
+  vehicleCode: string;
+  registrationNumber: string;
+  vehicleTypeCode: string;
+  vehicleTypeName: string;
+  servicePlan: ServicePlan | null;
+  alertBefore: number;
+  currentOdometer: number;
+  lastServiceDate: Date | null;
+  lastServiceOdometer: number | null;
+  nextServiceDate: Date | null;
+  nextServiceOdometer: number | null;
+  daysRemaining: number | null;
+  kmRemaining: number | null;
+  status: typeof ServiceDueStatus[keyof typeof ServiceDueStatus];
+}
+
+export interface WorkOrderStatusChange {
+  status: string;
+  cost?: string;
+  notes?: string;
+  odometer_reading?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WORK_ORDER_TRANSITIONS: Record<string, string[]> = {
+  [WorkOrderStatus.OPEN]: [WorkOrderStatus.IN_PROGRESS, WorkOrderStatus.CLOSED],
+  [WorkOrderStatus.IN_PROGRESS]: [WorkOrderStatus.CLOSED],
+  [WorkOrderStatus.CLOSED]: []
+};
+
+export class MaintenanceError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'MaintenanceError';
+  }
+}
+
+// Vehicle types store the plan as either its code or its display name
+export function findServicePlan(value: string | null | undefined): ServicePlan | null {
+  if (!value) {
+    return null;
+  }
+  const key = value.trim().toLowerCase();
+  return servicePlans.find(plan => plan.code.toLowerCase() === key || plan.name.toLowerCase() === key) || null;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+}
+
+export class MaintenanceService {
+  // Next service is whichever of the plan's month or km interval comes first. alert_before is applied
+  // as days to the date and as km to the odometer reading.
+  static computeSchedule(
+    vehicle: VehicleMaster,
+    vehicleType: VehicleTypeMaster | null,
+    lastService: { date: Date | null; odometer: number | null },
+    now: Date = new Date()
+  ): ServiceSchedule {
+    const servicePlan = findServicePlan(vehicleType?.service_plan);
+    const alertBefore = vehicleType?.alert_before || 0;
+    const currentOdometer = Number(vehicle.current_odometer) || 0;
+
+    const schedule: ServiceSchedule = {
+      vehicleId: vehicle.id,
+      vehicleCode: vehicle.vehicle_id,
+      registrationNumber: vehicle.registration_number,
+      vehicleTypeCode: vehicle.vehicle_type_code,
+      vehicleTypeName: vehicle.vehicle_type_name,
+      servicePlan,
+      alertBefore,
+      currentOdometer,
+      lastServiceDate: lastService.date,
+      lastServiceOdometer: lastService.odometer,
+      nextServiceDate: null,
+      nextServiceOdometer: null,
+      daysRemaining: null,
+      kmRemaining: null,
+      status: ServiceDueStatus.NO_PLAN
+    };
+    if (!servicePlan) {
+      return schedule;
+    }
+
+    // Without a service on record, count from when the vehicle was registered in the fleet
+    const baseDate = lastService.date || vehicle.created_at;
+    schedule.nextServiceDate = addMonths(baseDate, servicePlan.intervalMonths);
+    schedule.daysRemaining = Math.ceil((schedule.nextServiceDate.getTime() - now.getTime()) / DAY_MS);
+
+    // Without an odometer on record, services fall on whole multiples of the interval
+    schedule.nextServiceOdometer = lastService.odometer !== null
+      ? lastService.odometer + servicePlan.intervalKm
+      : Math.max(servicePlan.intervalKm, Math.ceil(currentOdometer / servicePlan.intervalKm) * servicePlan.intervalKm);
+    schedule.kmRemaining = Math.round((schedule.nextServiceOdometer - currentOdometer) * 100) / 100;
+
+    if (schedule.daysRemaining <= 0 || schedule.kmRemaining <= 0) {
+      schedule.status = ServiceDueStatus.OVERDUE;
+    } else if (schedule.daysRemaining <= alertBefore || schedule.kmRemaining <= alertBefore) {
+      schedule.status = ServiceDueStatus.DUE_SOON;
+    } else {
+      schedule.status = ServiceDueStatus.OK;
+    }
+    return schedule;
+  }
+
+  // Alerts and work orders reference vehicle_master ids; narrows them to the vehicles in the scope
+  private static vehicleIdCondition(column: typeof maintenanceAlerts.vehicle_id | typeof maintenanceWorkOrders.vehicle_id, scope: DataScope | null): SQL | undefined {
+    if (!scope) {
+      return undefined;
+    }
+    return inArray(column, db.select({ id: vehicleMaster.id }).from(vehicleMaster).where(DataScopeService.vehicleMasterCondition(scope)));
+  }
+
+  static async getSchedules(scope: DataScope | null, vehicleIds?: number[], now: Date = new Date()): Promise<ServiceSchedule[]> {
+    const [fleet, types, closedOrders, fleetVehicles] = await Promise.all([
+      db
+        .select()
+        .from(vehicleMaster)
+        .where(and(
+          vehicleIds ? inArray(vehicleMaster.id, vehicleIds) : undefined,
+          scope ? DataScopeService.vehicleMasterCondition(scope) : undefined
+        )),
+      db.select().from(vehicleTypeMaster),
+      db
+        .select()
+        .from(maintenanceWorkOrders)
+        .where(
+          and(
+            eq(maintenanceWorkOrders.work_order_type, WorkOrderType.PREVENTIVE),
+            eq(maintenanceWorkOrders.status, WorkOrderStatus.CLOSED)
+          )
+        )
+        .orderBy(desc(maintenanceWorkOrders.closed_at)),
+      db.select().from(vehicles)
+    ]);
+
+    const typesByCode = new Map(types.map(t => [t.vehicle_type_code, t]));
+    const lastOrderByVehicle = new Map<number, MaintenanceWorkOrder>();
+    for (const order of closedOrders) {
+      if (!lastOrderByVehicle.has(order.vehicle_id)) {
+        lastOrderByVehicle.set(order.vehicle_id, order);
+      }
+    }
+    // Services logged before work orders existed are only known from the vehicles table
+    const legacyDates = new Map(
+      fleetVehicles
+        .filter(v => v.last_maintenance_date)
+        .map(v => [v.registration_number, v.last_maintenance_date as Date])
+    );
+
+    return fleet.map(vehicle => {
+      const lastOrder = lastOrderByVehicle.get(vehicle.id);
+      const lastService = lastOrder
+        ? {
+            date: lastOrder.closed_at,
+            odometer: lastOrder.odometer_reading !== null ? Number(lastOrder.odometer_reading) : null
+          }
+        : { date: legacyDates.get(vehicle.registration_number) || null, odometer: null };
+      return this.computeSchedule(vehicle, typesByCode.get(vehicle.vehicle_type_code) || null, lastService, now);
+    });
+  }
+
+  static async getSchedule(vehicleId: number, scope: DataScope | null): Promise<ServiceSchedule> {
+    const [schedule] = await this.getSchedules(scope, [vehicleId]);
+    if (!schedule) {
+      throw new MaintenanceError(`Vehicle with ID ${vehicleId} not found`, 404);
+    }
+    return schedule;
+  }
+
+  // Raise one alert per vehicle and alert type until it is acknowledged, and keep the
+  // vehicles table's next_maintenance_date in step with the computed schedule
+  static async raiseAlerts(now: Date = new Date()): Promise<MaintenanceAlert[]> {
+    const schedules = await this.getSchedules(null, undefined, now);
+    const openAlerts = await db
+      .select()
+      .from(maintenanceAlerts)
+      .where(eq(maintenanceAlerts.is_acknowledged, false));
+    const openKeys = new Set(openAlerts.map(a => `${a.vehicle_id}:${a.alert_type}`));
+
+    const raised: MaintenanceAlert[] = [];
+    for (const schedule of schedules) {
+      if (schedule.nextServiceDate) {
+        await db
+          .update(vehicles)
+          .set({ next_maintenance_date: schedule.nextServiceDate, updated_at: new Date() })
+          .where(eq(vehicles.registration_number, schedule.registrationNumber));
+      }
+
+      const alertType = schedule.status === ServiceDueStatus.OVERDUE
+        ? MaintenanceAlertType.OVERDUE
+        : schedule.status === ServiceDueStatus.DUE_SOON
+        ? MaintenanceAlertType.DUE_SOON
+        : null;
+      if (!alertType || openKeys.has(`${schedule.vehicleId}:${alertType}`)) {
+        continue;
+      }
+
+      const [alert] = await db
+        .insert(maintenanceAlerts)
+        .values({
+          vehicle_id: schedule.vehicleId,
+          alert_type: alertType,
+          due_date: schedule.nextServiceDate,
+          due_odometer: schedule.nextServiceOdometer?.toString() ?? null,
+          message: this.describeSchedule(schedule),
+          created_at: now
+        })
+        .returning();
+      raised.push(alert);
+    }
+
+    console.log(`[MAINTENANCE] Raised ${raised.length} maintenance alerts across ${schedules.length} vehicles`);
+    return raised;
+  }
+
+  private static describeSchedule(schedule: ServiceSchedule): string {
+    const due = `${schedule.servicePlan!.name} due ${schedule.nextServiceDate!.toISOString().split('T')[0]} or at ${schedule.nextServiceOdometer} km`;
+    if (schedule.status === ServiceDueStatus.OVERDUE) {
+      return `${schedule.vehicleCode} (${schedule.registrationNumber}) is overdue for service: ${due}`;
+    }
+    return `${schedule.vehicleCode} (${schedule.registrationNumber}) is due for service in ${schedule.daysRemaining} days or ${schedule.kmRemaining} km: ${due}`;
+  }
+
+  static async getAlerts(scope: DataScope | null, includeAcknowledged: boolean = false): Promise<MaintenanceAlert[]> {
+    return await db
+      .select()
+      .from(maintenanceAlerts)
+      .where(and(
+        includeAcknowledged ? undefined : eq(maintenanceAlerts.is_acknowledged, false),
+        this.vehicleIdCondition(maintenanceAlerts.vehicle_id, scope)
+      ))
+      .orderBy(desc(maintenanceAlerts.created_at));
+  }
+
+  static async acknowledgeAlert(id: number, scope: DataScope | null, userId?: number): Promise<MaintenanceAlert> {
+    const [alert] = await db
+      .update(maintenanceAlerts)
+      .set({ is_acknowledged: true, acknowledged_by: userId ?? null, acknowledged_at: new Date() })
+      .where(and(eq(maintenanceAlerts.id, id), this.vehicleIdCondition(maintenanceAlerts.vehicle_id, scope)))
+      .returning();
+
+    if (!alert) {
+      throw new MaintenanceError(`Alert with ID ${id} not found`, 404);
+    }
+    return alert;
+  }
+
+  static async getWorkOrders(filters: { vehicleId?: number; status?: string }, scope: DataScope | null): Promise<MaintenanceWorkOrder[]> {
+    const conditions: SQL[] = [];
+    const scoped = this.vehicleIdCondition(maintenanceWorkOrders.vehicle_id, scope);
+    if (scoped) {
+      conditions.push(scoped);
+    }
+    if (filters.vehicleId) {
+      conditions.push(eq(maintenanceWorkOrders.vehicle_id, filters.vehicleId));
+    }
+    if (filters.status) {
+      conditions.push(eq(maintenanceWorkOrders.status, filters.status));
+    }
+
+    return await db
+      .select()
+      .from(maintenanceWorkOrders)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(maintenanceWorkOrders.opened_at));
+  }
+
+  static async createWorkOrder(data: InsertWorkOrder, scope: DataScope | null, openedBy?: number): Promise<MaintenanceWorkOrder> {
+    const [vehicle] = await db
+      .select()
+      .from(vehicleMaster)
+      .where(and(eq(vehicleMaster.id, data.vehicle_id), scope ? DataScopeService.vehicleMasterCondition(scope) : undefined));
+    if (!vehicle) {
+      throw new MaintenanceError(`Vehicle with ID ${data.vehicle_id} not found`, 404);
+    }
+
+    // Preventive orders default to the plan of the vehicle's type
+    let servicePlan = data.service_plan;
+    if (!servicePlan && data.work_order_type === WorkOrderType.PREVENTIVE) {
+      const [vehicleType] = await db
+        .select()
+        .from(vehicleTypeMaster)
+        .where(eq(vehicleTypeMaster.vehicle_type_code, vehicle.vehicle_type_code));
+      servicePlan = findServicePlan(vehicleType?.service_plan)?.code;
+    }
+
+    const order = await db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(maintenanceWorkOrders)
+        .values({
+          ...data,
+          service_plan: servicePlan ?? null,
+          status: WorkOrderStatus.OPEN,
+          opened_by: openedBy ?? null,
+          opened_at: new Date(),
+          created_at: new Date(),
+          updated_at: new Date()
+        })
+        .returning();
+
+      // Takes the vehicle off the available pool unless it is currently on a trip
+      await ResourceStatusService.syncVehicleByRegistration(tx, vehicle.registration_number);
+      return created;
+    });
+
+    console.log(`[MAINTENANCE] Opened ${order.work_order_type} work order ${order.id} for vehicle ${vehicle.vehicle_id}`);
+    FleetLiveService.notify({ registrationNumbers: [vehicle.registration_number] });
+    return order;
+  }
+
+  static async updateWorkOrderStatus(id: number, change: WorkOrderStatusChange, scope: DataScope | null): Promise<MaintenanceWorkOrder> {
+    const { order, registrationNumber } = await db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(maintenanceWorkOrders)
+        .where(and(eq(maintenanceWorkOrders.id, id), this.vehicleIdCondition(maintenanceWorkOrders.vehicle_id, scope)))
+        .for('update');
+      if (!order) {
+        throw new MaintenanceError(`Work order with ID ${id} not found`, 404);
+      }
+
+      const allowed = WORK_ORDER_TRANSITIONS[order.status] || [];
+      if (!allowed.includes(change.status)) {
+        throw new MaintenanceError(`Invalid status transition from ${order.status} to ${change.status}`, 409);
+      }
+
+      const now = new Date();
+      const closing = change.status === WorkOrderStatus.CLOSED;
+      const [updated] = await tx
+        .update(maintenanceWorkOrders)
+        .set({
+          status: change.status,
+          cost: change.cost ?? order.cost,
+          notes: change.notes ?? order.notes,
+          odometer_reading: change.odometer_reading ?? order.odometer_reading,
+          started_at: change.status === WorkOrderStatus.IN_PROGRESS ? now : order.started_at,
+          closed_at: closing ? now : order.closed_at,
+          updated_at: now
+        })
+        .where(eq(maintenanceWorkOrders.id, id))
+        .returning();
+
+      const [vehicle] = await tx.select().from(vehicleMaster).where(eq(vehicleMaster.id, updated.vehicle_id));
+      if (closing) {
+        await ResourceStatusService.syncVehicleByRegistration(tx, vehicle.registration_number, now);
+      }
+
+      if (closing && updated.work_order_type === WorkOrderType.PREVENTIVE) {
+        // A workshop odometer reading ahead of the recorded one is the more recent figure
+        if (updated.odometer_reading !== null && Number(updated.odometer_reading) > Number(vehicle.current_odometer)) {
+          await tx
+            .update(vehicleMaster)
+            .set({ current_odometer: updated.odometer_reading, updated_at: now })
+            .where(eq(vehicleMaster.id, vehicle.id));
+        }
+
+        const [vehicleType] = await tx
+          .select()
+          .from(vehicleTypeMaster)
+          .where(eq(vehicleTypeMaster.vehicle_type_code, vehicle.vehicle_type_code));
+        const plan = findServicePlan(updated.service_plan) || findServicePlan(vehicleType?.service_plan);
+
+        await tx
+          .update(vehicles)
+          .set({
+            last_maintenance_date: now,
+            next_maintenance_date: plan ? addMonths(now, plan.intervalMonths) : null,
+            updated_at: now
+          })
+          .where(eq(vehicles.registration_number, vehicle.registration_number));
+
+        // The service that was due has now been done
+        await tx
+          .update(maintenanceAlerts)
+          .set({ is_acknowledged: true, acknowledged_at: now })
+          .where(and(eq(maintenanceAlerts.vehicle_id, vehicle.id), eq(maintenanceAlerts.is_acknowledged, false)));
+      }
+
+      return { order: updated, registrationNumber: vehicle.registration_number };
+    });
+
+    FleetLiveService.notify({ registrationNumbers: [registrationNumber] });
+    return order;
+  }
+}
+
+// Check service schedules every day at 6:00 AM
+export function initializeMaintenanceAlertJob() {
+  cron.schedule('0 6 * * *', async () => {
+    console.log('Running scheduled maintenance alert job');
+    try {
+      await MaintenanceService.raiseAlerts();
+    } catch (error) {
+      console.error('Error running maintenance alert job:', error);
+    }
+  });
+  console.log('Maintenance alert job scheduled');
+}
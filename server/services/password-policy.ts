@@ -0,0 +1,99 @@
+import { randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { desc, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import { passwordHistory, passwordSchema, type User } from '@shared/schema';
+import { integerFromEnv } from './login-protection';
+
+export class PasswordPolicyError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PasswordPolicyError';
+  }
+}
+
+// A new password may not match the current one or any of the ones before it, this many in total
+const PASSWORD_HISTORY_SIZE = integerFromEnv('PASSWORD_HISTORY_SIZE', 5);
+// Days a password stays valid; 0 turns expiry off
+const PASSWORD_EXPIRY_DAYS = integerFromEnv('PASSWORD_EXPIRY_DAYS', 90, 0);
+// How long the reset link handed out at sign-in for an expired password stays usable
+const EXPIRED_RESET_TTL_MINUTES = 15;
+
+export interface PasswordExpiredResponse {
+  error: string;
+  passwordExpired: true;
+  resetToken: string;
+}
+
+export class PasswordPolicyService {
+  // First complexity rule the password breaks, or null when it is acceptable
+  static validate(password: unknown): string | null {
+    const result = passwordSchema.safeParse(password);
+    return result.success ? null : result.error.issues[0].message;
+  }
+
+  static isExpired(user: User): boolean {
+    if (PASSWORD_EXPIRY_DAYS <= 0) return false;
+    return user.password_changed_at.getTime() + PASSWORD_EXPIRY_DAYS * 24 * 60 * 60 * 1000 < Date.now();
+  }
+
+  // For a user whose password has expired, a short-lived reset token to set a new one with
+  static async getExpiryChallenge(user: User): Promise<PasswordExpiredResponse | null> {
+    if (!this.isExpired(user)) return null;
+
+    const resetToken = randomBytes(32).toString('hex');
+    await storage.updateUserResetToken(user.id, resetToken, new Date(Date.now() + EXPIRED_RESET_TTL_MINUTES * 60 * 1000));
+    return {
+      error: 'Your password has expired and must be changed',
+      passwordExpired: true,
+      resetToken
+    };
+  }
+
+  // Apply the complexity and history rules, then store the new password and remember it
+  static async changePassword(user: User, newPassword: string): Promise<User> {
+    const violation = this.validate(newPassword);
+    if (violation) {
+      throw new PasswordPolicyError(violation);
+    }
+
+    const history = (await this.getHistory(user.id)).map(entry => entry.password_hash);
+    // Accounts created before their first password was recorded only have the current one
+    const unrecorded = history[0] !== user.password;
+    const recent = (unrecorded ? [user.password, ...history] : history).slice(0, PASSWORD_HISTORY_SIZE);
+    for (const hash of recent) {
+      if (await bcrypt.compare(newPassword, hash)) {
+        throw new PasswordPolicyError(`New password must differ from the last ${PASSWORD_HISTORY_SIZE} passwords`);
+      }
+    }
+
+    const hashedPassword = await bcrypt.hash(newPassword, 10);
+    const updated = await storage.updateUserPassword(user.id, hashedPassword);
+    if (unrecorded) {
+      await db.insert(passwordHistory).values({ user_id: user.id, password_hash: user.password });
+    }
+    await this.recordPassword(user.id, hashedPassword);
+    return updated;
+  }
+
+  // Remember a password that was just set, such as the initial one of a new account. Only the
+  // newest PASSWORD_HISTORY_SIZE entries are kept.
+  static async recordPassword(userId: number, passwordHash: string): Promise<void> {
+    await db.insert(passwordHistory).values({ user_id: userId, password_hash: passwordHash });
+
+    const stale = (await this.getHistory(userId)).slice(PASSWORD_HISTORY_SIZE).map(entry => entry.id);
+    if (stale.length > 0) {
+      await db.delete(passwordHistory).where(inArray(passwordHistory.id, stale));
+    }
+  }
+
+  // Recorded passwords of a user, newest first
+  private static async getHistory(userId: number): Promise<{ id: number; password_hash: string }[]> {
+    return await db
+      .select({ id: passwordHistory.id, password_hash: passwordHistory.password_hash })
+      .from(passwordHistory)
+      .where(eq(passwordHistory.user_id, userId))
+      .orderBy(desc(passwordHistory.created_at), desc(passwordHistory.id));
+  }
+}
@@ -0,0 +1,318 @@
+import { and, eq, inArray } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  fuelTypes,
+  vehicleTypeMaster,
+  vehicles,
+  BookingType,
+  TripType,
+  VehicleStatus,
+  type Booking,
+  type CostEstimateRequest,
+  type VehicleTypeMaster
+} from '@shared/schema';
+import {
+  calculatePathDistanceKm,
+  distanceToSegmentKm,
+  getCoordinates,
+  type Coordinates
+} from './geo-utils';
+
+export class PricingError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+// Straight-line legs are stretched by this factor to approximate road distance
+const ROAD_DISTANCE_FACTOR = parseFloat(process.env.PRICING_ROAD_FACTOR || '1.3');
+const AVERAGE_SPEED_KMH = parseFloat(process.env.PRICING_AVERAGE_SPEED_KMH || '50');
+// Engine-on waiting time at the pickup and at each waypoint
+const PICKUP_IDLE_MINUTES = parseFloat(process.env.PRICING_PICKUP_IDLE_MINUTES || '10');
+const WAYPOINT_IDLE_MINUTES = parseFloat(process.env.PRICING_WAYPOINT_IDLE_MINUTES || '10');
+const DRIVER_HOURLY_RATE = parseFloat(process.env.DRIVER_HOURLY_RATE || '40');
+const SALIK_TOLL_AED = parseFloat(process.env.SALIK_TOLL_AED || '4');
+const SALIK_GATE_RADIUS_KM = parseFloat(process.env.SALIK_GATE_RADIUS_KM || '1');
+
+// Approximate positions of the Dubai Salik gates. Legs are straight lines between stops, so
+// a leg passing near a gate is counted as a crossing.
+const SALIK_GATES: { name: string; position: Coordinates }[] = [
+  { name: 'Al Barsha', position: { lat: 25.1035, lng: 55.1920 } },
+  { name: 'Al Safa', position: { lat: 25.1755, lng: 55.2290 } },
+  { name: 'Al Safa South', position: { lat: 25.1550, lng: 55.2160 } },
+  { name: 'Jebel Ali', position: { lat: 25.0600, lng: 55.1290 } },
+  { name: 'Al Garhoud Bridge', position: { lat: 25.2260, lng: 55.3430 } },
+  { name: 'Al Maktoum Bridge', position: { lat: 25.2480, lng: 55.3275 } },
+  { name: 'Business Bay Crossing', position: { lat: 25.1860, lng: 55.3300 } },
+  { name: 'Airport Tunnel', position: { lat: 25.2580, lng: 55.3620 } },
+  { name: 'Al Mamzar South', position: { lat: 25.2870, lng: 55.3540 } },
+  { name: 'Al Mamzar North', position: { lat: 25.2970, lng: 55.3600 } }
+];
+
+export interface PriceLineItem {
+  code: 'fuel' | 'idle' | 'salik' | 'driver';
+  label: string;
+  quantity: number;
+  unit: string;
+  rate: number;
+  amount: number;
+}
+
+export interface PriceEstimate {
+  vehicleType: { id: number; name: string; assigned: boolean };
+  distanceKm: number;
+  drivingMinutes: number;
+  idleMinutes: number;
+  tollCrossings: string[];
+  items: PriceLineItem[];
+  total: number;
+  // Fuel and idle lines only: the part of the total that trip actuals measure
+  fuelCost: number;
+  co2Kg: number;
+  currency: 'AED';
+}
+
+interface RoutePlan {
+  distanceKm: number;
+  drivingMinutes: number;
+  idleMinutes: number;
+  tollCrossings: string[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class PricingService {
+  // Itemised cost of a trip on the assigned vehicle, the requested type, or the cheapest type that fits
+  static async estimate(request: CostEstimateRequest): Promise<PriceEstimate> {
+    const route = this.planRoute(request);
+    const fuelPrices = new Map(
+      (await db.select().from(fuelTypes)).map(fuel => [fuel.type, fuel])
+    );
+
+    const assignedType = request.vehicle_number ? await this.getAssignedType(request.vehicle_number) : null;
+    if (assignedType) {
+      return this.priceOn(assignedType, true, route, request, fuelPrices);
+    }
+
+    const candidates = await this.getCandidateTypes(request);
+    if (candidates.length === 0) {
+      throw new PricingError(
+        request.vehicle_type_id
+          ? 'Vehicle type not found or inactive'
+          : 'No active vehicle type can carry this booking',
+        request.vehicle_type_id ? 404 : 422
+      );
+    }
+
+    const estimates = candidates.map(type => this.priceOn(type, false, route, request, fuelPrices));
+    return estimates.reduce((cheapest, estimate) => (estimate.total < cheapest.total ? estimate : cheapest));
+  }
+
+  static async estimateForBooking(booking: Booking): Promise<PriceEstimate> {
+    return this.estimate(this.toRequest(booking));
+  }
+
+  // Road distance through every stop, for bookings that cannot be priced; null without coordinates
+  static getBookingDistanceKm(booking: Booking): number | null {
+    try {
+      return round2(this.planRoute(this.toRequest(booking)).distanceKm);
+    } catch (error) {
+      if (error instanceof PricingError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private static toRequest(booking: Booking): CostEstimateRequest {
+    return {
+      booking_type: booking.booking_type,
+      pickup_location: booking.pickup_location,
+      dropoff_location: booking.dropoff_location,
+      waypoints: booking.waypoints ?? [],
+      trip_type: booking.trip_type ?? undefined,
+      with_driver: booking.with_driver ?? false,
+      num_passengers: booking.num_passengers ?? undefined,
+      vehicle_number: booking.assigned_vehicle_id ?? undefined,
+      pickup_time: booking.pickup_time ?? undefined,
+      dropoff_time: booking.dropoff_time ?? undefined
+    };
+  }
+
+  private static planRoute(request: CostEstimateRequest): RoutePlan {
+    const stops = [request.pickup_location, ...(request.waypoints ?? []), request.dropoff_location];
+    const points = stops.map(stop => getCoordinates(stop));
+    if (points.some(point => point === null)) {
+      throw new PricingError('Every stop needs coordinates to estimate the trip');
+    }
+
+    let path = points as Coordinates[];
+    const waypointCount = request.waypoints?.length ?? 0;
+    if (request.trip_type === TripType.ROUND_TRIP) {
+      path = [...path, ...path.slice(0, -1).reverse()];
+    }
+
+    const distanceKm = calculatePathDistanceKm(path) * ROAD_DISTANCE_FACTOR;
+    const tollCrossings: string[] = [];
+    for (let i = 1; i < path.length; i++) {
+      for (const gate of SALIK_GATES) {
+        if (distanceToSegmentKm(gate.position, path[i - 1], path[i]) <= SALIK_GATE_RADIUS_KM) {
+          tollCrossings.push(gate.name);
+        }
+      }
+    }
+
+    return {
+      distanceKm,
+      drivingMinutes: (distanceKm / AVERAGE_SPEED_KMH) * 60,
+      idleMinutes: PICKUP_IDLE_MINUTES + waypointCount * WAYPOINT_IDLE_MINUTES,
+      tollCrossings
+    };
+  }
+
+  private static async getAssignedType(vehicleNumber: string): Promise<VehicleTypeMaster | null> {
+    const [row] = await db
+      .select({ type: vehicleTypeMaster })
+      .from(vehicles)
+      .innerJoin(vehicleTypeMaster, eq(vehicles.type_id, vehicleTypeMaster.id))
+      .where(eq(vehicles.vehicle_number, vehicleNumber));
+    if (!row) {
+      throw new PricingError('The assigned vehicle has no vehicle type to price the trip against', 422);
+    }
+    return row.type;
+  }
+
+  // The requested type, or every active type with an available vehicle that can take the passengers
+  private static async getCandidateTypes(request: CostEstimateRequest): Promise<VehicleTypeMaster[]> {
+    if (request.vehicle_type_id) {
+      return db
+        .select()
+        .from(vehicleTypeMaster)
+        .where(and(eq(vehicleTypeMaster.id, request.vehicle_type_id), eq(vehicleTypeMaster.is_active, true)));
+    }
+
+    const available = await db
+      .selectDistinct({ type_id: vehicles.type_id })
+      .from(vehicles)
+      .where(eq(vehicles.status, VehicleStatus.AVAILABLE));
+    const typeIds = available.map(row => row.type_id).filter((id): id is number => id !== null);
+    if (typeIds.length === 0) {
+      return [];
+    }
+
+    const types = await db
+      .select()
+      .from(vehicleTypeMaster)
+      .where(and(inArray(vehicleTypeMaster.id, typeIds), eq(vehicleTypeMaster.is_active, true)));
+    const passengers = request.num_passengers ?? 0;
+    return request.booking_type === BookingType.FREIGHT
+      ? types
+      : types.filter(type => type.number_of_passengers >= passengers);
+  }
+
+  // Current fuel prices take precedence over the price copied onto the vehicle type; the type's own
+  // emission factor takes precedence over the fuel's. Estimates and trip actuals both use this rule.
+  static getFuelRates(
+    type: VehicleTypeMaster,
+    fuel: typeof fuelTypes.$inferSelect | null
+  ): { fuelPrice: number; co2Factor: number } {
+    return {
+      fuelPrice: Number(fuel?.price ?? 0) > 0 ? Number(fuel!.price) : Number(type.fuel_price_per_litre),
+      co2Factor: Number(type.co2_emission_factor) > 0 ? Number(type.co2_emission_factor) : Number(fuel?.co2_factor ?? 0)
+    };
+  }
+
+  private static priceOn(
+    type: VehicleTypeMaster,
+    assigned: boolean,
+    route: RoutePlan,
+    request: CostEstimateRequest,
+    fuelPrices: Map<string, typeof fuelTypes.$inferSelect>
+  ): PriceEstimate {
+    const { fuelPrice, co2Factor } = this.getFuelRates(type, fuelPrices.get(type.fuel_type) ?? null);
+    const efficiency = Number(type.fuel_efficiency);
+
+    const items: PriceLineItem[] = [];
+    let litres = 0;
+
+    if (efficiency > 0 && fuelPrice > 0) {
+      const drivingLitres = route.distanceKm / efficiency;
+      litres += drivingLitres;
+      items.push({
+        code: 'fuel',
+        label: `Fuel (${round2(route.distanceKm)} km at ${efficiency} km/L)`,
+        quantity: round2(drivingLitres),
+        unit: 'L',
+        rate: fuelPrice,
+        amount: round2(drivingLitres * fuelPrice)
+      });
+    } else {
+      // Without fuel data the type's flat per-km rate stands in for fuel
+      const costPerKm = Number(type.cost_per_km);
+      items.push({
+        code: 'fuel',
+        label: 'Distance',
+        quantity: round2(route.distanceKm),
+        unit: 'km',
+        rate: costPerKm,
+        amount: round2(route.distanceKm * costPerKm)
+      });
+    }
+
+    const idleRate = Number(type.idle_fuel_consumption);
+    if (idleRate > 0 && fuelPrice > 0 && route.idleMinutes > 0) {
+      const idleLitres = (route.idleMinutes / 60) * idleRate;
+      litres += idleLitres;
+      items.push({
+        code: 'idle',
+        label: `Idling (${route.idleMinutes} min at ${idleRate} L/h)`,
+        quantity: round2(idleLitres),
+        unit: 'L',
+        rate: fuelPrice,
+        amount: round2(idleLitres * fuelPrice)
+      });
+    }
+
+    if (route.tollCrossings.length > 0) {
+      items.push({
+        code: 'salik',
+        label: `Salik (${route.tollCrossings.join(', ')})`,
+        quantity: route.tollCrossings.length,
+        unit: 'crossing',
+        rate: SALIK_TOLL_AED,
+        amount: round2(route.tollCrossings.length * SALIK_TOLL_AED)
+      });
+    }
+
+    if (request.with_driver) {
+      // The driver is paid for the booked window when it is longer than the drive, with a one-hour minimum
+      const tripMinutes = route.drivingMinutes + route.idleMinutes;
+      const bookedMinutes = request.pickup_time && request.dropoff_time
+        ? (request.dropoff_time.getTime() - request.pickup_time.getTime()) / 60000
+        : 0;
+      const hours = Math.max(1, Math.max(tripMinutes, bookedMinutes) / 60);
+      items.push({
+        code: 'driver',
+        label: 'Driver',
+        quantity: round2(hours),
+        unit: 'h',
+        rate: DRIVER_HOURLY_RATE,
+        amount: round2(hours * DRIVER_HOURLY_RATE)
+      });
+    }
+
+    return {
+      vehicleType: { id: type.id, name: type.vehicle_type_name, assigned },
+      distanceKm: round2(route.distanceKm),
+      drivingMinutes: Math.round(route.drivingMinutes),
+      idleMinutes: route.idleMinutes,
+      tollCrossings: route.tollCrossings,
+      items,
+      total: round2(items.reduce((sum, item) => sum + item.amount, 0)),
+      fuelCost: round2(items.filter(item => item.code === 'fuel' || item.code === 'idle').reduce((sum, item) => sum + item.amount, 0)),
+      co2Kg: round2(litres * co2Factor),
+      currency: 'AED'
+    };
+  }
+}
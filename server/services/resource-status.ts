@@ -0,0 +1,145 @@
+import { and, eq, gte, inArray, lte, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  bookings,
+  drivers,
+  maintenanceWorkOrders,
+  vehicleMaster,
+  vehicles,
+  BookingStatus,
+  DriverStatus,
+  VehicleStatus,
+  WorkOrderStatus,
+  type Booking
+} from '@shared/schema';
+
+// A confirmed booking starting within this window keeps its vehicle and driver busy after a trip ends
+export const IMMINENT_BOOKING_MINUTES = 60;
+
+const OPEN_WORK_ORDER_STATUSES: string[] = [WorkOrderStatus.OPEN, WorkOrderStatus.IN_PROGRESS];
+
+// Either the shared db or a transaction handle, so statuses change together with the booking
+type QueryExecutor = Pick<typeof db, 'select' | 'update'>;
+
+export class ResourceStatusService {
+  // Confirmed bookings whose pickup is running late count as imminent too
+  private static async getTripState(executor: QueryExecutor, assignedTo: SQL, now: Date): Promise<{
+    inProgress: boolean;
+    imminent: boolean;
+  }> {
+    const window = IMMINENT_BOOKING_MINUTES * 60 * 1000;
+    const [inProgress] = await executor
+      .select({ id: bookings.id })
+      .from(bookings)
+      .where(and(assignedTo, eq(bookings.status, BookingStatus.IN_PROGRESS)))
+      .limit(1);
+    const [imminent] = await executor
+      .select({ id: bookings.id })
+      .from(bookings)
+      .where(
+        and(
+          assignedTo,
+          eq(bookings.status, BookingStatus.CONFIRMED),
+          gte(bookings.pickup_time, new Date(now.getTime() - window)),
+          lte(bookings.pickup_time, new Date(now.getTime() + window))
+        )
+      )
+      .limit(1);
+    return { inProgress: !!inProgress, imminent: !!imminent };
+  }
+
+  // In Service while on a trip or about to start one, Under Maintenance while a work order is open,
+  // otherwise released. Out of Service is a manual decision and is left alone.
+  static async syncVehicle(executor: QueryExecutor, vehicleNumber: string, now: Date = new Date()): Promise<string | null> {
+    const [vehicle] = await executor
+      .select()
+      .from(vehicles)
+      .where(eq(vehicles.vehicle_number, vehicleNumber))
+      .for('update');
+    if (!vehicle) {
+      return null;
+    }
+
+    const trips = await this.getTripState(executor, eq(bookings.assigned_vehicle_id, vehicleNumber), now);
+    const [openOrder] = await executor
+      .select({ id: maintenanceWorkOrders.id })
+      .from(maintenanceWorkOrders)
+      .innerJoin(vehicleMaster, eq(maintenanceWorkOrders.vehicle_id, vehicleMaster.id))
+      .where(
+        and(
+          eq(vehicleMaster.registration_number, vehicle.registration_number),
+          inArray(maintenanceWorkOrders.status, OPEN_WORK_ORDER_STATUSES)
+        )
+      )
+      .limit(1);
+
+    let status: string = vehicle.status;
+    if (trips.inProgress) {
+      status = VehicleStatus.IN_SERVICE;
+    } else if (openOrder) {
+      status = VehicleStatus.MAINTENANCE;
+    } else if (trips.imminent) {
+      status = VehicleStatus.IN_SERVICE;
+    } else if (vehicle.status !== VehicleStatus.OUT_OF_SERVICE) {
+      status = VehicleStatus.AVAILABLE;
+    }
+
+    if (status !== vehicle.status) {
+      await executor
+        .update(vehicles)
+        .set({ status, updated_at: now })
+        .where(eq(vehicles.id, vehicle.id));
+      console.log(`[RESOURCE-STATUS] Vehicle ${vehicleNumber}: ${vehicle.status} -> ${status}`);
+    }
+    return status;
+  }
+
+  // On Duty while on a trip or about to start one; only On Duty is released, so leave and
+  // off-duty set by hand stay in place
+  static async syncDriver(executor: QueryExecutor, driverId: number, now: Date = new Date()): Promise<string | null> {
+    const [driver] = await executor
+      .select()
+      .from(drivers)
+      .where(eq(drivers.id, driverId))
+      .for('update');
+    if (!driver) {
+      return null;
+    }
+
+    const trips = await this.getTripState(executor, eq(bookings.assigned_driver_id, driverId), now);
+
+    let status: string = driver.status;
+    if (trips.inProgress || trips.imminent) {
+      status = DriverStatus.ON_DUTY;
+    } else if (driver.status === DriverStatus.ON_DUTY) {
+      status = DriverStatus.AVAILABLE;
+    }
+
+    if (status !== driver.status) {
+      await executor
+        .update(drivers)
+        .set({ status, updated_at: now })
+        .where(eq(drivers.id, driver.id));
+      console.log(`[RESOURCE-STATUS] Driver ${driver.name}: ${driver.status} -> ${status}`);
+    }
+    return status;
+  }
+
+  // Work orders are raised against vehicle_master, which shares the registration number with vehicles
+  static async syncVehicleByRegistration(executor: QueryExecutor, registrationNumber: string, now: Date = new Date()): Promise<string | null> {
+    const [vehicle] = await executor
+      .select({ vehicle_number: vehicles.vehicle_number })
+      .from(vehicles)
+      .where(eq(vehicles.registration_number, registrationNumber));
+    return vehicle ? await this.syncVehicle(executor, vehicle.vehicle_number, now) : null;
+  }
+
+  static async syncForBooking(executor: QueryExecutor, booking: Booking, now: Date = new Date()): Promise<void> {
+    if (booking.assigned_vehicle_id) {
+      await this.syncVehicle(executor, booking.assigned_vehicle_id, now);
+    }
+    if (booking.assigned_driver_id) {
+      await this.syncDriver(executor, booking.assigned_driver_id, now);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { createHash, randomBytes } from 'crypto';
+import type { Request } from 'express';
+import { and, desc, eq, gt, inArray, isNull } from 'drizzle-orm';
+import { db } from '../db';
+import { userSessions, users, type User, type UserSession } from '@shared/schema';
+import { ACCESS_TOKEN_TTL_MINUTES, createToken, revokeSessionTokens } from '../auth/token-service';
+
+export class SessionError extends Error {
+  constructor(message: string, public statusCode: number = 401) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+// Sessions end this long after sign-in however often they are refreshed
+const REFRESH_TOKEN_TTL_DAYS = parseFloat(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  // Seconds until the access token expires
+  expiresIn: number;
+  sessionId: number;
+}
+
+export interface SessionSummary {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean;
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const newRefreshToken = () => randomBytes(48).toString('hex');
+
+function describeClient(req: Request): { user_agent: string | null; ip_address: string | null } {
+  return {
+    user_agent: req.get('user-agent')?.slice(0, 500) ?? null,
+    ip_address: req.ip?.slice(0, 64) ?? null
+  };
+}
+
+export class SessionService {
+  // Seed the revocation list so access tokens of sessions revoked before a restart stay refused
+  static async initialize(): Promise<void> {
+    const since = new Date(Date.now() - ACCESS_TOKEN_TTL_MINUTES * 60 * 1000);
+    const revoked = await db
+      .select({ id: userSessions.id })
+      .from(userSessions)
+      .where(gt(userSessions.revoked_at, since));
+    revokeSessionTokens(revoked.map(session => session.id));
+  }
+
+  // Open a session for a user who has just proven who they are
+  static async start(user: User, req: Request): Promise<SessionTokens> {
+    const refreshToken = newRefreshToken();
+    const [session] = await db
+      .insert(userSessions)
+      .values({
+        user_id: user.id,
+        refresh_token_hash: hashToken(refreshToken),
+        ...describeClient(req),
+        expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000)
+      })
+      .returning();
+
+    console.log(`[SESSIONS] Started session ${session.id} for user ${user.id}`);
+    return this.issue(user, session, refreshToken);
+  }
+
+  // Exchange a refresh token for a new access token and a new refresh token. Presenting a token
+  // that was already rotated means it leaked, so the session it belonged to is revoked.
+  static async refresh(refreshToken: string, req: Request): Promise<SessionTokens> {
+    const hash = hashToken(refreshToken);
+    const [session] = await db.select().from(userSessions).where(eq(userSessions.refresh_token_hash, hash));
+
+    if (!session) {
+      const [replayed] = await db
+        .select()
+        .from(userSessions)
+        .where(and(eq(userSessions.previous_token_hash, hash), isNull(userSessions.revoked_at)));
+      if (replayed) {
+        console.warn(`[SESSIONS] Rotated refresh token reused for session ${replayed.id}; revoking it`);
+        await this.revoke([replayed.id], 'Refresh token reused');
+      }
+      throw new SessionError('Invalid refresh token');
+    }
+    if (session.revoked_at) {
+      throw new SessionError('Session has been revoked');
+    }
+    if (session.expires_at <= new Date()) {
+      throw new SessionError('Session has expired');
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.id, session.user_id));
+    if (!user || !user.is_active) {
+      await this.revoke([session.id], 'User account not found or inactive');
+      throw new SessionError('User account not found or inactive');
+    }
+
+    const nextToken = newRefreshToken();
+    const [rotated] = await db
+      .update(userSessions)
+      .set({
+        refresh_token_hash: hashToken(nextToken),
+        previous_token_hash: hash,
+        ...describeClient(req),
+        last_used_at: new Date()
+      })
+      // A concurrent refresh with the same token loses the race instead of forking the session
+      .where(and(eq(userSessions.id, session.id), eq(userSessions.refresh_token_hash, hash)))
+      .returning();
+    if (!rotated) {
+      throw new SessionError('Refresh token has already been used');
+    }
+
+    return this.issue(user, rotated, nextToken);
+  }
+
+  static async getActiveSessions(userId: number, currentSessionId?: number): Promise<SessionSummary[]> {
+    const sessions = await db
+      .select()
+      .from(userSessions)
+      .where(
+        and(
+          eq(userSessions.user_id, userId),
+          isNull(userSessions.revoked_at),
+          gt(userSessions.expires_at, new Date())
+        )
+      )
+      .orderBy(desc(userSessions.last_used_at));
+
+    return sessions.map(session => ({
+      id: session.id,
+      userAgent: session.user_agent,
+      ipAddress: session.ip_address,
+      createdAt: session.created_at,
+      lastUsedAt: session.last_used_at,
+      expiresAt: session.expires_at,
+      current: session.id === currentSessionId
+    }));
+  }
+
+  // Users can only end their own sessions
+  static async revokeSession(userId: number, sessionId: number, reason: string): Promise<void> {
+    const [session] = await db
+      .select()
+      .from(userSessions)
+      .where(
+        and(
+          eq(userSessions.id, sessionId),
+          eq(userSessions.user_id, userId),
+          isNull(userSessions.revoked_at)
+        )
+      );
+    if (!session) {
+      throw new SessionError('Session not found', 404);
+    }
+    await this.revoke([session.id], reason);
+  }
+
+  // Sign the user out on every device; returns how many sessions were ended
+  static async revokeAll(userId: number, reason: string): Promise<number> {
+    const sessions = await db
+      .select({ id: userSessions.id })
+      .from(userSessions)
+      .where(and(eq(userSessions.user_id, userId), isNull(userSessions.revoked_at)));
+    await this.revoke(sessions.map(session => session.id), reason);
+    console.log(`[SESSIONS] Revoked ${sessions.length} sessions of user ${userId}: ${reason}`);
+    return sessions.length;
+  }
+
+  private static async revoke(sessionIds: number[], reason: string): Promise<void> {
+    if (sessionIds.length === 0) {
+      return;
+    }
+    await db
+      .update(userSessions)
+      .set({ revoked_at: new Date(), revoked_reason: reason })
+      .where(inArray(userSessions.id, sessionIds));
+    revokeSessionTokens(sessionIds);
+  }
+
+  private static issue(user: User, session: UserSession, refreshToken: string): SessionTokens {
+    return {
+      token: createToken(user.id, user.email_id, session.id),
+      refreshToken,
+      expiresIn: Math.round(ACCESS_TOKEN_TTL_MINUTES * 60),
+      sessionId: session.id
+    };
+  }
+}
@@ -0,0 +1,198 @@
+import { and, asc, desc, eq, gte, inArray, lte } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  telematicsPings,
+  vehicleMaster,
+  vehicles,
+  YesNo,
+  type TelematicsPing,
+  type TelematicsPingPayload,
+  type VehicleMaster
+} from '@shared/schema';
+import { FleetLiveService } from './fleet-live';
+import { GeofenceService } from './geofences';
+import { DataScopeService, type DataScope } from './data-scope';
+import { DrivingSafetyService } from './driving-safety';
+
+export interface RejectedPing {
+  device_id: string;
+  recorded_at: Date;
+  reason: string;
+}
+
+export interface IngestResult {
+  accepted: number;
+  rejected: RejectedPing[];
+}
+
+// Device clocks drift; anything further ahead than this is treated as a bad timestamp
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// Upper bound on the history returned for one vehicle
+const MAX_HISTORY_PINGS = 5000;
+
+export class TelematicsError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'TelematicsError';
+  }
+}
+
+export class TelematicsService {
+  // Store a batch of pings and move each vehicle to its newest reported position
+  static async ingest(pings: TelematicsPingPayload[], now: Date = new Date()): Promise<IngestResult> {
+    const rejected: RejectedPing[] = [];
+    const deviceIds = Array.from(new Set(pings.map(p => p.device_id)));
+    const fleet = await db
+      .select()
+      .from(vehicleMaster)
+      .where(inArray(vehicleMaster.device_id, deviceIds));
+    const byDevice = new Map(fleet.map(v => [v.device_id!, v]));
+
+    const accepted = new Map<number, { vehicle: VehicleMaster; pings: TelematicsPingPayload[] }>();
+    for (const ping of pings) {
+      const vehicle = byDevice.get(ping.device_id);
+      if (!vehicle) {
+        rejected.push({ device_id: ping.device_id, recorded_at: ping.recorded_at, reason: 'Unknown device' });
+        continue;
+      }
+      if (ping.recorded_at.getTime() > now.getTime() + MAX_CLOCK_SKEW_MS) {
+        rejected.push({ device_id: ping.device_id, recorded_at: ping.recorded_at, reason: 'Timestamp is in the future' });
+        continue;
+      }
+      const group = accepted.get(vehicle.id) || { vehicle, pings: [] };
+      group.pings.push(ping);
+      accepted.set(vehicle.id, group);
+    }
+
+    let acceptedCount = 0;
+    const moved: string[] = [];
+    const freshPings: { vehicle: VehicleMaster; pings: TelematicsPingPayload[] }[] = [];
+    await db.transaction(async (tx) => {
+      for (const { vehicle, pings: vehiclePings } of Array.from(accepted.values())) {
+        // Looked up before inserting so a delayed batch cannot move the vehicle backwards
+        const [previous] = await tx
+          .select({ recorded_at: telematicsPings.recorded_at })
+          .from(telematicsPings)
+          .where(eq(telematicsPings.vehicle_id, vehicle.id))
+          .orderBy(desc(telematicsPings.recorded_at))
+          .limit(1);
+
+        // Readings from sensors the vehicle master says are not fitted are dropped
+        const hasTemperatureSensor = vehicle.is_temperature_sensor_connected === YesNo.YES;
+        await tx.insert(telematicsPings).values(vehiclePings.map(ping => ({
+          vehicle_id: vehicle.id,
+          device_id: ping.device_id,
+          recorded_at: ping.recorded_at,
+          lat: ping.lat.toString(),
+          lng: ping.lng.toString(),
+          speed: ping.speed?.toString(),
+          heading: ping.heading,
+          ignition: ping.ignition,
+          odometer: ping.odometer?.toString(),
+          road_class: ping.road_class,
+          temperature: hasTemperatureSensor ? ping.temperature?.toString() : undefined
+        })));
+        acceptedCount += vehiclePings.length;
+
+        // Only pings after the last stored one can cross a geofence boundary or start a driving event
+        freshPings.push({
+          vehicle,
+          pings: vehiclePings.filter(p => !previous || p.recorded_at > previous.recorded_at)
+        });
+
+        const latest = vehiclePings.reduce((a, b) => (b.recorded_at > a.recorded_at ? b : a));
+        if (!previous || latest.recorded_at > previous.recorded_at) {
+          await tx
+            .update(vehicles)
+            .set({
+              current_location: {
+                address: `${latest.lat.toFixed(6)}, ${latest.lng.toFixed(6)}`,
+                coordinates: { lat: latest.lat, lng: latest.lng }
+              },
+              updated_at: now
+            })
+            .where(eq(vehicles.registration_number, vehicle.registration_number));
+          moved.push(vehicle.registration_number);
+        }
+
+        // Odometers only count up; a lower reading is a device reset or a replayed ping
+        const readings = vehiclePings
+          .map(p => p.odometer)
+          .filter((value): value is number => value !== undefined);
+        const odometer = readings.length > 0 ? Math.max(...readings) : null;
+        if (odometer !== null && odometer > Number(vehicle.current_odometer)) {
+          await tx
+            .update(vehicleMaster)
+            .set({ current_odometer: odometer.toString(), updated_at: now })
+            .where(eq(vehicleMaster.id, vehicle.id));
+        }
+      }
+    });
+
+    if (moved.length > 0) {
+      FleetLiveService.notify({ registrationNumbers: moved });
+    }
+
+    // Geofence and driving events are derived data; a failure here must not lose the stored pings
+    for (const { vehicle, pings: fresh } of freshPings) {
+      try {
+        await GeofenceService.evaluatePositions(
+          vehicle,
+          fresh.map(p => ({ lat: p.lat, lng: p.lng, recorded_at: p.recorded_at }))
+        );
+      } catch (error) {
+        console.error(`[TELEMATICS] Error evaluating geofences for vehicle ${vehicle.vehicle_id}:`, error);
+      }
+      try {
+        await DrivingSafetyService.evaluatePings(vehicle, fresh);
+      } catch (error) {
+        console.error(`[TELEMATICS] Error evaluating driving events for vehicle ${vehicle.vehicle_id}:`, error);
+      }
+    }
+
+    if (rejected.length > 0) {
+      console.warn(`[TELEMATICS] Rejected ${rejected.length} of ${pings.length} pings`);
+    }
+    return { accepted: acceptedCount, rejected };
+  }
+
+  static async getPings(vehicleId: number, from: Date, to: Date, scope: DataScope | null): Promise<TelematicsPing[]> {
+    await this.getVehicle(vehicleId, scope);
+    return await db
+      .select()
+      .from(telematicsPings)
+      .where(
+        and(
+          eq(telematicsPings.vehicle_id, vehicleId),
+          gte(telematicsPings.recorded_at, from),
+          lte(telematicsPings.recorded_at, to)
+        )
+      )
+      .orderBy(asc(telematicsPings.recorded_at))
+      .limit(MAX_HISTORY_PINGS);
+  }
+
+  static async getLatestPing(vehicleId: number, scope: DataScope | null): Promise<TelematicsPing | null> {
+    await this.getVehicle(vehicleId, scope);
+    const [ping] = await db
+      .select()
+      .from(telematicsPings)
+      .where(eq(telematicsPings.vehicle_id, vehicleId))
+      .orderBy(desc(telematicsPings.recorded_at))
+      .limit(1);
+    return ping || null;
+  }
+
+  // Vehicles outside the scope are reported as missing
+  private static async getVehicle(vehicleId: number, scope: DataScope | null): Promise<VehicleMaster> {
+    const [vehicle] = await db
+      .select()
+      .from(vehicleMaster)
+      .where(and(eq(vehicleMaster.id, vehicleId), scope ? DataScopeService.vehicleMasterCondition(scope) : undefined));
+    if (!vehicle) {
+      throw new TelematicsError('Vehicle not found', 404);
+    }
+    return vehicle;
+  }
+}
@@ -0,0 +1,277 @@
+import { asc, eq, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  bookings,
+  drivers,
+  employees,
+  fuelTypes,
+  tripStops,
+  vehicleMaster,
+  vehicleTypeMaster,
+  vehicles,
+  BookingStatus,
+  TripStopType,
+  type Booking,
+  type TripArrival,
+  type TripCompletion,
+  type TripStop
+} from '@shared/schema';
+import { storage } from '../storage';
+import { PricingService } from './pricing';
+
+export interface TripActuals {
+  distanceKm: number;
+  fuelUsed: number;
+  cost: number;
+  co2Kg: number;
+}
+
+export interface TripDetails {
+  booking: Booking;
+  stops: TripStop[];
+}
+
+// Who is reporting on the trip; dispatchers may act for any driver
+export interface TripActor {
+  userId: number;
+  isDispatcher: boolean;
+}
+
+export class TripExecutionError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'TripExecutionError';
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class TripExecutionService {
+  static async getTrip(bookingId: number): Promise<TripDetails> {
+    const booking = await this.getBooking(bookingId);
+    const stops = await db
+      .select()
+      .from(tripStops)
+      .where(eq(tripStops.booking_id, bookingId))
+      .orderBy(asc(tripStops.sequence));
+    return { booking, stops };
+  }
+
+  // The driver sets off: the booking moves to in progress and the starting odometer is kept if given
+  static async startTrip(bookingId: number, startOdometer: number | undefined, actor: TripActor): Promise<Booking> {
+    const booking = await this.getBooking(bookingId);
+    if (booking.status !== BookingStatus.CONFIRMED) {
+      throw new TripExecutionError(`Only confirmed trips can be started; this booking is ${booking.status}`, 409);
+    }
+    if (!booking.assigned_vehicle_id || !booking.assigned_driver_id) {
+      throw new TripExecutionError('A vehicle and driver must be assigned before the trip starts', 409);
+    }
+    await this.assertCanExecute(booking, actor);
+
+    const started = await storage.updateBookingStatus(bookingId, BookingStatus.IN_PROGRESS, {
+      changedBy: actor.userId,
+      reason: 'Trip started by driver',
+      fields: {
+        started_at: new Date(),
+        start_odometer: startOdometer !== undefined ? startOdometer.toString() : null
+      }
+    });
+    console.log(`[TRIP] Booking ${bookingId} started`);
+    return started;
+  }
+
+  // Record arrival at the pickup, a waypoint or the dropoff; each stop is reported once
+  static async recordArrival(bookingId: number, arrival: TripArrival, actor: TripActor): Promise<TripStop> {
+    const booking = await this.getBooking(bookingId);
+    if (booking.status !== BookingStatus.IN_PROGRESS) {
+      throw new TripExecutionError(`Arrivals can only be recorded on a trip in progress; this booking is ${booking.status}`, 409);
+    }
+    await this.assertCanExecute(booking, actor);
+
+    const waypointCount = booking.waypoints?.length ?? 0;
+    let sequence: number;
+    if (arrival.stop === TripStopType.PICKUP) {
+      sequence = 0;
+    } else if (arrival.stop === TripStopType.WAYPOINT) {
+      if (arrival.waypoint_index! >= waypointCount) {
+        throw new TripExecutionError(`Booking has ${waypointCount} waypoint(s); waypoint_index ${arrival.waypoint_index} is out of range`);
+      }
+      sequence = arrival.waypoint_index! + 1;
+    } else {
+      sequence = waypointCount + 1;
+    }
+
+    const now = new Date();
+    return await db.transaction(async (tx) => {
+      const stops = await tx.select().from(tripStops).where(eq(tripStops.booking_id, bookingId));
+      if (stops.some(s => s.sequence === sequence)) {
+        throw new TripExecutionError(`Arrival at this ${arrival.stop} has already been recorded`, 409);
+      }
+      if (sequence > 0 && !stops.some(s => s.sequence === 0)) {
+        throw new TripExecutionError('Arrival at the pickup has not been recorded yet', 409);
+      }
+
+      const [stop] = await tx
+        .insert(tripStops)
+        .values({
+          booking_id: bookingId,
+          stop_type: arrival.stop,
+          sequence,
+          arrived_at: now,
+          lat: arrival.lat !== undefined ? arrival.lat.toString() : null,
+          lng: arrival.lng !== undefined ? arrival.lng.toString() : null,
+          recorded_by: actor.userId
+        })
+        .returning();
+
+      // A geofence may have marked the pickup arrival already; the earlier time stands
+      if (arrival.stop === TripStopType.PICKUP && !booking.pickup_arrived_at) {
+        await tx
+          .update(bookings)
+          .set({ pickup_arrived_at: now, updated_at: now })
+          .where(eq(bookings.id, bookingId));
+      }
+      return stop;
+    });
+  }
+
+  // Close the trip with the driver's odometer and fuel readings and store what it actually cost.
+  // A trip a geofence already completed at the dropoff can still have its readings recorded once.
+  static async completeTrip(bookingId: number, completion: TripCompletion, actor: TripActor): Promise<Booking> {
+    const booking = await this.getBooking(bookingId);
+    const closedByGeofence = booking.status === BookingStatus.COMPLETED && booking.end_odometer === null;
+    if (booking.status !== BookingStatus.IN_PROGRESS && !closedByGeofence) {
+      throw new TripExecutionError(`Only trips in progress can be completed; this booking is ${booking.status}`, 409);
+    }
+    await this.assertCanExecute(booking, actor);
+
+    const startOdometer = completion.start_odometer ?? (booking.start_odometer !== null ? Number(booking.start_odometer) : null);
+    if (startOdometer === null) {
+      throw new TripExecutionError('start_odometer is required because it was not recorded when the trip started');
+    }
+    if (completion.end_odometer < startOdometer) {
+      throw new TripExecutionError('end_odometer cannot be lower than start_odometer');
+    }
+
+    const actuals = await this.calculateActuals(booking, completion.end_odometer - startOdometer, completion.fuel_used);
+
+    if (!closedByGeofence) {
+      await storage.updateBookingStatus(bookingId, BookingStatus.COMPLETED, {
+        changedBy: actor.userId,
+        reason: 'Trip completed by driver'
+      });
+    }
+
+    const registration = await this.getRegistrationNumber(booking);
+    const now = new Date();
+    const completed = await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(bookings)
+        .set({
+          start_odometer: startOdometer.toString(),
+          end_odometer: completion.end_odometer.toString(),
+          fuel_used: completion.fuel_used.toString(),
+          actual_distance: actuals.distanceKm.toString(),
+          actual_cost: actuals.cost.toString(),
+          actual_co2_emissions: actuals.co2Kg.toString(),
+          updated_at: now
+        })
+        .where(eq(bookings.id, bookingId))
+        .returning();
+
+      // Completing without reporting the dropoff means the driver arrived when they completed
+      const dropoffSequence = (booking.waypoints?.length ?? 0) + 1;
+      await tx
+        .insert(tripStops)
+        .values({
+          booking_id: bookingId,
+          stop_type: TripStopType.DROPOFF,
+          sequence: dropoffSequence,
+          arrived_at: updated.completed_at ?? now,
+          recorded_by: actor.userId
+        })
+        .onConflictDoNothing();
+
+      // Odometers only count up, as with telematics readings
+      if (registration) {
+        const [vehicle] = await tx
+          .select({ id: vehicleMaster.id, current_odometer: vehicleMaster.current_odometer })
+          .from(vehicleMaster)
+          .where(eq(vehicleMaster.registration_number, registration));
+        if (vehicle && completion.end_odometer > Number(vehicle.current_odometer)) {
+          await tx
+            .update(vehicleMaster)
+            .set({ current_odometer: completion.end_odometer.toString(), updated_at: now })
+            .where(eq(vehicleMaster.id, vehicle.id));
+        }
+      }
+      return updated;
+    });
+
+    console.log(`[TRIP] Booking ${bookingId} completed: ${actuals.distanceKm} km, ${actuals.fuelUsed} L, ${actuals.cost} AED, ${actuals.co2Kg} kg CO2`);
+    return completed;
+  }
+
+  // Cost is the fuel used at the fuel price, or the distance at the type's cost_per_km when no price
+  // is set, matching the estimate's fuel lines; CO2 is the fuel used times the emission factor
+  static async calculateActuals(booking: Booking, distanceKm: number, fuelUsed: number): Promise<TripActuals> {
+    const [vehicleType] = booking.assigned_vehicle_id
+      ? await db
+        .select({ type: vehicleTypeMaster })
+        .from(vehicles)
+        .innerJoin(vehicleTypeMaster, eq(vehicles.type_id, vehicleTypeMaster.id))
+        .where(eq(vehicles.vehicle_number, booking.assigned_vehicle_id))
+      : [];
+    if (!vehicleType) {
+      throw new TripExecutionError('The assigned vehicle has no vehicle type to cost the trip against', 422);
+    }
+    const type = vehicleType.type;
+
+    // Same precedence as the estimate, so cost variance reflects the trip rather than the price source
+    const [fuel] = await db.select().from(fuelTypes).where(eq(fuelTypes.type, type.fuel_type));
+    const { fuelPrice, co2Factor } = PricingService.getFuelRates(type, fuel ?? null);
+
+    const cost = fuelPrice > 0 ? fuelUsed * fuelPrice : distanceKm * Number(type.cost_per_km);
+    return {
+      distanceKm: round2(distanceKm),
+      fuelUsed: round2(fuelUsed),
+      cost: round2(cost),
+      co2Kg: round2(fuelUsed * co2Factor)
+    };
+  }
+
+  private static async getBooking(bookingId: number): Promise<Booking> {
+    const [booking] = await db.select().from(bookings).where(eq(bookings.id, bookingId));
+    if (!booking) {
+      throw new TripExecutionError(`Booking with ID ${bookingId} not found`, 404);
+    }
+    return booking;
+  }
+
+  // Drivers reach their own trips through the employee record linked to their user account,
+  // whose number drivers.employee_id holds as text
+  private static async assertCanExecute(booking: Booking, actor: TripActor): Promise<void> {
+    if (actor.isDispatcher) {
+      return;
+    }
+    const [driver] = await db
+      .select({ id: drivers.id })
+      .from(drivers)
+      .innerJoin(employees, eq(drivers.employee_id, sql<string>`cast(${employees.employee_id} as text)`))
+      .where(eq(employees.user_id, actor.userId));
+    if (!driver || driver.id !== booking.assigned_driver_id) {
+      throw new TripExecutionError('Only the assigned driver or a dispatcher can report on this trip', 403);
+    }
+  }
+
+  private static async getRegistrationNumber(booking: Booking): Promise<string | null> {
+    if (!booking.assigned_vehicle_id) {
+      return null;
+    }
+    const [vehicle] = await db
+      .select({ registration_number: vehicles.registration_number })
+      .from(vehicles)
+      .where(eq(vehicles.vehicle_number, booking.assigned_vehicle_id));
+    return vehicle?.registration_number ?? null;
+  }
+}
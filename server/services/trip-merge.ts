@@ -0,0 +1,454 @@
+import { and, eq, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { storage } from '../storage';
+import {
+  bookings,
+  employees,
+  mergedTrips,
+  vehicles,
+  BookingStatus,
+  BookingType,
+  Priority,
+  TripMergeStatus,
+  type Booking,
+  type MergedTrip,
+  type MergeRule
+} from '@shared/schema';
+import { calculateDistanceKm, calculatePathDistanceKm, getCoordinates, type Coordinates } from './geo-utils';
+import { DataScopeService, type DataScope } from './data-scope';
+
+export interface MergeThresholds {
+  maxPickupDistanceKm: number;
+  maxDropoffDistanceKm: number;
+  timeWindowMinutes: number;
+  maxDetourPercent: number;
+}
+
+export interface VehicleCapacity {
+  passengers: number;
+  weight: number;
+}
+
+export interface MergeCandidate {
+  bookingIds: [number, number];
+  bookings: [Booking, Booking];
+  score: number;
+  pickupDistanceKm: number;
+  dropoffDistanceKm: number;
+  timeDifferenceMinutes: number;
+  detourPercent: number;
+  distanceSavedKm: number;
+  totalPassengers: number;
+  totalWeight: number;
+}
+
+// Fallback used when no default rule has been configured in merge_rules
+export const DEFAULT_MERGE_THRESHOLDS: MergeThresholds = {
+  maxPickupDistanceKm: 3,
+  maxDropoffDistanceKm: 5,
+  timeWindowMinutes: 30,
+  maxDetourPercent: 25
+};
+
+// Used when the fleet has no active vehicles to derive capacity from
+const DEFAULT_VEHICLE_CAPACITY: VehicleCapacity = {
+  passengers: 4,
+  weight: 1000
+};
+
+const MERGEABLE_STATUSES: string[] = [BookingStatus.PENDING, BookingStatus.APPROVED];
+
+// Booking types and priorities that always need a dedicated vehicle
+const NON_MERGEABLE_TYPES: string[] = [BookingType.AMBULANCE];
+const NON_MERGEABLE_PRIORITIES: string[] = [Priority.CRITICAL, Priority.EMERGENCY];
+
+// Relative weight of each factor in the 0-100 merge score
+const SCORE_WEIGHTS = {
+  pickup: 0.3,
+  dropoff: 0.25,
+  time: 0.2,
+  detour: 0.25
+};
+
+export class TripMergeError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'TripMergeError';
+  }
+}
+
+export class TripMergeService {
+  // Bookings in the scope that are still waiting for a vehicle and have not been merged yet
+  static async getMergeableBookings(scope: DataScope | null): Promise<Booking[]> {
+    return await db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          inArray(bookings.status, MERGEABLE_STATUSES),
+          isNull(bookings.merged_trip_id),
+          isNotNull(bookings.pickup_time),
+          scope ? DataScopeService.bookingCondition(scope) : undefined
+        )
+      );
+  }
+
+  // Largest capacity available in the active fleet, used as the upper bound for a merged trip
+  static async getFleetCapacity(): Promise<VehicleCapacity> {
+    const activeVehicles = await db
+      .select({
+        passenger_capacity: vehicles.passenger_capacity,
+        load_capacity: vehicles.load_capacity
+      })
+      .from(vehicles)
+      .where(eq(vehicles.is_active, true));
+
+    if (activeVehicles.length === 0) {
+      return DEFAULT_VEHICLE_CAPACITY;
+    }
+
+    return {
+      passengers: Math.max(...activeVehicles.map(v => v.passenger_capacity || 0)),
+      weight: Math.max(...activeVehicles.map(v => v.load_capacity || 0))
+    };
+  }
+
+  static isMergeable(booking: Booking): boolean {
+    return MERGEABLE_STATUSES.includes(booking.status) &&
+      !booking.merged_trip_id &&
+      !!booking.pickup_time &&
+      !NON_MERGEABLE_TYPES.includes(booking.booking_type.toLowerCase()) &&
+      !NON_MERGEABLE_PRIORITIES.includes(booking.priority);
+  }
+
+  // Score a pair of bookings; returns null when the pair breaks any threshold
+  static evaluatePair(
+    first: Booking,
+    second: Booking,
+    thresholds: MergeThresholds,
+    capacity: VehicleCapacity
+  ): MergeCandidate | null {
+    if (first.id === second.id || !this.isMergeable(first) || !this.isMergeable(second)) {
+      return null;
+    }
+
+    if (first.booking_type.toLowerCase() !== second.booking_type.toLowerCase()) {
+      return null;
+    }
+
+    const firstPickup = getCoordinates(first.pickup_location);
+    const firstDropoff = getCoordinates(first.dropoff_location);
+    const secondPickup = getCoordinates(second.pickup_location);
+    const secondDropoff = getCoordinates(second.dropoff_location);
+
+    if (!firstPickup || !firstDropoff || !secondPickup || !secondDropoff) {
+      return null;
+    }
+
+    const pickupDistanceKm = calculateDistanceKm(firstPickup, secondPickup);
+    const dropoffDistanceKm = calculateDistanceKm(firstDropoff, secondDropoff);
+    if (pickupDistanceKm > thresholds.maxPickupDistanceKm || dropoffDistanceKm > thresholds.maxDropoffDistanceKm) {
+      return null;
+    }
+
+    const timeDifferenceMinutes = Math.abs(
+      new Date(first.pickup_time!).getTime() - new Date(second.pickup_time!).getTime()
+    ) / 60000;
+    if (timeDifferenceMinutes > thresholds.timeWindowMinutes) {
+      return null;
+    }
+
+    const totalPassengers = (first.num_passengers || 0) + (second.num_passengers || 0);
+    const totalWeight = (first.weight || 0) + (second.weight || 0);
+    if (totalPassengers > capacity.passengers || totalWeight > capacity.weight) {
+      return null;
+    }
+
+    const route = this.planSharedRoute(
+      { pickup: firstPickup, dropoff: firstDropoff },
+      { pickup: secondPickup, dropoff: secondDropoff }
+    );
+    if (route.detourPercent > thresholds.maxDetourPercent) {
+      return null;
+    }
+
+    const score = 100 * (
+      SCORE_WEIGHTS.pickup * (1 - pickupDistanceKm / thresholds.maxPickupDistanceKm) +
+      SCORE_WEIGHTS.dropoff * (1 - dropoffDistanceKm / thresholds.maxDropoffDistanceKm) +
+      SCORE_WEIGHTS.time * (1 - timeDifferenceMinutes / thresholds.timeWindowMinutes) +
+      // Rules saved with a 0% limit only admit detour-free pairs, which earn the full detour score
+      SCORE_WEIGHTS.detour * (thresholds.maxDetourPercent > 0 ? 1 - route.detourPercent / thresholds.maxDetourPercent : 1)
+    );
+
+    return {
+      bookingIds: [first.id, second.id],
+      bookings: [first, second],
+      score: round(score),
+      pickupDistanceKm: round(pickupDistanceKm),
+      dropoffDistanceKm: round(dropoffDistanceKm),
+      timeDifferenceMinutes: round(timeDifferenceMinutes),
+      detourPercent: round(route.detourPercent),
+      distanceSavedKm: round(route.distanceSavedKm),
+      totalPassengers,
+      totalWeight
+    };
+  }
+
+  // Pick the shortest pickup/dropoff order for two legs and measure the worst detour
+  static planSharedRoute(
+    first: { pickup: Coordinates; dropoff: Coordinates },
+    second: { pickup: Coordinates; dropoff: Coordinates }
+  ): { distanceKm: number; detourPercent: number; distanceSavedKm: number } {
+    const firstDirect = calculateDistanceKm(first.pickup, first.dropoff);
+    const secondDirect = calculateDistanceKm(second.pickup, second.dropoff);
+
+    const orderings = [
+      [first.pickup, second.pickup, first.dropoff, second.dropoff],
+      [first.pickup, second.pickup, second.dropoff, first.dropoff],
+      [second.pickup, first.pickup, first.dropoff, second.dropoff],
+      [second.pickup, first.pickup, second.dropoff, first.dropoff]
+    ];
+
+    let best: { distanceKm: number; detourPercent: number } | null = null;
+    for (const path of orderings) {
+      const distanceKm = calculatePathDistanceKm(path);
+      const firstRide = this.rideDistance(path, first.pickup, first.dropoff);
+      const secondRide = this.rideDistance(path, second.pickup, second.dropoff);
+      const detourPercent = Math.max(
+        firstDirect > 0 ? (firstRide - firstDirect) / firstDirect * 100 : 0,
+        secondDirect > 0 ? (secondRide - secondDirect) / secondDirect * 100 : 0
+      );
+
+      if (!best || distanceKm < best.distanceKm) {
+        best = { distanceKm, detourPercent };
+      }
+    }
+
+    return {
+      distanceKm: best!.distanceKm,
+      detourPercent: best!.detourPercent,
+      distanceSavedKm: firstDirect + secondDirect - best!.distanceKm
+    };
+  }
+
+  // Distance a passenger spends on board between their own pickup and dropoff
+  private static rideDistance(path: Coordinates[], pickup: Coordinates, dropoff: Coordinates): number {
+    const start = path.indexOf(pickup);
+    const end = path.indexOf(dropoff);
+    return calculatePathDistanceKm(path.slice(start, end + 1));
+  }
+
+  static async findCandidates(options: {
+    bookingId?: number;
+    limit?: number;
+  }, scope: DataScope | null): Promise<MergeCandidate[]> {
+    const [pending, capacity, rules] = await Promise.all([
+      this.getMergeableBookings(scope),
+      this.getFleetCapacity(),
+      this.getActiveMergeRules()
+    ]);
+    const thresholdsByBooking = await this.resolveBookingThresholds(pending, rules);
+
+    const candidates: MergeCandidate[] = [];
+    for (let i = 0; i < pending.length; i++) {
+      for (let j = i + 1; j < pending.length; j++) {
+        if (options.bookingId && pending[i].id !== options.bookingId && pending[j].id !== options.bookingId) {
+          continue;
+        }
+
+        const thresholds = this.combineThresholds(
+          thresholdsByBooking.get(pending[i].id)!,
+          thresholdsByBooking.get(pending[j].id)!
+        );
+        const candidate = this.evaluatePair(pending[i], pending[j], thresholds, capacity);
+        if (candidate) {
+          candidates.push(candidate);
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+    return options.limit ? candidates.slice(0, options.limit) : candidates;
+  }
+
+  static async getActiveMergeRules(): Promise<MergeRule[]> {
+    const rules = await storage.getMergeRules();
+    return rules.filter(rule => rule.is_active);
+  }
+
+  // Most specific rule wins: region + department, then region only, then department only, then the default rule
+  static resolveThresholds(rules: MergeRule[], region?: string | null, department?: string | null): MergeThresholds {
+    const rule =
+      rules.find(r => r.region === region && r.department === department) ||
+      rules.find(r => r.region === region && !r.department) ||
+      rules.find(r => !r.region && r.department === department) ||
+      rules.find(r => !r.region && !r.department);
+
+    if (!rule) {
+      return DEFAULT_MERGE_THRESHOLDS;
+    }
+
+    return {
+      maxPickupDistanceKm: parseFloat(rule.max_pickup_distance_km),
+      maxDropoffDistanceKm: parseFloat(rule.max_dropoff_distance_km),
+      timeWindowMinutes: rule.time_window_minutes,
+      maxDetourPercent: parseFloat(rule.max_detour_percent)
+    };
+  }
+
+  // A merged trip must satisfy the rules of both requesters, so take the stricter value of each threshold
+  static combineThresholds(first: MergeThresholds, second: MergeThresholds): MergeThresholds {
+    return {
+      maxPickupDistanceKm: Math.min(first.maxPickupDistanceKm, second.maxPickupDistanceKm),
+      maxDropoffDistanceKm: Math.min(first.maxDropoffDistanceKm, second.maxDropoffDistanceKm),
+      timeWindowMinutes: Math.min(first.timeWindowMinutes, second.timeWindowMinutes),
+      maxDetourPercent: Math.min(first.maxDetourPercent, second.maxDetourPercent)
+    };
+  }
+
+  // Thresholds for each booking based on the requesting employee's region and department
+  private static async resolveBookingThresholds(
+    bookingList: Booking[],
+    rules: MergeRule[]
+  ): Promise<Map<number, MergeThresholds>> {
+    const employeeIds = Array.from(new Set(bookingList.map(b => b.employee_id)));
+    const requesters = employeeIds.length > 0
+      ? await db
+          .select({ id: employees.id, region: employees.region, department: employees.department })
+          .from(employees)
+          .where(inArray(employees.id, employeeIds))
+      : [];
+    const requesterById = new Map(requesters.map(e => [e.id, e]));
+
+    const result = new Map<number, MergeThresholds>();
+    for (const booking of bookingList) {
+      const requester = requesterById.get(booking.employee_id);
+      result.set(booking.id, this.resolveThresholds(rules, requester?.region, requester?.department));
+    }
+    return result;
+  }
+
+  // Link two bookings to a new shared trip after re-checking they are still compatible
+  static async acceptMerge(bookingIds: [number, number], acceptedBy: number | undefined, scope: DataScope | null): Promise<MergedTrip> {
+    return await db.transaction(async (tx) => {
+      // Lock both bookings until the merge is written so neither can join another trip meanwhile;
+      // id order keeps two concurrent merges from deadlocking
+      const selected = await tx
+        .select()
+        .from(bookings)
+        .where(and(inArray(bookings.id, bookingIds), scope ? DataScopeService.bookingCondition(scope) : undefined))
+        .orderBy(bookings.id)
+        .for('update');
+
+      if (selected.length !== 2) {
+        throw new TripMergeError('One or more bookings were not found', 404);
+      }
+
+      const [first, second] = bookingIds.map(id => selected.find(b => b.id === id)!);
+      const alreadyMerged = selected.find(booking => booking.merged_trip_id);
+      if (alreadyMerged) {
+        throw new TripMergeError(`Booking ${alreadyMerged.id} is already part of a merged trip`, 409);
+      }
+      const thresholdsByBooking = await this.resolveBookingThresholds([first, second], await this.getActiveMergeRules());
+      const thresholds = this.combineThresholds(
+        thresholdsByBooking.get(first.id)!,
+        thresholdsByBooking.get(second.id)!
+      );
+      const candidate = this.evaluatePair(first, second, thresholds, await this.getFleetCapacity());
+      if (!candidate) {
+        throw new TripMergeError('Bookings are no longer eligible to be merged', 409);
+      }
+
+      const [trip] = await tx
+        .insert(mergedTrips)
+        .values({
+          reference_no: `MT${Date.now()}${Math.floor(Math.random() * 1000)}`,
+          booking_type: first.booking_type,
+          status: TripMergeStatus.ACTIVE,
+          score: candidate.score.toString(),
+          total_passengers: candidate.totalPassengers,
+          total_weight: candidate.totalWeight,
+          pickup_distance_km: candidate.pickupDistanceKm.toString(),
+          dropoff_distance_km: candidate.dropoffDistanceKm.toString(),
+          detour_percent: candidate.detourPercent.toString(),
+          distance_saved_km: candidate.distanceSavedKm.toString(),
+          accepted_by: acceptedBy,
+          created_at: new Date(),
+          updated_at: new Date()
+        })
+        .returning();
+
+      await tx
+        .update(bookings)
+        .set({ merged_trip_id: trip.id, updated_at: new Date() })
+        .where(inArray(bookings.id, bookingIds));
+
+      console.log(`[TRIP-MERGE] Merged bookings ${bookingIds.join(', ')} into trip ${trip.reference_no}`);
+      return trip;
+    });
+  }
+
+  // Unlink all bookings from a shared trip
+  static async dissolveMerge(tripId: number): Promise<MergedTrip> {
+    return await db.transaction(async (tx) => {
+      const [trip] = await tx
+        .update(mergedTrips)
+        .set({ status: TripMergeStatus.DISSOLVED, updated_at: new Date() })
+        .where(and(eq(mergedTrips.id, tripId), eq(mergedTrips.status, TripMergeStatus.ACTIVE)))
+        .returning();
+
+      if (!trip) {
+        throw new TripMergeError(`Active merged trip with ID ${tripId} not found`, 404);
+      }
+
+      await tx
+        .update(bookings)
+        .set({ merged_trip_id: null, updated_at: new Date() })
+        .where(eq(bookings.merged_trip_id, tripId));
+
+      console.log(`[TRIP-MERGE] Dissolved merged trip ${trip.reference_no}`);
+      return trip;
+    });
+  }
+
+  // A trip is visible when any of its bookings is in the scope; only those bookings are listed
+  static async getMergedTrip(tripId: number, scope: DataScope | null): Promise<(MergedTrip & { bookings: Booking[] }) | null> {
+    const [trip] = await db.select().from(mergedTrips).where(eq(mergedTrips.id, tripId));
+    if (!trip) {
+      return null;
+    }
+
+    const tripBookings = await db
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.merged_trip_id, tripId), scope ? DataScopeService.bookingCondition(scope) : undefined));
+    if (scope && tripBookings.length === 0) {
+      return null;
+    }
+    return { ...trip, bookings: tripBookings };
+  }
+
+  static async getActiveMergedTrips(scope: DataScope | null): Promise<MergedTrip[]> {
+    return await db
+      .select()
+      .from(mergedTrips)
+      .where(
+        and(
+          eq(mergedTrips.status, TripMergeStatus.ACTIVE),
+          scope
+            ? inArray(
+                mergedTrips.id,
+                db
+                  .select({ id: sql<number>`${bookings.merged_trip_id}` })
+                  .from(bookings)
+                  .where(and(isNotNull(bookings.merged_trip_id), DataScopeService.bookingCondition(scope)))
+              )
+            : undefined
+        )
+      );
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,217 @@
+import { and, desc, eq, gte, isNotNull, lte } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  bookings,
+  drivers,
+  employees,
+  vehicleTypeMaster,
+  vehicles,
+  BookingStatus
+} from '@shared/schema';
+import { DataScopeService, type DataScope } from './data-scope';
+
+// Trips whose actuals differ from the estimate by more than this percentage are flagged
+export const DEFAULT_OUTLIER_PERCENT = parseFloat(process.env.VARIANCE_OUTLIER_PERCENT || '20');
+
+const MAX_REPORT_BOOKINGS = 5000;
+
+export const VARIANCE_METRICS = ['distance', 'duration', 'cost', 'co2'] as const;
+export type VarianceMetric = typeof VARIANCE_METRICS[number];
+
+// Distance in km, duration in minutes, fuel cost in AED, CO2 in kg
+export interface MetricVariance {
+  estimated: number | null;
+  actual: number | null;
+  variance: number | null;
+  variancePercent: number | null;
+}
+
+export interface BookingVariance {
+  bookingId: number;
+  referenceNo: string | null;
+  completedAt: Date;
+  vehicleType: string | null;
+  driverName: string | null;
+  department: string;
+  metrics: Record<VarianceMetric, MetricVariance>;
+  // Metrics beyond the outlier threshold
+  outliers: VarianceMetric[];
+}
+
+export interface GroupVariance {
+  key: string;
+  trips: number;
+  outlierTrips: number;
+  // Totals over the trips that have both an estimate and an actual for the metric
+  metrics: Record<VarianceMetric, MetricVariance>;
+}
+
+export interface VarianceReport {
+  from: Date;
+  to: Date;
+  thresholdPercent: number;
+  bookings: BookingVariance[];
+  byVehicleType: GroupVariance[];
+  byDriver: GroupVariance[];
+  byDepartment: GroupVariance[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: string | null) => (value !== null ? Number(value) : null);
+
+const minutesBetween = (start: Date | null, end: Date | null) =>
+  start && end && end > start ? (end.getTime() - start.getTime()) / 60000 : null;
+
+function compare(estimated: number | null, actual: number | null): MetricVariance {
+  const variance = estimated !== null && actual !== null ? actual - estimated : null;
+  return {
+    estimated: estimated !== null ? round2(estimated) : null,
+    actual: actual !== null ? round2(actual) : null,
+    variance: variance !== null ? round2(variance) : null,
+    // A zero estimate has no meaningful percentage
+    variancePercent: variance !== null && estimated ? round2((variance / estimated) * 100) : null
+  };
+}
+
+export class TripVarianceService {
+  // Completed trips in the range with estimated and actual distance, duration, cost and CO2
+  static async getReport(
+    from: Date,
+    to: Date,
+    thresholdPercent: number,
+    scope: DataScope | null
+  ): Promise<VarianceReport> {
+    const rows = await db
+      .select({
+        booking: bookings,
+        department: employees.department,
+        driver_name: drivers.name,
+        vehicle_type: vehicleTypeMaster.vehicle_type_name
+      })
+      .from(bookings)
+      .innerJoin(employees, eq(bookings.employee_id, employees.id))
+      .leftJoin(drivers, eq(bookings.assigned_driver_id, drivers.id))
+      .leftJoin(vehicles, eq(bookings.assigned_vehicle_id, vehicles.vehicle_number))
+      .leftJoin(vehicleTypeMaster, eq(vehicles.type_id, vehicleTypeMaster.id))
+      .where(
+        and(
+          eq(bookings.status, BookingStatus.COMPLETED),
+          isNotNull(bookings.completed_at),
+          gte(bookings.completed_at, from),
+          lte(bookings.completed_at, to),
+          scope ? DataScopeService.employeeCondition(scope) : undefined
+        )
+      )
+      .orderBy(desc(bookings.completed_at))
+      .limit(MAX_REPORT_BOOKINGS);
+
+    const bookingVariances: BookingVariance[] = rows.map(({ booking, department, driver_name, vehicle_type }) => {
+      const metrics: Record<VarianceMetric, MetricVariance> = {
+        distance: compare(toNumber(booking.total_distance), toNumber(booking.actual_distance)),
+        // Planned duration is the booked pickup to dropoff window
+        duration: compare(
+          minutesBetween(booking.pickup_time, booking.dropoff_time),
+          minutesBetween(booking.started_at, booking.completed_at)
+        ),
+        // Actuals only measure fuel, so tolls and driver hours in the estimate are left out
+        cost: compare(toNumber(booking.estimated_fuel_cost), toNumber(booking.actual_cost)),
+        co2: compare(toNumber(booking.co2_emissions), toNumber(booking.actual_co2_emissions))
+      };
+      return {
+        bookingId: booking.id,
+        referenceNo: booking.reference_no,
+        completedAt: booking.completed_at!,
+        vehicleType: vehicle_type,
+        driverName: driver_name,
+        department,
+        metrics,
+        outliers: VARIANCE_METRICS.filter(metric => {
+          const percent = metrics[metric].variancePercent;
+          return percent !== null && Math.abs(percent) > thresholdPercent;
+        })
+      };
+    });
+
+    return {
+      from,
+      to,
+      thresholdPercent,
+      bookings: bookingVariances,
+      byVehicleType: this.groupBy(bookingVariances, b => b.vehicleType ?? 'Unassigned'),
+      byDriver: this.groupBy(bookingVariances, b => b.driverName ?? 'Unassigned'),
+      byDepartment: this.groupBy(bookingVariances, b => b.department)
+    };
+  }
+
+  // Flat rows per sheet for the XLSX export
+  static toSheets(report: VarianceReport): Record<string, Record<string, string | number | null>[]> {
+    const metricColumns = (metrics: Record<VarianceMetric, MetricVariance>) =>
+      Object.fromEntries(
+        VARIANCE_METRICS.flatMap(metric => [
+          [`${metric}_estimated`, metrics[metric].estimated],
+          [`${metric}_actual`, metrics[metric].actual],
+          [`${metric}_variance_percent`, metrics[metric].variancePercent]
+        ])
+      );
+    const groupRows = (groups: GroupVariance[], label: string) =>
+      groups.map(group => ({
+        [label]: group.key,
+        trips: group.trips,
+        outlier_trips: group.outlierTrips,
+        ...metricColumns(group.metrics)
+      }));
+
+    return {
+      Bookings: report.bookings.map(b => ({
+        booking_id: b.bookingId,
+        reference_no: b.referenceNo,
+        completed_at: b.completedAt.toISOString(),
+        vehicle_type: b.vehicleType,
+        driver: b.driverName,
+        department: b.department,
+        ...metricColumns(b.metrics),
+        outliers: b.outliers.join(', ')
+      })),
+      'Vehicle Types': groupRows(report.byVehicleType, 'vehicle_type'),
+      Drivers: groupRows(report.byDriver, 'driver'),
+      Departments: groupRows(report.byDepartment, 'department')
+    };
+  }
+
+  private static groupBy(items: BookingVariance[], keyOf: (item: BookingVariance) => string): GroupVariance[] {
+    const groups = new Map<string, BookingVariance[]>();
+    for (const item of items) {
+      const key = keyOf(item);
+      groups.set(key, [...(groups.get(key) || []), item]);
+    }
+
+    return Array.from(groups.entries())
+      .map(([key, members]) => {
+        const metrics = Object.fromEntries(
+          VARIANCE_METRICS.map(metric => {
+            const comparable = members.filter(
+              m => m.metrics[metric].estimated !== null && m.metrics[metric].actual !== null
+            );
+            if (comparable.length === 0) {
+              return [metric, compare(null, null)];
+            }
+            return [
+              metric,
+              compare(
+                comparable.reduce((sum, m) => sum + m.metrics[metric].estimated!, 0),
+                comparable.reduce((sum, m) => sum + m.metrics[metric].actual!, 0)
+              )
+            ];
+          })
+        ) as Record<VarianceMetric, MetricVariance>;
+        return {
+          key,
+          trips: members.length,
+          outlierTrips: members.filter(m => m.outliers.length > 0).length,
+          metrics
+        };
+      })
+      .sort((a, b) => b.trips - a.trips);
+  }
+}
@@ -0,0 +1,540 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import bcrypt from 'bcryptjs';
+import { and, desc, eq, gte, isNull, lt, or, sql } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  otpVerifications,
+  userTwoFactor,
+  users,
+  OtpType,
+  TwoFactorMethod,
+  type User,
+  type UserTwoFactor
+} from '@shared/schema';
+import { normalizeRole, Role, type RoleName } from '@shared/schema/permissions';
+import { consumeChallengeToken, createChallengeToken, verifyChallengeToken } from '../auth/token-service';
+import { AuthService } from './auth';
+import { integerFromEnv } from './login-protection';
+
+export class TwoFactorError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'TwoFactorError';
+  }
+}
+
+// Time between passing the password check and entering the second factor
+const CHALLENGE_TTL_MINUTES = integerFromEnv('TWO_FACTOR_CHALLENGE_TTL_MINUTES', 5);
+const EMAIL_CODE_TTL_MINUTES = integerFromEnv('TWO_FACTOR_EMAIL_CODE_TTL_MINUTES', 10);
+// 0 lets a new code be sent straight away
+const EMAIL_CODE_RESEND_SECONDS = integerFromEnv('TWO_FACTOR_RESEND_SECONDS', 60, 0);
+// Wrong codes allowed before second-factor login is locked, and for how long
+const MAX_FAILED_ATTEMPTS = integerFromEnv('TWO_FACTOR_MAX_ATTEMPTS', 5);
+const LOCKOUT_MINUTES = integerFromEnv('TWO_FACTOR_LOCKOUT_MINUTES', 15);
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'TripXL';
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Steps either side of now that are accepted, to allow for clock drift
+const TOTP_WINDOW = 1;
+const BACKUP_CODE_COUNT = 10;
+
+// Roles that may enroll, and the roles policy makes give a second factor at every login.
+// TWO_FACTOR_REQUIRED_ROLES is a comma-separated list such as "ADMIN,MANAGEMENT".
+const ELIGIBLE_ROLES: RoleName[] = [Role.ADMIN, Role.MANAGEMENT];
+const REQUIRED_ROLES: RoleName[] = (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+  .split(',')
+  .map(role => normalizeRole(role))
+  .filter((role): role is RoleName => role !== null && ELIGIBLE_ROLES.includes(role));
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  method: string;
+  backupCodesAvailable: boolean;
+  // Masked address the code was emailed to
+  destination: string | null;
+}
+
+export interface TwoFactorStatus {
+  eligible: boolean;
+  required: boolean;
+  enabled: boolean;
+  method: string | null;
+  backupCodesRemaining: number;
+  totpSetupPending: boolean;
+}
+
+const authService = new AuthService();
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of input.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// RFC 6238 code for one 30-second step
+function totpCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 2 ** 32), 0);
+  counter.writeUInt32BE(step >>> 0, 4);
+  const hmac = createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+// The step a code belongs to, skipping steps at or before the last one accepted
+function matchTotp(secret: string, code: string, lastStep: number | null): number | null {
+  const key = base32Decode(secret);
+  const current = Math.floor(Date.now() / 1000 / TOTP_STEP_SECONDS);
+  for (let step = current - TOTP_WINDOW; step <= current + TOTP_WINDOW; step++) {
+    if (lastStep !== null && step <= lastStep) {
+      continue;
+    }
+    if (safeEqual(totpCode(key, step), code)) {
+      return step;
+    }
+  }
+  return null;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Codes are stored hashed; backup codes are compared without dashes or case
+const hashCode = (code: string) =>
+  createHash('sha256').update(code.replace(/-/g, '').trim().toLowerCase()).digest('hex');
+
+function newBackupCodes(): string[] {
+  return Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+function maskEmail(email: string): string {
+  const [name, domain] = email.split('@');
+  return `${name.slice(0, 2)}${'*'.repeat(Math.max(name.length - 2, 1))}@${domain}`;
+}
+
+export class TwoFactorService {
+  static isEligible(user: User): boolean {
+    return this.getRoles(user).some(role => ELIGIBLE_ROLES.includes(role));
+  }
+
+  static isRequired(user: User): boolean {
+    return this.getRoles(user).some(role => REQUIRED_ROLES.includes(role));
+  }
+
+  // Called after a correct password. Users who owe a second factor get a challenge instead of a
+  // session; emailed codes are sent straight away.
+  static async getLoginChallenge(user: User): Promise<TwoFactorChallenge | null> {
+    const enrollment = await this.getEnrollment(user.id);
+    const enabled = !!enrollment?.is_enabled;
+    if (!enabled && !this.isRequired(user)) {
+      return null;
+    }
+
+    // Users the policy covers who have not enrolled yet fall back to emailed codes
+    const method = enabled ? enrollment!.method : TwoFactorMethod.EMAIL;
+    if (method === TwoFactorMethod.EMAIL) {
+      try {
+        await this.sendEmailCode(user);
+      } catch (error) {
+        // The user can ask for the code again from the challenge screen
+        console.error(`[2FA] Could not send login code to user ${user.id}:`, error);
+      }
+    }
+
+    return {
+      twoFactorRequired: true,
+      challengeToken: createChallengeToken(user.id, CHALLENGE_TTL_MINUTES),
+      method,
+      backupCodesAvailable: (enrollment?.backup_code_hashes.length ?? 0) > 0,
+      destination: method === TwoFactorMethod.EMAIL ? maskEmail(user.email_id) : null
+    };
+  }
+
+  static async resendLoginCode(challengeToken: string): Promise<void> {
+    const user = await this.getChallengeUser(challengeToken);
+    const enrollment = await this.getEnrollment(user.id);
+    if (enrollment?.is_enabled && enrollment.method !== TwoFactorMethod.EMAIL) {
+      throw new TwoFactorError('This account signs in with an authenticator app');
+    }
+    await this.sendEmailCode(user);
+  }
+
+  // Check the second factor and return the user it proves. Every wrong code counts towards a
+  // temporary lockout, whichever kind of code it was; the challenge token works only once.
+  static async verifyLogin(challengeToken: string, code: string, useBackupCode: boolean): Promise<User> {
+    const user = await this.getChallengeUser(challengeToken);
+    const enrollment = await this.ensureEnrollment(user.id);
+    if (enrollment.locked_until && enrollment.locked_until > new Date()) {
+      throw new TwoFactorError(
+        `Too many incorrect codes. Try again after ${enrollment.locked_until.toLocaleTimeString()}`,
+        429
+      );
+    }
+
+    let accepted: boolean;
+    if (useBackupCode) {
+      accepted = await this.consumeBackupCode(enrollment, code);
+    } else if (enrollment.is_enabled && enrollment.method === TwoFactorMethod.TOTP) {
+      accepted = await this.acceptTotp(enrollment, code);
+    } else {
+      accepted = await this.acceptEmailCode(user.id, code);
+    }
+
+    if (!accepted) {
+      await this.recordFailure(enrollment);
+      throw new TwoFactorError('Invalid verification code', 401);
+    }
+    if (!consumeChallengeToken(challengeToken)) {
+      throw new TwoFactorError('This sign-in attempt has expired. Please sign in again', 401);
+    }
+
+    await db
+      .update(userTwoFactor)
+      .set({ failed_attempts: 0, locked_until: null, updated_at: new Date() })
+      .where(eq(userTwoFactor.id, enrollment.id));
+    return user;
+  }
+
+  static async getStatus(user: User): Promise<TwoFactorStatus> {
+    const enrollment = await this.getEnrollment(user.id);
+    return {
+      eligible: this.isEligible(user),
+      required: this.isRequired(user),
+      enabled: !!enrollment?.is_enabled,
+      method: enrollment?.is_enabled ? enrollment.method : null,
+      backupCodesRemaining: enrollment?.is_enabled ? enrollment.backup_code_hashes.length : 0,
+      totpSetupPending: !!enrollment?.pending_totp_secret
+    };
+  }
+
+  // New authenticator secret; it only takes effect once confirmTotpSetup sees a matching code
+  static async startTotpSetup(user: User): Promise<{ secret: string; otpauthUrl: string }> {
+    this.assertEligible(user);
+    const enrollment = await this.ensureEnrollment(user.id);
+    const secret = base32Encode(randomBytes(20));
+    await db
+      .update(userTwoFactor)
+      .set({ pending_totp_secret: secret, updated_at: new Date() })
+      .where(eq(userTwoFactor.id, enrollment.id));
+
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email_id}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}` +
+      `&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+    return { secret, otpauthUrl };
+  }
+
+  // Switch the user to their authenticator app; returns the new backup codes, shown only once
+  static async confirmTotpSetup(user: User, code: string): Promise<string[]> {
+    const enrollment = await this.getEnrollment(user.id);
+    if (!enrollment?.pending_totp_secret) {
+      throw new TwoFactorError('Start authenticator setup first');
+    }
+    const step = matchTotp(enrollment.pending_totp_secret, code, null);
+    if (step === null) {
+      throw new TwoFactorError('Invalid verification code');
+    }
+
+    const backupCodes = newBackupCodes();
+    await db
+      .update(userTwoFactor)
+      .set({
+        method: TwoFactorMethod.TOTP,
+        is_enabled: true,
+        totp_secret: enrollment.pending_totp_secret,
+        pending_totp_secret: null,
+        last_totp_step: step,
+        backup_code_hashes: backupCodes.map(hashCode),
+        enabled_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(eq(userTwoFactor.id, enrollment.id));
+    console.log(`[2FA] User ${user.id} enrolled an authenticator app`);
+    return backupCodes;
+  }
+
+  static async enableEmail(user: User): Promise<string[]> {
+    this.assertEligible(user);
+    const enrollment = await this.ensureEnrollment(user.id);
+    const backupCodes = newBackupCodes();
+    await db
+      .update(userTwoFactor)
+      .set({
+        method: TwoFactorMethod.EMAIL,
+        is_enabled: true,
+        totp_secret: null,
+        pending_totp_secret: null,
+        last_totp_step: null,
+        backup_code_hashes: backupCodes.map(hashCode),
+        enabled_at: new Date(),
+        updated_at: new Date()
+      })
+      .where(eq(userTwoFactor.id, enrollment.id));
+    console.log(`[2FA] User ${user.id} enrolled emailed codes`);
+    return backupCodes;
+  }
+
+  // Replaces every earlier backup code
+  static async regenerateBackupCodes(user: User): Promise<string[]> {
+    const enrollment = await this.getEnrollment(user.id);
+    if (!enrollment?.is_enabled) {
+      throw new TwoFactorError('Two-factor authentication is not enabled');
+    }
+    const backupCodes = newBackupCodes();
+    await db
+      .update(userTwoFactor)
+      .set({ backup_code_hashes: backupCodes.map(hashCode), updated_at: new Date() })
+      .where(eq(userTwoFactor.id, enrollment.id));
+    return backupCodes;
+  }
+
+  // Users the policy covers keep getting emailed codes after disabling their own enrollment
+  static async disable(user: User, password: string): Promise<void> {
+    if (!password || !(await bcrypt.compare(password, user.password))) {
+      throw new TwoFactorError('Password is incorrect', 401);
+    }
+    const enrollment = await this.getEnrollment(user.id);
+    if (!enrollment?.is_enabled) {
+      throw new TwoFactorError('Two-factor authentication is not enabled');
+    }
+    await db
+      .update(userTwoFactor)
+      .set({
+        is_enabled: false,
+        totp_secret: null,
+        pending_totp_secret: null,
+        last_totp_step: null,
+        backup_code_hashes: [],
+        updated_at: new Date()
+      })
+      .where(eq(userTwoFactor.id, enrollment.id));
+    console.log(`[2FA] User ${user.id} disabled two-factor authentication`);
+  }
+
+  private static getRoles(user: User): RoleName[] {
+    return [normalizeRole(user.user_type), normalizeRole(user.user_operation_type)]
+      .filter((role): role is RoleName => role !== null);
+  }
+
+  private static assertEligible(user: User): void {
+    if (!this.isEligible(user)) {
+      throw new TwoFactorError('Two-factor authentication is available to Admin and Management users', 403);
+    }
+  }
+
+  private static async getChallengeUser(challengeToken: string): Promise<User> {
+    let userId: number;
+    try {
+      userId = verifyChallengeToken(challengeToken);
+    } catch {
+      throw new TwoFactorError('This sign-in attempt has expired. Please sign in again', 401);
+    }
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user || !user.is_active) {
+      throw new TwoFactorError('User account not found or inactive', 401);
+    }
+    return user;
+  }
+
+  private static async getEnrollment(userId: number): Promise<UserTwoFactor | null> {
+    const [enrollment] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.user_id, userId));
+    return enrollment || null;
+  }
+
+  // Users the policy covers get a row on first challenge so their failed attempts are counted
+  private static async ensureEnrollment(userId: number): Promise<UserTwoFactor> {
+    const existing = await this.getEnrollment(userId);
+    if (existing) {
+      return existing;
+    }
+    const [created] = await db.insert(userTwoFactor).values({ user_id: userId }).returning();
+    return created;
+  }
+
+  private static async sendEmailCode(user: User): Promise<void> {
+    const [latest] = await db
+      .select()
+      .from(otpVerifications)
+      .where(and(eq(otpVerifications.user_id, user.id), eq(otpVerifications.type, OtpType.LOGIN)))
+      .orderBy(desc(otpVerifications.created_at))
+      .limit(1);
+    if (latest && Date.now() - latest.created_at.getTime() < EMAIL_CODE_RESEND_SECONDS * 1000) {
+      throw new TwoFactorError('A code was sent moments ago. Please wait before asking for another', 429);
+    }
+
+    // Only the newest code works
+    await db
+      .update(otpVerifications)
+      .set({ is_used: true })
+      .where(
+        and(
+          eq(otpVerifications.user_id, user.id),
+          eq(otpVerifications.type, OtpType.LOGIN),
+          eq(otpVerifications.is_used, false)
+        )
+      );
+
+    const otp = await authService.generateOTP();
+    await db.insert(otpVerifications).values({
+      user_id: user.id,
+      otp: hashCode(otp),
+      type: OtpType.LOGIN,
+      expires_at: new Date(Date.now() + EMAIL_CODE_TTL_MINUTES * 60 * 1000)
+    });
+    await authService.sendLoginCodeEmail(user.email_id, otp, EMAIL_CODE_TTL_MINUTES);
+  }
+
+  // A code stops working after MAX_FAILED_ATTEMPTS guesses against it. Each guess claims its
+  // attempt before the code is compared, so parallel guesses cannot exceed the limit.
+  private static async acceptEmailCode(userId: number, code: string): Promise<boolean> {
+    const [verification] = await db
+      .select()
+      .from(otpVerifications)
+      .where(
+        and(
+          eq(otpVerifications.user_id, userId),
+          eq(otpVerifications.type, OtpType.LOGIN),
+          eq(otpVerifications.is_used, false)
+        )
+      )
+      .orderBy(desc(otpVerifications.created_at))
+      .limit(1);
+    if (!verification || verification.expires_at <= new Date()) {
+      return false;
+    }
+
+    const [attempt] = await db
+      .update(otpVerifications)
+      .set({ attempts: sql`${otpVerifications.attempts} + 1` })
+      .where(
+        and(
+          eq(otpVerifications.id, verification.id),
+          eq(otpVerifications.is_used, false),
+          lt(otpVerifications.attempts, MAX_FAILED_ATTEMPTS)
+        )
+      )
+      .returning({ id: otpVerifications.id });
+    if (!attempt || !safeEqual(verification.otp, hashCode(code))) {
+      return false;
+    }
+
+    const [used] = await db
+      .update(otpVerifications)
+      .set({ is_used: true })
+      .where(and(eq(otpVerifications.id, verification.id), eq(otpVerifications.is_used, false)))
+      .returning({ id: otpVerifications.id });
+    return !!used;
+  }
+
+  private static async acceptTotp(enrollment: UserTwoFactor, code: string): Promise<boolean> {
+    if (!enrollment.totp_secret) {
+      return false;
+    }
+    const step = matchTotp(enrollment.totp_secret, code.trim(), enrollment.last_totp_step);
+    if (step === null) {
+      return false;
+    }
+    // Only one request may accept a given step
+    const [accepted] = await db
+      .update(userTwoFactor)
+      .set({ last_totp_step: step, updated_at: new Date() })
+      .where(
+        and(
+          eq(userTwoFactor.id, enrollment.id),
+          or(isNull(userTwoFactor.last_totp_step), lt(userTwoFactor.last_totp_step, step))
+        )
+      )
+      .returning({ id: userTwoFactor.id });
+    return !!accepted;
+  }
+
+  // Each backup code works once; the code is removed only if it is still stored, so two
+  // requests racing with the same code cannot both succeed
+  private static async consumeBackupCode(enrollment: UserTwoFactor, code: string): Promise<boolean> {
+    const hash = hashCode(code);
+    const [updated] = await db
+      .update(userTwoFactor)
+      .set({
+        backup_code_hashes: sql`array_remove(${userTwoFactor.backup_code_hashes}, ${hash}::text)`,
+        updated_at: new Date()
+      })
+      .where(
+        and(
+          eq(userTwoFactor.id, enrollment.id),
+          eq(userTwoFactor.is_enabled, true),
+          sql`array_position(${userTwoFactor.backup_code_hashes}, ${hash}::text) is not null`
+        )
+      )
+      .returning({ id: userTwoFactor.id });
+    if (!updated) {
+      return false;
+    }
+    console.log(`[2FA] User ${enrollment.user_id} signed in with a backup code`);
+    return true;
+  }
+
+  private static async recordFailure(enrollment: UserTwoFactor): Promise<void> {
+    const [updated] = await db
+      .update(userTwoFactor)
+      .set({ failed_attempts: sql`${userTwoFactor.failed_attempts} + 1`, updated_at: new Date() })
+      .where(eq(userTwoFactor.id, enrollment.id))
+      .returning();
+    if (!updated || updated.failed_attempts < MAX_FAILED_ATTEMPTS) {
+      return;
+    }
+
+    // Only the request that still sees the count over the limit starts the lockout
+    const [locked] = await db
+      .update(userTwoFactor)
+      .set({
+        failed_attempts: 0,
+        locked_until: new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000),
+        updated_at: new Date()
+      })
+      .where(and(eq(userTwoFactor.id, enrollment.id), gte(userTwoFactor.failed_attempts, MAX_FAILED_ATTEMPTS)))
+      .returning({ id: userTwoFactor.id });
+    if (locked) {
+      console.warn(`[2FA] Locking second-factor login of user ${enrollment.user_id} for ${LOCKOUT_MINUTES} minutes`);
+    }
+  }
+}
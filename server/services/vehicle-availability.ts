@@ -0,0 +1,281 @@
+import { and, eq, gt, inArray, isNotNull, isNull, lt, or, type SQL } from 'drizzle-orm';
+import { db } from '../db';
+import {
+  bookings,
+  vehicles,
+  BookingStatus,
+  type Booking,
+  type Driver,
+  type Vehicle
+} from '@shared/schema';
+import { DataScopeService, type DataScope } from './data-scope';
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export interface VehicleReservation {
+  bookingId: number;
+  mergedTripId: number | null;
+  status: string;
+  start: Date;
+  end: Date;
+  // The reservation widened by the travel buffer on both sides
+  blockedFrom: Date;
+  blockedUntil: Date;
+}
+
+export interface VehicleAvailability {
+  vehicleId: number;
+  vehicleNumber: string;
+  vehicleName: string;
+  from: Date;
+  to: Date;
+  bufferMinutes: number;
+  reservations: VehicleReservation[];
+  freeSlots: TimeInterval[];
+}
+
+// Time kept free around every trip for the vehicle to reach the next pickup
+export const TRAVEL_BUFFER_MINUTES = parseInt(process.env.VEHICLE_TRAVEL_BUFFER_MINUTES || '30');
+
+// Assumed trip length when a booking has no dropoff time
+const DEFAULT_TRIP_MINUTES = 60;
+
+const MINUTE_MS = 60 * 1000;
+
+// Bookings in these statuses hold their assigned vehicle
+const RESERVING_STATUSES: string[] = [BookingStatus.CONFIRMED, BookingStatus.IN_PROGRESS];
+
+// Either the shared db or a transaction handle, so the check can run inside assignBookings' transaction
+type QueryExecutor = Pick<typeof db, 'select'>;
+
+export class VehicleAvailabilityService {
+  static getBookingInterval(booking: Booking): TimeInterval | null {
+    if (!booking.pickup_time) {
+      return null;
+    }
+    const start = new Date(booking.pickup_time);
+    const end = booking.dropoff_time
+      ? new Date(booking.dropoff_time)
+      : new Date(start.getTime() + DEFAULT_TRIP_MINUTES * MINUTE_MS);
+    return { start, end: end > start ? end : start };
+  }
+
+  // Span covered by a group of bookings travelling together
+  static getTripInterval(tripBookings: Booking[]): TimeInterval | null {
+    const intervals = tripBookings
+      .map(b => this.getBookingInterval(b))
+      .filter((interval): interval is TimeInterval => interval !== null);
+    if (intervals.length === 0) {
+      return null;
+    }
+    return {
+      start: new Date(Math.min(...intervals.map(i => i.start.getTime()))),
+      end: new Date(Math.max(...intervals.map(i => i.end.getTime())))
+    };
+  }
+
+  private static toReservation(booking: Booking): VehicleReservation | null {
+    const interval = this.getBookingInterval(booking);
+    if (!interval) {
+      return null;
+    }
+    return {
+      bookingId: booking.id,
+      mergedTripId: booking.merged_trip_id,
+      status: booking.status,
+      start: interval.start,
+      end: interval.end,
+      blockedFrom: new Date(interval.start.getTime() - TRAVEL_BUFFER_MINUTES * MINUTE_MS),
+      blockedUntil: new Date(interval.end.getTime() + TRAVEL_BUFFER_MINUTES * MINUTE_MS)
+    };
+  }
+
+  // Reservations by vehicle number whose buffered interval touches [from, to]
+  static async getReservations(
+    vehicleNumbers: string[],
+    from: Date,
+    to: Date,
+    executor: QueryExecutor = db
+  ): Promise<Map<string, VehicleReservation[]>> {
+    const result = new Map<string, VehicleReservation[]>(vehicleNumbers.map(n => [n, []]));
+    if (vehicleNumbers.length === 0) {
+      return result;
+    }
+
+    const rows = await executor
+      .select()
+      .from(bookings)
+      .where(and(inArray(bookings.assigned_vehicle_id, vehicleNumbers), this.reservedAround(from, to)));
+
+    for (const booking of rows) {
+      const reservation = this.toReservation(booking);
+      if (reservation && reservation.blockedFrom < to && reservation.blockedUntil > from) {
+        result.get(booking.assigned_vehicle_id!)!.push(reservation);
+      }
+    }
+    result.forEach(list => list.sort((a, b) => a.start.getTime() - b.start.getTime()));
+    return result;
+  }
+
+  // Reserving bookings that may touch [from, to]. The search is widened by the buffer; trips without
+  // a dropoff time are assumed to last DEFAULT_TRIP_MINUTES
+  private static reservedAround(from: Date, to: Date): SQL {
+    const buffer = TRAVEL_BUFFER_MINUTES * MINUTE_MS;
+    return and(
+      inArray(bookings.status, RESERVING_STATUSES),
+      isNotNull(bookings.pickup_time),
+      lt(bookings.pickup_time, new Date(to.getTime() + buffer)),
+      or(
+        gt(bookings.dropoff_time, new Date(from.getTime() - buffer)),
+        and(
+          isNull(bookings.dropoff_time),
+          gt(bookings.pickup_time, new Date(from.getTime() - buffer - DEFAULT_TRIP_MINUTES * MINUTE_MS))
+        )
+      )
+    )!;
+  }
+
+  // Reservations that would clash with the given trip; bookings of the same trip share the vehicle
+  static async findConflicts(
+    vehicleNumber: string,
+    tripBookings: Booking[],
+    executor: QueryExecutor = db
+  ): Promise<VehicleReservation[]> {
+    const interval = this.getTripInterval(tripBookings);
+    if (!interval) {
+      return [];
+    }
+
+    const reservations = await this.getReservations([vehicleNumber], interval.start, interval.end, executor);
+    return this.excludeOwnTrip(reservations.get(vehicleNumber) || [], tripBookings);
+  }
+
+  // The driver's other confirmed or running trips that clash with the given trip, using the same
+  // travel buffer as vehicles
+  static async findDriverConflicts(
+    driverId: number,
+    tripBookings: Booking[],
+    executor: QueryExecutor = db
+  ): Promise<VehicleReservation[]> {
+    const interval = this.getTripInterval(tripBookings);
+    if (!interval) {
+      return [];
+    }
+
+    const reservations = await this.getDriverReservations([driverId], interval.start, interval.end, executor);
+    return this.excludeOwnTrip(reservations.get(driverId) || [], tripBookings);
+  }
+
+  // Drop drivers already assigned to another trip around this trip's time
+  static async filterAvailableDrivers(candidates: Driver[], tripBookings: Booking[]): Promise<Driver[]> {
+    const interval = this.getTripInterval(tripBookings);
+    if (!interval || candidates.length === 0) {
+      return candidates;
+    }
+
+    const reservations = await this.getDriverReservations(candidates.map(d => d.id), interval.start, interval.end);
+    return candidates.filter(driver =>
+      this.excludeOwnTrip(reservations.get(driver.id) || [], tripBookings).length === 0
+    );
+  }
+
+  private static async getDriverReservations(
+    driverIds: number[],
+    from: Date,
+    to: Date,
+    executor: QueryExecutor = db
+  ): Promise<Map<number, VehicleReservation[]>> {
+    const result = new Map<number, VehicleReservation[]>(driverIds.map(id => [id, []]));
+    const rows = await executor
+      .select()
+      .from(bookings)
+      .where(and(inArray(bookings.assigned_driver_id, driverIds), this.reservedAround(from, to)));
+
+    for (const booking of rows) {
+      const reservation = this.toReservation(booking);
+      if (reservation && reservation.blockedFrom < to && reservation.blockedUntil > from) {
+        result.get(booking.assigned_driver_id!)!.push(reservation);
+      }
+    }
+    return result;
+  }
+
+  // Drop vehicles already reserved around the trip's time
+  static async filterAvailableVehicles(candidates: Vehicle[], tripBookings: Booking[]): Promise<Vehicle[]> {
+    const interval = this.getTripInterval(tripBookings);
+    if (!interval || candidates.length === 0) {
+      return candidates;
+    }
+
+    const reservations = await this.getReservations(candidates.map(v => v.vehicle_number), interval.start, interval.end);
+    return candidates.filter(vehicle =>
+      this.excludeOwnTrip(reservations.get(vehicle.vehicle_number) || [], tripBookings).length === 0
+    );
+  }
+
+  private static excludeOwnTrip(reservations: VehicleReservation[], tripBookings: Booking[]): VehicleReservation[] {
+    const ownIds = new Set(tripBookings.map(b => b.id));
+    const ownTrips = new Set(tripBookings.map(b => b.merged_trip_id).filter((id): id is number => id !== null));
+    return reservations.filter(r =>
+      !ownIds.has(r.bookingId) && !(r.mergedTripId !== null && ownTrips.has(r.mergedTripId))
+    );
+  }
+
+  static async getAvailability(vehicleId: number, from: Date, to: Date, scope: DataScope | null): Promise<VehicleAvailability | null> {
+    const [vehicle] = await db
+      .select()
+      .from(vehicles)
+      .where(and(eq(vehicles.id, vehicleId), scope ? DataScopeService.vehicleCondition(scope) : undefined));
+    if (!vehicle) {
+      return null;
+    }
+    const [availability] = await this.buildAvailability([vehicle], from, to);
+    return availability;
+  }
+
+  // Availability of every active vehicle in the caller's scope, for the fleet calendar
+  static async getFleetAvailability(from: Date, to: Date, scope: DataScope | null): Promise<VehicleAvailability[]> {
+    const fleet = await db
+      .select()
+      .from(vehicles)
+      .where(and(eq(vehicles.is_active, true), scope ? DataScopeService.vehicleCondition(scope) : undefined));
+    return await this.buildAvailability(fleet, from, to);
+  }
+
+  private static async buildAvailability(fleet: Vehicle[], from: Date, to: Date): Promise<VehicleAvailability[]> {
+    const reservations = await this.getReservations(fleet.map(v => v.vehicle_number), from, to);
+
+    return fleet.map(vehicle => {
+      const vehicleReservations = reservations.get(vehicle.vehicle_number) || [];
+
+      // Gaps between buffered reservations inside the requested range
+      const freeSlots: TimeInterval[] = [];
+      let cursor = from;
+      for (const reservation of vehicleReservations) {
+        if (reservation.blockedFrom > cursor) {
+          freeSlots.push({ start: cursor, end: reservation.blockedFrom < to ? reservation.blockedFrom : to });
+        }
+        if (reservation.blockedUntil > cursor) {
+          cursor = reservation.blockedUntil;
+        }
+      }
+      if (cursor < to) {
+        freeSlots.push({ start: cursor, end: to });
+      }
+
+      return {
+        vehicleId: vehicle.id,
+        vehicleNumber: vehicle.vehicle_number,
+        vehicleName: vehicle.name,
+        from,
+        to,
+        bufferMinutes: TRAVEL_BUFFER_MINUTES,
+        reservations: vehicleReservations,
+        freeSlots
+      };
+    });
+  }
+}
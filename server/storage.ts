@@ -1,4 +1,4 @@
-import { type Vehicle, type Driver, type Booking, type InsertBooking, type VehicleGroup, type InsertVehicleGroup, type VehicleMaster, type InsertVehicleMaster } from "@shared/schema";
+import { type Vehicle, type Driver, type InsertDriver, type Booking, type InsertBooking, type VehicleGroup, type InsertVehicleGroup, type VehicleMaster, type InsertVehicleMaster } from "@shared/schema";
 import * as z from 'zod';
 import bcrypt from 'bcryptjs';
 import { type Employee, type InsertEmployee } from '@shared/schema';
@@ -6,35 +6,64 @@ import { type User, type InsertUser } from '@shared/schema';
 import { type OtpVerification, type InsertOtpVerification } from '@shared/schema';
 import { type VehicleTypeMaster, type InsertVehicleTypeMaster, type FuelType, VehicleFuelType } from '@shared/schema';
 import { type ApprovalWorkflow, type InsertApprovalWorkflow } from '@shared/schema';
+import { type MergeRule, type InsertMergeRule } from '@shared/schema';
+import { type BookingStatusHistory, BookingStatus, canTransitionBookingStatus } from '@shared/schema';
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, gt, inArray } from "drizzle-orm";
 import { logBookingRequest, logBookingError } from "./debug/booking-debug";
+import { VehicleAvailabilityService, TRAVEL_BUFFER_MINUTES } from "./services/vehicle-availability";
+import { ResourceStatusService } from "./services/resource-status";
+import { FleetLiveService } from "./services/fleet-live";
+import { PricingService } from "./services/pricing";
+import { DataScopeService, type DataScope } from "./services/data-scope";
 import * as schema from "@shared/schema";
 import { sql } from 'drizzle-orm';
 
+// Handle passed to callbacks that must commit or roll back with a storage transaction
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // Add these methods to the IStorage interface
 export interface IStorage {
+  // List methods require the caller's data scope from getDataScope(req); only internal jobs that
+  // must see every record pass null explicitly
   // Vehicles
-  getVehicles(): Promise<Vehicle[]>;
-  getAvailableVehicles(): Promise<Vehicle[]>;
+  getVehicles(scope: DataScope | null): Promise<Vehicle[]>;
+  getAvailableVehicles(scope: DataScope | null): Promise<Vehicle[]>;
   updateVehicleStatus(id: number, status: string): Promise<Vehicle>;
 
   // Drivers
-  getDrivers(): Promise<Driver[]>;
-  getAvailableDrivers(): Promise<Driver[]>;
+  getDrivers(scope: DataScope | null): Promise<Driver[]>;
+  getAvailableDrivers(scope: DataScope | null): Promise<Driver[]>;
+  getDriver(id: number): Promise<Driver | null>;
+  // A single driver, or null when it does not exist or lies outside the scope
+  getScopedDriver(id: number, scope: DataScope | null): Promise<Driver | null>;
+  createDriver(driver: InsertDriver): Promise<Driver>;
+  updateDriver(id: number, data: Partial<InsertDriver>): Promise<Driver>;
   updateDriverStatus(id: number, status: string): Promise<Driver>;
+  deleteDriver(id: number): Promise<Driver>;
 
   // Bookings
-  getBookings(): Promise<Booking[]>;
+  getBookings(scope: DataScope | null): Promise<Booking[]>;
+  // A single booking, or null when it does not exist or lies outside the scope
+  getScopedBooking(id: number, scope: DataScope | null): Promise<Booking | null>;
   createBooking(booking: InsertBooking): Promise<Booking>;
-  assignBooking(bookingId: number, vehicleId: number, driverId: number): Promise<Booking>;
-  updateBookingStatus(id: number, status: string): Promise<Booking>;
+  // Bookings travelling together get the vehicle and driver all or none; onAssigned runs in the same transaction
+  assignBookings(
+    bookingIds: number[],
+    vehicleId: number,
+    driverId: number,
+    changedBy?: number,
+    onAssigned?: (tx: DbTransaction, assigned: Booking[]) => Promise<void>
+  ): Promise<Booking[]>;
+  updateBookingStatus(id: number, status: string, options?: { changedBy?: number; reason?: string; fields?: Partial<Booking> }): Promise<Booking>;
+  getBookingStatusHistory(bookingId: number): Promise<BookingStatusHistory[]>;
   deleteAllBookings(): Promise<void>;
   updateBookingMetadata(
     bookingId: number,
     metadata: {
       totalDistance?: number;
       estimatedCost?: number;
+      estimatedFuelCost?: number;
       co2Emissions?: number;
     }
   ): Promise<Booking>;
@@ -48,8 +77,10 @@ export interface IStorage {
   findUserByEmployeeEmail(email: string): Promise<User | null>;
   mapEmployeeToUser(employee: Employee): Promise<User | null>;
   mapUserToEmployee(user: User): Promise<Employee | null>;
-  getAllEmployees(): Promise<Employee[]>;
+  getAllEmployees(scope: DataScope | null): Promise<Employee[]>;
   getEmployeeById(id: number): Promise<Employee | null>;
+  // A single employee, or null when it does not exist or lies outside the scope
+  getScopedEmployee(id: number, scope: DataScope | null): Promise<Employee | null>;
   updateEmployee(id: number, data: Partial<InsertEmployee>): Promise<Employee>;
   deleteEmployee(id: number): Promise<void>;
 
@@ -72,7 +103,7 @@ export interface IStorage {
   activateUser(userId: number): Promise<User>;
 
   // Add Vehicle Group methods
-  getAllVehicleGroups(): Promise<VehicleGroup[]>;
+  getAllVehicleGroups(scope: DataScope | null): Promise<VehicleGroup[]>;
   getVehicleGroup(id: number): Promise<VehicleGroup | null>;
   createVehicleGroup(group: InsertVehicleGroup): Promise<VehicleGroup>;
   updateVehicleGroup(id: number, data: Partial<InsertVehicleGroup>): Promise<VehicleGroup>;
@@ -82,8 +113,14 @@ export interface IStorage {
   getWorkflows(): Promise<ApprovalWorkflow[]>;
   updateWorkflow(id: number, data: Partial<InsertApprovalWorkflow>): Promise<ApprovalWorkflow>;
 
+  // Merge rule methods
+  getMergeRules(): Promise<MergeRule[]>;
+  createMergeRule(rule: InsertMergeRule): Promise<MergeRule>;
+  updateMergeRule(id: number, data: Partial<InsertMergeRule>): Promise<MergeRule>;
+  deleteMergeRule(id: number): Promise<void>;
+
   // Vehicle Type Master methods
-  getAllVehicleTypes(): Promise<VehicleTypeMaster[]>;
+  getAllVehicleTypes(scope: DataScope | null): Promise<VehicleTypeMaster[]>;
   getVehicleType(id: number): Promise<VehicleTypeMaster | null>;
   createVehicleType(type: InsertVehicleTypeMaster): Promise<VehicleTypeMaster>;
   updateVehicleType(id: number, data: Partial<InsertVehicleTypeMaster>): Promise<VehicleTypeMaster>;
@@ -97,7 +134,6 @@ export interface IStorage {
 
   updateUserResetToken(userId: number, resetToken: string | null, resetTokenExpiry: Date | null): Promise<User>;
   findUserByResetToken(resetToken: string): Promise<User | null>;
-  getAllEmployees(): Promise<Employee[]>;
   updateUserPassword(userId: number, hashedPassword: string): Promise<User>;
   initializeDefaultUser(): Promise<void>; // Added method
   
@@ -166,7 +202,7 @@ export class DatabaseStorage implements IStorage {
       const idleConsumptionAdjustmentFactor = 1.02; // 2% increase in idle consumption for new fuel
       
       // Get all vehicle types
-      const vehicleTypes = await this.getAllVehicleTypes();
+      const vehicleTypes = await this.getAllVehicleTypes(null);
       
       // Get current month/year for logging
       const newDataMonth = new Date().toLocaleString('default', { month: 'long', year: 'numeric' });
@@ -473,10 +509,13 @@ export class DatabaseStorage implements IStorage {
     }
   }
   // Vehicle Type Master methods
-  async getAllVehicleTypes(): Promise<VehicleTypeMaster[]> {
+  async getAllVehicleTypes(scope: DataScope | null): Promise<VehicleTypeMaster[]> {
     try {
       console.log("Querying vehicle type master records");
-      const vehicleTypes = await db.select().from(schema.vehicleTypeMaster);
+      const vehicleTypes = await db
+        .select()
+        .from(schema.vehicleTypeMaster)
+        .where(scope ? DataScopeService.vehicleTypeCondition(scope) : undefined);
       
       // Process each vehicle type to ensure we don't have null values for important fields
       const processedTypes = vehicleTypes.map(type => {
@@ -601,8 +640,11 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Vehicle Group methods
-  async getAllVehicleGroups(): Promise<VehicleGroup[]> {
-    return await db.select().from(schema.vehicleGroups);
+  async getAllVehicleGroups(scope: DataScope | null): Promise<VehicleGroup[]> {
+    return await db
+      .select()
+      .from(schema.vehicleGroups)
+      .where(scope ? DataScopeService.vehicleGroupCondition(scope) : undefined);
   }
 
   async getVehicleGroup(id: number): Promise<VehicleGroup | null> {
@@ -676,11 +718,23 @@ export class DatabaseStorage implements IStorage {
     return updatedVehicle;
   }
 
-  async getVehicles(): Promise<Vehicle[]> {
-    throw new Error("Method not implemented.");
+  async getVehicles(scope: DataScope | null): Promise<Vehicle[]> {
+    return await db
+      .select()
+      .from(schema.vehicles)
+      .where(scope ? DataScopeService.vehicleCondition(scope) : undefined);
   }
-  async getAvailableVehicles(): Promise<Vehicle[]> {
-    throw new Error("Method not implemented.");
+  async getAvailableVehicles(scope: DataScope | null): Promise<Vehicle[]> {
+    return await db
+      .select()
+      .from(schema.vehicles)
+      .where(
+        and(
+          eq(schema.vehicles.status, schema.VehicleStatus.AVAILABLE),
+          eq(schema.vehicles.is_active, true),
+          scope ? DataScopeService.vehicleCondition(scope) : undefined
+        )
+      );
   }
   async updateVehicleStatus(id: number, status: string): Promise<Vehicle> {
     const [vehicle] = await db
@@ -694,26 +748,132 @@ export class DatabaseStorage implements IStorage {
 
     return vehicle;
   }
-  async getDrivers(): Promise<Driver[]> {
-    throw new Error("Method not implemented.");
+  async getDrivers(scope: DataScope | null): Promise<Driver[]> {
+    return await db
+      .select()
+      .from(schema.drivers)
+      .where(scope ? DataScopeService.driverCondition(scope) : undefined);
   }
-  async getAvailableDrivers(): Promise<Driver[]> {
-    throw new Error("Method not implemented.");
+  async getAvailableDrivers(scope: DataScope | null): Promise<Driver[]> {
+    // Drivers with an expired license are never offered for assignment
+    return await db
+      .select()
+      .from(schema.drivers)
+      .where(
+        and(
+          eq(schema.drivers.status, schema.DriverStatus.AVAILABLE),
+          eq(schema.drivers.is_active, true),
+          gt(schema.drivers.license_expiry, new Date()),
+          scope ? DataScopeService.driverCondition(scope) : undefined
+        )
+      );
+  }
+  async getDriver(id: number): Promise<Driver | null> {
+    const [driver] = await db.select().from(schema.drivers).where(eq(schema.drivers.id, id));
+    return driver || null;
+  }
+  async getScopedDriver(id: number, scope: DataScope | null): Promise<Driver | null> {
+    const [driver] = await db
+      .select()
+      .from(schema.drivers)
+      .where(
+        and(
+          eq(schema.drivers.id, id),
+          scope ? DataScopeService.driverCondition(scope) : undefined
+        )
+      );
+    return driver || null;
+  }
+  async createDriver(driverData: InsertDriver): Promise<Driver> {
+    try {
+      console.log('Creating driver:', driverData.employee_id);
+      const [driver] = await db
+        .insert(schema.drivers)
+        .values({
+          ...driverData,
+          created_at: new Date(),
+          updated_at: new Date()
+        })
+        .returning();
+      return driver;
+    } catch (error) {
+      console.error('Error creating driver:', error);
+      throw error;
+    }
+  }
+  async updateDriver(id: number, data: Partial<InsertDriver>): Promise<Driver> {
+    try {
+      console.log(`Updating driver ${id}:`, data);
+      const [driver] = await db
+        .update(schema.drivers)
+        .set({
+          ...data,
+          updated_at: new Date()
+        })
+        .where(eq(schema.drivers.id, id))
+        .returning();
+
+      if (!driver) {
+        throw new Error(`Driver with ID ${id} not found`);
+      }
+      return driver;
+    } catch (error) {
+      console.error(`Error updating driver ${id}:`, error);
+      throw error;
+    }
   }
   async updateDriverStatus(id: number, status: string): Promise<Driver> {
+    if (!(Object.values(schema.DriverStatus) as string[]).includes(status)) {
+      throw new Error(`Invalid driver status: ${status}`);
+    }
+
     const [driver] = await db
       .update(schema.drivers)
       .set({
         status,
-        updatedAt: new Date()
+        updated_at: new Date()
       })
       .where(eq(schema.drivers.id, id))
       .returning();
 
+    if (!driver) {
+      throw new Error(`Driver with ID ${id} not found`);
+    }
     return driver;
   }
-  async getBookings(): Promise<Booking[]> {
-    return await db.select().from(schema.bookings);
+  async deleteDriver(id: number): Promise<Driver> {
+    try {
+      const [driver] = await db
+        .delete(schema.drivers)
+        .where(eq(schema.drivers.id, id))
+        .returning();
+
+      if (!driver) {
+        throw new Error(`Driver with ID ${id} not found`);
+      }
+      return driver;
+    } catch (error) {
+      console.error(`Error deleting driver ${id}:`, error);
+      throw error;
+    }
+  }
+  async getBookings(scope: DataScope | null): Promise<Booking[]> {
+    return await db
+      .select()
+      .from(schema.bookings)
+      .where(scope ? DataScopeService.bookingCondition(scope) : undefined);
+  }
+  async getScopedBooking(id: number, scope: DataScope | null): Promise<Booking | null> {
+    const [booking] = await db
+      .select()
+      .from(schema.bookings)
+      .where(
+        and(
+          eq(schema.bookings.id, id),
+          scope ? DataScopeService.bookingCondition(scope) : undefined
+        )
+      );
+    return booking || null;
   }
   async createBooking(bookingData: InsertBooking): Promise<Booking> {
     const debugId = Date.now().toString();
@@ -1177,34 +1337,157 @@ RETURNING *;`;
       throw new Error(error instanceof Error ? error.message : "Failed to create booking");
     }
   }
-  async assignBooking(bookingId: number, vehicleId: number, driverId: number): Promise<Booking> {
+  async assignBookings(
+    bookingIds: number[],
+    vehicleId: number,
+    driverId: number,
+    changedBy?: number,
+    onAssigned?: (tx: DbTransaction, assigned: Booking[]) => Promise<void>
+  ): Promise<Booking[]> {
     try {
-      console.log(`Assigning booking ${bookingId} to vehicle ${vehicleId} and driver ${driverId}`);
+      console.log(`Assigning bookings ${bookingIds.join(', ')} to vehicle ${vehicleId} and driver ${driverId}`);
+
+      // Bookings reference vehicles by their vehicle number rather than the numeric ID
+      const [vehicle] = await db
+        .select({ vehicle_number: schema.vehicles.vehicle_number })
+        .from(schema.vehicles)
+        .where(eq(schema.vehicles.id, vehicleId));
+
+      if (!vehicle) {
+        throw new Error(`Vehicle with ID ${vehicleId} not found`);
+      }
       
-      const [booking] = await db
-        .update(schema.bookings)
-        .set({
-          assigned_vehicle_id: vehicleId,
-          assigned_driver_id: driverId,
-          status: "confirmed",
-          confirmed_at: new Date(),
-          updated_at: new Date()
-        })
-        .where(eq(schema.bookings.id, bookingId))
-        .returning();
+      const [driver] = await db
+        .select()
+        .from(schema.drivers)
+        .where(eq(schema.drivers.id, driverId));
 
-      if (!booking) {
-        throw new Error(`Booking with ID ${bookingId} not found`);
+      if (!driver) {
+        throw new Error(`Driver with ID ${driverId} not found`);
       }
       
-      console.log("Successfully assigned booking:", booking);
-      return booking;
+      const previousVehicleNumbers = new Set<string>();
+      const assigned = await db.transaction(async (tx) => {
+        const existingBookings = await tx
+          .select()
+          .from(schema.bookings)
+          .where(inArray(schema.bookings.id, bookingIds))
+          .for('update');
+
+        const missing = bookingIds.find(id => !existingBookings.some(b => b.id === id));
+        if (missing !== undefined) {
+          throw new Error(`Booking with ID ${missing} not found`);
+        }
+        existingBookings.forEach(b => b.assigned_vehicle_id && previousVehicleNumbers.add(b.assigned_vehicle_id));
+
+        // The license must stay valid until the last dropoff, or the last pickup when no dropoff is set
+        const tripEnd = new Date(Math.max(
+          Date.now(),
+          ...existingBookings.map(b => new Date(b.dropoff_time ?? b.pickup_time ?? Date.now()).getTime())
+        ));
+        if (new Date(driver.license_expiry) <= tripEnd) {
+          throw new Error(`Driver ${driver.name} cannot be assigned: license expires on ${new Date(driver.license_expiry).toDateString()}, before the trip ends`);
+        }
+
+        // Lock the vehicle and driver so two trips cannot be confirmed on either concurrently
+        await tx
+          .select({ id: schema.vehicles.id })
+          .from(schema.vehicles)
+          .where(eq(schema.vehicles.id, vehicleId))
+          .for('update');
+        await tx
+          .select({ id: schema.drivers.id })
+          .from(schema.drivers)
+          .where(eq(schema.drivers.id, driverId))
+          .for('update');
+
+        const [conflict] = await VehicleAvailabilityService.findConflicts(vehicle.vehicle_number, existingBookings, tx);
+        if (conflict) {
+          throw new Error(
+            `Vehicle ${vehicle.vehicle_number} is already reserved for booking ${conflict.bookingId} ` +
+            `from ${conflict.start.toISOString()} to ${conflict.end.toISOString()} with a ${TRAVEL_BUFFER_MINUTES} minute travel buffer either side`
+          );
+        }
+
+        const [driverConflict] = await VehicleAvailabilityService.findDriverConflicts(driverId, existingBookings, tx);
+        if (driverConflict) {
+          throw new Error(
+            `Driver ${driver.name} is already assigned to booking ${driverConflict.bookingId} ` +
+            `from ${driverConflict.start.toISOString()} to ${driverConflict.end.toISOString()} with a ${TRAVEL_BUFFER_MINUTES} minute travel buffer either side`
+          );
+        }
+
+        const updatedBookings: Booking[] = [];
+        for (const existingBooking of existingBookings) {
+          // Re-assigning an already confirmed booking keeps its status
+          const isReassignment = existingBooking.status === BookingStatus.CONFIRMED;
+          if (!isReassignment && !canTransitionBookingStatus(existingBooking.status, BookingStatus.CONFIRMED)) {
+            throw new Error(`Invalid status transition from ${existingBooking.status} to ${BookingStatus.CONFIRMED}`);
+          }
+
+          const [updated] = await tx
+            .update(schema.bookings)
+            .set({
+              assigned_vehicle_id: vehicle.vehicle_number,
+              assigned_driver_id: driverId,
+              status: BookingStatus.CONFIRMED,
+              confirmed_at: isReassignment ? existingBooking.confirmed_at : new Date(),
+              updated_at: new Date()
+            })
+            .where(eq(schema.bookings.id, existingBooking.id))
+            .returning();
+
+          if (!isReassignment) {
+            await tx.insert(schema.bookingStatusHistory).values({
+              booking_id: existingBooking.id,
+              previous_status: existingBooking.status,
+              status: BookingStatus.CONFIRMED,
+              changed_by: changedBy,
+              reason: `Assigned vehicle ${vehicle.vehicle_number} and driver ${driver.name}`,
+              created_at: new Date()
+            });
+          }
+          updatedBookings.push(updated);
+        }
+
+        if (onAssigned) {
+          await onAssigned(tx, updatedBookings);
+        }
+        return updatedBookings;
+      });
+      
+      console.log(`Successfully assigned bookings ${bookingIds.join(', ')}`);
+      // A re-assigned trip moves off its previous vehicle's map marker too
+      previousVehicleNumbers.add(vehicle.vehicle_number);
+      FleetLiveService.notify({ vehicleNumbers: Array.from(previousVehicleNumbers) });
+
+      // The bookings were priced on a candidate vehicle type; re-price them on the assigned vehicle
+      const repriced: Booking[] = [];
+      for (const booking of assigned) {
+        try {
+          const estimate = await PricingService.estimateForBooking(booking);
+          repriced.push(await this.updateBookingMetadata(booking.id, {
+            totalDistance: estimate.distanceKm,
+            estimatedCost: estimate.total,
+            estimatedFuelCost: estimate.fuelCost,
+            co2Emissions: estimate.co2Kg
+          }));
+        } catch (estimateError) {
+          console.error(`Could not re-estimate booking ${booking.id} on vehicle ${vehicle.vehicle_number}:`, estimateError);
+          repriced.push(booking);
+        }
+      }
+      return repriced;
     } catch (error) {
-      console.error("Error assigning booking:", error);
-      throw new Error(error instanceof Error ? error.message : "Failed to assign booking");
+      console.error("Error assigning bookings:", error);
+      throw new Error(error instanceof Error ? error.message : "Failed to assign bookings");
     }
   }
-  async updateBookingStatus(id: number, status: string): Promise<Booking> {
+  async updateBookingStatus(
+    id: number,
+    status: string,
+    options: { changedBy?: number; reason?: string; fields?: Partial<Booking> } = {}
+  ): Promise<Booking> {
     try {
       console.log(`Updating booking ${id} status to: ${status}`);
       
@@ -1212,54 +1495,104 @@ RETURNING *;`;
       if (!id || isNaN(id)) {
         throw new Error(`Invalid booking ID: ${id}`);
       }
-      
-      // Check if booking exists
-      const [existingBooking] = await db
-        .select()
-        .from(schema.bookings)
-        .where(eq(schema.bookings.id, id));
-        
-      if (!existingBooking) {
-        throw new Error(`Booking with ID ${id} not found`);
+
+      if (!(Object.values(BookingStatus) as string[]).includes(status)) {
+        throw new Error(`Invalid booking status: ${status}`);
       }
+      
+      const booking = await db.transaction(async (tx) => {
+        // Check if booking exists, locking it so concurrent changes can't skip a step
+        const [existingBooking] = await tx
+          .select()
+          .from(schema.bookings)
+          .where(eq(schema.bookings.id, id))
+          .for('update');
+          
+        if (!existingBooking) {
+          throw new Error(`Booking with ID ${id} not found`);
+        }
 
-      const statusTimestamp = new Date();
-      const dbData: any = {
-        status,
-        updated_at: statusTimestamp
-      };
+        if (!canTransitionBookingStatus(existingBooking.status, status)) {
+          throw new Error(`Invalid status transition from ${existingBooking.status} to ${status}`);
+        }
 
-      // Add specific timestamp based on status using snake_case for db fields
-      switch (status) {
-        case "confirmed":
-          dbData.confirmed_at = statusTimestamp;
-          break;
-        case "completed":
-          dbData.completed_at = statusTimestamp;
-          break;
-        case "cancelled":
-          dbData.cancelled_at = statusTimestamp;
-          break;
-      }
+        // A booking routed into an approval workflow is decided only by its assigned approver,
+        // through BookingApprovalService, so the approval chain and its records stay intact
+        if ((status === BookingStatus.APPROVED || status === BookingStatus.REJECTED) &&
+            (existingBooking.approval_workflow_id || existingBooking.current_approver_id)) {
+          throw new Error(`Invalid status transition to ${status}: booking ${id} must be decided by its assigned approver`);
+        }
 
-      const [updatedBooking] = await db
-        .update(schema.bookings)
-        .set(dbData)
-        .where(eq(schema.bookings.id, id))
-        .returning();
+        const statusTimestamp = new Date();
+        // Columns that belong with the new status, such as a trip's start time, commit with it
+        const dbData: any = {
+          ...options.fields,
+          status,
+          updated_at: statusTimestamp
+        };
 
-      if (!updatedBooking) {
-        throw new Error(`Failed to update status for booking with ID ${id}`);
+        // Add specific timestamp based on status using snake_case for db fields
+        switch (status) {
+          case "confirmed":
+            dbData.confirmed_at = statusTimestamp;
+            break;
+          case "completed":
+            dbData.completed_at = statusTimestamp;
+            break;
+          case "cancelled":
+            dbData.cancelled_at = statusTimestamp;
+            break;
+        }
+
+        const [updatedBooking] = await tx
+          .update(schema.bookings)
+          .set(dbData)
+          .where(eq(schema.bookings.id, id))
+          .returning();
+
+        if (!updatedBooking) {
+          throw new Error(`Failed to update status for booking with ID ${id}`);
+        }
+
+        await tx.insert(schema.bookingStatusHistory).values({
+          booking_id: id,
+          previous_status: existingBooking.status,
+          status,
+          changed_by: options.changedBy,
+          reason: options.reason,
+          created_at: statusTimestamp
+        });
+
+        // Starting a trip puts the vehicle and driver in service; finishing or cancelling releases them
+        await ResourceStatusService.syncForBooking(tx, updatedBooking, statusTimestamp);
+        
+        console.log(`Successfully updated booking ${id} status from ${existingBooking.status} to ${status}`);
+        return updatedBooking;
+      });
+
+      if (booking.assigned_vehicle_id) {
+        FleetLiveService.notify({ vehicleNumbers: [booking.assigned_vehicle_id] });
       }
-      
-      console.log(`Successfully updated booking ${id} status to ${status}`);
-      return updatedBooking;
+      return booking;
     } catch (error) {
       console.error(`Error updating booking status:`, error);
       throw new Error(error instanceof Error ? error.message : "Failed to update booking status");
     }
   }
 
+  async getBookingStatusHistory(bookingId: number): Promise<BookingStatusHistory[]> {
+    try {
+      return await db
+        .select()
+        .from(schema.bookingStatusHistory)
+        .where(eq(schema.bookingStatusHistory.booking_id, bookingId))
+        .orderBy(schema.bookingStatusHistory.created_at);
+    } catch (error) {
+      console.error(`Error fetching status history for booking ${bookingId}:`, error);
+      throw error;
+    }
+  }
+
   async deleteAllBookings(): Promise<void> {
     try {
       console.log("[BOOKINGS-DELETE-ALL] Deleting all bookings from database");
@@ -1699,6 +2032,20 @@ RETURNING *;`;
   async deleteUser(userId: number): Promise<void> {
     try {
       console.log('Deleting user:', userId);
+      await db
+        .delete(schema.userSessions)
+        .where(eq(schema.userSessions.user_id, userId));
+      await db
+        .delete(schema.userTwoFactor)
+        .where(eq(schema.userTwoFactor.user_id, userId));
+      await db
+        .delete(schema.passwordHistory)
+        .where(eq(schema.passwordHistory.user_id, userId));
+      // Sign-in attempts stay in the audit trail under the identifier that was typed
+      await db
+        .update(schema.loginAttempts)
+        .set({ user_id: null })
+        .where(eq(schema.loginAttempts.user_id, userId));
       await db
         .delete(schema.users)
         .where(eq(schema.users.id, userId));
@@ -1773,6 +2120,7 @@ RETURNING *;`;
     metadata: {
       totalDistance?: number;
       estimatedCost?: number;
+      estimatedFuelCost?: number;
       co2Emissions?: number;
     }
   ): Promise<Booking> {
@@ -1798,6 +2146,7 @@ RETURNING *;`;
       const dbMetadata: any = {};
       if (metadata.totalDistance !== undefined) dbMetadata.total_distance = metadata.totalDistance;
       if (metadata.estimatedCost !== undefined) dbMetadata.estimated_cost = metadata.estimatedCost;
+      if (metadata.estimatedFuelCost !== undefined) dbMetadata.estimated_fuel_cost = metadata.estimatedFuelCost;
       if (metadata.co2Emissions !== undefined) dbMetadata.co2_emissions = metadata.co2Emissions;
 
       const [updatedBooking] = await db
@@ -1968,12 +2317,13 @@ RETURNING *;`;
     }
   }
 
-  async getAllEmployees(): Promise<Employee[]> {
+  async getAllEmployees(scope: DataScope | null): Promise<Employee[]> {
     try {
       console.log('Fetching all employees');
       const employees = await db
         .select()
         .from(schema.employees)
+        .where(scope ? DataScopeService.employeeCondition(scope) : undefined)
         .orderBy(schema.employees.employee_id);
 
       console.log(`Found ${employees.length} employees`);
@@ -2064,6 +2414,19 @@ RETURNING *;`;
     }
   }
 
+  async getScopedEmployee(id: number, scope: DataScope | null): Promise<Employee | null> {
+    const [employee] = await db
+      .select()
+      .from(schema.employees)
+      .where(
+        and(
+          eq(schema.employees.id, id),
+          scope ? DataScopeService.employeeCondition(scope) : undefined
+        )
+      );
+    return employee || null;
+  }
+
   async updateEmployee(id: number, data: Partial<InsertEmployee>): Promise<Employee> {
     try {
       console.log(`Updating employee with ID ${id}:`, data);
@@ -2235,6 +2598,7 @@ RETURNING *;`;
         .update(schema.users)
         .set({
           password: hashedPassword,
+          password_changed_at: new Date(),
           reset_token: null,
           reset_token_expiry: null,
           updated_at: new Date()
@@ -2274,6 +2638,7 @@ RETURNING *;`;
         console.error('Workflow for this region/department/unit combination already exists');
         throw new Error('A workflow for this region, department, and unit combination already exists');
       }
+      this.assertWorkflowLevelsConfigured(workflow.levels_required, workflow.level_2_approver_id ?? null);
       
       // Set timestamps
       const workflowWithTimestamps = {
@@ -2316,6 +2681,15 @@ RETURNING *;`;
   async updateWorkflow(id: number, data: Partial<InsertApprovalWorkflow>): Promise<ApprovalWorkflow> {
     try {
       console.log(`Updating workflow with ID ${id}:`, data);
+
+      const [existing] = await db.select().from(schema.approvalWorkflows).where(eq(schema.approvalWorkflows.id, id));
+      if (!existing) {
+        throw new Error(`Workflow with ID ${id} not found`);
+      }
+      this.assertWorkflowLevelsConfigured(
+        data.levels_required ?? existing.levels_required,
+        data.level_2_approver_id !== undefined ? data.level_2_approver_id : existing.level_2_approver_id
+      );
       
       // Set the updated_at timestamp
       const updateData = {
@@ -2342,6 +2716,143 @@ RETURNING *;`;
     }
   }
 
+  // A workflow requiring both levels would otherwise be fully approved after Level 1
+  private assertWorkflowLevelsConfigured(levelsRequired: string, level2ApproverId: number | null): void {
+    if (levelsRequired === schema.WorkflowLevels.BOTH_LEVELS && !level2ApproverId) {
+      throw new Error('Workflows requiring both levels need a Level 2 approver');
+    }
+  }
+
+  // Merge rule methods
+  async getMergeRules(): Promise<MergeRule[]> {
+    try {
+      console.log('Fetching all merge rules');
+      const rules = await db.select().from(schema.mergeRules);
+      console.log(`Found ${rules.length} merge rules`);
+      return rules;
+    } catch (error) {
+      console.error('Error fetching merge rules:', error);
+      throw error;
+    }
+  }
+
+  async createMergeRule(rule: InsertMergeRule): Promise<MergeRule> {
+    try {
+      console.log('Creating new merge rule:', rule);
+
+      await this.assertMergeRuleScopeFree(rule.region ?? null, rule.department ?? null);
+
+      const [newRule] = await db
+        .insert(schema.mergeRules)
+        .values({
+          ...this.toMergeRuleColumns(rule),
+          rule_name: rule.rule_name,
+          created_at: new Date(),
+          updated_at: new Date()
+        })
+        .returning();
+
+      console.log('Merge rule created successfully:', newRule);
+      return newRule;
+    } catch (error) {
+      console.error('Error creating merge rule:', error);
+      throw this.toMergeRuleConflict(error);
+    }
+  }
+
+  async updateMergeRule(id: number, data: Partial<InsertMergeRule>): Promise<MergeRule> {
+    try {
+      console.log(`Updating merge rule with ID ${id}:`, data);
+
+      const [existing] = await db.select().from(schema.mergeRules).where(eq(schema.mergeRules.id, id));
+      if (!existing) {
+        throw new Error(`Merge rule with ID ${id} not found`);
+      }
+      // Moving a rule to another scope must not collide with the rule already there
+      await this.assertMergeRuleScopeFree(
+        data.region !== undefined ? data.region ?? null : existing.region,
+        data.department !== undefined ? data.department ?? null : existing.department,
+        id
+      );
+
+      const [updatedRule] = await db
+        .update(schema.mergeRules)
+        .set({
+          ...this.toMergeRuleColumns(data),
+          updated_at: new Date()
+        })
+        .where(eq(schema.mergeRules.id, id))
+        .returning();
+
+      if (!updatedRule) {
+        throw new Error(`Merge rule with ID ${id} not found`);
+      }
+
+      console.log('Merge rule updated successfully:', updatedRule);
+      return updatedRule;
+    } catch (error) {
+      console.error(`Error updating merge rule with ID ${id}:`, error);
+      throw this.toMergeRuleConflict(error);
+    }
+  }
+
+  async deleteMergeRule(id: number): Promise<void> {
+    try {
+      console.log(`Deleting merge rule with ID ${id}`);
+
+      const [deletedRule] = await db
+        .delete(schema.mergeRules)
+        .where(eq(schema.mergeRules.id, id))
+        .returning();
+
+      if (!deletedRule) {
+        throw new Error(`Merge rule with ID ${id} not found`);
+      }
+    } catch (error) {
+      console.error(`Error deleting merge rule with ID ${id}:`, error);
+      throw error;
+    }
+  }
+
+  // Only one rule may exist for each region/department scope, including the default scope. The
+  // unique index treats NULLs as distinct, so the default scope is only guarded here.
+  private async assertMergeRuleScopeFree(region: string | null, department: string | null, excludeId?: number): Promise<void> {
+    const [duplicate] = await db
+      .select({ id: schema.mergeRules.id })
+      .from(schema.mergeRules)
+      .where(and(
+        sql`${schema.mergeRules.region} is not distinct from ${region}`,
+        sql`${schema.mergeRules.department} is not distinct from ${department}`,
+        excludeId !== undefined ? sql`${schema.mergeRules.id} <> ${excludeId}` : undefined
+      ))
+      .limit(1);
+    if (duplicate) {
+      throw new Error('A merge rule for this region and department combination already exists');
+    }
+  }
+
+  // A concurrent write can still hit the unique index after the check above passed
+  private toMergeRuleConflict(error: unknown): unknown {
+    if ((error as { code?: string })?.code === '23505') {
+      return new Error('A merge rule for this region and department combination already exists');
+    }
+    return error;
+  }
+
+  // Decimal columns are stored as strings, so convert numeric thresholds before writing
+  private toMergeRuleColumns(data: Partial<InsertMergeRule>) {
+    return {
+      ...(data.rule_name !== undefined && { rule_name: data.rule_name }),
+      ...(data.region !== undefined && { region: data.region }),
+      ...(data.department !== undefined && { department: data.department }),
+      ...(data.max_pickup_distance_km !== undefined && { max_pickup_distance_km: data.max_pickup_distance_km.toString() }),
+      ...(data.max_dropoff_distance_km !== undefined && { max_dropoff_distance_km: data.max_dropoff_distance_km.toString() }),
+      ...(data.time_window_minutes !== undefined && { time_window_minutes: data.time_window_minutes }),
+      ...(data.max_detour_percent !== undefined && { max_detour_percent: data.max_detour_percent.toString() }),
+      ...(data.is_active !== undefined && { is_active: data.is_active })
+    };
+  }
+
   async initializeDefaultUser(): Promise<void> {
     try {
       console.log("Checking for default user existence...");
@@ -289,6 +289,38 @@ export const BookingStatus = {
   IN_PROGRESS: "in_progress",
   COMPLETED: "completed",
   CANCELLED: "cancelled",
+  REJECTED: "rejected",
+} as const;
+
+// Allowed moves between booking statuses; completed, cancelled and rejected are final
+export const BookingStatusTransitions: Record<string, string[]> = {
+  [BookingStatus.NEW]: [BookingStatus.PENDING, BookingStatus.APPROVED, BookingStatus.REJECTED, BookingStatus.CANCELLED],
+  [BookingStatus.PENDING]: [BookingStatus.APPROVED, BookingStatus.REJECTED, BookingStatus.CANCELLED],
+  [BookingStatus.APPROVED]: [BookingStatus.CONFIRMED, BookingStatus.CANCELLED],
+  [BookingStatus.CONFIRMED]: [BookingStatus.IN_PROGRESS, BookingStatus.CANCELLED],
+  [BookingStatus.IN_PROGRESS]: [BookingStatus.COMPLETED, BookingStatus.CANCELLED],
+  [BookingStatus.COMPLETED]: [],
+  [BookingStatus.CANCELLED]: [],
+  [BookingStatus.REJECTED]: [],
+};
+
+export function canTransitionBookingStatus(from: string, to: string): boolean {
+  return (BookingStatusTransitions[from] || []).includes(to);
+}
+
+export const ApprovalDecision = {
+  APPROVED: "approved",
+  REJECTED: "rejected",
+} as const;
+
+export const DispatchDecisionType = {
+  AUTOMATIC: "automatic",
+  MANUAL: "manual",
+} as const;
+
+export const TripMergeStatus = {
+  ACTIVE: "active",
+  DISSOLVED: "dissolved",
 } as const;
 
 export const locations = z.object({
@@ -353,6 +385,105 @@ export const WorkflowLevels = {
   BOTH_LEVELS: "Level 1 & 2"
 } as const;
 
+// Who an overdue approval is handed to when the workflow's SLA runs out
+export const EscalationTarget = {
+  SUPERVISOR: "Supervisor",
+  LEVEL_2_APPROVER: "Level 2 Approver"
+} as const;
+
+export const EscalationReason = {
+  SLA_BREACH: "sla_breach",
+  OUT_OF_OFFICE: "out_of_office",
+  DELEGATED: "delegated"
+} as const;
+
+export const WorkOrderType = {
+  PREVENTIVE: "preventive",
+  CORRECTIVE: "corrective"
+} as const;
+
+export const WorkOrderStatus = {
+  OPEN: "open",
+  IN_PROGRESS: "in_progress",
+  CLOSED: "closed"
+} as const;
+
+export const MaintenanceAlertType = {
+  DUE_SOON: "due_soon",
+  OVERDUE: "overdue"
+} as const;
+
+export const DriverShiftType = {
+  REGULAR: "regular",
+  OVERTIME: "overtime",
+  LEAVE: "leave"
+} as const;
+
+export const DriverShiftStatus = {
+  SCHEDULED: "scheduled",
+  ACTIVE: "active",
+  COMPLETED: "completed",
+  CANCELLED: "cancelled"
+} as const;
+
+export const GeofenceShape = {
+  CIRCLE: "circle",
+  POLYGON: "polygon"
+} as const;
+
+export const GeofenceCategory = {
+  DEPOT: "depot",
+  HOSPITAL: "hospital",
+  SITE: "site",
+  RESTRICTED: "restricted"
+} as const;
+
+export const GeofenceEventType = {
+  ENTRY: "entry",
+  EXIT: "exit",
+  DWELL: "dwell"
+} as const;
+
+// Points on a trip a driver reports arriving at
+export const TripStopType = {
+  PICKUP: "pickup",
+  WAYPOINT: "waypoint",
+  DROPOFF: "dropoff"
+} as const;
+
+export const RoadClass = {
+  MOTORWAY: "motorway",
+  PRIMARY: "primary",
+  URBAN: "urban",
+  RESIDENTIAL: "residential"
+} as const;
+
+export const DrivingEventType = {
+  OVER_SPEED: "over_speed",
+  HARSH_ACCELERATION: "harsh_acceleration",
+  HARSH_BRAKING: "harsh_braking",
+  EXCESSIVE_IDLING: "excessive_idling"
+} as const;
+
+export const DrivingEventSeverity = {
+  LOW: "low",
+  MEDIUM: "medium",
+  HIGH: "high"
+} as const;
+
+// Whose record an achievement is measured against
+export const AchievementScope = {
+  USER: "user",
+  DEPARTMENT: "department"
+} as const;
+
+export const AchievementCriteria = {
+  CO2_EMISSIONS_TARGET: "CO2_EMISSIONS_TARGET",
+  FUEL_EFFICIENCY: "FUEL_EFFICIENCY",
+  SAFETY_RECORD: "SAFETY_RECORD",
+  FLEET_SIZE: "FLEET_SIZE"
+} as const;
+
 // Add after the HierarchyLevel definition
 export const ApprovalLevel = {
   LEVEL_1: "Level 1", // Approval Authority/Dept Head
@@ -393,6 +524,9 @@ export const approvalWorkflows = pgTable("approval_workflows", {
   level_1_approver_id: integer("level_1_approver_id").references(() => employees.id),
   level_2_approver_id: integer("level_2_approver_id").references(() => employees.id),
   levels_required: varchar("levels_required", { length: 20 }).notNull().default("Level 1"),
+  // Hours an approver has to act before the booking escalates; null disables escalation
+  escalation_hours: integer("escalation_hours"),
+  escalation_target: varchar("escalation_target", { length: 30 }).notNull().default("Supervisor"),
   is_active: boolean("is_active").notNull().default(true),
   created_at: timestamp("created_at").notNull().defaultNow(),
   updated_at: timestamp("updated_at").notNull().defaultNow()
@@ -439,7 +573,13 @@ export const users = pgTable("users", {
   created_at: timestamp("created_at").notNull().defaultNow(),
   updated_at: timestamp("updated_at").notNull().defaultNow(),
   reset_token: text("reset_token"),
-  reset_token_expiry: timestamp("reset_token_expiry")
+  reset_token_expiry: timestamp("reset_token_expiry"),
+  // Consecutive failed sign-ins since the last success or lockout
+  failed_login_attempts: integer("failed_login_attempts").notNull().default(0),
+  // Lockouts since the last successful sign-in; each one doubles the next lockout
+  lockout_count: integer("lockout_count").notNull().default(0),
+  locked_until: timestamp("locked_until"),
+  password_changed_at: timestamp("password_changed_at").notNull().defaultNow()
 }, (table) => {
   return {
     // Create a composite index on country_code and mobile_number for efficient lookup
@@ -578,6 +718,103 @@ export const insertVehicleMasterSchema = createInsertSchema(vehicleMaster)
     is_pto_connected: z.enum(Object.values(YesNo) as [string, ...string[]]),
   });
 
+// Service work carried out on a vehicle; closed preventive orders reset its service interval
+export const maintenanceWorkOrders = pgTable("maintenance_work_orders", {
+  id: serial("id").primaryKey(),
+  vehicle_id: integer("vehicle_id").notNull().references(() => vehicleMaster.id),
+  work_order_type: text("work_order_type").notNull().default("preventive"),
+  status: text("status").notNull().default("open"),
+  service_plan: text("service_plan"),
+  description: text("description").notNull(),
+  odometer_reading: decimal("odometer_reading", { precision: 10, scale: 2 }),
+  cost: decimal("cost", { precision: 10, scale: 2 }),
+  notes: text("notes"),
+  opened_by: integer("opened_by").references(() => users.id),
+  opened_at: timestamp("opened_at").notNull().defaultNow(),
+  started_at: timestamp("started_at"),
+  closed_at: timestamp("closed_at"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    vehicle_id_idx: index("maintenance_work_orders_vehicle_id_idx").on(table.vehicle_id)
+  };
+});
+
+// Raised by the maintenance job when a vehicle comes within alert_before days/km of a service
+export const maintenanceAlerts = pgTable("maintenance_alerts", {
+  id: serial("id").primaryKey(),
+  vehicle_id: integer("vehicle_id").notNull().references(() => vehicleMaster.id),
+  alert_type: text("alert_type").notNull(),
+  due_date: timestamp("due_date"),
+  due_odometer: decimal("due_odometer", { precision: 10, scale: 2 }),
+  message: text("message").notNull(),
+  is_acknowledged: boolean("is_acknowledged").notNull().default(false),
+  acknowledged_by: integer("acknowledged_by").references(() => users.id),
+  acknowledged_at: timestamp("acknowledged_at"),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    vehicle_id_idx: index("maintenance_alerts_vehicle_id_idx").on(table.vehicle_id)
+  };
+});
+
+// Position and sensor reports sent by the tracking device fitted to a vehicle
+export const telematicsPings = pgTable("telematics_pings", {
+  id: serial("id").primaryKey(),
+  vehicle_id: integer("vehicle_id").notNull().references(() => vehicleMaster.id),
+  device_id: text("device_id").notNull(),
+  recorded_at: timestamp("recorded_at").notNull(),
+  lat: decimal("lat", { precision: 9, scale: 6 }).notNull(),
+  lng: decimal("lng", { precision: 9, scale: 6 }).notNull(),
+  speed: decimal("speed", { precision: 6, scale: 2 }),
+  heading: integer("heading"),
+  ignition: boolean("ignition"),
+  odometer: decimal("odometer", { precision: 10, scale: 2 }),
+  temperature: decimal("temperature", { precision: 5, scale: 2 }),
+  road_class: text("road_class"),
+  received_at: timestamp("received_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    vehicle_recorded_idx: index("telematics_pings_vehicle_recorded_idx").on(table.vehicle_id, table.recorded_at)
+  };
+});
+
+// Where each vehicle's last processed ping left off, so speeding and idling can span ping batches
+export const vehicleDrivingState = pgTable("vehicle_driving_state", {
+  vehicle_id: integer("vehicle_id").primaryKey().references(() => vehicleMaster.id),
+  last_recorded_at: timestamp("last_recorded_at").notNull(),
+  last_speed: decimal("last_speed", { precision: 6, scale: 2 }),
+  speeding_event_id: integer("speeding_event_id"),
+  idle_since: timestamp("idle_since"),
+  idle_event_id: integer("idle_event_id"),
+  updated_at: timestamp("updated_at").notNull().defaultNow()
+});
+
+// Over-speed, harsh acceleration/braking and idling detected from telematics, attributed to the
+// driver of the trip under way; peak_value is km/h, m/s² or idle minutes depending on the type
+export const drivingEvents = pgTable("driving_events", {
+  id: serial("id").primaryKey(),
+  vehicle_id: integer("vehicle_id").notNull().references(() => vehicleMaster.id),
+  driver_id: integer("driver_id").references(() => drivers.id),
+  booking_id: integer("booking_id").references(() => bookings.id),
+  event_type: text("event_type").notNull(),
+  severity: text("severity").notNull(),
+  started_at: timestamp("started_at").notNull(),
+  ended_at: timestamp("ended_at"),
+  peak_value: decimal("peak_value", { precision: 8, scale: 2 }).notNull(),
+  limit_value: decimal("limit_value", { precision: 8, scale: 2 }),
+  road_class: text("road_class"),
+  lat: decimal("lat", { precision: 9, scale: 6 }).notNull(),
+  lng: decimal("lng", { precision: 9, scale: 6 }).notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    vehicle_id_idx: index("driving_events_vehicle_id_idx").on(table.vehicle_id),
+    driver_started_idx: index("driving_events_driver_started_idx").on(table.driver_id, table.started_at)
+  };
+});
+
 export const vehicles = pgTable("vehicles", {
   id: serial("id").primaryKey(),
   group_id: integer("group_id").references(() => vehicleGroups.id),
@@ -638,6 +875,28 @@ export const drivers = pgTable("drivers", {
   updated_at: timestamp("updated_at").notNull().defaultNow()
 });
 
+// Planned shifts and leave per driver, with the actual clock-in/out recorded against them
+export const driverShifts = pgTable("driver_shifts", {
+  id: serial("id").primaryKey(),
+  driver_id: integer("driver_id").notNull().references(() => drivers.id),
+  shift_type: text("shift_type").notNull().default("regular"),
+  status: text("status").notNull().default("scheduled"),
+  planned_start: timestamp("planned_start").notNull(),
+  planned_end: timestamp("planned_end").notNull(),
+  breaks: json("breaks").$type<{ start: string; end: string }[]>().default([]),
+  clock_in: timestamp("clock_in"),
+  clock_out: timestamp("clock_out"),
+  notes: text("notes"),
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    driver_id_idx: index("driver_shifts_driver_id_idx").on(table.driver_id),
+    planned_start_idx: index("driver_shifts_planned_start_idx").on(table.planned_start)
+  };
+});
+
 export const locationsMaster = pgTable("locations_master", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -652,6 +911,57 @@ export const locationsMaster = pgTable("locations_master", {
   updated_at: timestamp("updated_at").notNull().defaultNow()
 });
 
+// Areas drawn on the map; a circle uses center and radius_m, a polygon its vertices in order
+export const geofences = pgTable("geofences", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  category: text("category").notNull().default("site"),
+  shape: text("shape").notNull(),
+  center: json("center").$type<{ lat: number; lng: number }>(),
+  radius_m: integer("radius_m"),
+  polygon: json("polygon").$type<{ lat: number; lng: number }[]>(),
+  location_id: integer("location_id").references(() => locationsMaster.id),
+  dwell_minutes: integer("dwell_minutes").notNull().default(15),
+  is_active: boolean("is_active").notNull().default(true),
+  created_by: integer("created_by").references(() => users.id),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow()
+});
+
+// Vehicles currently inside a geofence, so the next ping can tell an exit from staying put
+export const geofencePresence = pgTable("geofence_presence", {
+  id: serial("id").primaryKey(),
+  geofence_id: integer("geofence_id").notNull().references(() => geofences.id),
+  vehicle_id: integer("vehicle_id").notNull().references(() => vehicleMaster.id),
+  entered_at: timestamp("entered_at").notNull(),
+  dwell_reported: boolean("dwell_reported").notNull().default(false)
+}, (table) => {
+  return {
+    geofence_vehicle_unique: unique("geofence_presence_geofence_vehicle_unique").on(table.geofence_id, table.vehicle_id)
+  };
+});
+
+// Entry, exit and dwell events; entering a restricted zone also raises an alert to acknowledge
+export const geofenceEvents = pgTable("geofence_events", {
+  id: serial("id").primaryKey(),
+  geofence_id: integer("geofence_id").notNull().references(() => geofences.id),
+  vehicle_id: integer("vehicle_id").notNull().references(() => vehicleMaster.id),
+  event_type: text("event_type").notNull(),
+  occurred_at: timestamp("occurred_at").notNull(),
+  lat: decimal("lat", { precision: 9, scale: 6 }).notNull(),
+  lng: decimal("lng", { precision: 9, scale: 6 }).notNull(),
+  booking_id: integer("booking_id").references(() => bookings.id),
+  is_alert: boolean("is_alert").notNull().default(false),
+  acknowledged_by: integer("acknowledged_by").references(() => users.id),
+  acknowledged_at: timestamp("acknowledged_at"),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    vehicle_id_idx: index("geofence_events_vehicle_id_idx").on(table.vehicle_id),
+    geofence_id_idx: index("geofence_events_geofence_id_idx").on(table.geofence_id)
+  };
+});
+
 export const bookings = pgTable("bookings", {
   id: serial("id").primaryKey(),
   employee_id: integer("employee_id").notNull().references(() => employees.id),
@@ -693,18 +1003,158 @@ export const bookings = pgTable("bookings", {
   created_at: timestamp("created_at").notNull().defaultNow(),
   updated_at: timestamp("updated_at").notNull().defaultNow(),
   confirmed_at: timestamp("confirmed_at"),
+  // Set when the assigned vehicle enters a geofence around the pickup point
+  pickup_arrived_at: timestamp("pickup_arrived_at"),
+  // Set when the driver starts the trip
+  started_at: timestamp("started_at"),
   completed_at: timestamp("completed_at"),
   cancelled_at: timestamp("cancelled_at"),
 
   // Booking metadata
   total_distance: decimal("total_distance", { precision: 10, scale: 2 }),
   estimated_cost: decimal("estimated_cost", { precision: 10, scale: 2 }),
+  // Fuel and idle part of estimated_cost, the like-for-like counterpart of actual_cost
+  estimated_fuel_cost: decimal("estimated_fuel_cost", { precision: 10, scale: 2 }),
   actual_cost: decimal("actual_cost", { precision: 10, scale: 2 }),
   co2_emissions: decimal("co2_emissions", { precision: 10, scale: 2 }),
 
+  // Trip actuals reported by the driver on completion; total_distance and co2_emissions stay the estimates
+  start_odometer: decimal("start_odometer", { precision: 10, scale: 2 }),
+  end_odometer: decimal("end_odometer", { precision: 10, scale: 2 }),
+  fuel_used: decimal("fuel_used", { precision: 10, scale: 2 }),
+  actual_distance: decimal("actual_distance", { precision: 10, scale: 2 }),
+  actual_co2_emissions: decimal("actual_co2_emissions", { precision: 10, scale: 2 }),
+
   // Feedback and rating
   rating: integer("rating"),
   feedback: text("feedback"),
+
+  // Shared trip this booking was merged into, if any
+  merged_trip_id: integer("merged_trip_id").references(() => mergedTrips.id),
+
+  // Approval routing - set while the booking is waiting on an approver
+  approval_workflow_id: integer("approval_workflow_id").references(() => approvalWorkflows.id),
+  approval_level: text("approval_level"),
+  current_approver_id: integer("current_approver_id").references(() => employees.id),
+  approval_requested_at: timestamp("approval_requested_at"),
+});
+
+// Arrivals the driver reported during a trip; sequence is 0 for the pickup, the waypoint's
+// position plus one for waypoints, and one past the last waypoint for the dropoff
+export const tripStops = pgTable("trip_stops", {
+  id: serial("id").primaryKey(),
+  booking_id: integer("booking_id").notNull().references(() => bookings.id),
+  stop_type: text("stop_type").notNull(),
+  sequence: integer("sequence").notNull(),
+  arrived_at: timestamp("arrived_at").notNull(),
+  lat: decimal("lat", { precision: 9, scale: 6 }),
+  lng: decimal("lng", { precision: 9, scale: 6 }),
+  recorded_by: integer("recorded_by").references(() => users.id),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    unique_trip_stop_idx: unique("unique_trip_stop_idx").on(table.booking_id, table.sequence)
+  };
+});
+
+// Every booking status change with who made it and why, used for the booking timeline
+export const bookingStatusHistory = pgTable("booking_status_history", {
+  id: serial("id").primaryKey(),
+  booking_id: integer("booking_id").notNull().references(() => bookings.id),
+  previous_status: text("previous_status"),
+  status: text("status").notNull(),
+  changed_by: integer("changed_by").references(() => users.id),
+  reason: text("reason"),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    booking_id_idx: index("booking_status_history_booking_id_idx").on(table.booking_id)
+  };
+});
+
+// One row per approver decision on a booking, kept as the approval audit trail
+export const bookingApprovals = pgTable("booking_approvals", {
+  id: serial("id").primaryKey(),
+  booking_id: integer("booking_id").notNull().references(() => bookings.id),
+  workflow_id: integer("workflow_id").references(() => approvalWorkflows.id),
+  approval_level: text("approval_level").notNull(),
+  approver_id: integer("approver_id").notNull().references(() => employees.id),
+  decision: text("decision").notNull(),
+  comments: text("comments"),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    booking_id_idx: index("booking_approvals_booking_id_idx").on(table.booking_id)
+  };
+});
+
+// Shared trip record created when a dispatcher accepts a merge candidate
+export const mergedTrips = pgTable("merged_trips", {
+  id: serial("id").primaryKey(),
+  reference_no: text("reference_no").notNull().unique(),
+  booking_type: text("booking_type").notNull(),
+  status: text("status").notNull().default("active"),
+  score: decimal("score", { precision: 5, scale: 2 }),
+  total_passengers: integer("total_passengers").default(0),
+  total_weight: integer("total_weight").default(0),
+  pickup_distance_km: decimal("pickup_distance_km", { precision: 10, scale: 2 }),
+  dropoff_distance_km: decimal("dropoff_distance_km", { precision: 10, scale: 2 }),
+  detour_percent: decimal("detour_percent", { precision: 5, scale: 2 }),
+  distance_saved_km: decimal("distance_saved_km", { precision: 10, scale: 2 }),
+  accepted_by: integer("accepted_by").references(() => users.id),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow()
+});
+
+// Audit trail of vehicle/driver choices made by the dispatcher, with the reasons behind them
+export const dispatchDecisions = pgTable("dispatch_decisions", {
+  id: serial("id").primaryKey(),
+  booking_id: integer("booking_id").notNull().references(() => bookings.id),
+  vehicle_id: integer("vehicle_id").notNull().references(() => vehicles.id),
+  driver_id: integer("driver_id").references(() => drivers.id),
+  decision_type: text("decision_type").notNull().default("automatic"),
+  score: decimal("score", { precision: 6, scale: 2 }),
+  vehicle_distance_km: decimal("vehicle_distance_km", { precision: 10, scale: 2 }),
+  reasons: json("reasons").$type<string[]>().default([]),
+  decided_by: integer("decided_by").references(() => users.id),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    booking_id_idx: index("dispatch_decisions_booking_id_idx").on(table.booking_id)
+  };
+});
+
+// Date-ranged out-of-office periods; approvals arriving in the window go to the delegate.
+// A row without a delegate marks the approver unavailable and escalates instead.
+export const approverDelegations = pgTable("approver_delegations", {
+  id: serial("id").primaryKey(),
+  approver_id: integer("approver_id").notNull().references(() => employees.id),
+  delegate_id: integer("delegate_id").references(() => employees.id),
+  start_date: timestamp("start_date").notNull(),
+  end_date: timestamp("end_date").notNull(),
+  reason: text("reason"),
+  is_active: boolean("is_active").notNull().default(true),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    approver_id_idx: index("approver_delegations_approver_id_idx").on(table.approver_id)
+  };
+});
+
+// Log of approvals moved away from their approver, by SLA breach or absence
+export const approvalEscalations = pgTable("approval_escalations", {
+  id: serial("id").primaryKey(),
+  booking_id: integer("booking_id").notNull().references(() => bookings.id),
+  approval_level: text("approval_level").notNull(),
+  from_approver_id: integer("from_approver_id").references(() => employees.id),
+  to_approver_id: integer("to_approver_id").notNull().references(() => employees.id),
+  reason: text("reason").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    booking_id_idx: index("approval_escalations_booking_id_idx").on(table.booking_id)
+  };
 });
 
 export const otpVerifications = pgTable("otp_verifications", {
@@ -714,9 +1164,16 @@ export const otpVerifications = pgTable("otp_verifications", {
   type: text("type").notNull(),
   expires_at: timestamp("expires_at").notNull(),
   is_used: boolean("is_used").notNull().default(false),
+  // Wrong codes entered against this row
+  attempts: integer("attempts").notNull().default(0),
   created_at: timestamp("created_at").notNull().defaultNow()
 });
 
+export const OtpType = {
+  REGISTRATION: "REGISTRATION",
+  LOGIN: "LOGIN"
+} as const;
+
 export const bookingsRelations = relations(bookings, ({ one }) => ({
   vehicle: one(vehicles, {
     fields: [bookings.assigned_vehicle_id],
@@ -729,9 +1186,211 @@ export const bookingsRelations = relations(bookings, ({ one }) => ({
   employee: one(employees, {
     fields: [bookings.employee_id],
     references: [employees.id]
+  }),
+  mergedTrip: one(mergedTrips, {
+    fields: [bookings.merged_trip_id],
+    references: [mergedTrips.id]
+  }),
+  approvalWorkflow: one(approvalWorkflows, {
+    fields: [bookings.approval_workflow_id],
+    references: [approvalWorkflows.id]
+  }),
+  currentApprover: one(employees, {
+    fields: [bookings.current_approver_id],
+    references: [employees.id]
+  })
+}));
+
+export const bookingApprovalsRelations = relations(bookingApprovals, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [bookingApprovals.booking_id],
+    references: [bookings.id]
+  }),
+  approver: one(employees, {
+    fields: [bookingApprovals.approver_id],
+    references: [employees.id]
+  })
+}));
+
+// Merge eligibility thresholds; a rule without region and department is the default
+export const mergeRules = pgTable("merge_rules", {
+  id: serial("id").primaryKey(),
+  rule_name: varchar("rule_name", { length: 100 }).notNull(),
+  region: varchar("region", { length: 50 }),
+  department: varchar("department", { length: 50 }),
+  max_pickup_distance_km: decimal("max_pickup_distance_km", { precision: 10, scale: 2 }).notNull().default("3"),
+  max_dropoff_distance_km: decimal("max_dropoff_distance_km", { precision: 10, scale: 2 }).notNull().default("5"),
+  time_window_minutes: integer("time_window_minutes").notNull().default(30),
+  max_detour_percent: decimal("max_detour_percent", { precision: 5, scale: 2 }).notNull().default("25"),
+  is_active: boolean("is_active").notNull().default(true),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    unique_merge_rule_idx: unique("unique_merge_rule_idx").on(
+      table.region,
+      table.department
+    )
+  };
+});
+
+// Achievement definitions; target is in the criterion's unit (days, percent or vehicles) and
+// threshold is the per-day limit for criteria that need one
+export const achievements = pgTable("achievements", {
+  id: serial("id").primaryKey(),
+  code: varchar("code", { length: 50 }).notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  icon: text("icon").notNull(),
+  criteria: text("criteria").notNull(),
+  scope: text("scope").notNull().default("department"),
+  target: decimal("target", { precision: 10, scale: 2 }).notNull(),
+  threshold: decimal("threshold", { precision: 10, scale: 2 }),
+  window_days: integer("window_days").notNull().default(30),
+  badge_color: text("badge_color").notNull(),
+  is_active: boolean("is_active").notNull().default(true),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow()
+});
+
+// Latest evaluation of an achievement for one user (scope_key is the user ID) or department;
+// once unlocked an achievement stays unlocked even if progress later drops
+export const achievementProgress = pgTable("achievement_progress", {
+  id: serial("id").primaryKey(),
+  achievement_id: integer("achievement_id").notNull().references(() => achievements.id),
+  scope_type: text("scope_type").notNull(),
+  scope_key: text("scope_key").notNull(),
+  current_value: decimal("current_value", { precision: 12, scale: 2 }).notNull().default("0"),
+  progress: decimal("progress", { precision: 5, scale: 4 }).notNull().default("0"),
+  is_completed: boolean("is_completed").notNull().default(false),
+  unlocked_at: timestamp("unlocked_at"),
+  evaluated_at: timestamp("evaluated_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    unique_achievement_scope_idx: unique("unique_achievement_scope_idx").on(
+      table.achievement_id,
+      table.scope_type,
+      table.scope_key
+    )
+  };
+});
+
+// One row per user to announce an unlock to, cleared when the dashboard has shown it
+export const achievementNotifications = pgTable("achievement_notifications", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  achievement_id: integer("achievement_id").notNull().references(() => achievements.id),
+  unlocked_at: timestamp("unlocked_at").notNull(),
+  seen_at: timestamp("seen_at"),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    user_id_idx: index("achievement_notifications_user_id_idx").on(table.user_id)
+  };
+});
+
+// One row per signed-in device. Only hashes of refresh tokens are kept; the previous hash is
+// remembered so a replayed, already rotated token can be recognised and the session revoked.
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  refresh_token_hash: varchar("refresh_token_hash", { length: 64 }).notNull().unique(),
+  previous_token_hash: varchar("previous_token_hash", { length: 64 }),
+  user_agent: text("user_agent"),
+  ip_address: varchar("ip_address", { length: 64 }),
+  expires_at: timestamp("expires_at").notNull(),
+  last_used_at: timestamp("last_used_at").notNull().defaultNow(),
+  revoked_at: timestamp("revoked_at"),
+  revoked_reason: text("revoked_reason"),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    user_id_idx: index("user_sessions_user_id_idx").on(table.user_id),
+    previous_token_hash_idx: index("user_sessions_previous_token_hash_idx").on(table.previous_token_hash)
+  };
+});
+
+export const TwoFactorMethod = {
+  EMAIL: "EMAIL",
+  TOTP: "TOTP"
+} as const;
+
+// Second-factor enrollment per user. A new TOTP secret waits in pending_totp_secret until the
+// user proves their authenticator app produces matching codes. Failed codes of any kind count
+// towards locked_until.
+export const userTwoFactor = pgTable("user_two_factor", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().unique().references(() => users.id),
+  method: text("method").notNull().default(TwoFactorMethod.EMAIL),
+  is_enabled: boolean("is_enabled").notNull().default(false),
+  totp_secret: text("totp_secret"),
+  pending_totp_secret: text("pending_totp_secret"),
+  // Last accepted 30-second TOTP step, so a code cannot be replayed
+  last_totp_step: integer("last_totp_step"),
+  backup_code_hashes: text("backup_code_hashes").array().notNull().default([]),
+  failed_attempts: integer("failed_attempts").notNull().default(0),
+  locked_until: timestamp("locked_until"),
+  enabled_at: timestamp("enabled_at"),
+  created_at: timestamp("created_at").notNull().defaultNow(),
+  updated_at: timestamp("updated_at").notNull().defaultNow()
+});
+
+// Hashes of a user's earlier passwords, so a new password cannot repeat a recent one
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(),
+  user_id: integer("user_id").notNull().references(() => users.id),
+  password_hash: text("password_hash").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    user_id_idx: index("password_history_user_id_idx").on(table.user_id)
+  };
+});
+
+export const LoginAttemptOutcome = {
+  SUCCESS: "SUCCESS",
+  INVALID_PASSWORD: "INVALID_PASSWORD",
+  UNKNOWN_USER: "UNKNOWN_USER",
+  ACCOUNT_LOCKED: "ACCOUNT_LOCKED",
+  IP_BLOCKED: "IP_BLOCKED"
+} as const;
+
+// Audit trail of every password sign-in attempt. identifier is the username or email as typed;
+// user_id is only set when it matched an account.
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  identifier: text("identifier").notNull(),
+  user_id: integer("user_id").references(() => users.id),
+  ip_address: varchar("ip_address", { length: 64 }),
+  user_agent: text("user_agent"),
+  outcome: text("outcome").notNull(),
+  created_at: timestamp("created_at").notNull().defaultNow()
+}, (table) => {
+  return {
+    ip_created_idx: index("login_attempts_ip_created_idx").on(table.ip_address, table.created_at),
+    user_id_idx: index("login_attempts_user_id_idx").on(table.user_id)
+  };
+});
+
+export const dispatchDecisionsRelations = relations(dispatchDecisions, ({ one }) => ({
+  booking: one(bookings, {
+    fields: [dispatchDecisions.booking_id],
+    references: [bookings.id]
+  }),
+  vehicle: one(vehicles, {
+    fields: [dispatchDecisions.vehicle_id],
+    references: [vehicles.id]
+  }),
+  driver: one(drivers, {
+    fields: [dispatchDecisions.driver_id],
+    references: [drivers.id]
   })
 }));
 
+export const mergedTripsRelations = relations(mergedTrips, ({ many }) => ({
+  bookings: many(bookings)
+}));
+
 
 export const insertBookingSchema = createInsertSchema(bookings)
   .extend({
@@ -829,6 +1488,17 @@ export const insertBookingSchema = createInsertSchema(bookings)
     weight: z.number().optional()
   });
 
+// Complexity rules for every password a user sets, checked on the client and the server
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const passwordSchema = z.string()
+  .min(PASSWORD_MIN_LENGTH, `Password must be at least ${PASSWORD_MIN_LENGTH} characters`)
+  .max(128, "Password must be at most 128 characters")
+  .regex(/[A-Z]/, "Password must contain at least one uppercase letter")
+  .regex(/[a-z]/, "Password must contain at least one lowercase letter")
+  .regex(/[0-9]/, "Password must contain at least one number")
+  .regex(/[^A-Za-z0-9]/, "Password must contain at least one special character");
+
 // Update the user insert schema to match database columns exactly
 export const insertUserSchema = createInsertSchema(users)
   .extend({
@@ -841,7 +1511,7 @@ export const insertUserSchema = createInsertSchema(users)
     full_name: z.string().min(3, "Full name is required"),
     first_name: z.string().min(2,"First name must be at least 2 characters long"),
     last_name: z.string().min(2, "Last name must be at least 2 characters long"),
-    password: z.string().min(6, "Password must be at least 6 characters long"),
+    password: passwordSchema,
     is_active: z.boolean().optional(),
     country_code: z.string().optional(),
     mobile_number: z.string().optional(),
@@ -857,7 +1527,24 @@ export const insertOtpVerificationSchema = createInsertSchema(otpVerifications).
 });
 
 export const insertVehicleSchema = createInsertSchema(vehicles);
-export const insertDriverSchema = createInsertSchema(drivers);
+export const insertDriverSchema = createInsertSchema(drivers)
+  .omit({ id: true, created_at: true, updated_at: true })
+  .extend({
+    employee_id: z.string().min(1, "Employee ID is required"),
+    name: z.string().min(1, "Name is required"),
+    license_number: z.string().min(1, "License number is required"),
+    license_type: z.string().min(1, "License type is required"),
+    license_expiry: z.coerce.date(),
+    phone: z.string().min(1, "Phone is required"),
+    email: z.string().email("Invalid email address"),
+    status: z.enum(Object.values(DriverStatus) as [string, ...string[]]).default(DriverStatus.AVAILABLE),
+    current_location: locations,
+    specializations: z.array(z.string()).optional(),
+    preferred_vehicle_types: z.array(z.string()).nullable().optional(),
+    rating: z.coerce.number().int().min(1).max(5).nullable().optional(),
+    avatar_url: z.string().nullable().optional(),
+    is_active: z.boolean().optional()
+  });
 export const insertLocationMasterSchema = createInsertSchema(locationsMaster);
 
 // Update the vehicle group schema validation
@@ -886,7 +1573,158 @@ export const insertApprovalWorkflowSchema = createInsertSchema(approvalWorkflows
     unit: z.string().min(1, "Unit is required"),
     level_1_approver_id: z.number().positive("Level 1 approver is required"),
     level_2_approver_id: z.number().optional(),
-    levels_required: z.enum(Object.values(WorkflowLevels) as [string, ...string[]])
+    levels_required: z.enum(Object.values(WorkflowLevels) as [string, ...string[]]),
+    escalation_hours: z.coerce.number().int().positive("Escalation hours must be positive").nullable().optional(),
+    escalation_target: z.enum(Object.values(EscalationTarget) as [string, ...string[]]).optional()
+  });
+
+export const insertApproverDelegationSchema = createInsertSchema(approverDelegations)
+  .omit({ id: true, approver_id: true, created_at: true, updated_at: true })
+  .extend({
+    delegate_id: z.number().int().positive().nullable().optional(),
+    start_date: z.coerce.date(),
+    end_date: z.coerce.date(),
+    reason: z.string().optional()
+  })
+  .refine(data => data.end_date >= data.start_date, {
+    message: "End date must be on or after the start date",
+    path: ["end_date"]
+  });
+
+// Break times are stored as ISO strings inside the shift's breaks column
+export const insertWorkOrderSchema = createInsertSchema(maintenanceWorkOrders)
+  .omit({
+    id: true,
+    status: true,
+    opened_by: true,
+    opened_at: true,
+    started_at: true,
+    closed_at: true,
+    created_at: true,
+    updated_at: true
+  })
+  .extend({
+    vehicle_id: z.coerce.number().int().positive("Vehicle is required"),
+    work_order_type: z.enum(Object.values(WorkOrderType) as [string, ...string[]]).default(WorkOrderType.PREVENTIVE),
+    service_plan: z.string().optional(),
+    description: z.string().min(1, "Description is required"),
+    odometer_reading: z.coerce.number().min(0).optional().transform(value => value?.toString()),
+    cost: z.coerce.number().min(0).optional().transform(value => value?.toString()),
+    notes: z.string().optional()
+  });
+
+// Payload accepted from tracking devices; the device is matched to a vehicle by device_id
+export const telematicsPingSchema = z.object({
+  device_id: z.string().min(1, "Device ID is required"),
+  recorded_at: z.coerce.date(),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  speed: z.number().min(0).optional(),
+  heading: z.number().int().min(0).max(360).optional(),
+  ignition: z.boolean().optional(),
+  odometer: z.number().min(0).optional(),
+  temperature: z.number().optional(),
+  // Class of the road being driven, when the device's map matching reports it
+  road_class: z.enum(Object.values(RoadClass) as [string, ...string[]]).optional()
+});
+
+export const telematicsBatchSchema = z.object({
+  pings: z.array(telematicsPingSchema).min(1).max(500)
+});
+
+export const tripStartSchema = z.object({
+  start_odometer: z.number().min(0).optional()
+});
+
+export const tripArrivalSchema = z.object({
+  stop: z.enum(Object.values(TripStopType) as [string, ...string[]]),
+  // Position in the booking's waypoints, for waypoint arrivals
+  waypoint_index: z.number().int().min(0).optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional()
+}).refine(
+  (data) => data.stop !== TripStopType.WAYPOINT || data.waypoint_index !== undefined,
+  { message: "waypoint_index is required for waypoint arrivals", path: ["waypoint_index"] }
+);
+
+export const tripCompletionSchema = z.object({
+  // Only needed if it was not given when the trip started
+  start_odometer: z.number().min(0).optional(),
+  end_odometer: z.number().min(0),
+  fuel_used: z.number().min(0)
+});
+
+// Trip details priced before a booking is submitted; the vehicle is the assigned one, a
+// candidate type, or otherwise the cheapest type that fits the passengers
+export const costEstimateRequestSchema = z.object({
+  booking_type: z.string().min(1, "Booking type is required"),
+  pickup_location: locations,
+  dropoff_location: locations,
+  waypoints: z.array(locations).optional(),
+  trip_type: z.string().optional(),
+  with_driver: z.boolean().optional(),
+  num_passengers: z.number().int().min(0).optional(),
+  vehicle_type_id: z.number().int().positive().optional(),
+  vehicle_number: z.string().optional(),
+  pickup_time: z.coerce.date().optional(),
+  dropoff_time: z.coerce.date().optional()
+});
+
+// Second step of a sign-in that owes a second factor
+export const twoFactorVerifySchema = z.object({
+  challengeToken: z.string().min(1, "Challenge token is required"),
+  code: z.string().trim().min(6, "Code is required").max(20),
+  backupCode: z.boolean().optional()
+});
+
+const geofencePointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180)
+});
+
+export const insertGeofenceSchema = createInsertSchema(geofences)
+  .omit({ id: true, created_by: true, created_at: true, updated_at: true })
+  .extend({
+    name: z.string().min(1, "Name is required"),
+    category: z.enum(Object.values(GeofenceCategory) as [string, ...string[]]).default(GeofenceCategory.SITE),
+    shape: z.enum(Object.values(GeofenceShape) as [string, ...string[]]),
+    center: geofencePointSchema.nullable().optional(),
+    radius_m: z.coerce.number().int().positive().nullable().optional(),
+    polygon: z.array(geofencePointSchema).nullable().optional(),
+    location_id: z.coerce.number().int().positive().nullable().optional(),
+    dwell_minutes: z.coerce.number().int().min(1).default(15)
+  })
+  .refine(data => data.shape !== GeofenceShape.CIRCLE || (data.center && data.radius_m), {
+    message: "A circle needs a center and radius",
+    path: ["radius_m"]
+  })
+  .refine(data => data.shape !== GeofenceShape.POLYGON || (data.polygon && data.polygon.length >= 3), {
+    message: "A polygon needs at least three points",
+    path: ["polygon"]
+  });
+
+const shiftBreakSchema = z.object({
+  start: z.coerce.date().transform(date => date.toISOString()),
+  end: z.coerce.date().transform(date => date.toISOString())
+}).refine(data => new Date(data.end) > new Date(data.start), {
+  message: "Break must end after it starts",
+  path: ["end"]
+});
+
+export const insertDriverShiftSchema = createInsertSchema(driverShifts)
+  .omit({ id: true, clock_in: true, clock_out: true, created_by: true, created_at: true, updated_at: true })
+  .extend({
+    driver_id: z.coerce.number().int().positive("Driver is required"),
+    shift_type: z.enum(Object.values(DriverShiftType) as [string, ...string[]]).default(DriverShiftType.REGULAR),
+    status: z.enum(Object.values(DriverShiftStatus) as [string, ...string[]]).default(DriverShiftStatus.SCHEDULED),
+    planned_start: z.coerce.date(),
+    planned_end: z.coerce.date(),
+    breaks: z.array(shiftBreakSchema).default([]),
+    notes: z.string().optional()
+  })
+  .refine(data => data.planned_end > data.planned_start, {
+    message: "Shift must end after it starts",
+    path: ["planned_end"]
   });
 
 // Vehicle type master schema
@@ -952,6 +1790,25 @@ export const approvalWorkflowsRelations = relations(approvalWorkflows, ({ one })
   }),
 }));
 
+export const insertMergedTripSchema = createInsertSchema(mergedTrips)
+  .extend({
+    status: z.enum(Object.values(TripMergeStatus) as [string, ...string[]]).optional()
+  });
+
+export const insertMergeRuleSchema = createInsertSchema(mergeRules)
+  .extend({
+    rule_name: z.string().min(1, "Rule name is required").max(100),
+    region: z.enum(Object.values(Region) as [string, ...string[]]).nullable().optional(),
+    department: z.enum(Object.values(Department) as [string, ...string[]]).nullable().optional(),
+    max_pickup_distance_km: z.coerce.number().positive("Maximum pickup distance must be greater than 0"),
+    max_dropoff_distance_km: z.coerce.number().positive("Maximum dropoff distance must be greater than 0"),
+    time_window_minutes: z.coerce.number().int().positive("Time window must be greater than 0"),
+    max_detour_percent: z.coerce.number().positive("Maximum detour must be greater than 0").max(100),
+    is_active: z.boolean().optional(),
+    created_at: z.date().optional(),
+    updated_at: z.date().optional()
+  });
+
 // Keep existing schema exports
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -977,4 +1834,37 @@ export type InsertApprovalWorkflow = z.infer<typeof insertApprovalWorkflowSchema
 export type VehicleMaster = typeof vehicleMaster.$inferSelect;
 export type InsertVehicleMaster = z.infer<typeof insertVehicleMasterSchema>;
 // Add FuelType export
-export type FuelType = typeof fuelTypes.$inferSelect;
\ No newline at end of file
+export type FuelType = typeof fuelTypes.$inferSelect;
+export type MergedTrip = typeof mergedTrips.$inferSelect;
+export type InsertMergedTrip = z.infer<typeof insertMergedTripSchema>;
+export type MergeRule = typeof mergeRules.$inferSelect;
+export type InsertMergeRule = z.infer<typeof insertMergeRuleSchema>;
+export type DispatchDecision = typeof dispatchDecisions.$inferSelect;
+export type BookingApproval = typeof bookingApprovals.$inferSelect;
+export type ApproverDelegation = typeof approverDelegations.$inferSelect;
+export type InsertApproverDelegation = z.infer<typeof insertApproverDelegationSchema>;
+export type ApprovalEscalation = typeof approvalEscalations.$inferSelect;
+export type BookingStatusHistory = typeof bookingStatusHistory.$inferSelect;
+export type DriverShift = typeof driverShifts.$inferSelect;
+export type InsertDriverShift = z.infer<typeof insertDriverShiftSchema>;
+export type MaintenanceWorkOrder = typeof maintenanceWorkOrders.$inferSelect;
+export type InsertWorkOrder = z.infer<typeof insertWorkOrderSchema>;
+export type MaintenanceAlert = typeof maintenanceAlerts.$inferSelect;
+export type TelematicsPing = typeof telematicsPings.$inferSelect;
+export type TelematicsPingPayload = z.infer<typeof telematicsPingSchema>;
+export type Geofence = typeof geofences.$inferSelect;
+export type InsertGeofence = z.infer<typeof insertGeofenceSchema>;
+export type GeofenceEvent = typeof geofenceEvents.$inferSelect;
+export type DrivingEvent = typeof drivingEvents.$inferSelect;
+export type AchievementDefinition = typeof achievements.$inferSelect;
+export type AchievementProgress = typeof achievementProgress.$inferSelect;
+export type AchievementNotification = typeof achievementNotifications.$inferSelect;
+export type TripStop = typeof tripStops.$inferSelect;
+export type TripArrival = z.infer<typeof tripArrivalSchema>;
+export type TripCompletion = z.infer<typeof tripCompletionSchema>;
+export type CostEstimateRequest = z.infer<typeof costEstimateRequestSchema>;
+export type UserSession = typeof userSessions.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type TwoFactorVerifyRequest = z.infer<typeof twoFactorVerifySchema>;
+export type PasswordHistory = typeof passwordHistory.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
@@ -6,6 +6,10 @@ export const achievementSchema = z.object({
   description: z.string(),
   icon: z.string(),
   criteria: z.string(),
+  // Whether progress is the viewer's own or their department's
+  scope: z.string(),
+  currentValue: z.number(),
+  target: z.number(),
   progress: z.number(),
   isCompleted: z.boolean(),
   unlockedAt: z.string().nullable(),
@@ -14,11 +18,24 @@ export const achievementSchema = z.object({
 
 export type Achievement = z.infer<typeof achievementSchema>;
 
+// An unlock not yet shown to the user
+export const achievementUnlockSchema = z.object({
+  id: z.number(),
+  achievementId: z.number(),
+  name: z.string(),
+  description: z.string(),
+  badgeColor: z.string(),
+  unlockedAt: z.string(),
+});
+
+export type AchievementUnlock = z.infer<typeof achievementUnlockSchema>;
+
 export const insertAchievementSchema = achievementSchema.omit({ 
   id: true,
   isCompleted: true,
   unlockedAt: true,
   progress: true,
+  currentValue: true,
 });
 
 export type InsertAchievement = z.infer<typeof insertAchievementSchema>;
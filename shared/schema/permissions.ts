@@ -0,0 +1,97 @@
+export const Permission = {
+  BOOKINGS_VIEW: "bookings:view",
+  BOOKINGS_CREATE: "bookings:create",
+  // Status changes, deletion and trip merging on anyone's bookings
+  BOOKINGS_MANAGE: "bookings:manage",
+  // Acting on approvals; the approval service still checks the user is the assigned approver
+  BOOKINGS_APPROVE: "bookings:approve",
+  TRIPS_EXECUTE: "trips:execute",
+  DISPATCH_MANAGE: "dispatch:manage",
+  FLEET_VIEW: "fleet:view",
+  FLEET_MANAGE: "fleet:manage",
+  DRIVERS_MANAGE: "drivers:manage",
+  EMPLOYEES_VIEW: "employees:view",
+  EMPLOYEES_MANAGE: "employees:manage",
+  USERS_MANAGE: "users:manage",
+  WORKFLOWS_MANAGE: "workflows:manage",
+  FUEL_PRICES_MANAGE: "fuel-prices:manage",
+  REPORTS_VIEW: "reports:view",
+  // Running achievement evaluation on demand, which writes progress and unlocks for everyone
+  ACHIEVEMENTS_MANAGE: "achievements:manage",
+  SYSTEM_DEBUG: "system:debug",
+} as const;
+
+export type PermissionName = typeof Permission[keyof typeof Permission];
+
+// Roles after normalising user_type and user_operation_type; both fields are stored either as
+// the UserType/UserOperationType key ("ADMIN") or its label ("Admin")
+export const Role = {
+  ADMIN: "ADMIN",
+  MANAGEMENT: "MANAGEMENT",
+  SUPERVISOR: "SUPERVISOR",
+  OPERATOR: "OPERATOR",
+  EMPLOYEE: "EMPLOYEE",
+} as const;
+
+export type RoleName = typeof Role[keyof typeof Role];
+
+const ROLE_ALIASES: Record<string, RoleName> = {
+  ADMIN: Role.ADMIN,
+  MANAGEMENT: Role.MANAGEMENT,
+  SUPERVISOR: Role.SUPERVISOR,
+  OPERATOR: Role.OPERATOR,
+  OPERATIONS: Role.OPERATOR,
+  EMPLOYEE: Role.EMPLOYEE,
+  USER: Role.EMPLOYEE,
+};
+
+const EMPLOYEE_PERMISSIONS: PermissionName[] = [
+  Permission.BOOKINGS_VIEW,
+  Permission.BOOKINGS_CREATE,
+  Permission.BOOKINGS_APPROVE,
+  Permission.EMPLOYEES_VIEW,
+];
+
+export const ROLE_PERMISSIONS: Record<RoleName, PermissionName[]> = {
+  [Role.ADMIN]: Object.values(Permission),
+  [Role.MANAGEMENT]: [
+    ...EMPLOYEE_PERMISSIONS,
+    Permission.FLEET_VIEW,
+    Permission.REPORTS_VIEW,
+  ],
+  [Role.SUPERVISOR]: [
+    ...EMPLOYEE_PERMISSIONS,
+    Permission.BOOKINGS_MANAGE,
+    Permission.TRIPS_EXECUTE,
+    Permission.DISPATCH_MANAGE,
+    Permission.FLEET_VIEW,
+    Permission.DRIVERS_MANAGE,
+    Permission.REPORTS_VIEW,
+  ],
+  [Role.OPERATOR]: [
+    Permission.BOOKINGS_VIEW,
+    Permission.BOOKINGS_CREATE,
+    Permission.BOOKINGS_MANAGE,
+    Permission.TRIPS_EXECUTE,
+    Permission.DISPATCH_MANAGE,
+    Permission.FLEET_VIEW,
+    Permission.FLEET_MANAGE,
+    Permission.DRIVERS_MANAGE,
+    Permission.EMPLOYEES_VIEW,
+    Permission.FUEL_PRICES_MANAGE,
+  ],
+  [Role.EMPLOYEE]: EMPLOYEE_PERMISSIONS,
+};
+
+export function normalizeRole(value: string | null | undefined): RoleName | null {
+  if (!value) return null;
+  return ROLE_ALIASES[value.trim().toUpperCase()] ?? null;
+}
+
+// A user holds every permission granted by either their user type or their operation type
+export function getPermissionsForUser(user: { user_type: string; user_operation_type: string }): PermissionName[] {
+  const roles = [normalizeRole(user.user_type), normalizeRole(user.user_operation_type)]
+    .filter((role): role is RoleName => role !== null);
+  const granted = new Set(roles.flatMap(role => ROLE_PERMISSIONS[role]));
+  return Object.values(Permission).filter(permission => granted.has(permission));
+}